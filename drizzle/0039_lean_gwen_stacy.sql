@@ -0,0 +1,4 @@
+ALTER TABLE "advertiser_account" ADD COLUMN "region" text DEFAULT 'na' NOT NULL;--> statement-breakpoint
+-- Backfill the Ads API region for existing non-NA accounts from their country code
+UPDATE "advertiser_account" SET "region" = 'eu' WHERE upper("country_code") IN ('GB', 'UK', 'DE', 'FR', 'IT', 'ES', 'NL', 'SE', 'PL', 'BE', 'TR', 'AE', 'SA', 'EG', 'IN', 'ZA');--> statement-breakpoint
+UPDATE "advertiser_account" SET "region" = 'fe' WHERE upper("country_code") IN ('JP', 'AU', 'SG');
@@ -0,0 +1,8 @@
+CREATE TABLE "report_refresh_schedule" (
+	"account_id" text NOT NULL,
+	"aggregation" text NOT NULL,
+	"entity_type" text NOT NULL,
+	"offset_hours" integer[] NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "report_refresh_schedule_account_id_aggregation_entity_type_pk" PRIMARY KEY("account_id","aggregation","entity_type")
+);
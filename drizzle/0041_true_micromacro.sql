@@ -0,0 +1,12 @@
+CREATE TABLE "report_dataset_status_history" (
+	"uid" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"report_dataset_metadata_id" uuid NOT NULL,
+	"from_status" text NOT NULL,
+	"to_status" text NOT NULL,
+	"reason" text NOT NULL,
+	"report_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "report_dataset_status_history" ADD CONSTRAINT "report_dataset_status_history_report_dataset_metadata_id_report_dataset_metadata_uid_fk" FOREIGN KEY ("report_dataset_metadata_id") REFERENCES "public"."report_dataset_metadata"("uid") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "report_dataset_status_history_metadata_idx" ON "report_dataset_status_history" USING btree ("report_dataset_metadata_id","created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "report_dataset_metadata" ADD COLUMN "failure_reason" text;--> statement-breakpoint
+ALTER TABLE "report_dataset_metadata" ADD COLUMN "failed_attempts" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "performance_reconciliation" (
+	"account_id" text NOT NULL,
+	"bucket_date" date NOT NULL,
+	"campaign_id" text NOT NULL,
+	"stream_impressions" integer NOT NULL,
+	"stream_clicks" integer NOT NULL,
+	"stream_spend" numeric(10, 2) NOT NULL,
+	"stream_sales" numeric(10, 2) NOT NULL,
+	"stream_orders" integer NOT NULL,
+	"report_impressions" integer NOT NULL,
+	"report_clicks" integer NOT NULL,
+	"report_spend" numeric(10, 2) NOT NULL,
+	"report_sales" numeric(10, 2) NOT NULL,
+	"report_orders" integer NOT NULL,
+	"report_id" text,
+	"reconciled_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "performance_reconciliation_account_id_bucket_date_campaign_id_pk" PRIMARY KEY("account_id","bucket_date","campaign_id")
+);
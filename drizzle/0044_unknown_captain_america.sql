@@ -0,0 +1,6 @@
+ALTER TABLE "performance_daily" ADD COLUMN "source" text DEFAULT 'report' NOT NULL;--> statement-breakpoint
+ALTER TABLE "performance_daily" ADD COLUMN "report_id" text;--> statement-breakpoint
+ALTER TABLE "performance_daily" ADD COLUMN "source_as_of" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "performance_hourly" ADD COLUMN "source" text DEFAULT 'report' NOT NULL;--> statement-breakpoint
+ALTER TABLE "performance_hourly" ADD COLUMN "report_id" text;--> statement-breakpoint
+ALTER TABLE "performance_hourly" ADD COLUMN "source_as_of" timestamp with time zone;
\ No newline at end of file
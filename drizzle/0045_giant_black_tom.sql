@@ -0,0 +1,2 @@
+ALTER TABLE "performance_annual" ALTER COLUMN "spend" SET DATA TYPE numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "performance_monthly" ALTER COLUMN "spend" SET DATA TYPE numeric(10, 2);
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "stream_attribution_setting" (
+	"account_id" text PRIMARY KEY NOT NULL,
+	"attribution_window" text NOT NULL,
+	"same_sku" boolean NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "performance_daily" ADD COLUMN "attribution_window" text DEFAULT '14d' NOT NULL;--> statement-breakpoint
+ALTER TABLE "performance_daily" ADD COLUMN "attribution_same_sku" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "performance_hourly" ADD COLUMN "attribution_window" text DEFAULT '14d' NOT NULL;--> statement-breakpoint
+ALTER TABLE "performance_hourly" ADD COLUMN "attribution_same_sku" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,42 @@
+CREATE TABLE "performance_placement_daily" (
+	"account_id" text NOT NULL,
+	"bucket_start" timestamp with time zone NOT NULL,
+	"bucket_date" date NOT NULL,
+	"campaign_id" text NOT NULL,
+	"placement" text NOT NULL,
+	"impressions" integer NOT NULL,
+	"clicks" integer NOT NULL,
+	"spend" numeric(10, 2) NOT NULL,
+	"sales" numeric(10, 2) NOT NULL,
+	"orders" integer NOT NULL,
+	"source" text DEFAULT 'report' NOT NULL,
+	"report_id" text,
+	"source_as_of" timestamp with time zone,
+	"attribution_window" text DEFAULT '14d' NOT NULL,
+	"attribution_same_sku" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "performance_placement_daily_account_id_bucket_date_campaign_id_placement_pk" PRIMARY KEY("account_id","bucket_date","campaign_id","placement")
+);
+--> statement-breakpoint
+CREATE TABLE "performance_placement_hourly" (
+	"account_id" text NOT NULL,
+	"bucket_start" timestamp with time zone NOT NULL,
+	"bucket_date" date NOT NULL,
+	"bucket_hour" smallint NOT NULL,
+	"campaign_id" text NOT NULL,
+	"placement" text NOT NULL,
+	"impressions" integer NOT NULL,
+	"clicks" integer NOT NULL,
+	"spend" numeric(10, 2) NOT NULL,
+	"sales" numeric(10, 2) NOT NULL,
+	"orders" integer NOT NULL,
+	"source" text DEFAULT 'report' NOT NULL,
+	"report_id" text,
+	"source_as_of" timestamp with time zone,
+	"attribution_window" text DEFAULT '14d' NOT NULL,
+	"attribution_same_sku" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "performance_placement_hourly_account_id_bucket_start_campaign_id_placement_pk" PRIMARY KEY("account_id","bucket_start","campaign_id","placement")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_perf_placement_daily_campaign_date" ON "performance_placement_daily" USING btree ("campaign_id","bucket_date");--> statement-breakpoint
+CREATE INDEX "idx_perf_placement_hourly_campaign_time" ON "performance_placement_hourly" USING btree ("campaign_id","bucket_start");--> statement-breakpoint
+CREATE INDEX "idx_perf_placement_hourly_local" ON "performance_placement_hourly" USING btree ("account_id","bucket_date","bucket_hour");
\ No newline at end of file
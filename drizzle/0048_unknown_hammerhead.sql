@@ -0,0 +1,33 @@
+CREATE TABLE "bid_recommendation" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"rule_id" uuid NOT NULL,
+	"account_id" text NOT NULL,
+	"country_code" text NOT NULL,
+	"campaign_id" text NOT NULL,
+	"ad_group_id" text,
+	"target_id" text NOT NULL,
+	"current_bid" numeric(6, 2) NOT NULL,
+	"proposed_bid" numeric(6, 2) NOT NULL,
+	"metrics" jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"applied_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "bid_rule" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"account_id" text NOT NULL,
+	"name" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"lookback_days" integer DEFAULT 14 NOT NULL,
+	"conditions" jsonb NOT NULL,
+	"action" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bid_recommendation" ADD CONSTRAINT "bid_recommendation_rule_id_bid_rule_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."bid_rule"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bid_recommendation_account_status_idx" ON "bid_recommendation" USING btree ("account_id","status");--> statement-breakpoint
+CREATE INDEX "bid_recommendation_target_idx" ON "bid_recommendation" USING btree ("target_id");--> statement-breakpoint
+CREATE INDEX "bid_rule_account_idx" ON "bid_rule" USING btree ("account_id");
\ No newline at end of file
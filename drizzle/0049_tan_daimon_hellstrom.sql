@@ -0,0 +1,20 @@
+CREATE TABLE "entity_change" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"account_id" text,
+	"entity_type" text NOT NULL,
+	"entity_id" text NOT NULL,
+	"campaign_id" text NOT NULL,
+	"ad_group_id" text,
+	"field" text NOT NULL,
+	"old_value" numeric(10, 2),
+	"new_value" numeric(10, 2),
+	"source" text NOT NULL,
+	"changed_by" text,
+	"reason" text,
+	"changed_at" timestamp with time zone NOT NULL,
+	"recorded_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "entity_change_entity_idx" ON "entity_change" USING btree ("entity_type","entity_id","changed_at");--> statement-breakpoint
+CREATE INDEX "entity_change_account_idx" ON "entity_change" USING btree ("account_id","changed_at");--> statement-breakpoint
+CREATE INDEX "entity_change_campaign_idx" ON "entity_change" USING btree ("campaign_id","changed_at");
\ No newline at end of file
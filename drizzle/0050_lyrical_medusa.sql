@@ -0,0 +1,5 @@
+CREATE TABLE "budget_pacing_setting" (
+	"account_id" text PRIMARY KEY NOT NULL,
+	"alert_hour" smallint NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
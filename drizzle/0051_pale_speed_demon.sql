@@ -0,0 +1,42 @@
+CREATE TABLE "alert_channel" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"config" jsonb NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "alert_incident" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"rule_id" uuid NOT NULL,
+	"dedup_key" text NOT NULL,
+	"status" text DEFAULT 'firing' NOT NULL,
+	"message" text NOT NULL,
+	"details" jsonb,
+	"fired_at" timestamp with time zone NOT NULL,
+	"last_seen_at" timestamp with time zone NOT NULL,
+	"last_notified_at" timestamp with time zone,
+	"delivery_error" text,
+	"resolved_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "alert_rule" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"account_id" text,
+	"config" jsonb NOT NULL,
+	"channel_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"renotify_minutes" integer,
+	"snoozed_until" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "alert_incident" ADD CONSTRAINT "alert_incident_rule_id_alert_rule_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."alert_rule"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "alert_incident_rule_status_idx" ON "alert_incident" USING btree ("rule_id","status");--> statement-breakpoint
+CREATE INDEX "alert_incident_fired_idx" ON "alert_incident" USING btree ("fired_at");--> statement-breakpoint
+CREATE INDEX "alert_rule_account_idx" ON "alert_rule" USING btree ("account_id");
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE "digest_report" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"subscription_id" uuid,
+	"account_id" text NOT NULL,
+	"country_code" text NOT NULL,
+	"recipient" text NOT NULL,
+	"frequency" text NOT NULL,
+	"period_from" date NOT NULL,
+	"period_to" date NOT NULL,
+	"subject" text NOT NULL,
+	"html" text NOT NULL,
+	"text" text NOT NULL,
+	"attachments" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" text NOT NULL,
+	"error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "digest_subscription" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"account_id" text NOT NULL,
+	"country_code" text NOT NULL,
+	"recipient" text NOT NULL,
+	"frequency" text NOT NULL,
+	"send_hour" smallint DEFAULT 8 NOT NULL,
+	"channel_id" uuid NOT NULL,
+	"include_csv" boolean DEFAULT true NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "digest_report" ADD CONSTRAINT "digest_report_subscription_id_digest_subscription_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "public"."digest_subscription"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "digest_subscription" ADD CONSTRAINT "digest_subscription_channel_id_alert_channel_id_fk" FOREIGN KEY ("channel_id") REFERENCES "public"."alert_channel"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "digest_report_account_idx" ON "digest_report" USING btree ("account_id","created_at");--> statement-breakpoint
+CREATE INDEX "digest_report_subscription_period_idx" ON "digest_report" USING btree ("subscription_id","period_to");--> statement-breakpoint
+CREATE INDEX "digest_subscription_account_idx" ON "digest_subscription" USING btree ("account_id");
\ No newline at end of file
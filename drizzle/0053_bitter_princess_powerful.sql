@@ -0,0 +1,9 @@
+CREATE TABLE "ams_unrouted" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"dataset_id" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"received_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ams_metrics" ADD COLUMN "schema_version" smallint;--> statement-breakpoint
+CREATE INDEX "ams_unrouted_dataset_received_idx" ON "ams_unrouted" USING btree ("dataset_id","received_at");
\ No newline at end of file
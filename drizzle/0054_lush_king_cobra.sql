@@ -0,0 +1,93 @@
+CREATE TABLE "ams_sb_conversion" (
+	"idempotency_id" text NOT NULL,
+	"dataset_id" text NOT NULL,
+	"marketplace_id" text NOT NULL,
+	"currency" text NOT NULL,
+	"advertiser_id" text NOT NULL,
+	"campaign_id" text NOT NULL,
+	"ad_group_id" text NOT NULL,
+	"ad_id" text NOT NULL,
+	"keyword_id" text NOT NULL,
+	"time_window_start" timestamp with time zone NOT NULL,
+	"attributed_conversions_14d" bigint,
+	"attributed_sales_14d" double precision,
+	"attributed_units_ordered_14d" bigint,
+	"attributed_new_to_brand_purchases_14d" bigint,
+	"attributed_new_to_brand_sales_14d" double precision,
+	CONSTRAINT "ams_sb_conversion_idempotency_id_pk" PRIMARY KEY("idempotency_id")
+);
+--> statement-breakpoint
+CREATE TABLE "ams_sb_traffic" (
+	"idempotency_id" text NOT NULL,
+	"dataset_id" text NOT NULL,
+	"marketplace_id" text NOT NULL,
+	"currency" text NOT NULL,
+	"advertiser_id" text NOT NULL,
+	"campaign_id" text NOT NULL,
+	"ad_group_id" text NOT NULL,
+	"ad_id" text NOT NULL,
+	"keyword_id" text NOT NULL,
+	"keyword_text" text,
+	"match_type" text,
+	"time_window_start" timestamp with time zone NOT NULL,
+	"clicks" bigint NOT NULL,
+	"impressions" bigint NOT NULL,
+	"viewable_impressions" bigint,
+	"cost" double precision NOT NULL,
+	CONSTRAINT "ams_sb_traffic_idempotency_id_pk" PRIMARY KEY("idempotency_id")
+);
+--> statement-breakpoint
+CREATE TABLE "ams_sd_conversion" (
+	"idempotency_id" text NOT NULL,
+	"dataset_id" text NOT NULL,
+	"marketplace_id" text NOT NULL,
+	"currency" text NOT NULL,
+	"advertiser_id" text NOT NULL,
+	"campaign_id" text NOT NULL,
+	"ad_group_id" text NOT NULL,
+	"ad_id" text NOT NULL,
+	"target_id" text NOT NULL,
+	"time_window_start" timestamp with time zone NOT NULL,
+	"attributed_conversions_14d" bigint,
+	"attributed_sales_14d" double precision,
+	"attributed_units_ordered_14d" bigint,
+	"view_attributed_conversions_14d" bigint,
+	"view_attributed_sales_14d" double precision,
+	CONSTRAINT "ams_sd_conversion_idempotency_id_pk" PRIMARY KEY("idempotency_id")
+);
+--> statement-breakpoint
+CREATE TABLE "ams_sd_traffic" (
+	"idempotency_id" text NOT NULL,
+	"dataset_id" text NOT NULL,
+	"marketplace_id" text NOT NULL,
+	"currency" text NOT NULL,
+	"advertiser_id" text NOT NULL,
+	"campaign_id" text NOT NULL,
+	"ad_group_id" text NOT NULL,
+	"ad_id" text NOT NULL,
+	"target_id" text NOT NULL,
+	"cost_type" text,
+	"time_window_start" timestamp with time zone NOT NULL,
+	"clicks" bigint NOT NULL,
+	"impressions" bigint NOT NULL,
+	"view_impressions" bigint,
+	"cost" double precision NOT NULL,
+	CONSTRAINT "ams_sd_traffic_idempotency_id_pk" PRIMARY KEY("idempotency_id")
+);
+--> statement-breakpoint
+CREATE TABLE "ams_sp_budget_recommendations" (
+	"advertiser_id" text NOT NULL,
+	"marketplace_id" text NOT NULL,
+	"campaign_id" text NOT NULL,
+	"dataset_id" text NOT NULL,
+	"current_budget" double precision,
+	"suggested_budget" double precision NOT NULL,
+	"missed_opportunities" jsonb,
+	"recommended_at" timestamp with time zone NOT NULL,
+	CONSTRAINT "ams_sp_budget_recommendations_advertiser_id_marketplace_id_campaign_id_pk" PRIMARY KEY("advertiser_id","marketplace_id","campaign_id")
+);
+--> statement-breakpoint
+ALTER TABLE "performance_annual" ADD COLUMN "ad_product" text DEFAULT 'SPONSORED_PRODUCTS' NOT NULL;--> statement-breakpoint
+ALTER TABLE "performance_daily" ADD COLUMN "ad_product" text DEFAULT 'SPONSORED_PRODUCTS' NOT NULL;--> statement-breakpoint
+ALTER TABLE "performance_hourly" ADD COLUMN "ad_product" text DEFAULT 'SPONSORED_PRODUCTS' NOT NULL;--> statement-breakpoint
+ALTER TABLE "performance_monthly" ADD COLUMN "ad_product" text DEFAULT 'SPONSORED_PRODUCTS' NOT NULL;
\ No newline at end of file
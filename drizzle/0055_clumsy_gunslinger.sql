@@ -0,0 +1,7 @@
+-- Rows written before provenance was tracked were defaulted to 'report' by 0044, including stream rows.
+-- Every writer since sets source_as_of, so rows without it are marked legacy instead.
+UPDATE "performance_daily" SET "source" = 'legacy' WHERE "source_as_of" IS NULL;--> statement-breakpoint
+UPDATE "performance_hourly" SET "source" = 'legacy' WHERE "source_as_of" IS NULL;--> statement-breakpoint
+-- New rows must state their source
+ALTER TABLE "performance_daily" ALTER COLUMN "source" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "performance_hourly" ALTER COLUMN "source" DROP DEFAULT;
@@ -0,0 +1,11 @@
+ALTER TABLE "performance_daily" ADD COLUMN "matched_target_id" text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "performance_hourly" ADD COLUMN "matched_target_id" text DEFAULT '' NOT NULL;--> statement-breakpoint
+-- Search term rows were summed across the targets they matched. Drop them and refetch the reports so
+-- they come back split per matched target.
+DELETE FROM "performance_daily" WHERE "entity_type" = 'search_term';--> statement-breakpoint
+DELETE FROM "performance_hourly" WHERE "entity_type" = 'search_term';--> statement-breakpoint
+UPDATE "report_dataset_metadata" SET "last_report_created_at" = NULL, "next_refresh_at" = now() AT TIME ZONE 'utc' WHERE "entity_type" = 'searchTerm' AND "aggregation" IN ('hourly', 'daily') AND "report_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "performance_daily" DROP CONSTRAINT "performance_daily_account_id_bucket_date_ad_id_entity_type_entity_id_pk";--> statement-breakpoint
+ALTER TABLE "performance_hourly" DROP CONSTRAINT "performance_hourly_account_id_bucket_start_ad_id_entity_type_entity_id_pk";--> statement-breakpoint
+ALTER TABLE "performance_daily" ADD CONSTRAINT "performance_daily_account_id_bucket_date_ad_id_entity_type_entity_id_matched_target_id_pk" PRIMARY KEY("account_id","bucket_date","ad_id","entity_type","entity_id","matched_target_id");--> statement-breakpoint
+ALTER TABLE "performance_hourly" ADD CONSTRAINT "performance_hourly_account_id_bucket_start_ad_id_entity_type_entity_id_matched_target_id_pk" PRIMARY KEY("account_id","bucket_start","ad_id","entity_type","entity_id","matched_target_id");
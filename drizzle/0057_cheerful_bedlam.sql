@@ -0,0 +1,11 @@
+ALTER TABLE "performance_annual" ADD COLUMN "matched_target_id" text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "performance_monthly" ADD COLUMN "matched_target_id" text DEFAULT '' NOT NULL;--> statement-breakpoint
+-- Search term rows were summed across the targets they matched. Drop them and refetch the reports so
+-- they come back split per matched target.
+DELETE FROM "performance_annual" WHERE "entity_type" = 'search_term';--> statement-breakpoint
+DELETE FROM "performance_monthly" WHERE "entity_type" = 'search_term';--> statement-breakpoint
+UPDATE "report_dataset_metadata" SET "last_report_created_at" = NULL, "next_refresh_at" = now() AT TIME ZONE 'utc' WHERE "entity_type" = 'searchTerm' AND "aggregation" IN ('monthly', 'annual') AND "report_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "performance_annual" DROP CONSTRAINT "performance_annual_account_id_bucket_year_ad_id_entity_type_entity_id_pk";--> statement-breakpoint
+ALTER TABLE "performance_monthly" DROP CONSTRAINT "performance_monthly_account_id_bucket_month_ad_id_entity_type_entity_id_pk";--> statement-breakpoint
+ALTER TABLE "performance_annual" ADD CONSTRAINT "performance_annual_account_id_bucket_year_ad_id_entity_type_entity_id_matched_target_id_pk" PRIMARY KEY("account_id","bucket_year","ad_id","entity_type","entity_id","matched_target_id");--> statement-breakpoint
+ALTER TABLE "performance_monthly" ADD CONSTRAINT "performance_monthly_account_id_bucket_month_ad_id_entity_type_entity_id_matched_target_id_pk" PRIMARY KEY("account_id","bucket_month","ad_id","entity_type","entity_id","matched_target_id");
@@ -0,0 +1,3 @@
+ALTER TABLE "digest_report" ALTER COLUMN "subject" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "digest_report" ALTER COLUMN "html" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "digest_report" ALTER COLUMN "text" DROP NOT NULL;
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { chunkBatch, partitionBatchResults } from './batch-results';
+
+describe('partitionBatchResults', () => {
+    const inputs = ['a', 'b', 'c'];
+
+    it('pairs each input with its success or error by index', () => {
+        const results = partitionBatchResults(inputs, {
+            success: [
+                { index: 2, target: { targetId: 'c' } },
+                { index: 0, target: { targetId: 'a' } },
+            ],
+            error: [{ index: 1, errors: [{ message: 'Bid too low' }, { message: 'Target archived' }] }],
+        });
+
+        expect(results.succeeded.map(item => [item.index, item.input])).toEqual([
+            [0, 'a'],
+            [2, 'c'],
+        ]);
+        expect(results.failed).toEqual([{ index: 1, input: 'b', message: 'Bid too low; Target archived' }]);
+    });
+
+    it('fails items missing from both lists', () => {
+        const results = partitionBatchResults(inputs, { success: [{ index: 0 }], error: null });
+
+        expect(results.failed.map(item => item.input)).toEqual(['b', 'c']);
+    });
+});
+
+describe('chunkBatch', () => {
+    it('splits items into batches of at most the given size', () => {
+        expect(chunkBatch([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+        expect(chunkBatch([], 2)).toEqual([]);
+    });
+});
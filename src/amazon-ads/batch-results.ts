@@ -0,0 +1,74 @@
+/**
+ * Amazon Ads API - Batch Results
+ * Shared schemas and helpers for the create/update endpoints, which answer a batch request
+ * with per-item `success` and `error` lists matched to the request by `index`.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+export const batchErrorItemSchema = z.object({
+    index: z.number().int(),
+    errors: z.array(
+        z
+            .object({
+                code: z.string().optional(),
+                message: z.string(),
+            })
+            .passthrough()
+    ),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BatchErrorItem = z.infer<typeof batchErrorItemSchema>;
+
+export interface BatchResponse<S> {
+    success: Array<S & { index: number }>;
+    error: BatchErrorItem[] | null;
+}
+
+export interface BatchResults<I, S> {
+    succeeded: Array<{ index: number; input: I; result: S }>;
+    failed: Array<{ index: number; input: I; message: string }>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Pair each requested item with its outcome. Items missing from both lists count as failed so a
+ * partial response never reads as success.
+ */
+export function partitionBatchResults<I, S>(inputs: I[], response: BatchResponse<S>): BatchResults<I, S> {
+    const successes = new Map(response.success.map(item => [item.index, item]));
+    const errors = new Map((response.error ?? []).map(item => [item.index, item.errors.map(error => error.message).join('; ')]));
+
+    const results: BatchResults<I, S> = { succeeded: [], failed: [] };
+    for (const [index, input] of inputs.entries()) {
+        const success = successes.get(index);
+        if (success) {
+            results.succeeded.push({ index, input, result: success });
+            continue;
+        }
+        results.failed.push({ index, input, message: errors.get(index) ?? 'No result returned for this item' });
+    }
+    return results;
+}
+
+/**
+ * Split items into request-sized batches.
+ */
+export function chunkBatch<T>(items: T[], size: number): T[][] {
+    const batches: T[][] = [];
+    for (let start = 0; start < items.length; start += size) {
+        batches.push(items.slice(start, start + size));
+    }
+    return batches;
+}
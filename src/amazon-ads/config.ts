@@ -3,10 +3,55 @@
  * Shared configuration for Amazon Ads API endpoints
  */
 
-export type ApiRegion = 'na' | 'eu' | 'fe';
+export const API_REGIONS = ['na', 'eu', 'fe'] as const;
+export type ApiRegion = (typeof API_REGIONS)[number];
 
 /**
- * Gets the base URL for the Amazon Ads API based on the region
+ * Maps marketplace country codes to the Amazon Ads API region that serves them.
+ * See https://advertising.amazon.com/API/docs/en-us/reference/api-overview#api-endpoints
+ */
+export const COUNTRY_API_REGIONS: Record<string, ApiRegion> = {
+    // North America
+    US: 'na',
+    CA: 'na',
+    MX: 'na',
+    BR: 'na',
+
+    // Europe (including the Middle East and India)
+    GB: 'eu',
+    UK: 'eu',
+    DE: 'eu',
+    FR: 'eu',
+    IT: 'eu',
+    ES: 'eu',
+    NL: 'eu',
+    SE: 'eu',
+    PL: 'eu',
+    BE: 'eu',
+    TR: 'eu',
+    AE: 'eu',
+    SA: 'eu',
+    EG: 'eu',
+    IN: 'eu',
+    ZA: 'eu',
+
+    // Far East
+    JP: 'fe',
+    AU: 'fe',
+    SG: 'fe',
+};
+
+/**
+ * Get the Amazon Ads API region for a given country code.
+ * Returns 'na' as fallback if country code is not found.
+ */
+export function getApiRegionForCountry(countryCode: string): ApiRegion {
+    return COUNTRY_API_REGIONS[countryCode.toUpperCase()] ?? 'na';
+}
+
+/**
+ * Gets the base URL for the Amazon Ads API based on the region.
+ * ADS_API_BASE_URL_NA / _EU / _FE override the public endpoints (used to point tests at a fake API).
  * @param region - API region (default: 'na' for North America)
  * @returns The base URL for the specified region
  */
@@ -16,5 +61,5 @@ export function getApiBaseUrl(region: ApiRegion = 'na'): string {
         eu: 'https://advertising-api-eu.amazon.com',
         fe: 'https://advertising-api-fe.amazon.com',
     };
-    return baseUrls[region];
+    return process.env[`ADS_API_BASE_URL_${region.toUpperCase()}`] ?? baseUrls[region];
 }
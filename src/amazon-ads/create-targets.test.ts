@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { partitionBatchResults } from '@/amazon-ads/batch-results';
+import { createNegativeTargets, createTargets } from '@/amazon-ads/create-targets';
+import { type FakeAdsApi, startFakeAdsApi } from '@/amazon-ads/testing/fake-ads-api';
+
+vi.mock('@/amazon-ads/reauth', () => ({
+    refreshAccessToken: vi.fn(async () => 'fake-access-token'),
+}));
+
+vi.mock('@/utils/api-tracker', () => ({
+    withTracking: <T>(_options: unknown, fn: () => Promise<T>) => fn(),
+}));
+
+describe('createTargets against a fake server', () => {
+    let fakeApi: FakeAdsApi;
+
+    beforeAll(async () => {
+        process.env.ADS_API_CLIENT_ID = 'fake-client-id';
+        fakeApi = await startFakeAdsApi();
+        // Accepts keywords and rejects product targets, so batches come back partially successful
+        fakeApi.on('POST /adsApi/v1/create/targets', request => {
+            const { targets } = request.body as { targets: Array<{ targetType: string }> };
+            return {
+                body: {
+                    success: targets.flatMap((target, index) => (target.targetType === 'KEYWORD' ? [{ index, target: { targetId: `created-${index}` } }] : [])),
+                    error: targets.flatMap((target, index) => (target.targetType === 'KEYWORD' ? [] : [{ index, errors: [{ code: 'INVALID_ARGUMENT', message: 'Unsupported target' }] }])),
+                },
+            };
+        });
+    });
+
+    afterAll(async () => {
+        await fakeApi.close();
+    });
+
+    beforeEach(() => {
+        fakeApi.requests.length = 0;
+    });
+
+    it('reports the created and rejected targets separately', async () => {
+        const targets = [
+            { campaignId: 'campaign-1', adGroupId: 'ad-group-1', bid: 0.8, targetType: 'KEYWORD', matchType: 'EXACT', keyword: 'running shoes' },
+            { campaignId: 'campaign-1', adGroupId: 'ad-group-1', targetType: 'PRODUCT', matchType: 'PRODUCT_EXACT', asin: 'B000000001' },
+        ];
+
+        const response = await createTargets({ advertiserAccountId: 'amzn1.ads-account.g.test', targets });
+        const results = partitionBatchResults(targets, response);
+
+        expect(results.succeeded.map(item => item.result.target.targetId)).toEqual(['created-0']);
+        expect(results.failed).toEqual([{ index: 1, input: targets[1], message: 'Unsupported target' }]);
+        expect(fakeApi.requests[0]?.body).toMatchObject({
+            targets: [{ negative: false, state: 'ENABLED', bid: { bid: 0.8 }, targetDetails: { matchType: 'EXACT', keyword: 'running shoes' } }, { negative: false }],
+        });
+    });
+
+    it('creates campaign-level negatives without a bid', async () => {
+        await createNegativeTargets({
+            advertiserAccountId: 'amzn1.ads-account.g.test',
+            targets: [{ campaignId: 'campaign-1', targetType: 'KEYWORD', matchType: 'NEGATIVE_EXACT', keyword: 'free' }],
+        });
+
+        const body = fakeApi.requests[0]?.body as { targets: Record<string, unknown>[] };
+        const [target] = body.targets;
+        expect(target).toMatchObject({ negative: true, campaignId: 'campaign-1' });
+        expect(target).not.toHaveProperty('bid');
+        expect(target).not.toHaveProperty('adGroupId');
+    });
+
+    it('rejects positive targets without an ad group before calling the API', async () => {
+        await expect(
+            createTargets({ advertiserAccountId: 'amzn1.ads-account.g.test', targets: [{ campaignId: 'campaign-1', targetType: 'KEYWORD', matchType: 'EXACT', keyword: 'shoes' }] })
+        ).rejects.toThrow('Positive targets need an adGroupId');
+        expect(fakeApi.requests).toHaveLength(0);
+    });
+});
@@ -0,0 +1,178 @@
+/**
+ * Amazon Ads API - Create Targets Bridge
+ * Handles creating keyword and product targets, including negatives, via the Amazon Ads API
+ */
+
+import { z } from 'zod';
+import { withTracking } from '@/utils/api-tracker.js';
+import { batchErrorItemSchema } from './batch-results.js';
+import { type ApiRegion, getApiBaseUrl } from './config.js';
+import { refreshAccessToken } from './reauth.js';
+import { throttledFetch } from './throttled-fetch.js';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/** The API accepts at most this many targets per create request */
+export const MAX_TARGETS_PER_CREATE = 1000;
+
+const targetCreateSchema = z
+    .object({
+        adProduct: z.literal('SPONSORED_PRODUCTS'),
+        campaignId: z.string(),
+        adGroupId: z.string().optional(), // Omitted for campaign-level negatives
+        state: z.enum(['ENABLED', 'PAUSED']),
+        negative: z.boolean(),
+        bid: z
+            .object({
+                bid: z.number().positive(),
+            })
+            .optional(),
+        targetType: z.string(), // e.g., "KEYWORD", "PRODUCT"
+        targetDetails: z.object({
+            matchType: z.string(), // e.g., "EXACT", "PHRASE", "NEGATIVE_EXACT", "PRODUCT_EXACT"
+            keyword: z.string().optional(),
+            asin: z.string().optional(),
+        }),
+    })
+    .refine(target => !(target.negative && target.bid), { message: 'Negative targets cannot have a bid' })
+    .refine(target => target.negative || target.adGroupId !== undefined, { message: 'Positive targets need an adGroupId' });
+
+const createTargetsRequestSchema = z.object({
+    targets: z.array(targetCreateSchema).min(1).max(MAX_TARGETS_PER_CREATE),
+});
+
+const successItemSchema = z.object({
+    index: z.number().int(),
+    target: z
+        .object({
+            targetId: z.string(),
+        })
+        .passthrough(),
+});
+
+const createTargetsResponseSchema = z.object({
+    success: z.array(successItemSchema).default([]),
+    error: z.array(batchErrorItemSchema).nullable().default([]),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CreateTargetsRequest = z.infer<typeof createTargetsRequestSchema>;
+export type CreateTargetsResponse = z.infer<typeof createTargetsResponseSchema>;
+
+export interface NewTarget {
+    campaignId: string;
+    adGroupId?: string;
+    state?: 'ENABLED' | 'PAUSED'; // Defaults to ENABLED
+    bid?: number; // Falls back to the ad group default bid when omitted
+    targetType: string;
+    matchType: string;
+    keyword?: string;
+    asin?: string;
+}
+
+export interface CreateTargetsOptions {
+    advertiserAccountId: string; // Amazon-Ads-AccountId header
+    targets: NewTarget[];
+}
+
+export interface CreateNegativeTargetsOptions {
+    advertiserAccountId: string; // Amazon-Ads-AccountId header
+    targets: Omit<NewTarget, 'bid'>[];
+}
+
+// ============================================================================
+// API Bridge Functions
+// ============================================================================
+
+/**
+ * Creates Sponsored Products targets via the Amazon Ads API. Results are per target: use
+ * partitionBatchResults to match `success` and `error` back to the request.
+ * @param options - The advertiser account and the targets to create
+ * @param region - API region (default: 'na' for North America)
+ * @returns The per-target create results, with the new targetIds
+ */
+export async function createTargets(options: CreateTargetsOptions, region: ApiRegion = 'na'): Promise<CreateTargetsResponse> {
+    return sendCreateTargets(options.advertiserAccountId, options.targets, false, region);
+}
+
+/**
+ * Creates negative Sponsored Products targets via the Amazon Ads API. Targets without an
+ * adGroupId are created at the campaign level.
+ * @param options - The advertiser account and the negative targets to create
+ * @param region - API region (default: 'na' for North America)
+ * @returns The per-target create results, with the new targetIds
+ */
+export async function createNegativeTargets(options: CreateNegativeTargetsOptions, region: ApiRegion = 'na'): Promise<CreateTargetsResponse> {
+    return sendCreateTargets(options.advertiserAccountId, options.targets, true, region);
+}
+
+async function sendCreateTargets(advertiserAccountId: string, targets: NewTarget[], negative: boolean, region: ApiRegion): Promise<CreateTargetsResponse> {
+    return withTracking({ apiName: negative ? 'createNegativeTargets' : 'createTargets', region }, async () => {
+        const accessToken = await refreshAccessToken();
+        const clientId = process.env.ADS_API_CLIENT_ID;
+
+        if (!clientId) {
+            throw new Error('Missing ADS_API_CLIENT_ID environment variable');
+        }
+
+        const baseUrl = getApiBaseUrl(region);
+        const url = `${baseUrl}/adsApi/v1/create/targets`;
+
+        // Build request body
+        const requestBody: CreateTargetsRequest = {
+            targets: targets.map(target => ({
+                adProduct: 'SPONSORED_PRODUCTS',
+                campaignId: target.campaignId,
+                adGroupId: target.adGroupId,
+                state: target.state ?? 'ENABLED',
+                negative,
+                bid: !negative && target.bid !== undefined ? { bid: target.bid } : undefined,
+                targetType: target.targetType,
+                targetDetails: {
+                    matchType: target.matchType,
+                    keyword: target.keyword,
+                    asin: target.asin,
+                },
+            })),
+        };
+
+        // Validate request body
+        const validatedRequestBody = createTargetsRequestSchema.parse(requestBody);
+
+        const headers: Record<string, string> = {
+            'Amazon-Advertising-API-ClientId': clientId,
+            'Amazon-Ads-AccountId': advertiserAccountId,
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+        };
+
+        const response = await throttledFetch(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(validatedRequestBody),
+            signal: AbortSignal.timeout(30000),
+        });
+
+        // Store status code for tracking (even if error)
+        const statusCode = response.status;
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            const error = new Error(`Failed to create targets: ${response.status} ${response.statusText}. ${errorText}`);
+            // Attach status code to error for tracking
+            (error as Error & { statusCode?: number }).statusCode = statusCode;
+            throw error;
+        }
+
+        const jsonData = await response.json();
+        const result = createTargetsResponseSchema.parse(jsonData);
+        // Attach status code to result for tracking
+        (result as typeof result & { statusCode?: number }).statusCode = statusCode;
+        return result;
+    });
+}
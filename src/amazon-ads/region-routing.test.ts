@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getApiRegionForCountry } from '@/amazon-ads/config';
+import { createReport } from '@/amazon-ads/create-report';
+import { type FakeAdsApi, startFakeAdsApi } from '@/amazon-ads/testing/fake-ads-api';
+import { validateReportReady } from '@/lib/parse-report/validate-report-ready';
+import { getNextAction } from '@/lib/report-status-state-machine/state-machine';
+
+vi.mock('@/amazon-ads/reauth', () => ({
+    refreshAccessToken: vi.fn(async () => 'fake-access-token'),
+}));
+
+vi.mock('@/utils/api-tracker', () => ({
+    withTracking: <T>(_options: unknown, fn: () => Promise<T>) => fn(),
+}));
+
+const buildReport = (reportId: string, status: string) => ({
+    reportId,
+    status,
+    creationDateTime: '2026-01-05T10:00:00Z',
+    lastUpdatedDateTime: '2026-01-05T10:05:00Z',
+    format: 'GZIP_JSON',
+    periods: [{ datePeriod: { startDate: '2026-01-04', endDate: '2026-01-04' } }],
+    query: { fields: ['campaign.id'] },
+    linkedAccounts: [{ advertiserAccountId: 'amzn1.ads-account.g.test' }],
+    completedReportParts: status === 'COMPLETED' ? [{ sizeInBytes: 128, url: `https://reports.example.com/${reportId}.json.gz`, urlExpirationDateTime: '2026-01-05T11:00:00Z' }] : null,
+});
+
+describe('country to Ads API region mapping', () => {
+    it('routes each marketplace to the region that serves it', () => {
+        expect(getApiRegionForCountry('US')).toBe('na');
+        expect(getApiRegionForCountry('MX')).toBe('na');
+        expect(getApiRegionForCountry('GB')).toBe('eu');
+        expect(getApiRegionForCountry('de')).toBe('eu');
+        expect(getApiRegionForCountry('JP')).toBe('fe');
+        expect(getApiRegionForCountry('ZZ')).toBe('na');
+    });
+});
+
+describe('regional Ads API routing against a fake server', () => {
+    let fakeApi: FakeAdsApi;
+
+    beforeAll(async () => {
+        process.env.ADS_API_CLIENT_ID = 'fake-client-id';
+        fakeApi = await startFakeAdsApi();
+        fakeApi.on('POST /adsApi/v1/create/reports', () => ({ body: { error: null, success: [{ index: 0, report: buildReport('created-report', 'PENDING') }] } }));
+        fakeApi.on('POST /adsApi/v1/retrieve/reports', request => {
+            const [reportId] = (request.body as { reportIds: string[] }).reportIds;
+            return { body: { error: null, success: [{ index: 0, report: buildReport(reportId ?? '', 'COMPLETED') }] } };
+        });
+    });
+
+    afterAll(async () => {
+        await fakeApi.close();
+    });
+
+    beforeEach(() => {
+        fakeApi.requests.length = 0;
+    });
+
+    it('creates reports against the account region endpoint', async () => {
+        const response = await createReport(
+            {
+                accessRequestedAccounts: [{ advertiserAccountId: 'amzn1.ads-account.g.test' }],
+                reports: [{ format: 'GZIP_JSON', periods: [{ datePeriod: { startDate: '2026-01-04', endDate: '2026-01-04' } }], query: { fields: ['campaign.id'] } }],
+            },
+            getApiRegionForCountry('DE')
+        );
+
+        expect(response.success[0]?.report.reportId).toBe('created-report');
+        expect(fakeApi.requests).toHaveLength(1);
+        expect(fakeApi.requests[0]?.region).toBe('eu');
+        expect(fakeApi.requests[0]?.headers.authorization).toBe('Bearer fake-access-token');
+    });
+
+    it('polls report status in the region passed to the state machine', async () => {
+        const next = await getNextAction(new Date('2026-01-04T15:00:00Z'), 'daily', 'target', null, 'jp-report', 'JP', getApiRegionForCountry('JP'));
+
+        expect(next).toEqual({ action: 'process' });
+        expect(fakeApi.requests.map(r => `${r.region} ${r.path}`)).toEqual(['fe /adsApi/v1/retrieve/reports']);
+    });
+
+    it('resolves the download URLs from the account region', async () => {
+        const urls = await validateReportReady('gb-report', getApiRegionForCountry('GB'));
+
+        expect(urls).toEqual(['https://reports.example.com/gb-report.json.gz']);
+        expect(fakeApi.requests[0]?.region).toBe('eu');
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * Fake Amazon Ads API
+ * Local HTTP server standing in for the regional Ads API endpoints in tests.
+ * Each region is served under its own path prefix (/na, /eu, /fe) and wired up
+ * through the ADS_API_BASE_URL_* overrides read by getApiBaseUrl().
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { API_REGIONS, type ApiRegion } from '../config.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FakeAdsApiRequest {
+    region: ApiRegion;
+    method: string;
+    path: string;
+    headers: IncomingMessage['headers'];
+    body: unknown;
+}
+
+export interface FakeAdsApiResponse {
+    status?: number;
+    body: unknown;
+}
+
+export type FakeAdsApiHandler = (request: FakeAdsApiRequest) => FakeAdsApiResponse | Promise<FakeAdsApiResponse>;
+
+export interface FakeAdsApi {
+    /** Every request received, in arrival order */
+    requests: FakeAdsApiRequest[];
+    /** Registers a handler for a method + path (path excludes the region prefix), e.g. 'POST /adsApi/v1/create/reports' */
+    on(route: string, handler: FakeAdsApiHandler): void;
+    /** Stops the server and restores the base URL overrides */
+    close(): Promise<void>;
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/**
+ * Starts the fake API on a random local port and points every region's base URL at it.
+ * Unregistered routes respond with 404 so unexpected calls fail loudly.
+ */
+export async function startFakeAdsApi(): Promise<FakeAdsApi> {
+    const handlers = new Map<string, FakeAdsApiHandler>();
+    const requests: FakeAdsApiRequest[] = [];
+
+    const server: Server = createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const [, regionSegment, ...rest] = url.pathname.split('/');
+        const region = API_REGIONS.find(r => r === regionSegment);
+        const path = `/${rest.join('/')}`;
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+            chunks.push(chunk as Buffer);
+        }
+        const rawBody = Buffer.concat(chunks).toString();
+
+        if (!region) {
+            res.writeHead(404).end(`Unknown region prefix: ${regionSegment}`);
+            return;
+        }
+
+        const request: FakeAdsApiRequest = {
+            region,
+            method: req.method ?? 'GET',
+            path,
+            headers: req.headers,
+            body: rawBody ? JSON.parse(rawBody) : undefined,
+        };
+        requests.push(request);
+
+        const handler = handlers.get(`${request.method} ${path}`);
+        if (!handler) {
+            res.writeHead(404).end(`No fake handler for ${request.method} ${path}`);
+            return;
+        }
+
+        const response = await handler(request);
+        res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json' }).end(JSON.stringify(response.body));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const previousOverrides = new Map<string, string | undefined>();
+    for (const region of API_REGIONS) {
+        const key = `ADS_API_BASE_URL_${region.toUpperCase()}`;
+        previousOverrides.set(key, process.env[key]);
+        process.env[key] = `http://127.0.0.1:${port}/${region}`;
+    }
+
+    return {
+        requests,
+        on(route, handler) {
+            handlers.set(route, handler);
+        },
+        async close() {
+            for (const [key, value] of previousOverrides) {
+                if (value === undefined) {
+                    delete process.env[key];
+                } else {
+                    process.env[key] = value;
+                }
+            }
+            await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+        },
+    };
+}
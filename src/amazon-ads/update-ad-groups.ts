@@ -0,0 +1,135 @@
+/**
+ * Amazon Ads API - Update Ad Groups Bridge
+ * Handles updating ad group names, states and default bids via the Amazon Ads API
+ */
+
+import { z } from 'zod';
+import { withTracking } from '@/utils/api-tracker.js';
+import { batchErrorItemSchema } from './batch-results.js';
+import { type ApiRegion, getApiBaseUrl } from './config.js';
+import { refreshAccessToken } from './reauth.js';
+import { throttledFetch } from './throttled-fetch.js';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/** The API accepts at most this many ad groups per update request */
+export const MAX_AD_GROUPS_PER_UPDATE = 1000;
+
+const adGroupStateSchema = z.enum(['ENABLED', 'PAUSED', 'ARCHIVED']);
+
+const adGroupUpdateSchema = z
+    .object({
+        adGroupId: z.string(),
+        name: z.string().min(1).optional(),
+        state: adGroupStateSchema.optional(),
+        bid: z
+            .object({
+                defaultBid: z.number().positive(),
+            })
+            .optional(),
+    })
+    .refine(update => update.name !== undefined || update.state !== undefined || update.bid !== undefined, {
+        message: 'An ad group update needs a name, state or default bid',
+    });
+
+const updateAdGroupsRequestSchema = z.object({
+    adGroups: z.array(adGroupUpdateSchema).min(1).max(MAX_AD_GROUPS_PER_UPDATE),
+});
+
+const successItemSchema = z.object({
+    index: z.number().int(),
+    adGroup: z
+        .object({
+            adGroupId: z.string(),
+        })
+        .passthrough(),
+});
+
+const updateAdGroupsResponseSchema = z.object({
+    success: z.array(successItemSchema).default([]),
+    error: z.array(batchErrorItemSchema).nullable().default([]),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UpdateAdGroupsRequest = z.infer<typeof updateAdGroupsRequestSchema>;
+export type UpdateAdGroupsResponse = z.infer<typeof updateAdGroupsResponseSchema>;
+export type AdGroupState = z.infer<typeof adGroupStateSchema>;
+
+export interface UpdateAdGroupsOptions {
+    advertiserAccountId: string; // Amazon-Ads-AccountId header
+    adGroups: Array<{ adGroupId: string; name?: string; state?: AdGroupState; defaultBid?: number }>;
+}
+
+// ============================================================================
+// API Bridge Function
+// ============================================================================
+
+/**
+ * Updates ad groups via the Amazon Ads API. Results are per ad group: use
+ * partitionBatchResults to match `success` and `error` back to the request.
+ * @param options - The advertiser account and the changes for each ad group
+ * @param region - API region (default: 'na' for North America)
+ * @returns The per-ad-group update results
+ */
+export async function updateAdGroups(options: UpdateAdGroupsOptions, region: ApiRegion = 'na'): Promise<UpdateAdGroupsResponse> {
+    return withTracking({ apiName: 'updateAdGroups', region }, async () => {
+        const accessToken = await refreshAccessToken();
+        const clientId = process.env.ADS_API_CLIENT_ID;
+
+        if (!clientId) {
+            throw new Error('Missing ADS_API_CLIENT_ID environment variable');
+        }
+
+        const baseUrl = getApiBaseUrl(region);
+        const url = `${baseUrl}/adsApi/v1/update/adGroups`;
+
+        // Build request body
+        const requestBody: UpdateAdGroupsRequest = {
+            adGroups: options.adGroups.map(adGroup => ({
+                adGroupId: adGroup.adGroupId,
+                name: adGroup.name,
+                state: adGroup.state,
+                bid: adGroup.defaultBid !== undefined ? { defaultBid: adGroup.defaultBid } : undefined,
+            })),
+        };
+
+        // Validate request body
+        const validatedRequestBody = updateAdGroupsRequestSchema.parse(requestBody);
+
+        const headers: Record<string, string> = {
+            'Amazon-Advertising-API-ClientId': clientId,
+            'Amazon-Ads-AccountId': options.advertiserAccountId,
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+        };
+
+        const response = await throttledFetch(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(validatedRequestBody),
+            signal: AbortSignal.timeout(30000),
+        });
+
+        // Store status code for tracking (even if error)
+        const statusCode = response.status;
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            const error = new Error(`Failed to update ad groups: ${response.status} ${response.statusText}. ${errorText}`);
+            // Attach status code to error for tracking
+            (error as Error & { statusCode?: number }).statusCode = statusCode;
+            throw error;
+        }
+
+        const jsonData = await response.json();
+        const result = updateAdGroupsResponseSchema.parse(jsonData);
+        // Attach status code to result for tracking
+        (result as typeof result & { statusCode?: number }).statusCode = statusCode;
+        return result;
+    });
+}
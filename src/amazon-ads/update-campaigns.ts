@@ -0,0 +1,149 @@
+/**
+ * Amazon Ads API - Update Campaigns Bridge
+ * Handles updating campaign names, states, end dates and daily budgets via the Amazon Ads API
+ */
+
+import { z } from 'zod';
+import { withTracking } from '@/utils/api-tracker.js';
+import { batchErrorItemSchema } from './batch-results.js';
+import { type ApiRegion, getApiBaseUrl } from './config.js';
+import { refreshAccessToken } from './reauth.js';
+import { throttledFetch } from './throttled-fetch.js';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/** The API accepts at most this many campaigns per update request */
+export const MAX_CAMPAIGNS_PER_UPDATE = 1000;
+
+const campaignStateSchema = z.enum(['ENABLED', 'PAUSED', 'ARCHIVED']);
+
+// Same shape as budgetCaps in the campaign export
+const budgetCapsSchema = z.object({
+    recurrenceTimePeriod: z.literal('DAILY'),
+    budgetType: z.literal('MONETARY'),
+    budgetValue: z.object({
+        monetaryBudget: z.object({
+            amount: z.number().positive(),
+        }),
+    }),
+});
+
+const campaignUpdateSchema = z
+    .object({
+        campaignId: z.string(),
+        name: z.string().min(1).optional(),
+        state: campaignStateSchema.optional(),
+        endDate: z
+            .string()
+            .regex(/^\d{4}-\d{2}-\d{2}$/)
+            .nullable()
+            .optional(), // YYYY-MM-DD, null removes the end date
+        budgetCaps: budgetCapsSchema.optional(),
+    })
+    .refine(update => update.name !== undefined || update.state !== undefined || update.endDate !== undefined || update.budgetCaps !== undefined, {
+        message: 'A campaign update needs a name, state, end date or budget',
+    });
+
+const updateCampaignsRequestSchema = z.object({
+    campaigns: z.array(campaignUpdateSchema).min(1).max(MAX_CAMPAIGNS_PER_UPDATE),
+});
+
+const successItemSchema = z.object({
+    index: z.number().int(),
+    campaign: z
+        .object({
+            campaignId: z.string(),
+        })
+        .passthrough(),
+});
+
+const updateCampaignsResponseSchema = z.object({
+    success: z.array(successItemSchema).default([]),
+    error: z.array(batchErrorItemSchema).nullable().default([]),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UpdateCampaignsRequest = z.infer<typeof updateCampaignsRequestSchema>;
+export type UpdateCampaignsResponse = z.infer<typeof updateCampaignsResponseSchema>;
+export type CampaignState = z.infer<typeof campaignStateSchema>;
+
+export interface UpdateCampaignsOptions {
+    advertiserAccountId: string; // Amazon-Ads-AccountId header
+    campaigns: Array<{ campaignId: string; name?: string; state?: CampaignState; endDate?: string | null; dailyBudget?: number }>;
+}
+
+// ============================================================================
+// API Bridge Function
+// ============================================================================
+
+/**
+ * Updates campaigns via the Amazon Ads API. Results are per campaign: use
+ * partitionBatchResults to match `success` and `error` back to the request.
+ * @param options - The advertiser account and the changes for each campaign
+ * @param region - API region (default: 'na' for North America)
+ * @returns The per-campaign update results
+ */
+export async function updateCampaigns(options: UpdateCampaignsOptions, region: ApiRegion = 'na'): Promise<UpdateCampaignsResponse> {
+    return withTracking({ apiName: 'updateCampaigns', region }, async () => {
+        const accessToken = await refreshAccessToken();
+        const clientId = process.env.ADS_API_CLIENT_ID;
+
+        if (!clientId) {
+            throw new Error('Missing ADS_API_CLIENT_ID environment variable');
+        }
+
+        const baseUrl = getApiBaseUrl(region);
+        const url = `${baseUrl}/adsApi/v1/update/campaigns`;
+
+        // Build request body
+        const requestBody: UpdateCampaignsRequest = {
+            campaigns: options.campaigns.map(campaign => ({
+                campaignId: campaign.campaignId,
+                name: campaign.name,
+                state: campaign.state,
+                endDate: campaign.endDate,
+                budgetCaps:
+                    campaign.dailyBudget !== undefined ? { recurrenceTimePeriod: 'DAILY', budgetType: 'MONETARY', budgetValue: { monetaryBudget: { amount: campaign.dailyBudget } } } : undefined,
+            })),
+        };
+
+        // Validate request body
+        const validatedRequestBody = updateCampaignsRequestSchema.parse(requestBody);
+
+        const headers: Record<string, string> = {
+            'Amazon-Advertising-API-ClientId': clientId,
+            'Amazon-Ads-AccountId': options.advertiserAccountId,
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+        };
+
+        const response = await throttledFetch(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(validatedRequestBody),
+            signal: AbortSignal.timeout(30000),
+        });
+
+        // Store status code for tracking (even if error)
+        const statusCode = response.status;
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            const error = new Error(`Failed to update campaigns: ${response.status} ${response.statusText}. ${errorText}`);
+            // Attach status code to error for tracking
+            (error as Error & { statusCode?: number }).statusCode = statusCode;
+            throw error;
+        }
+
+        const jsonData = await response.json();
+        const result = updateCampaignsResponseSchema.parse(jsonData);
+        // Attach status code to result for tracking
+        (result as typeof result & { statusCode?: number }).statusCode = statusCode;
+        return result;
+    });
+}
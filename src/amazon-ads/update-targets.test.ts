@@ -0,0 +1,67 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type FakeAdsApi, startFakeAdsApi } from '@/amazon-ads/testing/fake-ads-api';
+import { updateTargets } from '@/amazon-ads/update-targets';
+
+vi.mock('@/amazon-ads/reauth', () => ({
+    refreshAccessToken: vi.fn(async () => 'fake-access-token'),
+}));
+
+vi.mock('@/utils/api-tracker', () => ({
+    withTracking: <T>(_options: unknown, fn: () => Promise<T>) => fn(),
+}));
+
+describe('updateTargets against a fake server', () => {
+    let fakeApi: FakeAdsApi;
+
+    beforeAll(async () => {
+        process.env.ADS_API_CLIENT_ID = 'fake-client-id';
+        fakeApi = await startFakeAdsApi();
+    });
+
+    afterAll(async () => {
+        await fakeApi.close();
+    });
+
+    beforeEach(() => {
+        fakeApi.requests.length = 0;
+    });
+
+    it('sends each bid to the account region and returns per-target results', async () => {
+        fakeApi.on('POST /adsApi/v1/update/targets', () => ({
+            body: {
+                success: [{ index: 0, target: { targetId: 'target-1' } }],
+                error: [{ index: 1, errors: [{ code: 'INVALID_ARGUMENT', message: 'Bid is below the minimum' }] }],
+            },
+        }));
+
+        const response = await updateTargets(
+            {
+                advertiserAccountId: 'amzn1.ads-account.g.test',
+                targets: [
+                    { targetId: 'target-1', bid: 1.25 },
+                    { targetId: 'target-2', bid: 0.01 },
+                ],
+            },
+            'eu'
+        );
+
+        expect(response.success.map(item => item.target.targetId)).toEqual(['target-1']);
+        expect(response.error?.[0]?.errors[0]?.message).toBe('Bid is below the minimum');
+
+        const [request] = fakeApi.requests;
+        expect(request?.region).toBe('eu');
+        expect(request?.headers['amazon-ads-accountid']).toBe('amzn1.ads-account.g.test');
+        expect(request?.body).toEqual({
+            targets: [
+                { targetId: 'target-1', bid: { bid: 1.25 } },
+                { targetId: 'target-2', bid: { bid: 0.01 } },
+            ],
+        });
+    });
+
+    it('throws with the status code when the request is rejected', async () => {
+        fakeApi.on('POST /adsApi/v1/update/targets', () => ({ status: 403, body: { message: 'Forbidden' } }));
+
+        await expect(updateTargets({ advertiserAccountId: 'amzn1.ads-account.g.test', targets: [{ targetId: 'target-1', bid: 1 }] })).rejects.toMatchObject({ statusCode: 403 });
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * Amazon Ads API - Update Targets Bridge
+ * Handles updating target bids and states via the Amazon Ads API
+ */
+
+import { z } from 'zod';
+import { withTracking } from '@/utils/api-tracker.js';
+import { batchErrorItemSchema } from './batch-results.js';
+import { type ApiRegion, getApiBaseUrl } from './config.js';
+import { refreshAccessToken } from './reauth.js';
+import { throttledFetch } from './throttled-fetch.js';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/** The API accepts at most this many targets per update request */
+export const MAX_TARGETS_PER_UPDATE = 1000;
+
+const targetStateSchema = z.enum(['ENABLED', 'PAUSED', 'ARCHIVED']);
+
+const targetUpdateSchema = z
+    .object({
+        targetId: z.string(),
+        state: targetStateSchema.optional(),
+        bid: z
+            .object({
+                bid: z.number().positive(),
+            })
+            .optional(),
+    })
+    .refine(update => update.state !== undefined || update.bid !== undefined, { message: 'A target update needs a bid or a state' });
+
+const updateTargetsRequestSchema = z.object({
+    targets: z.array(targetUpdateSchema).min(1).max(MAX_TARGETS_PER_UPDATE),
+});
+
+const successItemSchema = z.object({
+    index: z.number().int(),
+    target: z
+        .object({
+            targetId: z.string(),
+        })
+        .passthrough(),
+});
+
+const updateTargetsResponseSchema = z.object({
+    success: z.array(successItemSchema).default([]),
+    error: z.array(batchErrorItemSchema).nullable().default([]),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UpdateTargetsRequest = z.infer<typeof updateTargetsRequestSchema>;
+export type UpdateTargetsResponse = z.infer<typeof updateTargetsResponseSchema>;
+export type TargetState = z.infer<typeof targetStateSchema>;
+
+export interface UpdateTargetsOptions {
+    advertiserAccountId: string; // Amazon-Ads-AccountId header
+    targets: Array<{ targetId: string; bid?: number; state?: TargetState }>;
+}
+
+// ============================================================================
+// API Bridge Function
+// ============================================================================
+
+/**
+ * Updates target bids and states via the Amazon Ads API. Results are per target: use
+ * partitionBatchResults to match `success` and `error` back to the request.
+ * @param options - The advertiser account and the new bid and/or state for each target
+ * @param region - API region (default: 'na' for North America)
+ * @returns The per-target update results
+ */
+export async function updateTargets(options: UpdateTargetsOptions, region: ApiRegion = 'na'): Promise<UpdateTargetsResponse> {
+    return withTracking({ apiName: 'updateTargets', region }, async () => {
+        const accessToken = await refreshAccessToken();
+        const clientId = process.env.ADS_API_CLIENT_ID;
+
+        if (!clientId) {
+            throw new Error('Missing ADS_API_CLIENT_ID environment variable');
+        }
+
+        const baseUrl = getApiBaseUrl(region);
+        const url = `${baseUrl}/adsApi/v1/update/targets`;
+
+        // Build request body
+        const requestBody: UpdateTargetsRequest = {
+            targets: options.targets.map(target => ({
+                targetId: target.targetId,
+                state: target.state,
+                bid: target.bid !== undefined ? { bid: target.bid } : undefined,
+            })),
+        };
+
+        // Validate request body
+        const validatedRequestBody = updateTargetsRequestSchema.parse(requestBody);
+
+        const headers: Record<string, string> = {
+            'Amazon-Advertising-API-ClientId': clientId,
+            'Amazon-Ads-AccountId': options.advertiserAccountId,
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+        };
+
+        const response = await throttledFetch(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(validatedRequestBody),
+            signal: AbortSignal.timeout(30000),
+        });
+
+        // Store status code for tracking (even if error)
+        const statusCode = response.status;
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            const error = new Error(`Failed to update targets: ${response.status} ${response.statusText}. ${errorText}`);
+            // Attach status code to error for tracking
+            (error as Error & { statusCode?: number }).statusCode = statusCode;
+            throw error;
+        }
+
+        const jsonData = await response.json();
+        const result = updateTargetsResponseSchema.parse(jsonData);
+        // Attach status code to result for tracking
+        (result as typeof result & { statusCode?: number }).statusCode = statusCode;
+        return result;
+    });
+}
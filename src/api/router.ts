@@ -1,13 +1,29 @@
 import { accountsRouter } from './routers/accounts.js';
+import { alertsRouter } from './routers/alerts.js';
+import { bidRulesRouter } from './routers/bid-rules.js';
+import { budgetsRouter } from './routers/budgets.js';
+import { changesRouter } from './routers/changes.js';
+import { digestsRouter } from './routers/digests.js';
+import { entitiesRouter } from './routers/entities.js';
 import { metricsRouter } from './routers/metrics.js';
+import { performanceRouter } from './routers/performance.js';
 import { reportsRouter } from './routers/reports.js';
+import { schedulesRouter } from './routers/schedules.js';
 import { workerRouter } from './routers/worker.js';
 import { router } from './trpc.js';
 
 export const appRouter = router({
     reports: reportsRouter,
     accounts: accountsRouter,
+    alerts: alertsRouter,
+    bidRules: bidRulesRouter,
+    budgets: budgetsRouter,
+    changes: changesRouter,
+    digests: digestsRouter,
+    entities: entitiesRouter,
     metrics: metricsRouter,
+    performance: performanceRouter,
+    schedules: schedulesRouter,
     worker: workerRouter,
 });
 
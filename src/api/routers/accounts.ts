@@ -1,8 +1,11 @@
 import { and, eq } from 'drizzle-orm';
 import { z } from 'zod';
+import { getApiRegionForCountry } from '@/amazon-ads/config';
 import { db } from '@/db/index';
 import { advertiserAccount } from '@/db/schema';
 import { syncAdEntitiesJob } from '@/jobs/sync-ad-entities';
+import { getStreamAttribution, saveStreamAttribution } from '@/lib/stream-attribution';
+import { ATTRIBUTION_WINDOWS } from '@/types/reports';
 import { publicProcedure, router } from '../trpc';
 
 export const accountsRouter = router({
@@ -37,6 +40,8 @@ export const accountsRouter = router({
     sync: publicProcedure.mutation(async () => {
         const { listAdvertiserAccounts } = await import('@/amazon-ads/list-advertiser-accounts');
 
+        // Ads accounts are global and list every country they advertise in, so discovery only needs
+        // one region. Each country row stores the region that serves it for all later API calls.
         const result = await listAdvertiserAccounts(undefined, 'na');
 
         for (const account of result.adsAccounts) {
@@ -48,6 +53,7 @@ export const accountsRouter = router({
                     continue;
                 }
 
+                const region = getApiRegionForCountry(countryCode);
                 const existingAccount = await db
                     .select()
                     .from(advertiserAccount)
@@ -55,6 +61,13 @@ export const accountsRouter = router({
                     .limit(1);
 
                 if (existingAccount.length > 0) {
+                    // Accounts synced before regions were stored defaulted to 'na'
+                    if (existingAccount[0]?.region !== region) {
+                        await db
+                            .update(advertiserAccount)
+                            .set({ region })
+                            .where(and(eq(advertiserAccount.adsAccountId, account.adsAccountId), eq(advertiserAccount.profileId, profileId.toString())));
+                    }
                     continue;
                 }
 
@@ -63,6 +76,7 @@ export const accountsRouter = router({
                     accountName: account.accountName,
                     status: account.status,
                     countryCode: countryCode,
+                    region,
                     profileId: profileId.toString(),
                     entityId: entityId,
                 });
@@ -101,4 +115,28 @@ export const accountsRouter = router({
             });
             return true;
         }),
+
+    // Conversion window the AMS stream summaries count sales and orders in
+    attribution: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+            })
+        )
+        .query(async ({ input }) => {
+            return getStreamAttribution(input.accountId);
+        }),
+
+    updateAttribution: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                window: z.enum(ATTRIBUTION_WINDOWS),
+                sameSku: z.boolean(),
+            })
+        )
+        .mutation(async ({ input }) => {
+            await saveStreamAttribution(input.accountId, { window: input.window, sameSku: input.sameSku });
+            return { window: input.window, sameSku: input.sameSku };
+        }),
 });
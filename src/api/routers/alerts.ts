@@ -0,0 +1,184 @@
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '@/db/index';
+import { alertChannel, alertIncident, alertRule } from '@/db/schema';
+import { ALERT_CHANNEL_TYPES, ALERT_RULE_TYPES, type AlertChannelType, type AlertRuleType, parseAlertRuleConfig, parseChannelConfig, sendTestNotification } from '@/lib/alerts';
+import { publicProcedure, router } from '../trpc';
+
+const INCIDENT_STATUSES = ['firing', 'resolved'] as const;
+
+const configSchema = z.record(z.unknown());
+
+// Channel passwords are write-only: they are stripped from responses and kept when an update omits them
+const redactChannel = <T extends { config: unknown }>(channel: T) => {
+    const { password: _password, ...config } = configSchema.catch({}).parse(channel.config);
+    return { ...channel, config };
+};
+
+export const alertsRouter = router({
+    channels: publicProcedure.query(async () => {
+        const channels = await db.select().from(alertChannel).orderBy(alertChannel.createdAt);
+        return channels.map(redactChannel);
+    }),
+
+    createChannel: publicProcedure
+        .input(
+            z.object({
+                name: z.string().min(1),
+                type: z.enum(ALERT_CHANNEL_TYPES),
+                config: configSchema,
+                enabled: z.boolean().default(true),
+            })
+        )
+        .mutation(async ({ input }) => {
+            const [channel] = await db
+                .insert(alertChannel)
+                .values({ ...input, config: parseChannelConfig(input.type, input.config) })
+                .returning();
+            return redactChannel(channel);
+        }),
+
+    updateChannel: publicProcedure
+        .input(
+            z.object({
+                id: z.string().uuid(),
+                name: z.string().min(1).optional(),
+                config: configSchema.optional(),
+                enabled: z.boolean().optional(),
+            })
+        )
+        .mutation(async ({ input }) => {
+            const existing = await db.query.alertChannel.findFirst({ where: eq(alertChannel.id, input.id) });
+            if (!existing) {
+                throw new Error(`Alert channel ${input.id} not found`);
+            }
+            const config = input.config ? parseChannelConfig(existing.type as AlertChannelType, { ...configSchema.catch({}).parse(existing.config), ...input.config }) : undefined;
+            const [channel] = await db.update(alertChannel).set({ name: input.name, config, enabled: input.enabled, updatedAt: new Date() }).where(eq(alertChannel.id, input.id)).returning();
+            return redactChannel(channel);
+        }),
+
+    deleteChannel: publicProcedure.input(z.object({ id: z.string().uuid() })).mutation(async ({ input }) => {
+        await db.delete(alertChannel).where(eq(alertChannel.id, input.id));
+        return { success: true };
+    }),
+
+    testChannel: publicProcedure.input(z.object({ id: z.string().uuid() })).mutation(async ({ input }) => {
+        await sendTestNotification(input.id);
+        return { success: true };
+    }),
+
+    rules: publicProcedure.input(z.object({ accountId: z.string().optional() })).query(async ({ input }) => {
+        return db
+            .select()
+            .from(alertRule)
+            .where(input.accountId ? eq(alertRule.accountId, input.accountId) : undefined)
+            .orderBy(alertRule.createdAt);
+    }),
+
+    createRule: publicProcedure
+        .input(
+            z.object({
+                name: z.string().min(1),
+                type: z.enum(ALERT_RULE_TYPES),
+                accountId: z.string().nullable().default(null),
+                config: configSchema.default({}),
+                channelIds: z.array(z.string().uuid()).default([]),
+                enabled: z.boolean().default(true),
+                renotifyMinutes: z.number().int().min(5).nullable().default(null),
+            })
+        )
+        .mutation(async ({ input }) => {
+            if (input.type === 'metric_threshold' && !input.accountId) {
+                throw new Error('Metric threshold rules need an account');
+            }
+            const [rule] = await db
+                .insert(alertRule)
+                .values({ ...input, config: parseAlertRuleConfig(input.type, input.config) })
+                .returning();
+            return rule;
+        }),
+
+    updateRule: publicProcedure
+        .input(
+            z.object({
+                id: z.string().uuid(),
+                name: z.string().min(1).optional(),
+                config: configSchema.optional(),
+                channelIds: z.array(z.string().uuid()).optional(),
+                enabled: z.boolean().optional(),
+                renotifyMinutes: z.number().int().min(5).nullable().optional(),
+            })
+        )
+        .mutation(async ({ input }) => {
+            const existing = await db.query.alertRule.findFirst({ where: eq(alertRule.id, input.id) });
+            if (!existing) {
+                throw new Error(`Alert rule ${input.id} not found`);
+            }
+            const { id, config, ...changes } = input;
+            const [rule] = await db
+                .update(alertRule)
+                .set({ ...changes, config: config ? parseAlertRuleConfig(existing.type as AlertRuleType, config) : undefined, updatedAt: new Date() })
+                .where(eq(alertRule.id, id))
+                .returning();
+            return rule;
+        }),
+
+    deleteRule: publicProcedure.input(z.object({ id: z.string().uuid() })).mutation(async ({ input }) => {
+        await db.delete(alertRule).where(eq(alertRule.id, input.id));
+        return { success: true };
+    }),
+
+    // Snooze: incidents keep being tracked, but nothing is sent until `until` (null ends the snooze)
+    snoozeRule: publicProcedure
+        .input(
+            z.object({
+                id: z.string().uuid(),
+                until: z.string().datetime().nullable(),
+            })
+        )
+        .mutation(async ({ input }) => {
+            const [rule] = await db
+                .update(alertRule)
+                .set({ snoozedUntil: input.until ? new Date(input.until) : null, updatedAt: new Date() })
+                .where(eq(alertRule.id, input.id))
+                .returning();
+            if (!rule) {
+                throw new Error(`Alert rule ${input.id} not found`);
+            }
+            return rule;
+        }),
+
+    incidents: publicProcedure
+        .input(
+            z.object({
+                ruleId: z.string().uuid().optional(),
+                status: z.enum(INCIDENT_STATUSES).optional(),
+                limit: z.number().int().min(1).max(500).default(100),
+            })
+        )
+        .query(async ({ input }) => {
+            const conditions: (SQL | undefined)[] = [input.ruleId ? eq(alertIncident.ruleId, input.ruleId) : undefined, input.status ? eq(alertIncident.status, input.status) : undefined];
+            return db
+                .select({
+                    id: alertIncident.id,
+                    ruleId: alertIncident.ruleId,
+                    ruleName: alertRule.name,
+                    ruleType: alertRule.type,
+                    accountId: alertRule.accountId,
+                    dedupKey: alertIncident.dedupKey,
+                    status: alertIncident.status,
+                    message: alertIncident.message,
+                    details: alertIncident.details,
+                    firedAt: alertIncident.firedAt,
+                    lastSeenAt: alertIncident.lastSeenAt,
+                    lastNotifiedAt: alertIncident.lastNotifiedAt,
+                    deliveryError: alertIncident.deliveryError,
+                    resolvedAt: alertIncident.resolvedAt,
+                })
+                .from(alertIncident)
+                .innerJoin(alertRule, eq(alertRule.id, alertIncident.ruleId))
+                .where(and(...conditions))
+                .orderBy(desc(alertIncident.firedAt))
+                .limit(input.limit);
+        }),
+});
@@ -0,0 +1,125 @@
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '@/db/index';
+import { bidRecommendation, bidRule } from '@/db/schema';
+import { applyRecommendations, bidRuleActionSchema, bidRuleConditionSchema, evaluateBidRules, saveRecommendations } from '@/lib/bid-rules';
+import { publicProcedure, router } from '../trpc';
+
+const RECOMMENDATION_STATUSES = ['pending', 'applied', 'failed', 'dismissed', 'superseded'] as const;
+
+const ruleFields = {
+    name: z.string().min(1),
+    enabled: z.boolean(),
+    lookbackDays: z.number().int().min(1).max(90),
+    conditions: z.array(bidRuleConditionSchema).min(1),
+    action: bidRuleActionSchema,
+};
+
+export const bidRulesRouter = router({
+    list: publicProcedure.input(z.object({ accountId: z.string() })).query(async ({ input }) => {
+        return db.select().from(bidRule).where(eq(bidRule.accountId, input.accountId)).orderBy(bidRule.createdAt);
+    }),
+
+    create: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                ...ruleFields,
+                enabled: ruleFields.enabled.default(true),
+                lookbackDays: ruleFields.lookbackDays.default(14),
+            })
+        )
+        .mutation(async ({ input }) => {
+            const [rule] = await db.insert(bidRule).values(input).returning();
+            return rule;
+        }),
+
+    update: publicProcedure
+        .input(
+            z.object({
+                id: z.string().uuid(),
+                name: ruleFields.name.optional(),
+                enabled: ruleFields.enabled.optional(),
+                lookbackDays: ruleFields.lookbackDays.optional(),
+                conditions: ruleFields.conditions.optional(),
+                action: ruleFields.action.optional(),
+            })
+        )
+        .mutation(async ({ input }) => {
+            const { id, ...changes } = input;
+            const [rule] = await db
+                .update(bidRule)
+                .set({ ...changes, updatedAt: new Date() })
+                .where(eq(bidRule.id, id))
+                .returning();
+            if (!rule) {
+                throw new Error(`Bid rule ${id} not found`);
+            }
+            return rule;
+        }),
+
+    delete: publicProcedure.input(z.object({ id: z.string().uuid() })).mutation(async ({ input }) => {
+        await db.delete(bidRule).where(eq(bidRule.id, input.id));
+        return { success: true };
+    }),
+
+    // Dry run: the bid changes the rules would propose right now, without storing them
+    dryRun: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                countryCode: z.string(),
+                ruleId: z.string().uuid().optional(),
+            })
+        )
+        .query(async ({ input }) => {
+            return evaluateBidRules(input.accountId, input.countryCode, { ruleId: input.ruleId });
+        }),
+
+    evaluate: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                countryCode: z.string(),
+            })
+        )
+        .mutation(async ({ input }) => {
+            const proposals = await evaluateBidRules(input.accountId, input.countryCode);
+            const saved = await saveRecommendations(input.accountId, input.countryCode, proposals);
+            return { recommendations: saved };
+        }),
+
+    recommendations: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                countryCode: z.string(),
+                status: z.enum(RECOMMENDATION_STATUSES).default('pending'),
+                limit: z.number().int().min(1).max(1000).default(200),
+            })
+        )
+        .query(async ({ input }) => {
+            return db
+                .select({
+                    recommendation: bidRecommendation,
+                    ruleName: bidRule.name,
+                })
+                .from(bidRecommendation)
+                .innerJoin(bidRule, eq(bidRule.id, bidRecommendation.ruleId))
+                .where(and(eq(bidRecommendation.accountId, input.accountId), eq(bidRecommendation.countryCode, input.countryCode), eq(bidRecommendation.status, input.status)))
+                .orderBy(desc(bidRecommendation.createdAt))
+                .limit(input.limit);
+        }),
+
+    apply: publicProcedure.input(z.object({ recommendationIds: z.array(z.string().uuid()).min(1) })).mutation(async ({ input }) => {
+        return applyRecommendations(input.recommendationIds);
+    }),
+
+    dismiss: publicProcedure.input(z.object({ recommendationIds: z.array(z.string().uuid()).min(1) })).mutation(async ({ input }) => {
+        await db
+            .update(bidRecommendation)
+            .set({ status: 'dismissed' })
+            .where(and(inArray(bidRecommendation.id, input.recommendationIds), eq(bidRecommendation.status, 'pending')));
+        return { success: true };
+    }),
+});
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { getBudgetPacing, getPacingAlertHour, savePacingAlertHour } from '@/lib/budget-pacing';
+import { publicProcedure, router } from '../trpc';
+
+export const budgetsRouter = router({
+    pacing: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                countryCode: z.string(),
+            })
+        )
+        .query(async ({ input }) => {
+            return getBudgetPacing(input.accountId, input.countryCode);
+        }),
+
+    settings: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+            })
+        )
+        .query(async ({ input }) => {
+            return { alertHour: await getPacingAlertHour(input.accountId) };
+        }),
+
+    updateSettings: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                alertHour: z.number().int().min(1).max(24),
+            })
+        )
+        .mutation(async ({ input }) => {
+            await savePacingAlertHour(input.accountId, input.alertHour);
+            return { alertHour: input.alertHour };
+        }),
+});
@@ -0,0 +1,81 @@
+import { and, desc, eq, gte, lte, type SQL, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '@/db/index';
+import { adGroup, campaign, entityChange, target } from '@/db/schema';
+import { CHANGE_ENTITY_TYPES, CHANGE_FIELDS, CHANGE_SOURCES } from '@/lib/change-log';
+import { publicProcedure, router } from '../trpc';
+
+export const changesRouter = router({
+    list: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                entityType: z.enum(CHANGE_ENTITY_TYPES).optional(),
+                entityId: z.string().optional(),
+                campaignId: z.string().optional(),
+                adGroupId: z.string().optional(),
+                field: z.enum(CHANGE_FIELDS).optional(),
+                source: z.enum(CHANGE_SOURCES).optional(),
+                from: z.string().datetime().optional(),
+                to: z.string().datetime().optional(),
+                limit: z.number().int().min(1).max(1000).default(200),
+            })
+        )
+        .query(async ({ input }) => {
+            const conditions: SQL[] = [eq(entityChange.accountId, input.accountId)];
+            if (input.entityType) {
+                conditions.push(eq(entityChange.entityType, input.entityType));
+            }
+            if (input.entityId) {
+                conditions.push(eq(entityChange.entityId, input.entityId));
+            }
+            if (input.campaignId) {
+                conditions.push(eq(entityChange.campaignId, input.campaignId));
+            }
+            if (input.adGroupId) {
+                conditions.push(eq(entityChange.adGroupId, input.adGroupId));
+            }
+            if (input.field) {
+                conditions.push(eq(entityChange.field, input.field));
+            }
+            if (input.source) {
+                conditions.push(eq(entityChange.source, input.source));
+            }
+            if (input.from) {
+                conditions.push(gte(entityChange.changedAt, new Date(input.from)));
+            }
+            if (input.to) {
+                conditions.push(lte(entityChange.changedAt, new Date(input.to)));
+            }
+
+            // Name each change's entity from the synced tables: campaign or ad group name, or the target's keyword or ASIN
+            return db
+                .select({
+                    id: entityChange.id,
+                    entityType: entityChange.entityType,
+                    entityId: entityChange.entityId,
+                    entityName: sql<string | null>`CASE ${entityChange.entityType}
+                        WHEN 'campaign' THEN ${campaign.name}
+                        WHEN 'adGroup' THEN ${adGroup.name}
+                        ELSE COALESCE(${target.targetKeyword}, ${target.targetAsin})
+                    END`,
+                    campaignId: entityChange.campaignId,
+                    campaignName: campaign.name,
+                    adGroupId: entityChange.adGroupId,
+                    field: entityChange.field,
+                    oldValue: entityChange.oldValue,
+                    newValue: entityChange.newValue,
+                    source: entityChange.source,
+                    changedBy: entityChange.changedBy,
+                    reason: entityChange.reason,
+                    changedAt: entityChange.changedAt,
+                })
+                .from(entityChange)
+                .leftJoin(campaign, eq(campaign.campaignId, entityChange.campaignId))
+                .leftJoin(adGroup, eq(adGroup.adGroupId, entityChange.adGroupId))
+                .leftJoin(target, and(eq(entityChange.entityType, 'target'), eq(target.targetId, entityChange.entityId)))
+                .where(and(...conditions))
+                .orderBy(desc(entityChange.changedAt))
+                .limit(input.limit);
+        }),
+});
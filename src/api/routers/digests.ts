@@ -0,0 +1,122 @@
+import { desc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '@/db/index';
+import { alertChannel, digestReport, digestSubscription } from '@/db/schema';
+import { DIGEST_FREQUENCIES, sendDigestNow } from '@/lib/digests';
+import { publicProcedure, router } from '../trpc';
+
+// Digests reuse an email alert channel's SMTP settings, so only email channels can send them
+async function assertEmailChannel(channelId: string) {
+    const channel = await db.query.alertChannel.findFirst({ where: eq(alertChannel.id, channelId), columns: { type: true } });
+    if (!channel) {
+        throw new Error(`Alert channel ${channelId} not found`);
+    }
+    if (channel.type !== 'email') {
+        throw new Error('Digests can only be sent through an email channel');
+    }
+}
+
+export const digestsRouter = router({
+    subscriptions: publicProcedure.input(z.object({ accountId: z.string().optional() })).query(async ({ input }) => {
+        return db
+            .select()
+            .from(digestSubscription)
+            .where(input.accountId ? eq(digestSubscription.accountId, input.accountId) : undefined)
+            .orderBy(digestSubscription.createdAt);
+    }),
+
+    createSubscription: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                countryCode: z.string(),
+                recipient: z.string().email(),
+                frequency: z.enum(DIGEST_FREQUENCIES),
+                sendHour: z.number().int().min(0).max(23).default(8),
+                channelId: z.string().uuid(),
+                includeCsv: z.boolean().default(true),
+                enabled: z.boolean().default(true),
+            })
+        )
+        .mutation(async ({ input }) => {
+            await assertEmailChannel(input.channelId);
+            const [subscription] = await db.insert(digestSubscription).values(input).returning();
+            return subscription;
+        }),
+
+    updateSubscription: publicProcedure
+        .input(
+            z.object({
+                id: z.string().uuid(),
+                recipient: z.string().email().optional(),
+                frequency: z.enum(DIGEST_FREQUENCIES).optional(),
+                sendHour: z.number().int().min(0).max(23).optional(),
+                channelId: z.string().uuid().optional(),
+                includeCsv: z.boolean().optional(),
+                enabled: z.boolean().optional(),
+            })
+        )
+        .mutation(async ({ input }) => {
+            const { id, ...changes } = input;
+            if (changes.channelId) {
+                await assertEmailChannel(changes.channelId);
+            }
+            const [subscription] = await db
+                .update(digestSubscription)
+                .set({ ...changes, updatedAt: new Date() })
+                .where(eq(digestSubscription.id, id))
+                .returning();
+            if (!subscription) {
+                throw new Error(`Digest subscription ${id} not found`);
+            }
+            return subscription;
+        }),
+
+    deleteSubscription: publicProcedure.input(z.object({ id: z.string().uuid() })).mutation(async ({ input }) => {
+        await db.delete(digestSubscription).where(eq(digestSubscription.id, input.id));
+        return { success: true };
+    }),
+
+    // Sends the latest digest right away, even if it already went out for this period
+    sendNow: publicProcedure.input(z.object({ subscriptionId: z.string().uuid() })).mutation(async ({ input }) => {
+        const report = await sendDigestNow(input.subscriptionId);
+        return { id: report.id, status: report.status, error: report.error };
+    }),
+
+    history: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                limit: z.number().int().min(1).max(200).default(50),
+            })
+        )
+        .query(async ({ input }) => {
+            return db
+                .select({
+                    id: digestReport.id,
+                    subscriptionId: digestReport.subscriptionId,
+                    countryCode: digestReport.countryCode,
+                    recipient: digestReport.recipient,
+                    frequency: digestReport.frequency,
+                    periodFrom: digestReport.periodFrom,
+                    periodTo: digestReport.periodTo,
+                    subject: digestReport.subject,
+                    attachments: digestReport.attachments,
+                    status: digestReport.status,
+                    error: digestReport.error,
+                    createdAt: digestReport.createdAt,
+                })
+                .from(digestReport)
+                .where(eq(digestReport.accountId, input.accountId))
+                .orderBy(desc(digestReport.createdAt))
+                .limit(input.limit);
+        }),
+
+    report: publicProcedure.input(z.object({ id: z.string().uuid() })).query(async ({ input }) => {
+        const report = await db.query.digestReport.findFirst({ where: eq(digestReport.id, input.id) });
+        if (!report) {
+            throw new Error(`Digest report ${input.id} not found`);
+        }
+        return report;
+    }),
+});
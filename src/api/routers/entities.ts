@@ -0,0 +1,215 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { asc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '@/db/index';
+import { ad, adGroup, campaign, target } from '@/db/schema';
+import { deriveMetrics, type PerformanceDimension, type PerformanceQuery, type PerformanceTotals, queryPerformance } from '@/lib/performance-query';
+import { enumerateZonedDays, enumerateZonedHours, formatZonedDate, utcNow, zonedAddDays, zonedStartOfDay, zonedSubtractDays } from '@/utils/date';
+import { getTimezoneForCountry } from '@/utils/timezones';
+import { publicProcedure, router } from '../trpc';
+
+const ENTITY_LEVELS = ['account', 'campaign', 'adGroup', 'target'] as const;
+type EntityLevel = (typeof ENTITY_LEVELS)[number];
+
+/** The dimension each level's child table is grouped by. Targets apply to every ad in their ad group, so their children are ads. */
+const CHILD_DIMENSION: Record<EntityLevel, PerformanceDimension> = {
+    account: 'campaign',
+    campaign: 'adGroup',
+    adGroup: 'target',
+    target: 'ad',
+};
+
+function getLevelFilters(level: EntityLevel, id: string | undefined): PerformanceQuery['filters'] {
+    if (level === 'account' || !id) {
+        return {};
+    }
+    switch (level) {
+        case 'campaign':
+            return { campaignIds: [id] };
+        case 'adGroup':
+            return { adGroupIds: [id] };
+        case 'target':
+            return { targetIds: [id] };
+    }
+}
+
+const emptyTotals = (): PerformanceTotals => ({ impressions: 0, clicks: 0, spend: 0, sales: 0, orders: 0 });
+
+const pickTotals = (row: PerformanceTotals): PerformanceTotals => ({
+    impressions: row.impressions,
+    clicks: row.clicks,
+    spend: row.spend,
+    sales: row.sales,
+    orders: row.orders,
+});
+
+export const entitiesRouter = router({
+    campaigns: publicProcedure.input(z.object({ accountId: z.string() })).query(async ({ input }) => {
+        return db
+            .select({
+                campaignId: campaign.campaignId,
+                name: campaign.name,
+                state: campaign.state,
+                deliveryStatus: campaign.deliveryStatus,
+                budgetAmount: campaign.budgetAmount,
+            })
+            .from(campaign)
+            .where(eq(campaign.accountId, input.accountId))
+            .orderBy(asc(campaign.name));
+    }),
+
+    campaign: publicProcedure.input(z.object({ campaignId: z.string() })).query(async ({ input }) => {
+        const campaignRecord = await db.query.campaign.findFirst({
+            where: eq(campaign.campaignId, input.campaignId),
+        });
+        if (!campaignRecord) {
+            throw new Error(`Campaign ${input.campaignId} not found`);
+        }
+
+        const adGroups = await db
+            .select({
+                adGroupId: adGroup.adGroupId,
+                name: adGroup.name,
+                state: adGroup.state,
+                deliveryStatus: adGroup.deliveryStatus,
+                bidAmount: adGroup.bidAmount,
+            })
+            .from(adGroup)
+            .where(eq(adGroup.campaignId, input.campaignId))
+            .orderBy(asc(adGroup.name));
+
+        return { campaign: campaignRecord, adGroups };
+    }),
+
+    adGroup: publicProcedure.input(z.object({ adGroupId: z.string() })).query(async ({ input }) => {
+        const adGroupRecord = await db.query.adGroup.findFirst({
+            where: eq(adGroup.adGroupId, input.adGroupId),
+        });
+        if (!adGroupRecord) {
+            throw new Error(`Ad group ${input.adGroupId} not found`);
+        }
+
+        const [campaignRecord, targets] = await Promise.all([
+            db.query.campaign.findFirst({
+                where: eq(campaign.campaignId, adGroupRecord.campaignId),
+                columns: { campaignId: true, name: true },
+            }),
+            db
+                .select({
+                    targetId: target.targetId,
+                    targetType: target.targetType,
+                    targetKeyword: target.targetKeyword,
+                    targetAsin: target.targetAsin,
+                    targetMatchType: target.targetMatchType,
+                    negative: target.negative,
+                    state: target.state,
+                    bidAmount: target.bidAmount,
+                })
+                .from(target)
+                .where(eq(target.adGroupId, input.adGroupId)),
+        ]);
+
+        return { adGroup: adGroupRecord, campaign: campaignRecord ?? null, targets };
+    }),
+
+    target: publicProcedure.input(z.object({ targetId: z.string() })).query(async ({ input }) => {
+        const targetRecord = await db.query.target.findFirst({
+            where: eq(target.targetId, input.targetId),
+        });
+        if (!targetRecord) {
+            throw new Error(`Target ${input.targetId} not found`);
+        }
+
+        // Campaign-level targets have no ad group, and so no ads of their own
+        const adGroupId = targetRecord.adGroupId;
+        const [campaignRecord, adGroupRecord, ads] = await Promise.all([
+            db.query.campaign.findFirst({
+                where: eq(campaign.campaignId, targetRecord.campaignId),
+                columns: { campaignId: true, name: true },
+            }),
+            adGroupId
+                ? db.query.adGroup.findFirst({
+                      where: eq(adGroup.adGroupId, adGroupId),
+                      columns: { adGroupId: true, name: true },
+                  })
+                : undefined,
+            adGroupId
+                ? db
+                      .select({
+                          adId: ad.adId,
+                          productAsin: ad.productAsin,
+                          state: ad.state,
+                          deliveryStatus: ad.deliveryStatus,
+                      })
+                      .from(ad)
+                      .where(eq(ad.adGroupId, adGroupId))
+                : [],
+        ]);
+
+        return { target: targetRecord, campaign: campaignRecord ?? null, adGroup: adGroupRecord ?? null, ads };
+    }),
+
+    /**
+     * Daily totals for the last `days` days, hourly totals for today, and totals per child entity
+     * over the same days, all in the account's local time.
+     */
+    performance: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                countryCode: z.string(),
+                level: z.enum(ENTITY_LEVELS),
+                id: z.string().optional(),
+                days: z.number().int().min(1).max(90).default(30),
+            })
+        )
+        .query(async ({ input }) => {
+            if (input.level !== 'account' && !input.id) {
+                throw new Error(`An id is required for ${input.level} performance`);
+            }
+
+            const timezone = getTimezoneForCountry(input.countryCode);
+            const todayStart = zonedStartOfDay(utcNow(), timezone);
+            const tomorrowStart = zonedAddDays(todayStart, 1, timezone);
+            const rangeStart = zonedSubtractDays(todayStart, input.days - 1, timezone);
+            const from = formatZonedDate(rangeStart, timezone);
+            const today = formatZonedDate(todayStart, timezone);
+
+            const baseQuery = {
+                accountId: input.accountId,
+                filters: getLevelFilters(input.level, input.id),
+                limit: 5000,
+                offset: 0,
+            };
+
+            const [daily, hourly, children] = await Promise.all([
+                queryPerformance({ ...baseQuery, granularity: 'day', groupBy: ['time'], from, to: today }),
+                queryPerformance({ ...baseQuery, granularity: 'hour', groupBy: ['time'], from: today, to: today }),
+                queryPerformance({ ...baseQuery, granularity: 'day', groupBy: [CHILD_DIMENSION[input.level]], from, to: today }),
+            ]);
+
+            // Fill days and hours without rows so the charts keep a continuous axis
+            const dailyByDate = new Map(daily.rows.map(row => [row.time, pickTotals(row)]));
+            const dailySeries = [...enumerateZonedDays(rangeStart, tomorrowStart, timezone)].map(dayStart => {
+                const bucketDate = formatZonedDate(dayStart, timezone);
+                const totals = dailyByDate.get(bucketDate) ?? emptyTotals();
+                return { bucketDate, ...totals, ...deriveMetrics(totals) };
+            });
+
+            const hourlyByStart = new Map(hourly.rows.map(row => [new Date(row.time ?? 0).getTime(), pickTotals(row)]));
+            const hourlySeries = [...enumerateZonedHours(todayStart, tomorrowStart, timezone)].map(hourStart => {
+                const totals = hourlyByStart.get(hourStart.getTime()) ?? emptyTotals();
+                return { bucketStart: hourStart.toISOString(), hour: formatInTimeZone(hourStart, timezone, 'HH:00'), ...totals, ...deriveMetrics(totals) };
+            });
+
+            const childDimension = CHILD_DIMENSION[input.level];
+            return {
+                from,
+                to: today,
+                totals: daily.totals,
+                daily: dailySeries,
+                hourly: hourlySeries,
+                children: children.rows.map(row => ({ ...row, id: row[childDimension] ?? '' })),
+            };
+        }),
+});
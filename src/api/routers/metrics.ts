@@ -2,10 +2,27 @@ import { and, desc, eq, gte, inArray, lt, lte, sql, isNotNull } from 'drizzle-or
 import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
 import { z } from 'zod';
 import { db } from '@/db/index';
-import { amsMetrics, apiMetrics, jobSessions, performanceDaily, performanceHourly } from '@/db/schema';
+import { amsMetrics, amsUnrouted, apiMetrics, jobSessions, performanceDaily, performanceHourly, performancePlacementDaily, performanceReconciliation } from '@/db/schema';
+import { ANOMALY_BASELINE_DAYS, deriveMetrics, detectAnomalies, HourlyBaseline, type PerformanceAnomaly } from '@/lib/performance-query';
+import { ATTRIBUTION_WINDOWS, PERFORMANCE_SOURCES, PLACEMENTS, type Placement } from '@/types/reports';
+import { AMS_ENTITY_TYPES } from '@/worker/datasets';
 import { publicProcedure, router } from '../trpc';
 
-const SUPPORTED_APIS = ['listAdvertiserAccounts', 'createReport', 'retrieveReport', 'exportCampaigns', 'exportAdGroups', 'exportAds', 'exportTargets', 'getExportStatus'] as const;
+const SUPPORTED_APIS = [
+    'listAdvertiserAccounts',
+    'createReport',
+    'retrieveReport',
+    'exportCampaigns',
+    'exportAdGroups',
+    'exportAds',
+    'exportTargets',
+    'getExportStatus',
+    'updateTargets',
+    'updateAdGroups',
+    'updateCampaigns',
+    'createTargets',
+    'createNegativeTargets',
+] as const;
 const SUPPORTED_JOBS = [
     'update-report-datasets',
     'update-report-dataset-for-account',
@@ -15,14 +32,24 @@ const SUPPORTED_JOBS = [
     'summarize-daily-target-stream-for-account',
     'summarize-hourly-target-stream',
     'summarize-hourly-target-stream-for-account',
+    'reconcile-performance',
+    'reconcile-performance-for-account',
+    'evaluate-bid-rules',
+    'evaluate-bid-rules-for-account',
+    'evaluate-alerts',
+    'send-digests',
 ] as const;
 const VISIBLE_JOB_SESSIONS = [
     'update-report-dataset-for-account',
     'update-report-status',
     'summarize-daily-target-stream-for-account',
     'summarize-hourly-target-stream-for-account',
+    'reconcile-performance-for-account',
+    'evaluate-bid-rules-for-account',
     'sync-ad-entities',
     'cleanup-ams-metrics',
+    'evaluate-alerts',
+    'send-digests',
 ] as const;
 
 export const metricsRouter = router({
@@ -278,7 +305,7 @@ export const metricsRouter = router({
                 .groupBy(sql`date_trunc('hour', ${amsMetrics.timestamp}) + floor(extract(minute from ${amsMetrics.timestamp}) / 5) * interval '5 minutes'`, amsMetrics.entityType)
                 .orderBy(sql`date_trunc('hour', ${amsMetrics.timestamp}) + floor(extract(minute from ${amsMetrics.timestamp}) / 5) * interval '5 minutes'`, sql`${amsMetrics.entityType}`);
 
-            const entityTypes = ['campaign', 'adGroup', 'ad', 'target', 'spTraffic', 'spConversion', 'budgetUsage'] as const;
+            const entityTypes = AMS_ENTITY_TYPES;
 
             const chartData: Record<string, Array<{ interval: string; count: number }>> = {};
 
@@ -297,9 +324,31 @@ export const metricsRouter = router({
                 });
             }
 
+            // Counts per dataset and payload schema version, to spot payload drift
+            const versionRows = await db
+                .select({
+                    entityType: amsMetrics.entityType,
+                    schemaVersion: amsMetrics.schemaVersion,
+                    count: sql<number>`count(*)`,
+                    failed: sql<number>`count(*) filter (where not ${amsMetrics.success})`,
+                })
+                .from(amsMetrics)
+                .where(and(gte(amsMetrics.timestamp, from), lte(amsMetrics.timestamp, to)))
+                .groupBy(amsMetrics.entityType, amsMetrics.schemaVersion)
+                .orderBy(amsMetrics.entityType, amsMetrics.schemaVersion);
+
+            const unroutedRows = await db
+                .select({ datasetId: amsUnrouted.datasetId, count: sql<number>`count(*)`, lastReceivedAt: sql<Date>`max(${amsUnrouted.receivedAt})` })
+                .from(amsUnrouted)
+                .where(and(gte(amsUnrouted.receivedAt, from), lte(amsUnrouted.receivedAt, to)))
+                .groupBy(amsUnrouted.datasetId)
+                .orderBy(amsUnrouted.datasetId);
+
             return {
                 data: chartData,
                 entityTypes: [...entityTypes],
+                versions: versionRows.map(row => ({ entityType: row.entityType, schemaVersion: row.schemaVersion, count: Number(row.count), failed: Number(row.failed) })),
+                unrouted: unroutedRows.map(row => ({ datasetId: row.datasetId, count: Number(row.count), lastReceivedAt: new Date(row.lastReceivedAt).toISOString() })),
             };
         }),
     aggregation: publicProcedure
@@ -455,6 +504,9 @@ export const metricsRouter = router({
             z.object({
                 accountId: z.string(),
                 days: z.number().min(1).max(30).default(14),
+                source: z.enum(PERFORMANCE_SOURCES).optional(), // Only rows written by this source
+                attributionWindow: z.enum(ATTRIBUTION_WINDOWS).optional(), // Only rows counted in this conversion window
+                attributionSameSku: z.boolean().optional(),
             })
         )
         .query(async ({ input }) => {
@@ -464,7 +516,8 @@ export const metricsRouter = router({
             const startDate = new Date(today);
             startDate.setDate(startDate.getDate() - input.days + 1); // Include today, so - (days - 1)
 
-            // Query aggregated daily performance data
+            // Query aggregated daily performance data. Only target rows are summed: search term and
+            // product rows cover the same spend from a different angle and would double count.
             const data = await db
                 .select({
                     bucketDate: performanceDaily.bucketDate,
@@ -475,7 +528,16 @@ export const metricsRouter = router({
                     sales: sql<string>`sum(${performanceDaily.sales})`.as('sales'),
                 })
                 .from(performanceDaily)
-                .where(and(eq(performanceDaily.accountId, input.accountId), gte(performanceDaily.bucketDate, startDate.toISOString().split('T')[0]!)))
+                .where(
+                    and(
+                        eq(performanceDaily.accountId, input.accountId),
+                        eq(performanceDaily.entityType, 'target'),
+                        input.source ? eq(performanceDaily.source, input.source) : undefined,
+                        input.attributionWindow ? eq(performanceDaily.attributionWindow, input.attributionWindow) : undefined,
+                        input.attributionSameSku !== undefined ? eq(performanceDaily.attributionSameSku, input.attributionSameSku) : undefined,
+                        gte(performanceDaily.bucketDate, startDate.toISOString().split('T')[0]!)
+                    )
+                )
                 .groupBy(performanceDaily.bucketDate)
                 .orderBy(performanceDaily.bucketDate);
 
@@ -544,10 +606,18 @@ export const metricsRouter = router({
             z.object({
                 accountId: z.string(),
                 timezone: z.string(), // Browser timezone - used for display
+                source: z.enum(PERFORMANCE_SOURCES).optional(), // Only rows written by this source
+                attributionWindow: z.enum(ATTRIBUTION_WINDOWS).optional(), // Only rows counted in this conversion window
+                attributionSameSku: z.boolean().optional(),
             })
         )
         .query(async ({ input }) => {
             const browserTimezone = input.timezone;
+            const sourceFilter = and(
+                input.source ? eq(performanceHourly.source, input.source) : undefined,
+                input.attributionWindow ? eq(performanceHourly.attributionWindow, input.attributionWindow) : undefined,
+                input.attributionSameSku !== undefined ? eq(performanceHourly.attributionSameSku, input.attributionSameSku) : undefined
+            );
             const now = new Date();
 
             // Calculate "today" in the browser's timezone as a UTC time range
@@ -580,7 +650,13 @@ export const metricsRouter = router({
                 })
                 .from(performanceHourly)
                 .where(
-                    and(eq(performanceHourly.accountId, input.accountId), gte(performanceHourly.bucketStart, todayStartUtc), lt(performanceHourly.bucketStart, new Date(todayEndUtc.getTime() + 1000)))
+                    and(
+                        eq(performanceHourly.accountId, input.accountId),
+                        eq(performanceHourly.entityType, 'target'),
+                        sourceFilter,
+                        gte(performanceHourly.bucketStart, todayStartUtc),
+                        lt(performanceHourly.bucketStart, new Date(todayEndUtc.getTime() + 1000))
+                    )
                 )
                 .groupBy(sql`EXTRACT(HOUR FROM ${performanceHourly.bucketStart} AT TIME ZONE ${tzLiteral})`)
                 .orderBy(sql`EXTRACT(HOUR FROM ${performanceHourly.bucketStart} AT TIME ZONE ${tzLiteral})`);
@@ -598,6 +674,8 @@ export const metricsRouter = router({
                 .where(
                     and(
                         eq(performanceHourly.accountId, input.accountId),
+                        eq(performanceHourly.entityType, 'target'),
+                        sourceFilter,
                         gte(performanceHourly.bucketStart, yesterdayStartUtc),
                         lt(performanceHourly.bucketStart, new Date(yesterdayEndUtc.getTime() + 1000))
                     )
@@ -616,12 +694,28 @@ export const metricsRouter = router({
                 .where(
                     and(
                         eq(performanceHourly.accountId, input.accountId),
+                        eq(performanceHourly.entityType, 'target'),
+                        sourceFilter,
                         gte(performanceHourly.bucketStart, yesterdayStartUtc),
                         lt(performanceHourly.bucketStart, new Date(yesterdayEndUtc.getTime() + 1000)),
                         sql`EXTRACT(HOUR FROM ${performanceHourly.bucketStart} AT TIME ZONE ${tzLiteral}) = 23`
                     )
                 );
 
+            // Same hour over the trailing weeks, bucketed in the browser timezone like today's hours
+            const baseline = await HourlyBaseline.load({
+                where: and(
+                    eq(performanceHourly.accountId, input.accountId),
+                    eq(performanceHourly.entityType, 'target'),
+                    sourceFilter,
+                    gte(performanceHourly.bucketStart, new Date(todayStartUtc.getTime() - ANOMALY_BASELINE_DAYS * 24 * 60 * 60 * 1000)),
+                    lt(performanceHourly.bucketStart, todayStartUtc)
+                ),
+                localDate: sql<string>`(${performanceHourly.bucketStart} AT TIME ZONE ${tzLiteral})::date::text`,
+                localHour: sql<number>`EXTRACT(HOUR FROM ${performanceHourly.bucketStart} AT TIME ZONE ${tzLiteral})::int`,
+                keys: [],
+            });
+
             // Build hourly data map
             const hourlyMap = new Map<number, { impressions: number; clicks: number; orders: number; spend: number; sales: number }>();
             for (const row of todayData) {
@@ -644,6 +738,7 @@ export const metricsRouter = router({
                 spend: number;
                 sales: number;
                 acos: number;
+                anomalies: PerformanceAnomaly[];
             }> = [];
 
             // Calculate totals for today
@@ -683,6 +778,8 @@ export const metricsRouter = router({
                     spend: hourData.spend,
                     sales: hourData.sales,
                     acos,
+                    // The current hour is still filling up, so only finished hours are scored
+                    anomalies: hour < currentHourInTimezone ? detectAnomalies(hourData, baseline.samples(todayDateStr, hour)) : [],
                 });
             }
 
@@ -728,6 +825,7 @@ export const metricsRouter = router({
                     spend: yesterdayLastHourData.spend,
                     sales: yesterdayLastHourData.sales,
                     acos: yesterdayLastHourAcos,
+                    anomalies: [],
                 },
                 totals: {
                     impressions: todayTotals.impressions,
@@ -839,4 +937,253 @@ export const metricsRouter = router({
             rateLimitCount,
         };
     }),
+    reconciliation: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                days: z.number().min(1).max(30).default(7),
+            })
+        )
+        .query(async ({ input }) => {
+            const startDate = new Date();
+            startDate.setUTCDate(startDate.getUTCDate() - input.days);
+
+            const rows = await db
+                .select()
+                .from(performanceReconciliation)
+                .where(and(eq(performanceReconciliation.accountId, input.accountId), gte(performanceReconciliation.bucketDate, startDate.toISOString().slice(0, 10))))
+                .orderBy(desc(performanceReconciliation.bucketDate), performanceReconciliation.campaignId);
+
+            // Deltas are report minus stream, so a positive delta is data the stream never delivered
+            const campaigns = rows.map(row => {
+                const stream = {
+                    impressions: row.streamImpressions,
+                    clicks: row.streamClicks,
+                    spend: Number(row.streamSpend),
+                    sales: Number(row.streamSales),
+                    orders: row.streamOrders,
+                };
+                const report = {
+                    impressions: row.reportImpressions,
+                    clicks: row.reportClicks,
+                    spend: Number(row.reportSpend),
+                    sales: Number(row.reportSales),
+                    orders: row.reportOrders,
+                };
+                return {
+                    bucketDate: row.bucketDate,
+                    campaignId: row.campaignId,
+                    reportId: row.reportId,
+                    reconciledAt: row.reconciledAt.toISOString(),
+                    stream,
+                    report,
+                    delta: subtractTotals(report, stream),
+                };
+            });
+
+            const dayMap = new Map<string, ReconciliationDay>();
+            for (const campaign of campaigns) {
+                let day = dayMap.get(campaign.bucketDate);
+                if (!day) {
+                    day = {
+                        bucketDate: campaign.bucketDate,
+                        reconciledAt: campaign.reconciledAt,
+                        campaignCount: 0,
+                        mismatchedCampaigns: 0,
+                        stream: emptyPerformanceTotals(),
+                        report: emptyPerformanceTotals(),
+                    };
+                    dayMap.set(campaign.bucketDate, day);
+                }
+                day.campaignCount++;
+                if (hasDelta(campaign.delta)) {
+                    day.mismatchedCampaigns++;
+                }
+                day.stream = addTotals(day.stream, campaign.stream);
+                day.report = addTotals(day.report, campaign.report);
+            }
+
+            return {
+                days: [...dayMap.values()].map(day => ({ ...day, delta: subtractTotals(day.report, day.stream) })),
+                campaigns,
+            };
+        }),
+    hourOfWeek: publicProcedure
+        .input(
+            z
+                .object({
+                    accountId: z.string(),
+                    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // Account-local dates, inclusive
+                    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+                    campaignId: z.string().optional(), // Only this campaign's targets
+                    targetId: z.string().optional(), // Only this target
+                    source: z.enum(PERFORMANCE_SOURCES).optional(), // Only rows written by this source
+                })
+                .refine(input => input.from <= input.to, { message: 'from must not be after to', path: ['from'] })
+        )
+        .query(async ({ input }) => {
+            // Weekday and hour come from the account-local bucketDate and bucketHour, so both copies of a
+            // DST-repeated hour land in the same cell and are summed together.
+            const weekday = sql<number>`(EXTRACT(ISODOW FROM ${performanceHourly.bucketDate})::int - 1)`;
+            const rows = await db
+                .select({
+                    weekday,
+                    hour: performanceHourly.bucketHour,
+                    impressions: sql<number>`sum(${performanceHourly.impressions})`.as('impressions'),
+                    clicks: sql<number>`sum(${performanceHourly.clicks})`.as('clicks'),
+                    spend: sql<string>`sum(${performanceHourly.spend})`.as('spend'),
+                    sales: sql<string>`sum(${performanceHourly.sales})`.as('sales'),
+                    orders: sql<number>`sum(${performanceHourly.orders})`.as('orders'),
+                })
+                .from(performanceHourly)
+                .where(
+                    and(
+                        eq(performanceHourly.accountId, input.accountId),
+                        eq(performanceHourly.entityType, 'target'),
+                        input.campaignId ? eq(performanceHourly.campaignId, input.campaignId) : undefined,
+                        input.targetId ? eq(performanceHourly.entityId, input.targetId) : undefined,
+                        input.source ? eq(performanceHourly.source, input.source) : undefined,
+                        gte(performanceHourly.bucketDate, input.from),
+                        lte(performanceHourly.bucketDate, input.to)
+                    )
+                )
+                .groupBy(weekday, performanceHourly.bucketHour);
+
+            // matrix[weekday][hour], Monday first
+            const matrix = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => emptyPerformanceTotals()));
+            for (const row of rows) {
+                const cell = matrix[Number(row.weekday)]?.[row.hour];
+                if (!cell) {
+                    continue;
+                }
+                cell.impressions = Number(row.impressions);
+                cell.clicks = Number(row.clicks);
+                cell.spend = Number(row.spend);
+                cell.sales = Number(row.sales);
+                cell.orders = Number(row.orders);
+            }
+
+            return {
+                matrix: matrix.map(hours =>
+                    hours.map(totals => {
+                        const { acos, cvr } = deriveMetrics(totals);
+                        return { ...totals, acos, cvr };
+                    })
+                ),
+            };
+        }),
+    placementPerformance: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                days: z.number().min(1).max(30).default(14),
+                campaignId: z.string().optional(), // Only this campaign's placements
+                source: z.enum(PERFORMANCE_SOURCES).optional(), // Only rows written by this source
+            })
+        )
+        .query(async ({ input }) => {
+            const startDate = new Date();
+            startDate.setUTCDate(startDate.getUTCDate() - input.days + 1);
+
+            const rows = await db
+                .select({
+                    bucketDate: performancePlacementDaily.bucketDate,
+                    placement: performancePlacementDaily.placement,
+                    impressions: sql<number>`sum(${performancePlacementDaily.impressions})`.as('impressions'),
+                    clicks: sql<number>`sum(${performancePlacementDaily.clicks})`.as('clicks'),
+                    spend: sql<string>`sum(${performancePlacementDaily.spend})`.as('spend'),
+                    sales: sql<string>`sum(${performancePlacementDaily.sales})`.as('sales'),
+                    orders: sql<number>`sum(${performancePlacementDaily.orders})`.as('orders'),
+                })
+                .from(performancePlacementDaily)
+                .where(
+                    and(
+                        eq(performancePlacementDaily.accountId, input.accountId),
+                        input.campaignId ? eq(performancePlacementDaily.campaignId, input.campaignId) : undefined,
+                        input.source ? eq(performancePlacementDaily.source, input.source) : undefined,
+                        gte(performancePlacementDaily.bucketDate, startDate.toISOString().slice(0, 10))
+                    )
+                )
+                .groupBy(performancePlacementDaily.bucketDate, performancePlacementDaily.placement)
+                .orderBy(performancePlacementDaily.bucketDate);
+
+            const dayMap = new Map<string, Record<Placement, PerformanceTotals>>();
+            const totals = emptyPlacementBreakdown();
+            for (const row of rows) {
+                const placement = row.placement as Placement;
+                let day = dayMap.get(row.bucketDate);
+                if (!day) {
+                    day = emptyPlacementBreakdown();
+                    dayMap.set(row.bucketDate, day);
+                }
+                const rowTotals = {
+                    impressions: Number(row.impressions),
+                    clicks: Number(row.clicks),
+                    spend: Number(row.spend),
+                    sales: Number(row.sales),
+                    orders: Number(row.orders),
+                };
+                day[placement] = rowTotals;
+                totals[placement] = addTotals(totals[placement], rowTotals);
+            }
+
+            // Generate all days in range, filling missing days with zeros
+            const days: Array<{ bucketDate: string } & Record<Placement, PerformanceTotals>> = [];
+            for (let i = 0; i < input.days; i++) {
+                const date = new Date(startDate);
+                date.setUTCDate(date.getUTCDate() + i);
+                const bucketDate = date.toISOString().slice(0, 10);
+                const day = dayMap.get(bucketDate) ?? emptyPlacementBreakdown();
+                days.push({ bucketDate, ...day });
+            }
+
+            return {
+                days,
+                placements: PLACEMENTS.map(placement => {
+                    const { impressions, clicks, spend, sales, orders } = totals[placement];
+                    return {
+                        placement,
+                        ...totals[placement],
+                        acos: sales > 0 ? (spend / sales) * 100 : 0,
+                        ctr: impressions > 0 ? (clicks / impressions) * 100 : 0,
+                        cpc: clicks > 0 ? spend / clicks : 0,
+                        cvr: clicks > 0 ? (orders / clicks) * 100 : 0,
+                    };
+                }),
+            };
+        }),
+});
+
+type PerformanceTotals = { impressions: number; clicks: number; spend: number; sales: number; orders: number };
+
+type ReconciliationDay = {
+    bucketDate: string;
+    reconciledAt: string;
+    campaignCount: number;
+    mismatchedCampaigns: number;
+    stream: PerformanceTotals;
+    report: PerformanceTotals;
+};
+
+const emptyPerformanceTotals = (): PerformanceTotals => ({ impressions: 0, clicks: 0, spend: 0, sales: 0, orders: 0 });
+
+const emptyPlacementBreakdown = () => Object.fromEntries(PLACEMENTS.map(placement => [placement, emptyPerformanceTotals()])) as Record<Placement, PerformanceTotals>;
+
+const addTotals = (a: PerformanceTotals, b: PerformanceTotals): PerformanceTotals => ({
+    impressions: a.impressions + b.impressions,
+    clicks: a.clicks + b.clicks,
+    spend: a.spend + b.spend,
+    sales: a.sales + b.sales,
+    orders: a.orders + b.orders,
 });
+
+// Currency deltas are rounded to cents so float noise doesn't read as a mismatch
+const subtractTotals = (a: PerformanceTotals, b: PerformanceTotals): PerformanceTotals => ({
+    impressions: a.impressions - b.impressions,
+    clicks: a.clicks - b.clicks,
+    spend: Math.round((a.spend - b.spend) * 100) / 100,
+    sales: Math.round((a.sales - b.sales) * 100) / 100,
+    orders: a.orders - b.orders,
+});
+
+const hasDelta = (delta: PerformanceTotals) => Object.values(delta).some(value => value !== 0);
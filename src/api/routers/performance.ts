@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { COMPARISON_PERIODS, PERFORMANCE_DIMENSIONS, PERFORMANCE_GRANULARITIES, PERFORMANCE_METRICS, queryPerformance } from '@/lib/performance-query';
+import { AD_PRODUCTS, PERFORMANCE_SOURCES } from '@/types/reports';
+import { publicProcedure, router } from '../trpc';
+
+const localDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const performanceRouter = router({
+    query: publicProcedure
+        .input(
+            z
+                .object({
+                    accountId: z.string(),
+                    granularity: z.enum(PERFORMANCE_GRANULARITIES),
+                    groupBy: z.array(z.enum(PERFORMANCE_DIMENSIONS)).default(['time']),
+                    from: localDate,
+                    to: localDate,
+                    filters: z
+                        .object({
+                            adProducts: z.array(z.enum(AD_PRODUCTS)).optional(),
+                            campaignIds: z.array(z.string()).optional(),
+                            adGroupIds: z.array(z.string()).optional(),
+                            adIds: z.array(z.string()).optional(),
+                            targetIds: z.array(z.string()).optional(),
+                            asins: z.array(z.string()).optional(),
+                            matchTypes: z.array(z.string()).optional(),
+                            source: z.enum(PERFORMANCE_SOURCES).optional(),
+                        })
+                        .optional(),
+                    sort: z
+                        .object({
+                            by: z.enum([...PERFORMANCE_METRICS, ...PERFORMANCE_DIMENSIONS]),
+                            direction: z.enum(['asc', 'desc']).default('desc'),
+                        })
+                        .optional(),
+                    compare: z.enum(COMPARISON_PERIODS).optional(),
+                    detectAnomalies: z.boolean().default(false),
+                    limit: z.number().int().min(1).max(5000).default(500),
+                    offset: z.number().int().min(0).default(0),
+                })
+                .refine(input => input.from <= input.to, { message: 'from must not be after to', path: ['from'] })
+        )
+        .query(async ({ input }) => {
+            return queryPerformance(input);
+        }),
+});
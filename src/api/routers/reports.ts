@@ -1,10 +1,11 @@
-import { and, count, desc, eq, gte, lte } from 'drizzle-orm';
+import { and, asc, count, desc, eq, gte, lte } from 'drizzle-orm';
 import { z } from 'zod';
 import { retrieveReport } from '@/amazon-ads/retrieve-report';
 import { db } from '@/db/index';
-import { reportDatasetMetadata } from '@/db/schema';
+import { reportDatasetMetadata, reportDatasetStatusHistory } from '@/db/schema';
 import { updateReportDatasetForAccountJob } from '@/jobs/update-report-dataset-for-account';
 import { updateReportStatusJob } from '@/jobs/update-report-status';
+import { getAccountRegion } from '@/lib/account-region/index';
 import { createReportForDataset } from '@/lib/create-report/index';
 import { parseReport } from '@/lib/parse-report/index';
 import { AGGREGATION_TYPES, ENTITY_TYPES } from '@/types/reports';
@@ -18,8 +19,8 @@ export const reportsRouter = router({
             z.object({
                 accountId: z.string().default(DEFAULT_ACCOUNT_ID),
                 countryCode: z.string().optional(),
-                aggregation: z.enum(['hourly', 'daily']).default('daily'),
-                entityType: z.enum(['target', 'product']).optional(),
+                aggregation: z.enum(AGGREGATION_TYPES).default('daily'),
+                entityType: z.enum(ENTITY_TYPES).optional(),
                 statusFilter: z.string().optional(),
                 from: z.string().datetime().optional(),
                 to: z.string().datetime().optional(),
@@ -81,7 +82,14 @@ export const reportsRouter = router({
                 throw new Error('Report not found');
             }
 
-            return report;
+            // Status timeline, oldest first, so the UI can show why the bucket changed
+            const history = await db
+                .select()
+                .from(reportDatasetStatusHistory)
+                .where(eq(reportDatasetStatusHistory.reportDatasetMetadataId, report.uid))
+                .orderBy(asc(reportDatasetStatusHistory.createdAt));
+
+            return { ...report, history };
         }),
 
     triggerUpdate: publicProcedure
@@ -119,8 +127,8 @@ export const reportsRouter = router({
             z.object({
                 accountId: z.string(),
                 timestamp: z.string(),
-                aggregation: z.enum(['hourly', 'daily']),
-                entityType: z.enum(['target', 'product']),
+                aggregation: z.enum(AGGREGATION_TYPES),
+                entityType: z.enum(ENTITY_TYPES),
             })
         )
         .mutation(async ({ input }) => {
@@ -133,6 +141,7 @@ export const reportsRouter = router({
                 ),
                 columns: {
                     reportId: true,
+                    countryCode: true,
                 },
             });
 
@@ -144,7 +153,7 @@ export const reportsRouter = router({
                 {
                     reportIds: [metadata.reportId],
                 },
-                'na'
+                await getAccountRegion(input.accountId, metadata.countryCode)
             );
 
             return response;
@@ -0,0 +1,97 @@
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { hasReportConfig } from '@/config/reports/configs';
+import { db } from '@/db/index';
+import { reportRefreshSchedule } from '@/db/schema';
+import { getEligibleOffsets, getNextRefreshTime, getRefreshPlan } from '@/lib/report-status-state-machine/eligibility';
+import { deleteRefreshSchedule, normalizeScheduleOffsets, saveRefreshSchedule } from '@/lib/report-status-state-machine/schedules';
+import { AGGREGATION_TYPES, ENTITY_TYPES } from '@/types/reports';
+import { publicProcedure, router } from '../trpc';
+
+export const schedulesRouter = router({
+    list: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+            })
+        )
+        .query(async ({ input }) => {
+            const customSchedules = await db.select().from(reportRefreshSchedule).where(eq(reportRefreshSchedule.accountId, input.accountId));
+
+            // Effective schedule for every dataset type, falling back to the defaults
+            return AGGREGATION_TYPES.flatMap(aggregation =>
+                ENTITY_TYPES.filter(entityType => hasReportConfig(aggregation, entityType)).map(entityType => {
+                    const custom = customSchedules.find(s => s.aggregation === aggregation && s.entityType === entityType);
+                    return {
+                        aggregation,
+                        entityType,
+                        offsetHours: custom?.offsetHours ?? [...getEligibleOffsets(aggregation)],
+                        isCustom: custom !== undefined,
+                        updatedAt: custom?.updatedAt ?? null,
+                    };
+                })
+            );
+        }),
+
+    update: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                aggregation: z.enum(AGGREGATION_TYPES),
+                entityType: z.enum(ENTITY_TYPES),
+                offsetHours: z.array(z.number().int()),
+            })
+        )
+        .mutation(async ({ input }) => {
+            const offsetHours = await saveRefreshSchedule(input.accountId, input.aggregation, input.entityType, input.offsetHours);
+            return { offsetHours };
+        }),
+
+    reset: publicProcedure
+        .input(
+            z.object({
+                accountId: z.string(),
+                aggregation: z.enum(AGGREGATION_TYPES),
+                entityType: z.enum(ENTITY_TYPES),
+            })
+        )
+        .mutation(async ({ input }) => {
+            await deleteRefreshSchedule(input.accountId, input.aggregation, input.entityType);
+            return { offsetHours: [...getEligibleOffsets(input.aggregation)] };
+        }),
+
+    // Dry run: shows the refreshes a proposed schedule would produce for one period without saving it
+    preview: publicProcedure
+        .input(
+            z.object({
+                countryCode: z.string(),
+                timestamp: z.string().datetime(),
+                aggregation: z.enum(AGGREGATION_TYPES),
+                offsetHours: z.array(z.number().int()),
+                lastReportCreatedAt: z.string().datetime().nullable().default(null),
+            })
+        )
+        .query(({ input }) => {
+            const offsetHours = normalizeScheduleOffsets(input.aggregation, input.offsetHours);
+            const periodStart = new Date(input.timestamp);
+            const now = new Date();
+
+            const refreshes = getRefreshPlan(periodStart, offsetHours).map(refresh => ({
+                ...refresh,
+                isPast: refresh.refreshAt.getTime() <= now.getTime(),
+            }));
+
+            const nextRefreshAt = getNextRefreshTime(
+                {
+                    reportId: null,
+                    periodStart,
+                    aggregation: input.aggregation,
+                    lastReportCreatedAt: input.lastReportCreatedAt ? new Date(input.lastReportCreatedAt) : null,
+                    countryCode: input.countryCode,
+                },
+                offsetHours
+            );
+
+            return { offsetHours, refreshes, nextRefreshAt };
+        }),
+});
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import type { ReportConfig } from '@/types/reports.js';
+
+/**
+ * Annual search term report configuration.
+ *
+ * Search term reports break performance down by the customer search query that
+ * matched a target, which is what we harvest new keywords from.
+ * Uses 'year.value' for time dimension.
+ */
+
+// Complete schema for annual search term report rows
+export const annualSearchTermReportRowSchema = z.object({
+    'year.value': z.coerce.string(),
+    'budgetCurrency.value': z.string(),
+    'campaign.id': z.coerce.string(),
+    'campaign.name': z.string(),
+    'adGroup.id': z.coerce.string(),
+    'adGroup.name': z.coerce.string(),
+    'ad.id': z.coerce.string(),
+    'target.value': z.string(),
+    'target.matchType': z.string(),
+    'searchTerm.value': z.string(),
+    'metric.impressions': z.number(),
+    'metric.clicks': z.number(),
+    'metric.purchases': z.number(),
+    'metric.sales': z.number(),
+    'metric.totalCost': z.number(),
+});
+
+// Derive fields array from schema keys
+const fields = Object.keys(annualSearchTermReportRowSchema.shape) as string[];
+
+export const annualSearchTermReportConfig: ReportConfig = {
+    aggregation: 'annual',
+    entityType: 'searchTerm',
+    fields,
+    rowSchema: annualSearchTermReportRowSchema,
+    format: 'GZIP_JSON',
+};
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import type { ReportConfig } from '@/types/reports.js';
+
+/**
+ * Annual report configuration.
+ *
+ * Annual reports capture performance data for a whole calendar year, straight from Amazon
+ * rather than summed from daily rows. Uses 'year.value' for time dimension.
+ */
+
+// Complete schema for annual report rows
+export const annualReportRowSchema = z.object({
+    'year.value': z.coerce.string(),
+    'budgetCurrency.value': z.string(),
+    'campaign.id': z.coerce.string(),
+    'campaign.name': z.string(),
+    'adGroup.id': z.coerce.string(),
+    'adGroup.name': z.coerce.string(),
+    'ad.id': z.coerce.string(),
+    'target.value': z.string(),
+    'target.matchType': z.string(),
+    'metric.impressions': z.number(),
+    'metric.clicks': z.number(),
+    'metric.purchases': z.number(),
+    'metric.sales': z.number(),
+    'metric.totalCost': z.number(),
+});
+
+// Derive fields array from schema keys
+const fields = Object.keys(annualReportRowSchema.shape) as string[];
+
+export const annualTargetReportConfig: ReportConfig = {
+    aggregation: 'annual',
+    entityType: 'target',
+    fields,
+    rowSchema: annualReportRowSchema,
+    format: 'GZIP_JSON',
+};
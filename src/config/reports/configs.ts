@@ -3,19 +3,62 @@
  * Maps aggregation -> entityType -> ReportConfig
  */
 
-import type { ReportConfigMap } from '@/types/reports.js';
+import type { AggregationType, EntityType, ReportConfig, ReportConfigMap } from '@/types/reports.js';
+import { annualProductReportConfig } from './annual-product.js';
+import { annualSearchTermReportConfig } from './annual-search-term.js';
+import { annualTargetReportConfig } from './annual-target.js';
+import { dailyPlacementReportConfig } from './daily-placement.js';
 import { dailyProductReportConfig } from './daily-product.js';
+import { dailySearchTermReportConfig } from './daily-search-term.js';
 import { dailyTargetReportConfig } from './daily-target.js';
+import { hourlyPlacementReportConfig } from './hourly-placement.js';
 import { hourlyProductReportConfig } from './hourly-product.js';
+import { hourlySearchTermReportConfig } from './hourly-search-term.js';
 import { hourlyTargetReportConfig } from './hourly-target.js';
+import { monthlyProductReportConfig } from './monthly-product.js';
+import { monthlySearchTermReportConfig } from './monthly-search-term.js';
+import { monthlyTargetReportConfig } from './monthly-target.js';
 
 export const reportConfigs: ReportConfigMap = {
     hourly: {
         target: hourlyTargetReportConfig,
         product: hourlyProductReportConfig,
+        searchTerm: hourlySearchTermReportConfig,
+        placement: hourlyPlacementReportConfig,
     },
     daily: {
         target: dailyTargetReportConfig,
         product: dailyProductReportConfig,
+        searchTerm: dailySearchTermReportConfig,
+        placement: dailyPlacementReportConfig,
+    },
+    monthly: {
+        target: monthlyTargetReportConfig,
+        product: monthlyProductReportConfig,
+        searchTerm: monthlySearchTermReportConfig,
+    },
+    annual: {
+        target: annualTargetReportConfig,
+        product: annualProductReportConfig,
+        searchTerm: annualSearchTermReportConfig,
     },
 };
+
+/**
+ * Whether Amazon offers a report for this aggregation and entity type.
+ */
+export function hasReportConfig(aggregation: AggregationType, entityType: EntityType): boolean {
+    return reportConfigs[aggregation][entityType] !== undefined;
+}
+
+/**
+ * Get the report configuration for an aggregation and entity type.
+ * Throws if the combination has no report (e.g. monthly placement).
+ */
+export function getReportConfig(aggregation: AggregationType, entityType: EntityType): ReportConfig {
+    const reportConfig = reportConfigs[aggregation][entityType];
+    if (!reportConfig) {
+        throw new Error(`No ${aggregation} ${entityType} report is available`);
+    }
+    return reportConfig;
+}
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import type { ReportConfig } from '@/types/reports.js';
+
+/**
+ * Daily placement report configuration.
+ *
+ * Placement reports break campaign performance down by where the ad was shown
+ * (top of search, rest of search, product pages), the level bid adjustments apply at.
+ * Uses 'date.value' for time dimension.
+ */
+
+// Complete schema for daily placement report rows
+export const dailyPlacementReportRowSchema = z.object({
+    'date.value': z.string(),
+    'budgetCurrency.value': z.string(),
+    'campaign.id': z.coerce.string(),
+    'campaign.name': z.string(),
+    'placement.value': z.string(),
+    'metric.impressions': z.number(),
+    'metric.clicks': z.number(),
+    'metric.purchases': z.number(),
+    'metric.sales': z.number(),
+    'metric.totalCost': z.number(),
+});
+
+// Derive fields array from schema keys
+const fields = Object.keys(dailyPlacementReportRowSchema.shape) as string[];
+
+export const dailyPlacementReportConfig: ReportConfig = {
+    aggregation: 'daily',
+    entityType: 'placement',
+    fields,
+    rowSchema: dailyPlacementReportRowSchema,
+    format: 'GZIP_JSON',
+};
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import type { ReportConfig } from '@/types/reports.js';
+
+/**
+ * Daily search term report configuration.
+ *
+ * Search term reports break performance down by the customer search query that
+ * matched a target, which is what we harvest new keywords from.
+ * Uses 'date.value' for time dimension.
+ */
+
+// Complete schema for daily search term report rows
+export const dailySearchTermReportRowSchema = z.object({
+    'date.value': z.string(),
+    'budgetCurrency.value': z.string(),
+    'campaign.id': z.coerce.string(),
+    'campaign.name': z.string(),
+    'adGroup.id': z.coerce.string(),
+    'adGroup.name': z.coerce.string(),
+    'ad.id': z.coerce.string(),
+    'target.value': z.string(),
+    'target.matchType': z.string(),
+    'searchTerm.value': z.string(),
+    'metric.impressions': z.number(),
+    'metric.clicks': z.number(),
+    'metric.purchases': z.number(),
+    'metric.sales': z.number(),
+    'metric.totalCost': z.number(),
+});
+
+// Derive fields array from schema keys
+const fields = Object.keys(dailySearchTermReportRowSchema.shape) as string[];
+
+export const dailySearchTermReportConfig: ReportConfig = {
+    aggregation: 'daily',
+    entityType: 'searchTerm',
+    fields,
+    rowSchema: dailySearchTermReportRowSchema,
+    format: 'GZIP_JSON',
+};
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import type { ReportConfig } from '@/types/reports.js';
+
+/**
+ * Hourly placement report configuration.
+ *
+ * Placement reports break campaign performance down by where the ad was shown
+ * (top of search, rest of search, product pages), the level bid adjustments apply at.
+ * Uses 'hour.value' for time dimension.
+ */
+
+// Complete schema for hourly placement report rows
+export const hourlyPlacementReportRowSchema = z.object({
+    'date.value': z.coerce.string(),
+    'hour.value': z.coerce.string(),
+    'budgetCurrency.value': z.string(),
+    'campaign.id': z.coerce.string(),
+    'campaign.name': z.string(),
+    'placement.value': z.string(),
+    'metric.impressions': z.number(),
+    'metric.clicks': z.number(),
+    'metric.purchases': z.number(),
+    'metric.sales': z.number(),
+    'metric.totalCost': z.number(),
+});
+
+// Derive fields array from schema keys
+const fields = Object.keys(hourlyPlacementReportRowSchema.shape) as string[];
+
+export const hourlyPlacementReportConfig: ReportConfig = {
+    aggregation: 'hourly',
+    entityType: 'placement',
+    fields,
+    rowSchema: hourlyPlacementReportRowSchema,
+    format: 'GZIP_JSON',
+};
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import type { ReportConfig } from '@/types/reports.js';
+
+/**
+ * Monthly report configuration.
+ *
+ * Monthly reports capture performance data for a whole calendar month, straight from Amazon
+ * rather than summed from daily rows. Uses 'month.value' for time dimension.
+ */
+
+// Complete schema for monthly report rows
+export const monthlyReportRowSchema = z.object({
+    'month.value': z.coerce.string(),
+    'budgetCurrency.value': z.string(),
+    'campaign.id': z.coerce.string(),
+    'campaign.name': z.string(),
+    'adGroup.id': z.coerce.string(),
+    'ad.id': z.coerce.string(),
+    'advertisedProduct.id': z.string(),
+    'advertisedProduct.marketplace': z.string(),
+    'target.value': z.string(),
+    'target.matchType': z.string(),
+    'matchedTarget.value': z.string(),
+    'metric.impressions': z.number(),
+    'metric.clicks': z.number(),
+    'metric.purchases': z.number(),
+    'metric.sales': z.number(),
+    'metric.totalCost': z.number(),
+});
+
+// Derive fields array from schema keys
+const fields = Object.keys(monthlyReportRowSchema.shape) as string[];
+
+export const monthlyProductReportConfig: ReportConfig = {
+    aggregation: 'monthly',
+    entityType: 'product',
+    fields,
+    rowSchema: monthlyReportRowSchema,
+    format: 'GZIP_JSON',
+};
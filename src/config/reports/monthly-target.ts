@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import type { ReportConfig } from '@/types/reports.js';
+
+/**
+ * Monthly report configuration.
+ *
+ * Monthly reports capture performance data for a whole calendar month, straight from Amazon
+ * rather than summed from daily rows. Uses 'month.value' for time dimension.
+ */
+
+// Complete schema for monthly report rows
+export const monthlyReportRowSchema = z.object({
+    'month.value': z.coerce.string(),
+    'budgetCurrency.value': z.string(),
+    'campaign.id': z.coerce.string(),
+    'campaign.name': z.string(),
+    'adGroup.id': z.coerce.string(),
+    'adGroup.name': z.coerce.string(),
+    'ad.id': z.coerce.string(),
+    'target.value': z.string(),
+    'target.matchType': z.string(),
+    'metric.impressions': z.number(),
+    'metric.clicks': z.number(),
+    'metric.purchases': z.number(),
+    'metric.sales': z.number(),
+    'metric.totalCost': z.number(),
+});
+
+// Derive fields array from schema keys
+const fields = Object.keys(monthlyReportRowSchema.shape) as string[];
+
+export const monthlyTargetReportConfig: ReportConfig = {
+    aggregation: 'monthly',
+    entityType: 'target',
+    fields,
+    rowSchema: monthlyReportRowSchema,
+    format: 'GZIP_JSON',
+};
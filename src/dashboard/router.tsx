@@ -1,6 +1,9 @@
 import { createBrowserRouter, createRoutesFromElements, Route } from 'react-router';
 import { RootRoute } from './layout';
+import { AdGroupRoute } from './routes/ad-group';
+import { CampaignRoute } from './routes/campaign';
 import { IndexRoute } from './routes/index';
+import { TargetRoute } from './routes/target';
 
 function resolveApiBaseUrl() {
     const envApi =
@@ -18,6 +21,9 @@ export const router = createBrowserRouter(
     createRoutesFromElements(
         <Route path="/" element={<RootRoute />}>
             <Route index element={<IndexRoute />} />
+            <Route path="campaigns/:campaignId" element={<CampaignRoute />} />
+            <Route path="ad-groups/:adGroupId" element={<AdGroupRoute />} />
+            <Route path="targets/:targetId" element={<TargetRoute />} />
         </Route>
     )
 );
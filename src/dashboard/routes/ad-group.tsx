@@ -0,0 +1,41 @@
+import { useParams } from 'react-router';
+import { api } from '@/dashboard/lib/trpc';
+import { EntityPage } from './components/entity/entity-page';
+
+export function AdGroupRoute() {
+    const { adGroupId = '' } = useParams();
+    const { data, isLoading, error } = api.entities.adGroup.useQuery({ adGroupId }, { enabled: !!adGroupId });
+
+    const adGroup = data?.adGroup;
+
+    return (
+        <EntityPage
+            level="adGroup"
+            id={adGroupId}
+            isLoading={isLoading}
+            error={error}
+            header={
+                adGroup && {
+                    breadcrumbs: data.campaign ? [{ label: data.campaign.name, href: `/campaigns/${data.campaign.campaignId}` }] : [],
+                    name: adGroup.name,
+                    state: adGroup.state,
+                    attributes: [
+                        { label: 'Ad group ID', value: adGroup.adGroupId },
+                        { label: 'Default bid', value: adGroup.bidAmount && `$${adGroup.bidAmount}` },
+                        { label: 'Delivery', value: adGroup.deliveryStatus },
+                        { label: 'Ad product', value: adGroup.adProduct },
+                    ],
+                }
+            }
+            childrenTitle="Targets"
+            childEntities={(data?.targets ?? [])
+                .filter(target => !target.negative)
+                .map(target => ({
+                    id: target.targetId,
+                    name: target.targetKeyword ?? target.targetAsin ?? target.targetType,
+                    detail: [target.targetMatchType, target.state, target.bidAmount && `bid $${target.bidAmount}`].filter(Boolean).join(' · '),
+                    href: `/targets/${target.targetId}`,
+                }))}
+        />
+    );
+}
@@ -0,0 +1,44 @@
+import { useParams } from 'react-router';
+import { api } from '@/dashboard/lib/trpc';
+import { EntityPage } from './components/entity/entity-page';
+
+export function CampaignRoute() {
+    const { campaignId = '' } = useParams();
+    const { data, isLoading, error } = api.entities.campaign.useQuery({ campaignId }, { enabled: !!campaignId });
+
+    const campaign = data?.campaign;
+    const budget = campaign?.budgetAmount ? `$${campaign.budgetAmount} ${campaign.budgetPeriod?.toLowerCase() ?? ''}`.trim() : null;
+
+    return (
+        <EntityPage
+            level="campaign"
+            id={campaignId}
+            isLoading={isLoading}
+            error={error}
+            header={
+                campaign && {
+                    breadcrumbs: [],
+                    name: campaign.name,
+                    state: campaign.state,
+                    attributes: [
+                        { label: 'Campaign ID', value: campaign.campaignId },
+                        { label: 'Targeting', value: campaign.targetingSettings },
+                        { label: 'Bid strategy', value: campaign.bidStrategy },
+                        { label: 'Budget', value: budget },
+                        { label: 'Delivery', value: campaign.deliveryStatus },
+                        { label: 'Start date', value: campaign.startDate },
+                        { label: 'End date', value: campaign.endDate },
+                        { label: 'Ad product', value: campaign.adProduct },
+                    ],
+                }
+            }
+            childrenTitle="Ad Groups"
+            childEntities={(data?.adGroups ?? []).map(adGroup => ({
+                id: adGroup.adGroupId,
+                name: adGroup.name,
+                detail: [adGroup.state, adGroup.bidAmount && `default bid $${adGroup.bidAmount}`].filter(Boolean).join(' · '),
+                href: `/ad-groups/${adGroup.adGroupId}`,
+            }))}
+        />
+    );
+}
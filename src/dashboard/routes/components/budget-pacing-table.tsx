@@ -0,0 +1,95 @@
+import { useAtomValue } from 'jotai';
+import { api } from '@/dashboard/lib/trpc';
+import { Badge } from '../../components/ui/badge';
+import { Card } from '../../components/ui/card';
+import { Spinner } from '../../components/ui/spinner';
+import { cn } from '../../lib/utils';
+import { selectedAccountIdAtom, selectedCountryCodeAtom } from './account-selector/atoms';
+
+const STATUS_DOT = {
+    exhausted: 'bg-red-500',
+    at_risk: 'bg-amber-500',
+    on_track: 'bg-emerald-500',
+} as const;
+
+const formatHour = (hour: number) => {
+    const minutes = Math.round(hour * 60);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Today's budget usage per campaign with a projected end-of-day spend, so campaigns that will run out
+ * of budget before the account's alert hour show up while there is still time to raise the budget.
+ */
+export const BudgetPacingTable = () => {
+    const accountId = useAtomValue(selectedAccountIdAtom);
+    const countryCode = useAtomValue(selectedCountryCodeAtom);
+    const { data, isLoading } = api.budgets.pacing.useQuery(
+        { accountId, countryCode },
+        {
+            enabled: !!accountId && !!countryCode,
+            refetchInterval: 300000,
+            staleTime: 60000,
+        }
+    );
+
+    if (!accountId) {
+        return null;
+    }
+
+    const atRisk = data?.campaigns.filter(campaign => campaign.status !== 'on_track').length ?? 0;
+
+    return (
+        <Card className="p-3 pb-1 space-y-0 gap-0">
+            <div className="flex items-start justify-between pl-1 pb-1">
+                <div>
+                    <div className="text-sm font-medium">Budget Pacing</div>
+                    <div className="text-xs text-muted-foreground">
+                        {data ? `Projected end-of-day spend for ${data.date}, flagged if the budget runs out before ${formatHour(data.alertHour)}` : 'Projected end-of-day spend'}
+                    </div>
+                </div>
+                {isLoading ? <Spinner /> : atRisk > 0 && <Badge variant="warning">{atRisk} at risk</Badge>}
+            </div>
+            {data && data.campaigns.length === 0 && <div className="text-sm text-muted-foreground px-1 h-9 flex items-center">No budget usage reported today</div>}
+            {data && data.campaigns.length > 0 && (
+                <div className="px-1 overflow-x-auto">
+                    <table className="w-full text-sm tabular-nums">
+                        <thead>
+                            <tr className="text-xs text-muted-foreground">
+                                <th className="text-left font-normal h-8">Campaign</th>
+                                <th className="text-right font-normal">Budget</th>
+                                <th className="text-right font-normal">Spent</th>
+                                <th className="text-right font-normal">Projected</th>
+                                <th className="text-right font-normal">Runs out</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                            {data.campaigns.map(campaign => (
+                                <tr key={campaign.campaignId} className="h-9">
+                                    <td className="flex items-center gap-2 h-9 max-w-96">
+                                        <span className={cn('size-2 shrink-0 rounded-full', STATUS_DOT[campaign.status])} />
+                                        <span className="truncate" title={campaign.campaignName ?? campaign.campaignId}>
+                                            {campaign.campaignName ?? campaign.campaignId}
+                                        </span>
+                                    </td>
+                                    <td className="text-right">${campaign.budget.toFixed(2)}</td>
+                                    <td className="text-right">
+                                        ${campaign.spent.toFixed(2)}
+                                        <span className="text-xs text-muted-foreground ml-1">{campaign.usagePercentage.toFixed(0)}%</span>
+                                    </td>
+                                    <td className={cn('text-right', campaign.projectedUsagePercentage > 100 && 'text-amber-600 dark:text-amber-300')}>
+                                        ${campaign.projectedSpend.toFixed(2)}
+                                        <span className="text-xs text-muted-foreground ml-1">{campaign.projectedUsagePercentage.toFixed(0)}%</span>
+                                    </td>
+                                    <td className={cn('text-right', campaign.status === 'on_track' ? 'text-muted-foreground' : 'text-amber-600 dark:text-amber-300')}>
+                                        {campaign.exhaustsAtHour === null ? '—' : formatHour(campaign.exhaustsAtHour)}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </Card>
+    );
+};
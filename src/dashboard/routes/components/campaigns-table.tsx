@@ -0,0 +1,28 @@
+import { api } from '@/dashboard/lib/trpc';
+import { useEntityPerformance } from '../hooks/use-entity-performance';
+import { useSelectedAccountId } from '../hooks/use-selected-accountid';
+import { EntityChildrenTable } from './entity/entity-children-table';
+
+/**
+ * The account's campaigns with their last 30 days of performance, linking to each campaign's page.
+ */
+export const CampaignsTable = () => {
+    const accountId = useSelectedAccountId();
+    const { data: campaigns = [] } = api.entities.campaigns.useQuery({ accountId });
+    const performance = useEntityPerformance('account');
+
+    return (
+        <EntityChildrenTable
+            title="Campaigns (30d)"
+            entities={campaigns.map(campaign => ({
+                id: campaign.campaignId,
+                name: campaign.name,
+                detail: [campaign.state, campaign.budgetAmount && `budget $${campaign.budgetAmount}`].filter(Boolean).join(' · '),
+                href: `/campaigns/${campaign.campaignId}`,
+            }))}
+            performance={performance.data?.children ?? []}
+            totals={performance.data?.totals}
+            isLoading={performance.isFetching}
+        />
+    );
+};
@@ -1,5 +1,5 @@
 import { useMemo } from 'react';
-import { Area, Bar, ComposedChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Area, Bar, Cell, ComposedChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 import { api } from '@/dashboard/lib/trpc';
 import { cn } from '@/dashboard/lib/utils';
 import { Spinner } from '../../components/ui/spinner';
@@ -83,13 +83,24 @@ const MetricLabel = ({ metric, value, change }: { metric: MetricConfig; value: n
 // Metrics that are displayed on the chart (for tooltip)
 const CHARTED_METRICS = METRICS.filter(m => m.key === 'impressions' || m.key === 'clicks' || m.key === 'orders');
 
-const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<{ dataKey: string; value: number; payload: Record<string, number | string> }> }) => {
+type HourAnomaly = { metric: string; zScore: number; mean: number };
+
+const ANOMALY_METRIC_LABELS: Record<string, string> = {
+    impressions: 'Impressions',
+    clicks: 'Clicks',
+    spend: 'Spend',
+    sales: 'Sales',
+    orders: 'Orders',
+};
+
+const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<{ dataKey: string; value: number; payload: Record<string, number | string | HourAnomaly[]> }> }) => {
     if (!active || !payload || payload.length === 0) return null;
 
     const dataPoint = payload[0]?.payload;
     if (!dataPoint) return null;
 
     const hourLabel = typeof dataPoint.hourLabel === 'string' ? dataPoint.hourLabel : '';
+    const anomalies = Array.isArray(dataPoint.anomalies) ? dataPoint.anomalies : [];
 
     return (
         <div className="bg-card border border-border rounded-lg shadow-lg p-3 min-w-[160px]">
@@ -113,6 +124,16 @@ const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<
                     );
                 })}
             </div>
+            {anomalies.length > 0 && (
+                <div className="mt-2 pt-2 border-t border-border space-y-1">
+                    {anomalies.map(anomaly => (
+                        <div key={anomaly.metric} className="text-xs text-amber-600 dark:text-amber-400">
+                            {ANOMALY_METRIC_LABELS[anomaly.metric] ?? anomaly.metric} {anomaly.zScore > 0 ? 'above' : 'below'} usual ({anomaly.zScore > 0 ? '+' : ''}
+                            {anomaly.zScore.toFixed(1)}σ)
+                        </div>
+                    ))}
+                </div>
+            )}
         </div>
     );
 };
@@ -227,7 +248,7 @@ export const DailyPerformanceMetrics = ({ className }: { className?: string }) =
 
                             <Tooltip content={<CustomTooltip />} cursor={{ fill: 'transparent' }} />
 
-                            {/* Impressions as bars - subtle gray (zIndex 0 = behind) */}
+                            {/* Impressions as bars - subtle gray (zIndex 0 = behind), amber for hours outside their 28-day same-hour range */}
                             <Bar
                                 yAxisId="impressions"
                                 dataKey="impressions"
@@ -236,7 +257,11 @@ export const DailyPerformanceMetrics = ({ className }: { className?: string }) =
                                 radius={[2, 2, 0, 0]}
                                 isAnimationActive={false}
                                 zIndex={0}
-                            />
+                            >
+                                {chartData.map(point => (
+                                    <Cell key={point.hour} className={point.anomalies.length > 0 ? 'text-amber-300 dark:text-amber-700' : undefined} />
+                                ))}
+                            </Bar>
 
                             {/* Area charts for clicks and orders with gradient fill (zIndex 1-2 = on top) */}
                             <Area yAxisId="clicks" type="monotone" dataKey="clicks" stroke="#6366f1" strokeWidth={2} fill="url(#clicksGradient)" dot={false} isAnimationActive={false} zIndex={1} />
@@ -0,0 +1,111 @@
+import { useAtomValue } from 'jotai';
+import { useState } from 'react';
+import { api } from '@/dashboard/lib/trpc';
+import { Button } from '../../components/ui/button';
+import { Card } from '../../components/ui/card';
+import { Dialog, DialogDescription, DialogFooter, DialogHeader, DialogPanel, DialogPopup, DialogTitle } from '../../components/ui/dialog';
+import { Spinner } from '../../components/ui/spinner';
+import { cn } from '../../lib/utils';
+import { selectedAccountIdAtom } from './account-selector/atoms';
+
+const STATUS_DOT: Record<string, string> = {
+    sent: 'bg-emerald-500',
+    failed: 'bg-red-500',
+};
+
+/**
+ * Digest emails sent for the selected account, newest first. Opening one shows the email as it was sent.
+ */
+export const DigestHistoryCard = () => {
+    const accountId = useAtomValue(selectedAccountIdAtom);
+    const [openReportId, setOpenReportId] = useState<string | null>(null);
+    const { data, isLoading } = api.digests.history.useQuery(
+        { accountId },
+        {
+            enabled: !!accountId,
+            refetchInterval: 300000,
+            staleTime: 60000,
+        }
+    );
+
+    if (!accountId) {
+        return null;
+    }
+
+    return (
+        <Card className="p-3 pb-1 space-y-0 gap-0">
+            <div className="flex items-start justify-between pl-1 pb-1">
+                <div>
+                    <div className="text-sm font-medium">Performance Digests</div>
+                    <div className="text-xs text-muted-foreground">Daily and weekly digest emails sent for this account</div>
+                </div>
+                {isLoading && <Spinner />}
+            </div>
+            {data && data.length === 0 && <div className="text-sm text-muted-foreground px-1 h-9 flex items-center">No digests sent yet</div>}
+            {data && data.length > 0 && (
+                <div className="px-1 overflow-x-auto">
+                    <table className="w-full text-sm tabular-nums">
+                        <thead>
+                            <tr className="text-xs text-muted-foreground">
+                                <th className="text-left font-normal h-8">Sent</th>
+                                <th className="text-left font-normal">Recipient</th>
+                                <th className="text-left font-normal">Period</th>
+                                <th className="text-left font-normal">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                            {data.map(report => (
+                                <tr key={report.id} className="h-9 cursor-pointer hover:bg-muted/50" onClick={() => setOpenReportId(report.id)}>
+                                    <td className="whitespace-nowrap">{new Date(report.createdAt).toLocaleString()}</td>
+                                    <td className="truncate max-w-64" title={report.recipient}>
+                                        {report.recipient}
+                                    </td>
+                                    <td className="whitespace-nowrap">
+                                        <span className="capitalize">{report.frequency}</span>
+                                        <span className="text-xs text-muted-foreground ml-1">
+                                            {report.periodFrom === report.periodTo ? report.periodTo : `${report.periodFrom} – ${report.periodTo}`} ({report.countryCode})
+                                        </span>
+                                    </td>
+                                    <td>
+                                        <span className="flex items-center gap-2" title={report.error ?? undefined}>
+                                            <span className={cn('size-2 shrink-0 rounded-full', STATUS_DOT[report.status] ?? 'bg-muted-foreground')} />
+                                            <span className="capitalize">{report.status}</span>
+                                            {report.error && <span className="text-xs text-muted-foreground truncate max-w-64">{report.error}</span>}
+                                        </span>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            <DigestReportDialog reportId={openReportId} onClose={() => setOpenReportId(null)} />
+        </Card>
+    );
+};
+
+function DigestReportDialog({ reportId, onClose }: { reportId: string | null; onClose: () => void }) {
+    const { data, isLoading } = api.digests.report.useQuery({ id: reportId ?? '' }, { enabled: !!reportId, staleTime: Infinity });
+
+    return (
+        <Dialog open={!!reportId} onOpenChange={open => !open && onClose()}>
+            <DialogPopup className="sm:max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>{data?.subject ?? 'Digest'}</DialogTitle>
+                    <DialogDescription>
+                        {data ? `Sent to ${data.recipient}${(data.attachments as string[]).length > 0 ? ` with ${(data.attachments as string[]).join(', ')}` : ''}` : 'Loading digest'}
+                    </DialogDescription>
+                </DialogHeader>
+                <DialogPanel>
+                    {isLoading && <Spinner />}
+                    {/* The stored email is rendered in a sandbox so it cannot run scripts or reach the dashboard */}
+                    {data?.html != null && <iframe title={data.subject ?? 'Digest'} sandbox="" srcDoc={data.html} className="w-full h-[60vh] rounded-lg border bg-white" />}
+                    {data && data.html == null && <p className="text-sm text-muted-foreground">The digest could not be built: {data.error}</p>}
+                </DialogPanel>
+                <DialogFooter>
+                    <Button onClick={onClose}>Close</Button>
+                </DialogFooter>
+            </DialogPopup>
+        </Dialog>
+    );
+}
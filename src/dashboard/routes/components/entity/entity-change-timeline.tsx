@@ -0,0 +1,68 @@
+import { format } from 'date-fns';
+import { Badge } from '@/dashboard/components/ui/badge';
+import { Card } from '@/dashboard/components/ui/card';
+import { Spinner } from '@/dashboard/components/ui/spinner';
+import { api } from '@/dashboard/lib/trpc';
+import { useSelectedAccountId } from '../../hooks/use-selected-accountid';
+
+const FIELD_LABELS: Record<string, string> = {
+    budget: 'Budget',
+    defaultBid: 'Default bid',
+    bid: 'Bid',
+};
+
+const SOURCE_BADGES: Record<string, { label: string; variant: 'info' | 'secondary' | 'warning' }> = {
+    bidbeacon: { label: 'BidBeacon', variant: 'info' },
+    export: { label: 'Export sync', variant: 'secondary' },
+    ams: { label: 'AMS', variant: 'warning' },
+};
+
+const formatAmount = (value: string | null) => (value === null ? '—' : `$${Number(value).toFixed(2)}`);
+
+/**
+ * Bid and budget history for an entity and everything under it, newest first. Changes made outside
+ * BidBeacon come from export syncs and AMS updates and have no author.
+ */
+export const EntityChangeTimeline = ({ level, id }: { level: 'campaign' | 'adGroup' | 'target'; id: string }) => {
+    const accountId = useSelectedAccountId();
+    const filters = level === 'campaign' ? { campaignId: id } : level === 'adGroup' ? { adGroupId: id } : { entityType: 'target' as const, entityId: id };
+
+    const { data, isLoading } = api.changes.list.useQuery(
+        { accountId, ...filters, limit: 100 },
+        {
+            enabled: !!accountId,
+            refetchInterval: 300000,
+            staleTime: 60000,
+        }
+    );
+
+    return (
+        <Card className="p-3 space-y-2 gap-0">
+            <div className="flex items-center justify-between pl-1">
+                <div className="text-sm font-medium">Bid &amp; Budget Changes</div>
+                {isLoading && <Spinner />}
+            </div>
+            {data && data.length === 0 && <div className="pl-1 text-xs text-muted-foreground">No changes recorded yet.</div>}
+            <ol className="divide-y text-sm">
+                {data?.map(change => {
+                    const source = SOURCE_BADGES[change.source];
+                    const showEntity = !(change.entityType === level && change.entityId === id);
+                    return (
+                        <li key={change.id} className="flex flex-wrap items-baseline gap-x-3 gap-y-1 px-1 py-2">
+                            <span className="w-32 shrink-0 text-xs tabular-nums text-muted-foreground">{format(new Date(change.changedAt), 'MMM d, HH:mm')}</span>
+                            <span>
+                                {FIELD_LABELS[change.field] ?? change.field}
+                                {showEntity && <span className="text-muted-foreground"> · {change.entityName ?? change.entityId}</span>}
+                            </span>
+                            <span className="tabular-nums">
+                                {formatAmount(change.oldValue)} → {formatAmount(change.newValue)}
+                            </span>
+                            {source && <Badge variant={source.variant}>{source.label}</Badge>}
+                            {(change.changedBy || change.reason) && <span className="text-xs text-muted-foreground">{[change.changedBy, change.reason].filter(Boolean).join(': ')}</span>}
+                        </li>
+                    );
+                })}
+            </ol>
+        </Card>
+    );
+};
@@ -0,0 +1,153 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router';
+import { Frame } from '@/dashboard/components/ui/frame';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/dashboard/components/ui/table';
+import { cn } from '@/dashboard/lib/utils';
+
+type Totals = {
+    impressions: number;
+    clicks: number;
+    spend: number;
+    sales: number;
+    orders: number;
+    acos: number;
+    ctr: number;
+    cpc: number;
+    cvr: number;
+};
+
+export type ChildEntity = {
+    id: string;
+    name: string;
+    detail?: string;
+    href?: string;
+};
+
+type SortKey = 'name' | keyof Totals;
+
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+const formatCount = (value: number) => value.toLocaleString();
+
+const METRIC_COLUMNS: { key: keyof Totals; label: string; format: (value: number) => string }[] = [
+    { key: 'impressions', label: 'Impr.', format: formatCount },
+    { key: 'clicks', label: 'Clicks', format: formatCount },
+    { key: 'spend', label: 'Spend', format: formatCurrency },
+    { key: 'sales', label: 'Sales', format: formatCurrency },
+    { key: 'orders', label: 'Orders', format: formatCount },
+    { key: 'acos', label: 'ACoS', format: formatPercent },
+    { key: 'ctr', label: 'CTR', format: formatPercent },
+    { key: 'cpc', label: 'CPC', format: formatCurrency },
+    { key: 'cvr', label: 'CVR', format: formatPercent },
+];
+
+const EMPTY_TOTALS: Totals = { impressions: 0, clicks: 0, spend: 0, sales: 0, orders: 0, acos: 0, ctr: 0, cpc: 0, cvr: 0 };
+
+/**
+ * Child entities with their totals over the page's date range, sortable by any column.
+ * Children without performance rows show zeros; performance rows without a synced entity show their id.
+ */
+export const EntityChildrenTable = ({
+    title,
+    entities,
+    performance,
+    totals,
+    isLoading,
+}: {
+    title: string;
+    entities: ChildEntity[];
+    performance: (Totals & { id: string })[];
+    totals?: Totals;
+    isLoading?: boolean;
+}) => {
+    const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'spend', direction: 'desc' });
+
+    const rows = useMemo(() => {
+        const performanceById = new Map(performance.map(row => [row.id, row]));
+        const entityIds = new Set(entities.map(entity => entity.id));
+        const merged: (ChildEntity & Totals)[] = [
+            ...entities.map(entity => ({ ...entity, ...(performanceById.get(entity.id) ?? EMPTY_TOTALS) })),
+            ...performance.filter(row => !entityIds.has(row.id)).map(row => ({ ...row, name: row.id || '(unknown)' })),
+        ];
+
+        const factor = sort.direction === 'asc' ? 1 : -1;
+        return merged.sort((a, b) => {
+            if (sort.key === 'name') {
+                return a.name.localeCompare(b.name) * factor;
+            }
+            return (a[sort.key] - b[sort.key]) * factor;
+        });
+    }, [entities, performance, sort]);
+
+    const toggleSort = (key: SortKey) => {
+        setSort(current => (current.key === key ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' } : { key, direction: key === 'name' ? 'asc' : 'desc' }));
+    };
+
+    const sortIndicator = (key: SortKey) => (sort.key === key ? (sort.direction === 'asc' ? ' ↑' : ' ↓') : '');
+
+    return (
+        <div className="w-full">
+            <div className="mb-2 text-sm font-medium">{title}</div>
+            <Frame className="w-full">
+                <Table className="tabular-nums">
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead className="cursor-pointer select-none" onClick={() => toggleSort('name')}>
+                                Name{sortIndicator('name')}
+                            </TableHead>
+                            {METRIC_COLUMNS.map(column => (
+                                <TableHead key={column.key} className="text-right cursor-pointer select-none" onClick={() => toggleSort(column.key)}>
+                                    {column.label}
+                                    {sortIndicator(column.key)}
+                                </TableHead>
+                            ))}
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody className={cn(isLoading && 'opacity-50 transition-opacity')}>
+                        {rows.length === 0 ? (
+                            <TableRow>
+                                <TableCell colSpan={METRIC_COLUMNS.length + 1} className="text-center text-muted-foreground">
+                                    No entities found.
+                                </TableCell>
+                            </TableRow>
+                        ) : (
+                            rows.map(row => (
+                                <TableRow key={row.id}>
+                                    <TableCell>
+                                        <div className="flex flex-col">
+                                            {row.href ? (
+                                                <Link to={row.href} className="hover:underline">
+                                                    {row.name}
+                                                </Link>
+                                            ) : (
+                                                <span>{row.name}</span>
+                                            )}
+                                            {row.detail && <span className="text-xs text-muted-foreground">{row.detail}</span>}
+                                        </div>
+                                    </TableCell>
+                                    {METRIC_COLUMNS.map(column => (
+                                        <TableCell key={column.key} className="text-right">
+                                            {column.format(row[column.key])}
+                                        </TableCell>
+                                    ))}
+                                </TableRow>
+                            ))
+                        )}
+                    </TableBody>
+                    {totals && (
+                        <TableFooter>
+                            <TableRow>
+                                <TableCell>Total</TableCell>
+                                {METRIC_COLUMNS.map(column => (
+                                    <TableCell key={column.key} className="text-right">
+                                        {column.format(totals[column.key])}
+                                    </TableCell>
+                                ))}
+                            </TableRow>
+                        </TableFooter>
+                    )}
+                </Table>
+            </Frame>
+        </div>
+    );
+};
@@ -0,0 +1,48 @@
+import { Fragment } from 'react';
+import { Link } from 'react-router';
+import { Badge } from '@/dashboard/components/ui/badge';
+import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from '@/dashboard/components/ui/breadcrumb';
+import { Card } from '@/dashboard/components/ui/card';
+
+export type EntityAttribute = { label: string; value: string | null | undefined };
+
+/**
+ * Breadcrumbs back to the entity's parents, its name and state, and its synced attributes.
+ */
+export const EntityHeader = ({ breadcrumbs, name, state, attributes }: { breadcrumbs: { label: string; href: string }[]; name: string; state?: string; attributes: EntityAttribute[] }) => (
+    <div className="space-y-3">
+        <Breadcrumb>
+            <BreadcrumbList>
+                <BreadcrumbItem>
+                    <BreadcrumbLink render={<Link to="/" />}>Overview</BreadcrumbLink>
+                </BreadcrumbItem>
+                {breadcrumbs.map(crumb => (
+                    <Fragment key={crumb.href}>
+                        <BreadcrumbSeparator />
+                        <BreadcrumbItem>
+                            <BreadcrumbLink render={<Link to={crumb.href} />}>{crumb.label}</BreadcrumbLink>
+                        </BreadcrumbItem>
+                    </Fragment>
+                ))}
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                    <BreadcrumbPage>{name}</BreadcrumbPage>
+                </BreadcrumbItem>
+            </BreadcrumbList>
+        </Breadcrumb>
+        <Card className="p-4 gap-3">
+            <div className="flex items-center gap-2">
+                <div className="text-lg font-medium">{name}</div>
+                {state && <Badge variant={state.toUpperCase() === 'ENABLED' ? 'success' : 'secondary'}>{state}</Badge>}
+            </div>
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-2 text-sm">
+                {attributes.map(attribute => (
+                    <div key={attribute.label}>
+                        <dt className="text-xs text-muted-foreground">{attribute.label}</dt>
+                        <dd>{attribute.value ?? '—'}</dd>
+                    </div>
+                ))}
+            </dl>
+        </Card>
+    </div>
+);
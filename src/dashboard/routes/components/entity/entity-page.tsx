@@ -0,0 +1,69 @@
+import { Spinner } from '@/dashboard/components/ui/spinner';
+import { useEntityPerformance } from '../../hooks/use-entity-performance';
+import { HourOfWeekHeatmap } from '../hour-of-week-heatmap';
+import { EntityChangeTimeline } from './entity-change-timeline';
+import { type ChildEntity, EntityChildrenTable } from './entity-children-table';
+import { type EntityAttribute, EntityHeader } from './entity-header';
+import { EntityPerformanceCharts } from './entity-performance-charts';
+
+/**
+ * Layout shared by the campaign, ad group and target pages: attributes, daily and hourly charts,
+ * the child entity table and the bid and budget change history.
+ */
+export const EntityPage = ({
+    level,
+    id,
+    isLoading,
+    error,
+    header,
+    childrenTitle,
+    childEntities,
+}: {
+    level: 'campaign' | 'adGroup' | 'target';
+    id: string;
+    isLoading: boolean;
+    error?: { message: string } | null;
+    header?: { breadcrumbs: { label: string; href: string }[]; name: string; state?: string; attributes: EntityAttribute[] };
+    childrenTitle: string;
+    childEntities: ChildEntity[];
+}) => {
+    const performance = useEntityPerformance(level, id);
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-12">
+                <Spinner />
+            </div>
+        );
+    }
+
+    if (error || !header) {
+        return <div className="max-w-background-frame-max mx-auto px-4 pt-6 text-sm text-destructive">{error?.message ?? 'Not found'}</div>;
+    }
+
+    return (
+        <div className="max-w-background-frame-max mx-auto px-4 pt-4 space-y-4">
+            <EntityHeader {...header} />
+            {performance.data ? (
+                <>
+                    <EntityPerformanceCharts daily={performance.data.daily} hourly={performance.data.hourly} />
+                    {level !== 'adGroup' && <HourOfWeekHeatmap campaignId={level === 'campaign' ? id : undefined} targetId={level === 'target' ? id : undefined} />}
+                    <EntityChildrenTable
+                        title={`${childrenTitle} (${performance.data.from} – ${performance.data.to})`}
+                        entities={childEntities}
+                        performance={performance.data.children}
+                        totals={performance.data.totals}
+                        isLoading={performance.isFetching}
+                    />
+                    <EntityChangeTimeline level={level} id={id} />
+                </>
+            ) : (
+                performance.isLoading && (
+                    <div className="flex justify-center py-12">
+                        <Spinner />
+                    </div>
+                )
+            )}
+        </div>
+    );
+};
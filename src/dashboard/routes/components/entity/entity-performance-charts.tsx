@@ -0,0 +1,46 @@
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { LEGEND_COLORS } from '@/dashboard/lib/chart-constants';
+import { ChartCard } from '../chart-card';
+
+type SeriesPoint = { spend: number; sales: number };
+
+const LEGEND_ITEMS = [
+    { label: 'Spend', value: 'spend', color: LEGEND_COLORS[0] },
+    { label: 'Sales', value: 'sales', color: LEGEND_COLORS[1] },
+];
+
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+
+const SpendSalesChart = ({ data, dataKey }: { data: SeriesPoint[]; dataKey: string }) => (
+    <div className="w-full h-[200px]">
+        <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+                <CartesianGrid stroke="#E5E7EB" strokeDasharray="0" vertical={false} />
+                <XAxis dataKey={dataKey} axisLine={false} tickLine={false} tick={{ fill: '#9CA3AF', fontSize: 12 }} />
+                <YAxis axisLine={false} tickLine={false} tick={{ fill: '#9CA3AF', fontSize: 12 }} width={50} tickFormatter={(value: number) => `$${value}`} />
+                <Tooltip formatter={value => formatCurrency(Number(value))} />
+                {LEGEND_ITEMS.map(item => (
+                    <Bar key={item.value} dataKey={item.value} name={item.label} fill={item.color} isAnimationActive={false} />
+                ))}
+            </BarChart>
+        </ResponsiveContainer>
+    </div>
+);
+
+/**
+ * Daily spend and sales for the entity's date range next to today's hourly spend and sales.
+ */
+export const EntityPerformanceCharts = ({ daily, hourly }: { daily: (SeriesPoint & { bucketDate: string })[]; hourly: (SeriesPoint & { hour: string })[] }) => {
+    const dailyData = daily.map(day => ({ ...day, label: day.bucketDate.slice(5) }));
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <ChartCard title={`Daily (${daily.length}d)`} legendItems={LEGEND_ITEMS}>
+                <SpendSalesChart data={dailyData} dataKey="label" />
+            </ChartCard>
+            <ChartCard title="Hourly (today)" legendItems={LEGEND_ITEMS}>
+                <SpendSalesChart data={hourly} dataKey="hour" />
+            </ChartCard>
+        </div>
+    );
+};
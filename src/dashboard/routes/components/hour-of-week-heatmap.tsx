@@ -0,0 +1,110 @@
+import { format, subDays } from 'date-fns';
+import { useAtomValue } from 'jotai';
+import { useMemo, useState } from 'react';
+import { api } from '@/dashboard/lib/trpc';
+import { Button } from '../../components/ui/button';
+import { ButtonGroup } from '../../components/ui/button-group';
+import { Card } from '../../components/ui/card';
+import { Spinner } from '../../components/ui/spinner';
+import { selectedAccountIdAtom } from './account-selector/atoms';
+
+const DAYS = 28;
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+type HeatmapMetric = 'impressions' | 'clicks' | 'spend' | 'sales' | 'acos' | 'cvr';
+
+const METRICS: { key: HeatmapMetric; label: string; format: (value: number) => string }[] = [
+    { key: 'spend', label: 'Spend', format: value => `$${value.toFixed(2)}` },
+    { key: 'sales', label: 'Sales', format: value => `$${value.toFixed(2)}` },
+    { key: 'impressions', label: 'Impr.', format: value => value.toLocaleString() },
+    { key: 'clicks', label: 'Clicks', format: value => value.toLocaleString() },
+    { key: 'acos', label: 'ACoS', format: value => `${value.toFixed(1)}%` },
+    { key: 'cvr', label: 'CVR', format: value => `${value.toFixed(1)}%` },
+];
+
+/**
+ * Weekday × hour totals over the last 28 days in account-local time, for picking dayparting windows.
+ * Darker cells are higher values of the selected metric.
+ */
+export const HourOfWeekHeatmap = ({ campaignId, targetId }: { campaignId?: string; targetId?: string }) => {
+    const accountId = useAtomValue(selectedAccountIdAtom);
+    const [metric, setMetric] = useState<HeatmapMetric>('spend');
+
+    const dateRange = useMemo(() => {
+        const today = new Date();
+        return { from: format(subDays(today, DAYS - 1), 'yyyy-MM-dd'), to: format(today, 'yyyy-MM-dd') };
+    }, []);
+
+    const { data, isLoading } = api.metrics.hourOfWeek.useQuery(
+        { accountId, ...dateRange, campaignId, targetId },
+        {
+            enabled: !!accountId,
+            refetchInterval: 300000,
+            staleTime: 60000,
+        }
+    );
+
+    const selected = METRICS.find(item => item.key === metric) ?? METRICS[0];
+    const max = useMemo(() => Math.max(...(data?.matrix ?? []).flat().map(cell => cell[metric]), 0), [data?.matrix, metric]);
+
+    if (!accountId) {
+        return null;
+    }
+
+    return (
+        <Card className="p-3 space-y-2 gap-0">
+            <div className="flex items-start justify-between pl-1">
+                <div>
+                    <div className="text-sm font-medium">Hour of Week ({DAYS}d)</div>
+                    <div className="text-xs text-muted-foreground">Account-local weekday and hour</div>
+                </div>
+                <div className="flex items-center gap-2">
+                    {isLoading && <Spinner />}
+                    <ButtonGroup>
+                        {METRICS.map(item => (
+                            <Button key={item.key} size="sm" variant={metric === item.key ? 'default' : 'outline'} onClick={() => setMetric(item.key)}>
+                                {item.label}
+                            </Button>
+                        ))}
+                    </ButtonGroup>
+                </div>
+            </div>
+            {data && (
+                <div className="overflow-x-auto">
+                    <table className="w-full border-separate border-spacing-0.5 text-[10px] tabular-nums">
+                        <thead>
+                            <tr>
+                                <th />
+                                {HOURS.map(hour => (
+                                    <th key={hour} className="font-normal text-muted-foreground">
+                                        {hour % 3 === 0 ? hour.toString().padStart(2, '0') : ''}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {data.matrix.map((hours, weekday) => (
+                                <tr key={WEEKDAYS[weekday]}>
+                                    <th className="pr-1 text-left font-normal text-muted-foreground">{WEEKDAYS[weekday]}</th>
+                                    {HOURS.map(hour => {
+                                        const value = hours[hour]?.[metric] ?? 0;
+                                        const intensity = max > 0 ? value / max : 0;
+                                        return (
+                                            <td
+                                                key={hour}
+                                                className="h-6 min-w-6 rounded-sm"
+                                                style={{ backgroundColor: `rgba(59, 130, 246, ${0.06 + intensity * 0.84})` }}
+                                                title={`${WEEKDAYS[weekday]} ${hour.toString().padStart(2, '0')}:00 — ${selected?.format(value)}`}
+                                            />
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </Card>
+    );
+};
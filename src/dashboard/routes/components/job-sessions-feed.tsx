@@ -59,6 +59,8 @@ const ACTION_MARKERS: Record<
     'ams-summary-enqueue': { icon: ChartBarLineIcon, className: 'border-purple-300 text-purple-600 dark:border-purple-400/80 dark:text-purple-200' },
     'ams-summary-complete': { icon: ChartBarLineIcon, className: 'border-purple-300 text-purple-600 dark:border-purple-400/80 dark:text-purple-200' },
     'ams-summary-skipped': { icon: RemoveCircleIcon, className: 'border-red-300 text-red-600 dark:border-red-400/80 dark:text-red-200' },
+    'reconciliation-complete': { icon: ChartBarLineIcon, className: 'border-purple-300 text-purple-600 dark:border-purple-400/80 dark:text-purple-200' },
+    'reconciliation-skipped': { icon: RemoveCircleIcon, className: 'border-red-300 text-red-600 dark:border-red-400/80 dark:text-red-200' },
     'exports-created': { icon: DatabaseAddIcon, className: 'border-emerald-300 text-emerald-600 dark:border-emerald-400/80 dark:text-emerald-200' },
     'export-failed': { icon: AlertCircleIcon, className: 'border-red-400 text-red-600 dark:border-red-500 dark:text-red-200' },
     'entities-synced': { icon: TickDouble03Icon, className: 'border-emerald-400 text-emerald-700 dark:border-emerald-400/70 dark:text-emerald-200' },
@@ -113,6 +115,7 @@ const JOB_TITLES: Record<
     'summarize-hourly-target-stream-for-account': { label: 'hourly targets', verbs: { running: 'Started', succeeded: 'Summarized', failed: 'Failed' } },
     'summarize-daily-target-stream': { label: 'daily summary', verbs: { running: 'Started', succeeded: 'Queued', failed: 'Failed' } },
     'summarize-hourly-target-stream': { label: 'hourly summary', verbs: { running: 'Started', succeeded: 'Queued', failed: 'Failed' } },
+    'reconcile-performance-for-account': { label: 'stream totals', verbs: { running: 'Started', succeeded: 'Reconciled', failed: 'Failed' } },
     'sync-ad-entities': { label: 'ad entities', verbs: { running: 'Started', succeeded: 'Synced', failed: 'Failed' } },
     'cleanup-ams-metrics': { label: 'AMS metrics', verbs: { running: 'Started', succeeded: 'Cleaned', failed: 'Failed' } },
 };
@@ -153,6 +156,12 @@ const formatReportTimestamp = (timestamp: string, aggregation?: string) => {
     if (aggregation === 'daily') {
         return format(date, 'MMM d');
     }
+    if (aggregation === 'monthly') {
+        return format(date, 'MMM yyyy');
+    }
+    if (aggregation === 'annual') {
+        return format(date, 'yyyy');
+    }
     return format(date, 'MMM d HH:mm');
 };
 
@@ -225,6 +234,8 @@ const renderActionContent = (action: JobAction) => {
         case 'report-dataset-scan': {
             const dailyEnqueued = typeof action.dailyEnqueuedCount === 'number' ? action.dailyEnqueuedCount : 0;
             const hourlyEnqueued = typeof action.hourlyEnqueuedCount === 'number' ? action.hourlyEnqueuedCount : 0;
+            const monthlyEnqueued = typeof action.monthlyEnqueuedCount === 'number' ? action.monthlyEnqueuedCount : 0;
+            const annualEnqueued = typeof action.annualEnqueuedCount === 'number' ? action.annualEnqueuedCount : 0;
             const totalEnqueued = typeof action.totalEnqueuedCount === 'number' ? action.totalEnqueuedCount : 0;
             return (
                 <span className="flex items-center gap-2">
@@ -232,6 +243,8 @@ const renderActionContent = (action: JobAction) => {
                     <Badge variant="secondary">{totalEnqueued} enqueued</Badge>
                     <Badge variant="outline">Daily {dailyEnqueued}</Badge>
                     <Badge variant="outline">Hourly {hourlyEnqueued}</Badge>
+                    <Badge variant="outline">Monthly {monthlyEnqueued}</Badge>
+                    <Badge variant="outline">Annual {annualEnqueued}</Badge>
                 </span>
             );
         }
@@ -299,13 +312,22 @@ const renderActionContent = (action: JobAction) => {
         case 'ams-summary-complete': {
             const cadence = typeof action.cadence === 'string' ? action.cadence : 'ams';
             const rowsInserted = typeof action.rowsInserted === 'number' ? action.rowsInserted : 0;
+            const placementRowsInserted = typeof action.placementRowsInserted === 'number' ? action.placementRowsInserted : undefined;
             const bucketDate = typeof action.bucketDate === 'string' ? action.bucketDate : undefined;
             const windowStart = typeof action.windowStart === 'string' ? action.windowStart : undefined;
             const windowEnd = typeof action.windowEnd === 'string' ? action.windowEnd : undefined;
+            const attributionWindow = typeof action.attributionWindow === 'string' ? action.attributionWindow : undefined;
             return (
                 <span className="flex flex-wrap items-center gap-2">
                     <span>Summarized {cadence} AMS data</span>
                     <Badge variant="secondary">{rowsInserted} rows</Badge>
+                    {placementRowsInserted !== undefined && <Badge variant="outline">{placementRowsInserted} placement rows</Badge>}
+                    {attributionWindow && (
+                        <Badge variant="outline">
+                            {attributionWindow}
+                            {action.attributionSameSku === true ? ' same SKU' : ''} attribution
+                        </Badge>
+                    )}
                     {bucketDate && <Badge variant="outline">{bucketDate}</Badge>}
                     {windowStart && windowEnd && (
                         <Badge variant="outline">
@@ -325,6 +347,26 @@ const renderActionContent = (action: JobAction) => {
                 </span>
             );
         }
+        case 'reconciliation-complete': {
+            const days = typeof action.days === 'number' ? action.days : 0;
+            const rowsWritten = typeof action.rowsWritten === 'number' ? action.rowsWritten : 0;
+            return (
+                <span className="flex items-center gap-2">
+                    <span>Reconciled stream with reports</span>
+                    <Badge variant="secondary">{rowsWritten} rows</Badge>
+                    <Badge variant="outline">{days} days</Badge>
+                </span>
+            );
+        }
+        case 'reconciliation-skipped': {
+            const reason = typeof action.reason === 'string' ? action.reason : 'skipped';
+            return (
+                <span className="flex items-center gap-2">
+                    <span>Skipped reconciliation</span>
+                    <Badge variant="outline">{reason}</Badge>
+                </span>
+            );
+        }
         case 'exports-created': {
             const exportsRecord = typeof action.exports === 'object' && action.exports ? (action.exports as Record<string, unknown>) : {};
             const exportIds = Object.values(exportsRecord).filter(value => typeof value === 'string') as string[];
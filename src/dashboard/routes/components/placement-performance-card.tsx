@@ -0,0 +1,121 @@
+import { useAtomValue } from 'jotai';
+import { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { LEGEND_COLORS } from '@/dashboard/lib/chart-constants';
+import { api } from '@/dashboard/lib/trpc';
+import { Card } from '../../components/ui/card';
+import { Spinner } from '../../components/ui/spinner';
+import { selectedAccountIdAtom } from './account-selector/atoms';
+
+const PLACEMENTS = [
+    { key: 'top_of_search', label: 'Top of Search', color: LEGEND_COLORS[3] },
+    { key: 'rest_of_search', label: 'Rest of Search', color: LEGEND_COLORS[1] },
+    { key: 'product_pages', label: 'Product Pages', color: LEGEND_COLORS[0] },
+    { key: 'other', label: 'Other', color: LEGEND_COLORS[4] },
+] as const;
+
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
+/**
+ * Daily spend per placement with the period's ACoS, CTR and conversion rate for each placement,
+ * for tuning placement bid adjustments.
+ */
+export const PlacementPerformanceCard = () => {
+    const accountId = useAtomValue(selectedAccountIdAtom);
+    const { data, isLoading } = api.metrics.placementPerformance.useQuery(
+        { accountId, days: 14 },
+        {
+            enabled: !!accountId,
+            refetchInterval: 300000,
+            staleTime: 60000,
+        }
+    );
+
+    const chartData = useMemo(
+        () =>
+            (data?.days ?? []).map(day => ({
+                bucketDate: day.bucketDate.slice(5),
+                ...Object.fromEntries(PLACEMENTS.map(placement => [placement.key, day[placement.key].spend])),
+            })),
+        [data?.days]
+    );
+
+    if (!accountId) {
+        return null;
+    }
+
+    return (
+        <Card className="p-3 pb-1 space-y-0 gap-0">
+            <div className="flex items-start justify-between pl-1 pb-1">
+                <div>
+                    <div className="text-sm font-medium">Placement Performance (14d)</div>
+                    <div className="text-xs text-muted-foreground">Daily spend by placement</div>
+                </div>
+                <div className="flex items-center gap-4">
+                    {isLoading && <Spinner />}
+                    {PLACEMENTS.map(placement => (
+                        <div key={placement.key} className="flex items-center gap-1">
+                            <div className="size-2.5 rounded-full" style={{ backgroundColor: placement.color }} />
+                            <div className="text-sm">{placement.label}</div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+            {data && (
+                <>
+                    <div className="w-full h-[200px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={chartData} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+                                <CartesianGrid stroke="#E5E7EB" strokeDasharray="0" vertical={false} />
+                                <XAxis dataKey="bucketDate" axisLine={false} tickLine={false} tick={{ fill: '#9CA3AF', fontSize: 12 }} />
+                                <YAxis axisLine={false} tickLine={false} tick={{ fill: '#9CA3AF', fontSize: 12 }} width={50} tickFormatter={(value: number) => `$${value}`} />
+                                <Tooltip formatter={value => formatCurrency(Number(value))} />
+                                {PLACEMENTS.map(placement => (
+                                    <Bar key={placement.key} dataKey={placement.key} name={placement.label} stackId="spend" fill={placement.color} isAnimationActive={false} />
+                                ))}
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <div className="px-1 overflow-x-auto">
+                        <table className="w-full text-sm tabular-nums">
+                            <thead>
+                                <tr className="text-xs text-muted-foreground">
+                                    <th className="text-left font-normal h-8">Placement</th>
+                                    <th className="text-right font-normal">Spend</th>
+                                    <th className="text-right font-normal">Sales</th>
+                                    <th className="text-right font-normal">ACoS</th>
+                                    <th className="text-right font-normal">CTR</th>
+                                    <th className="text-right font-normal">CPC</th>
+                                    <th className="text-right font-normal">CVR</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y">
+                                {PLACEMENTS.map(placement => {
+                                    const totals = data.placements.find(row => row.placement === placement.key);
+                                    if (!totals) {
+                                        return null;
+                                    }
+                                    return (
+                                        <tr key={placement.key} className="h-9">
+                                            <td className="flex items-center gap-2 h-9">
+                                                <span className="size-2 rounded-full" style={{ backgroundColor: placement.color }} />
+                                                {placement.label}
+                                            </td>
+                                            <td className="text-right">{formatCurrency(totals.spend)}</td>
+                                            <td className="text-right">{formatCurrency(totals.sales)}</td>
+                                            <td className="text-right">{formatPercent(totals.acos)}</td>
+                                            <td className="text-right text-muted-foreground">{formatPercent(totals.ctr)}</td>
+                                            <td className="text-right text-muted-foreground">{formatCurrency(totals.cpc)}</td>
+                                            <td className="text-right text-muted-foreground">{formatPercent(totals.cvr)}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </Card>
+    );
+};
@@ -0,0 +1,101 @@
+import { useAtomValue } from 'jotai';
+import { api } from '@/dashboard/lib/trpc';
+import { Card } from '../../components/ui/card';
+import { Spinner } from '../../components/ui/spinner';
+import { cn } from '../../lib/utils';
+import { selectedAccountIdAtom } from './account-selector/atoms';
+
+type Totals = { impressions: number; clicks: number; spend: number; sales: number; orders: number };
+
+const METRICS: { key: keyof Totals; label: string; currency?: boolean }[] = [
+    { key: 'impressions', label: 'Impr.' },
+    { key: 'clicks', label: 'Clicks' },
+    { key: 'spend', label: 'Spend', currency: true },
+    { key: 'sales', label: 'Sales', currency: true },
+    { key: 'orders', label: 'Orders' },
+];
+
+const formatDelta = (value: number, currency?: boolean) => {
+    const sign = value > 0 ? '+' : value < 0 ? '−' : '';
+    const absolute = Math.abs(value);
+    return `${sign}${currency ? `$${absolute.toFixed(2)}` : absolute.toLocaleString()}`;
+};
+
+const formatDeltaPercent = (delta: number, report: number) => {
+    if (delta === 0 || report === 0) {
+        return null;
+    }
+    return `${((delta / report) * 100).toFixed(1)}%`;
+};
+
+/**
+ * Report minus stream totals per day, so dropped AMS messages show up as positive deltas.
+ */
+export const ReconciliationCard = () => {
+    const accountId = useAtomValue(selectedAccountIdAtom);
+    const { data, isLoading } = api.metrics.reconciliation.useQuery(
+        { accountId, days: 7 },
+        {
+            enabled: !!accountId,
+            refetchInterval: 300000,
+            staleTime: 60000,
+        }
+    );
+
+    if (!accountId) {
+        return null;
+    }
+
+    return (
+        <Card className="p-3 pb-1 space-y-0 gap-0">
+            <div className="flex items-start justify-between pl-1 pb-1">
+                <div>
+                    <div className="text-sm font-medium">Stream Reconciliation</div>
+                    <div className="text-xs text-muted-foreground">Report minus AMS stream totals</div>
+                </div>
+                {isLoading && <Spinner />}
+            </div>
+            {data && data.days.length === 0 && <div className="text-sm text-muted-foreground px-1 h-9 flex items-center">No reconciled days yet</div>}
+            {data && data.days.length > 0 && (
+                <div className="px-1 overflow-x-auto">
+                    <table className="w-full text-sm tabular-nums">
+                        <thead>
+                            <tr className="text-xs text-muted-foreground">
+                                <th className="text-left font-normal h-8">Day</th>
+                                <th className="text-right font-normal">Campaigns</th>
+                                {METRICS.map(metric => (
+                                    <th key={metric.key} className="text-right font-normal">
+                                        {metric.label}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                            {data.days.map(day => (
+                                <tr key={day.bucketDate} className="h-9">
+                                    <td className="flex items-center gap-2 h-9">
+                                        <span className={cn('size-2 rounded-full', day.mismatchedCampaigns > 0 ? 'bg-amber-500' : 'bg-emerald-500')} />
+                                        {day.bucketDate}
+                                    </td>
+                                    <td className="text-right text-muted-foreground">
+                                        {day.mismatchedCampaigns}/{day.campaignCount}
+                                    </td>
+                                    {METRICS.map(metric => {
+                                        const delta = day.delta[metric.key];
+                                        const percent = formatDeltaPercent(delta, day.report[metric.key]);
+                                        return (
+                                            <td key={metric.key} className={cn('text-right', delta === 0 ? 'text-muted-foreground' : 'text-amber-600 dark:text-amber-300')}>
+                                                {formatDelta(delta, metric.currency)}
+                                                {percent && <span className="text-xs text-muted-foreground ml-1">{percent}</span>}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </Card>
+    );
+};
@@ -7,7 +7,7 @@ export const EntityAggregationFilter = () => {
     const [aggregation, setAggregation] = useAtom(aggregationAtom);
     const setOffset = useSetAtom(offsetAtom);
 
-    const handleChange = (value: 'daily' | 'hourly') => {
+    const handleChange = (value: 'daily' | 'hourly' | 'monthly' | 'annual') => {
         setAggregation(value);
         setOffset(0);
     };
@@ -20,6 +20,12 @@ export const EntityAggregationFilter = () => {
             <Button size="sm" variant={aggregation === 'hourly' ? 'default' : 'outline'} onClick={() => handleChange('hourly')}>
                 Hourly
             </Button>
+            <Button size="sm" variant={aggregation === 'monthly' ? 'default' : 'outline'} onClick={() => handleChange('monthly')}>
+                Monthly
+            </Button>
+            <Button size="sm" variant={aggregation === 'annual' ? 'default' : 'outline'} onClick={() => handleChange('annual')}>
+                Annual
+            </Button>
         </ButtonGroup>
     );
 };
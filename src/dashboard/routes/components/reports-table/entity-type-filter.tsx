@@ -7,7 +7,7 @@ export const EntityTypeFilter = () => {
     const [entityType, setEntityType] = useAtom(entityTypeAtom);
     const setOffset = useSetAtom(offsetAtom);
 
-    const handleChange = (value: 'target' | 'product') => {
+    const handleChange = (value: 'target' | 'product' | 'searchTerm' | 'placement') => {
         setEntityType(value);
         setOffset(0);
     };
@@ -20,6 +20,12 @@ export const EntityTypeFilter = () => {
             <Button size="sm" variant={entityType === 'product' ? 'default' : 'outline'} onClick={() => handleChange('product')}>
                 Product
             </Button>
+            <Button size="sm" variant={entityType === 'searchTerm' ? 'default' : 'outline'} onClick={() => handleChange('searchTerm')}>
+                Search Term
+            </Button>
+            <Button size="sm" variant={entityType === 'placement' ? 'default' : 'outline'} onClick={() => handleChange('placement')}>
+                Placement
+            </Button>
         </ButtonGroup>
     );
 };
@@ -7,9 +7,12 @@ export function ErrorDialog({ row, children }: { row: ReportDatasetMetadata; chi
     const [open, setOpen] = useState(false);
     const [copied, setCopied] = useState(false);
 
+    // Job errors take precedence; otherwise show why Amazon failed the last report
+    const message = row.error ?? row.failureReason;
+
     const handleCopy = async () => {
-        if (row.error) {
-            await navigator.clipboard.writeText(row.error);
+        if (message) {
+            await navigator.clipboard.writeText(message);
             setCopied(true);
             setTimeout(() => setCopied(false), 2000);
         }
@@ -17,16 +20,18 @@ export function ErrorDialog({ row, children }: { row: ReportDatasetMetadata; chi
 
     return (
         <Dialog open={open} onOpenChange={setOpen}>
-            <DialogTrigger disabled={!row.error}>{children}</DialogTrigger>
+            <DialogTrigger disabled={!message}>{children}</DialogTrigger>
             <DialogPopup className="sm:max-w-2xl">
                 <DialogHeader>
                     <DialogTitle>Error Details</DialogTitle>
-                    <DialogDescription>Error message for this report dataset</DialogDescription>
+                    <DialogDescription>
+                        {row.error ? 'Error message for this report dataset' : `Amazon failed the report ${row.failedAttempts} time${row.failedAttempts === 1 ? '' : 's'}`}
+                    </DialogDescription>
                 </DialogHeader>
                 <DialogPanel>
                     <div className="rounded-lg border bg-muted/50 p-4">
                         <pre className="overflow-auto text-sm whitespace-pre-wrap break-words">
-                            <code>{row.error}</code>
+                            <code>{message}</code>
                         </pre>
                     </div>
                 </DialogPanel>
@@ -24,8 +24,8 @@ export function ReportIdDialog({ row, accountId }: ReportIdDialogProps) {
                 retrieveReportMutation.mutate({
                     accountId,
                     timestamp: row.periodStart,
-                    aggregation: row.aggregation as 'hourly' | 'daily',
-                    entityType: row.entityType as 'target' | 'product',
+                    aggregation: row.aggregation as 'hourly' | 'daily' | 'monthly' | 'annual',
+                    entityType: row.entityType as 'target' | 'product' | 'searchTerm' | 'placement',
                 });
             }
         }
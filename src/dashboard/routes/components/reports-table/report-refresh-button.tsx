@@ -19,8 +19,8 @@ export function ReportRefreshButton({ row, accountId }: ReportRefreshButtonProps
             accountId,
             countryCode: row.countryCode,
             timestamp: row.periodStart,
-            aggregation: row.aggregation as 'hourly' | 'daily',
-            entityType: row.entityType as 'target' | 'product',
+            aggregation: row.aggregation as 'hourly' | 'daily' | 'monthly' | 'annual',
+            entityType: row.entityType as 'target' | 'product' | 'searchTerm' | 'placement',
         });
         apiUtils.reports.get.setData({ uid: row.uid }, prev => {
             if (!prev) return prev;
@@ -26,6 +26,7 @@ const getStatusBadgeType = (status: string) => {
         case 'completed':
             return 'success';
         case 'error':
+        case 'dead':
             return 'error';
         case 'fetching':
             return 'info';
@@ -38,11 +39,23 @@ const getStatusBadgeType = (status: string) => {
     }
 };
 
+const formatReportDate = (periodStart: string, aggregation: string) => {
+    switch (aggregation) {
+        case 'monthly':
+            return new Intl.DateTimeFormat('en', { month: 'short', year: 'numeric' }).format(new Date(periodStart));
+        case 'annual':
+            return String(new Date(periodStart).getFullYear());
+        default:
+            return formatDate(periodStart, aggregation === 'hourly');
+    }
+};
+
 const getStatusColor = (status: string) => {
     switch (status) {
         case 'completed':
             return 'bg-success';
         case 'error':
+        case 'dead':
             return 'bg-destructive';
         case 'fetching':
             return 'bg-info';
@@ -74,7 +87,7 @@ export const ReportRow = ({ summary }: ReportRowProps) => {
 
     const rowKey = `${report.periodStart}-${report.aggregation}-${report.entityType}`;
 
-    const reportDate = formatDate(summary.periodStart, summary.aggregation === 'hourly');
+    const reportDate = formatReportDate(summary.periodStart, summary.aggregation);
     const isParsingStatus = report.status === 'parsing';
     const isRefreshing = report.refreshing;
     const { time: nextRefreshTime, severity: nextRefreshSeverity } = formatNextRefreshTime(report.nextRefreshAt);
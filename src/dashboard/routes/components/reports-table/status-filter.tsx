@@ -1,4 +1,4 @@
-import { AlertCircleIcon, AlertTriangleIcon, CheckCircleIcon, FilterIcon, Loader2Icon } from 'lucide-react';
+import { AlertCircleIcon, AlertTriangleIcon, CheckCircleIcon, FilterIcon, Loader2Icon, XCircleIcon } from 'lucide-react';
 import { useAtom, useSetAtom } from 'jotai';
 import { Select, SelectItem, SelectPopup, SelectTrigger, SelectValue } from '../../../components/ui/select';
 import { offsetAtom, statusFilterAtom } from './atoms';
@@ -7,6 +7,7 @@ const STATUS_OPTIONS = [
     { icon: FilterIcon, label: 'All Statuses', value: 'all' },
     { icon: CheckCircleIcon, label: 'Completed', value: 'completed' },
     { icon: AlertCircleIcon, label: 'Error', value: 'error' },
+    { icon: XCircleIcon, label: 'Dead', value: 'dead' },
     { icon: Loader2Icon, label: 'Fetching', value: 'fetching' },
     { icon: Loader2Icon, label: 'Parsing', value: 'parsing' },
     { icon: AlertTriangleIcon, label: 'Missing', value: 'missing' },
@@ -0,0 +1,19 @@
+import { api } from '../../lib/trpc';
+import { useSelectedAccountId } from './use-selected-accountid';
+import { useSelectedCountryCode } from './use-selected-country-code';
+
+type EntityLevel = 'account' | 'campaign' | 'adGroup' | 'target';
+
+export const useEntityPerformance = (level: EntityLevel, id?: string, days = 30) => {
+    const accountId = useSelectedAccountId();
+    const countryCode = useSelectedCountryCode();
+
+    return api.entities.performance.useQuery(
+        { accountId, countryCode, level, id, days },
+        {
+            enabled: !!countryCode && (level === 'account' || !!id),
+            refetchInterval: 300000,
+            staleTime: 60000,
+        }
+    );
+};
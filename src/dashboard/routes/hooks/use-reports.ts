@@ -55,10 +55,11 @@ export const useReports = () => {
     // Populate reports.get cache with data from summary so individual queries don't fire
     // This data is fresh since it comes from the summary query
     // Both queries use staleTime: Infinity, so they won't refetch until invalidated via WebSocket events
+    // Summary rows carry no status history, so keep any timeline already fetched by reports.get
     useEffect(() => {
         if (data?.data) {
             data.data.forEach(report => {
-                apiUtils.reports.get.setData({ uid: report.uid }, report);
+                apiUtils.reports.get.setData({ uid: report.uid }, prev => ({ ...report, history: prev?.history ?? [] }));
             });
         }
     }, [data?.data, apiUtils]);
@@ -1,6 +1,6 @@
 import { useNavigate, useSearchParams } from 'react-router';
 
-type Aggregation = 'daily' | 'hourly';
+type Aggregation = 'daily' | 'hourly' | 'monthly' | 'annual';
 
 export function useSearchParamsState() {
     const [searchParams] = useSearchParams();
@@ -9,7 +9,8 @@ export function useStats(rows: ReportDatasetMetadata[]) {
         const fetching = rows.filter(row => row.status === 'fetching').length;
         const parsing = rows.filter(row => row.status === 'parsing').length;
         const missing = rows.filter(row => row.status === 'missing').length;
+        const dead = rows.filter(row => row.status === 'dead').length;
 
-        return { total, completed, error, fetching, parsing, missing };
+        return { total, completed, error, fetching, parsing, missing, dead };
     }, [rows]);
 }
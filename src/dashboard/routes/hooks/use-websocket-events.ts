@@ -34,8 +34,8 @@ type Event =
               accountId: string;
               countryCode: string;
               periodStart: string;
-              aggregation: 'hourly' | 'daily';
-              entityType: 'target' | 'product';
+              aggregation: 'hourly' | 'daily' | 'monthly' | 'annual';
+              entityType: 'target' | 'product' | 'searchTerm' | 'placement';
               error: string;
           };
           timestamp: string;
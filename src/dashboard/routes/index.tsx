@@ -4,7 +4,13 @@ import { connectionStatusAtom } from './atoms';
 import { AccountDataCard } from './components/account-data-card';
 import { AccountEnabledSwitch } from './components/account-selector/account-enabled-switch';
 import { AmsMetricsCard } from './components/ams-metrics-card';
+import { BudgetPacingTable } from './components/budget-pacing-table';
+import { CampaignsTable } from './components/campaigns-table';
 import { DailyPerformanceMetrics } from './components/daily-performance-metrics';
+import { DigestHistoryCard } from './components/digest-history-card';
+import { HourOfWeekHeatmap } from './components/hour-of-week-heatmap';
+import { PlacementPerformanceCard } from './components/placement-performance-card';
+import { ReconciliationCard } from './components/reconciliation-card';
 import { ReportsTable } from './components/reports-table/reports-table';
 import { JobSessionsFeed } from './components/job-sessions-feed';
 
@@ -29,6 +35,30 @@ export function IndexRoute() {
                 </div>
             </div>
 
+            <div className="max-w-background-frame-max mx-auto px-4 mt-4">
+                <CampaignsTable />
+            </div>
+
+            <div className="max-w-background-frame-max mx-auto px-4 mt-4">
+                <BudgetPacingTable />
+            </div>
+
+            <div className="max-w-background-frame-max mx-auto px-4 mt-4">
+                <PlacementPerformanceCard />
+            </div>
+
+            <div className="max-w-background-frame-max mx-auto px-4 mt-4">
+                <HourOfWeekHeatmap />
+            </div>
+
+            <div className="max-w-background-frame-max mx-auto px-4 mt-4">
+                <ReconciliationCard />
+            </div>
+
+            <div className="max-w-background-frame-max mx-auto px-4 mt-4">
+                <DigestHistoryCard />
+            </div>
+
             <div className="max-w-background-frame-max mx-auto px-4 mt-4">
                 <JobSessionsFeed />
             </div>
@@ -0,0 +1,45 @@
+import { useParams } from 'react-router';
+import { api } from '@/dashboard/lib/trpc';
+import { EntityPage } from './components/entity/entity-page';
+
+export function TargetRoute() {
+    const { targetId = '' } = useParams();
+    const { data, isLoading, error } = api.entities.target.useQuery({ targetId }, { enabled: !!targetId });
+
+    const target = data?.target;
+    const breadcrumbs = [
+        ...(data?.campaign ? [{ label: data.campaign.name, href: `/campaigns/${data.campaign.campaignId}` }] : []),
+        ...(data?.adGroup ? [{ label: data.adGroup.name, href: `/ad-groups/${data.adGroup.adGroupId}` }] : []),
+    ];
+
+    return (
+        <EntityPage
+            level="target"
+            id={targetId}
+            isLoading={isLoading}
+            error={error}
+            header={
+                target && {
+                    breadcrumbs,
+                    name: target.targetKeyword ?? target.targetAsin ?? target.targetType,
+                    state: target.state,
+                    attributes: [
+                        { label: 'Target ID', value: target.targetId },
+                        { label: 'Type', value: target.targetType },
+                        { label: 'Match type', value: target.targetMatchType },
+                        { label: 'Bid', value: target.bidAmount && `$${target.bidAmount}` },
+                        { label: 'Negative', value: target.negative ? 'Yes' : 'No' },
+                        { label: 'Delivery', value: target.deliveryStatus },
+                        { label: 'Ad product', value: target.adProduct },
+                    ],
+                }
+            }
+            childrenTitle="Ads"
+            childEntities={(data?.ads ?? []).map(ad => ({
+                id: ad.adId,
+                name: ad.productAsin ?? ad.adId,
+                detail: [ad.state, ad.deliveryStatus].filter(Boolean).join(' · '),
+            }))}
+        />
+    );
+}
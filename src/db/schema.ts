@@ -138,9 +138,9 @@ export const reportDatasetMetadata = pgTable(
         countryCode: text('country_code').notNull(),
         periodStart: timestamp('period_start', { withTimezone: false, mode: 'date' }).notNull(), // utc
         aggregation: text('aggregation').notNull(), // hourly, daily
-        entityType: text('entity_type').notNull(), // target, product
+        entityType: text('entity_type').notNull(), // target, product, searchTerm
 
-        status: text('status').notNull(), // enum: missing, fetching, parsing, completed, failed
+        status: text('status').notNull(), // enum: missing, fetching, parsing, completed, error, dead (changed only via transitions.ts)
         refreshing: boolean('refreshing').notNull().default(false), // whether a refresh is currently in progress
         totalRecords: integer('total_records').notNull().default(0),
         successRecords: integer('success_records').notNull().default(0),
@@ -151,6 +151,8 @@ export const reportDatasetMetadata = pgTable(
         reportId: text('report_id'),
         lastProcessedReportId: text('last_processed_report_id'),
         error: text('error'),
+        failureReason: text('failure_reason'), // Amazon's reason for the last FAILED/CANCELLED report
+        failedAttempts: integer('failed_attempts').notNull().default(0), // consecutive failed reports, reset once a report is processed
     },
     table => [uniqueIndex('report_dataset_metadata_unique_idx').on(table.accountId, table.periodStart, table.aggregation, table.entityType)]
 );
@@ -164,6 +166,71 @@ export const reportDatasetErrorMetrics = pgTable('report_dataset_metrics', {
     error: text('error').notNull(),
 });
 
+/**
+ * Audit trail of report dataset status transitions, written by the state machine's transition table.
+ */
+export const reportDatasetStatusHistory = pgTable(
+    'report_dataset_status_history',
+    {
+        uid: uuid('uid').primaryKey().defaultRandom(),
+        reportDatasetMetadataId: uuid('report_dataset_metadata_id')
+            .notNull()
+            .references(() => reportDatasetMetadata.uid, { onDelete: 'cascade' }),
+        fromStatus: text('from_status').notNull(),
+        toStatus: text('to_status').notNull(),
+        reason: text('reason').notNull(),
+        reportId: text('report_id'), // Amazon Ads report the transition relates to, if any
+        createdAt: timestamp('created_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+    },
+    table => [index('report_dataset_status_history_metadata_idx').on(table.reportDatasetMetadataId, table.createdAt)]
+);
+
+/**
+ * ----------------------------------------------------------------------------
+ * Report Refresh Schedules
+ * ----------------------------------------------------------------------------
+ * Per-account overrides of the eligibility offsets used to decide when a report
+ * dataset is refreshed. Accounts without a row use the defaults in eligibility.ts.
+ */
+export const reportRefreshSchedule = pgTable(
+    'report_refresh_schedule',
+    {
+        accountId: text('account_id').notNull(),
+        aggregation: text('aggregation').notNull(), // hourly, daily
+        entityType: text('entity_type').notNull(), // target, product, searchTerm
+        offsetHours: integer('offset_hours').array().notNull(), // hours after periodStart at which a refresh is eligible
+        updatedAt: timestamp('updated_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+    },
+    table => [primaryKey({ columns: [table.accountId, table.aggregation, table.entityType] })]
+);
+
+/**
+ * ----------------------------------------------------------------------------
+ * Stream Attribution Settings
+ * ----------------------------------------------------------------------------
+ * Per-account choice of the AMS conversion columns the stream summarizers read
+ * sales and orders from. Accounts without a row use the 14-day, all-SKU default.
+ */
+export const streamAttributionSetting = pgTable('stream_attribution_setting', {
+    accountId: text('account_id').primaryKey(),
+    attributionWindow: text('attribution_window').notNull(), // '1d' | '7d' | '14d' | '30d'
+    sameSku: boolean('same_sku').notNull(), // only count purchases of the advertised SKU
+    updatedAt: timestamp('updated_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+});
+
+/**
+ * ----------------------------------------------------------------------------
+ * Budget Pacing Settings
+ * ----------------------------------------------------------------------------
+ * Per-account local hour before which a campaign projected to run out of
+ * budget is flagged. Accounts without a row use DEFAULT_PACING_ALERT_HOUR.
+ */
+export const budgetPacingSetting = pgTable('budget_pacing_setting', {
+    accountId: text('account_id').primaryKey(),
+    alertHour: smallint('alert_hour').notNull(), // 1–24, account-local
+    updatedAt: timestamp('updated_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+});
+
 /**
  * =====================================================================================
  * Performance Tables
@@ -205,9 +272,24 @@ export const reportDatasetErrorMetrics = pgTable('report_dataset_metrics', {
  *   - Precise windows:    filter by bucketStart
  *
  * Entity model:
- *   - entityType: 'target' | 'asin'
- *   - entityId:   targetId or ASIN
- *   - targetMatchType applies only to target rows and is nullable for ASIN rows.
+ *   - entityType: 'target' | 'asin' | 'search_term'
+ *   - entityId:   targetId, ASIN, or the customer search query
+ *   - targetMatchType applies to target and search term rows and is nullable for ASIN rows.
+ *   - matchedTargetId: the target a search term matched, part of the key
+ *                 since one search term can match several targets under an ad. '' for other rows.
+ *   - adProduct:  'SPONSORED_PRODUCTS' | 'SPONSORED_BRANDS' | 'SPONSORED_DISPLAY'. Reports are
+ *                 Sponsored Products only; Brands and Display rows come from their AMS streams.
+ *
+ * Provenance (hourly and daily only):
+ *   - source:     'report' (parsed Amazon report) | 'stream' (AMS summarizer)
+ *   - reportId:   the report a 'report' row came from
+ *   - sourceAsOf: when the data was captured — report creation time or stream summary time.
+ *                 Null for rows written before provenance was tracked.
+ *   Writers follow the precedence rules in lib/performance-source rather than blindly replacing rows.
+ *
+ * Attribution (hourly and daily only):
+ *   - attributionWindow / attributionSameSku: the conversion window sales and orders were counted in.
+ *     Report rows use Amazon's 14-day, all-SKU default; stream rows use the account's setting.
  *
  * =====================================================================================
  */
@@ -224,20 +306,28 @@ export const performanceHourly = pgTable(
         campaignId: text('campaign_id').notNull(),
         adGroupId: text('ad_group_id').notNull(),
         adId: text('ad_id').notNull(),
+        adProduct: text('ad_product').notNull().default('SPONSORED_PRODUCTS'), // see AD_PRODUCTS in types/reports.ts
 
         entityType: text('entity_type').notNull(), // 'target' | 'asin' | 'search_term'
         entityId: text('entity_id').notNull(), // targetId, ASIN, or search term
-        targetMatchType: text('target_match_type'), // nullable for ASIN and search term rows
+        matchedTargetId: text('matched_target_id').notNull().default(''), // target a search term matched; '' for other rows
+        targetMatchType: text('target_match_type'), // nullable for ASIN rows
 
         impressions: integer('impressions').notNull(),
         clicks: integer('clicks').notNull(),
         spend: numeric('spend', { precision: 7, scale: 2 }).notNull(),
         sales: numeric('sales', { precision: 10, scale: 2 }).notNull(),
         orders: integer('orders').notNull(),
+
+        source: text('source').notNull(), // 'report' | 'stream' | 'legacy' (written before provenance was tracked)
+        reportId: text('report_id'), // null for stream rows
+        sourceAsOf: timestamp('source_as_of', { withTimezone: true, mode: 'date' }), // UTC capture time of the source data
+        attributionWindow: text('attribution_window').notNull().default('14d'), // '1d' | '7d' | '14d' | '30d'
+        attributionSameSku: boolean('attribution_same_sku').notNull().default(false),
     },
     table => [
         primaryKey({
-            columns: [table.accountId, table.bucketStart, table.adId, table.entityType, table.entityId],
+            columns: [table.accountId, table.bucketStart, table.adId, table.entityType, table.entityId, table.matchedTargetId],
         }),
 
         index('idx_perf_hourly_campaign_time').on(table.campaignId, table.bucketStart),
@@ -259,20 +349,28 @@ export const performanceDaily = pgTable(
         campaignId: text('campaign_id').notNull(),
         adGroupId: text('ad_group_id').notNull(),
         adId: text('ad_id').notNull(),
+        adProduct: text('ad_product').notNull().default('SPONSORED_PRODUCTS'), // see AD_PRODUCTS in types/reports.ts
 
         entityType: text('entity_type').notNull(), // 'target' | 'asin' | 'search_term'
         entityId: text('entity_id').notNull(), // targetId, ASIN, or search term
-        targetMatchType: text('target_match_type'), // nullable for ASIN and search term rows
+        matchedTargetId: text('matched_target_id').notNull().default(''), // target a search term matched; '' for other rows
+        targetMatchType: text('target_match_type'), // nullable for ASIN rows
 
         impressions: integer('impressions').notNull(),
         clicks: integer('clicks').notNull(),
         spend: numeric('spend', { precision: 7, scale: 2 }).notNull(),
         sales: numeric('sales', { precision: 10, scale: 2 }).notNull(),
         orders: integer('orders').notNull(),
+
+        source: text('source').notNull(), // 'report' | 'stream' | 'legacy' (written before provenance was tracked)
+        reportId: text('report_id'), // null for stream rows
+        sourceAsOf: timestamp('source_as_of', { withTimezone: true, mode: 'date' }), // UTC capture time of the source data
+        attributionWindow: text('attribution_window').notNull().default('14d'), // '1d' | '7d' | '14d' | '30d'
+        attributionSameSku: boolean('attribution_same_sku').notNull().default(false),
     },
     table => [
         primaryKey({
-            columns: [table.accountId, table.bucketDate, table.adId, table.entityType, table.entityId],
+            columns: [table.accountId, table.bucketDate, table.adId, table.entityType, table.entityId, table.matchedTargetId],
         }),
 
         index('idx_perf_daily_campaign_date').on(table.campaignId, table.bucketDate),
@@ -293,20 +391,22 @@ export const performanceMonthly = pgTable(
         campaignId: text('campaign_id').notNull(),
         adGroupId: text('ad_group_id').notNull(),
         adId: text('ad_id').notNull(),
+        adProduct: text('ad_product').notNull().default('SPONSORED_PRODUCTS'), // see AD_PRODUCTS in types/reports.ts
 
         entityType: text('entity_type').notNull(), // 'target' | 'asin' | 'search_term'
         entityId: text('entity_id').notNull(), // targetId, ASIN, or search term
-        targetMatchType: text('target_match_type'), // nullable for ASIN and search term rows
+        matchedTargetId: text('matched_target_id').notNull().default(''), // target a search term matched; '' for other rows
+        targetMatchType: text('target_match_type'), // nullable for ASIN rows
 
         impressions: integer('impressions').notNull(),
         clicks: integer('clicks').notNull(),
-        spend: numeric('spend', { precision: 7, scale: 2 }).notNull(),
+        spend: numeric('spend', { precision: 10, scale: 2 }).notNull(),
         sales: numeric('sales', { precision: 10, scale: 2 }).notNull(),
         orders: integer('orders').notNull(),
     },
     table => [
         primaryKey({
-            columns: [table.accountId, table.bucketMonth, table.adId, table.entityType, table.entityId],
+            columns: [table.accountId, table.bucketMonth, table.adId, table.entityType, table.entityId, table.matchedTargetId],
         }),
 
         index('idx_perf_monthly_campaign_month').on(table.campaignId, table.bucketMonth),
@@ -325,20 +425,22 @@ export const performanceAnnual = pgTable(
         campaignId: text('campaign_id').notNull(),
         adGroupId: text('ad_group_id').notNull(),
         adId: text('ad_id').notNull(),
+        adProduct: text('ad_product').notNull().default('SPONSORED_PRODUCTS'), // see AD_PRODUCTS in types/reports.ts
 
         entityType: text('entity_type').notNull(), // 'target' | 'asin' | 'search_term'
         entityId: text('entity_id').notNull(), // targetId, ASIN, or search term
+        matchedTargetId: text('matched_target_id').notNull().default(''), // target a search term matched; '' for other rows
         targetMatchType: text('target_match_type'), // nullable for 'target' and 'asin' entities
 
         impressions: integer('impressions').notNull(),
         clicks: integer('clicks').notNull(),
-        spend: numeric('spend', { precision: 7, scale: 2 }).notNull(),
+        spend: numeric('spend', { precision: 10, scale: 2 }).notNull(),
         sales: numeric('sales', { precision: 10, scale: 2 }).notNull(),
         orders: integer('orders').notNull(),
     },
     table => [
         primaryKey({
-            columns: [table.accountId, table.bucketYear, table.adId, table.entityType, table.entityId],
+            columns: [table.accountId, table.bucketYear, table.adId, table.entityType, table.entityId, table.matchedTargetId],
         }),
 
         index('idx_perf_annual_campaign_year').on(table.campaignId, table.bucketYear),
@@ -346,6 +448,300 @@ export const performanceAnnual = pgTable(
     ]
 );
 
+/**
+ * ----------------------------------------------------------------------------
+ * Placement Performance
+ * ----------------------------------------------------------------------------
+ * Campaign performance split by placement (top of search, rest of search, product pages),
+ * the level placement bid adjustments apply at. Filled by the stream summarizers and the
+ * placement reports, with the same provenance and attribution columns as performance_hourly/daily.
+ */
+export const performancePlacementHourly = pgTable(
+    'performance_placement_hourly',
+    {
+        accountId: text('account_id').notNull(),
+
+        bucketStart: timestamp('bucket_start', { withTimezone: true, mode: 'date' }).notNull(), // UTC
+        bucketDate: date('bucket_date').notNull(), // account-local day label
+        bucketHour: smallint('bucket_hour').notNull(), // 0–23 (can duplicate on DST)
+
+        campaignId: text('campaign_id').notNull(),
+        placement: text('placement').notNull(), // see PLACEMENTS in types/reports.ts
+
+        impressions: integer('impressions').notNull(),
+        clicks: integer('clicks').notNull(),
+        spend: numeric('spend', { precision: 10, scale: 2 }).notNull(),
+        sales: numeric('sales', { precision: 10, scale: 2 }).notNull(),
+        orders: integer('orders').notNull(),
+
+        source: text('source').notNull().default('report'), // 'report' | 'stream'
+        reportId: text('report_id'), // null for stream rows
+        sourceAsOf: timestamp('source_as_of', { withTimezone: true, mode: 'date' }), // UTC capture time of the source data
+        attributionWindow: text('attribution_window').notNull().default('14d'), // '1d' | '7d' | '14d' | '30d'
+        attributionSameSku: boolean('attribution_same_sku').notNull().default(false),
+    },
+    table => [
+        primaryKey({
+            columns: [table.accountId, table.bucketStart, table.campaignId, table.placement],
+        }),
+
+        index('idx_perf_placement_hourly_campaign_time').on(table.campaignId, table.bucketStart),
+        index('idx_perf_placement_hourly_local').on(table.accountId, table.bucketDate, table.bucketHour),
+    ]
+);
+
+export const performancePlacementDaily = pgTable(
+    'performance_placement_daily',
+    {
+        accountId: text('account_id').notNull(),
+
+        bucketStart: timestamp('bucket_start', { withTimezone: true, mode: 'date' }).notNull(), // UTC start-of-day
+        bucketDate: date('bucket_date').notNull(), // account-local day label
+
+        campaignId: text('campaign_id').notNull(),
+        placement: text('placement').notNull(), // see PLACEMENTS in types/reports.ts
+
+        impressions: integer('impressions').notNull(),
+        clicks: integer('clicks').notNull(),
+        spend: numeric('spend', { precision: 10, scale: 2 }).notNull(),
+        sales: numeric('sales', { precision: 10, scale: 2 }).notNull(),
+        orders: integer('orders').notNull(),
+
+        source: text('source').notNull().default('report'), // 'report' | 'stream'
+        reportId: text('report_id'), // null for stream rows
+        sourceAsOf: timestamp('source_as_of', { withTimezone: true, mode: 'date' }), // UTC capture time of the source data
+        attributionWindow: text('attribution_window').notNull().default('14d'), // '1d' | '7d' | '14d' | '30d'
+        attributionSameSku: boolean('attribution_same_sku').notNull().default(false),
+    },
+    table => [
+        primaryKey({
+            columns: [table.accountId, table.bucketDate, table.campaignId, table.placement],
+        }),
+
+        index('idx_perf_placement_daily_campaign_date').on(table.campaignId, table.bucketDate),
+    ]
+);
+
+/**
+ * ----------------------------------------------------------------------------
+ * Performance Reconciliation
+ * ----------------------------------------------------------------------------
+ * Stream (AMS) vs report totals per account, day and campaign, written by the
+ * reconcile-performance jobs once a day's daily target report has been processed.
+ * Deltas are report minus stream; a positive delta means the stream missed data.
+ */
+export const performanceReconciliation = pgTable(
+    'performance_reconciliation',
+    {
+        accountId: text('account_id').notNull(),
+        bucketDate: date('bucket_date').notNull(), // account-local day label
+        campaignId: text('campaign_id').notNull(),
+
+        streamImpressions: integer('stream_impressions').notNull(),
+        streamClicks: integer('stream_clicks').notNull(),
+        streamSpend: numeric('stream_spend', { precision: 10, scale: 2 }).notNull(),
+        streamSales: numeric('stream_sales', { precision: 10, scale: 2 }).notNull(),
+        streamOrders: integer('stream_orders').notNull(),
+
+        reportImpressions: integer('report_impressions').notNull(),
+        reportClicks: integer('report_clicks').notNull(),
+        reportSpend: numeric('report_spend', { precision: 10, scale: 2 }).notNull(),
+        reportSales: numeric('report_sales', { precision: 10, scale: 2 }).notNull(),
+        reportOrders: integer('report_orders').notNull(),
+
+        reportId: text('report_id'), // report whose totals were compared
+        reconciledAt: timestamp('reconciled_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+    },
+    table => [primaryKey({ columns: [table.accountId, table.bucketDate, table.campaignId] })]
+);
+
+/**
+ * ----------------------------------------------------------------------------
+ * Bid Rules
+ * ----------------------------------------------------------------------------
+ * Per-account rules that propose target bid changes from daily target
+ * performance. The evaluate-bid-rules jobs write proposals to bidRecommendation;
+ * nothing reaches Amazon until a recommendation is applied.
+ */
+export const bidRule = pgTable(
+    'bid_rule',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        accountId: text('account_id').notNull(),
+        name: text('name').notNull(),
+        enabled: boolean('enabled').notNull().default(true),
+        lookbackDays: integer('lookback_days').notNull().default(14), // days of performanceDaily the conditions are measured over
+        conditions: jsonb('conditions').notNull(), // BidRuleCondition[]; every condition must hold
+        action: jsonb('action').notNull(), // BidRuleAction
+        createdAt: timestamp('created_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+        updatedAt: timestamp('updated_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+    },
+    table => [index('bid_rule_account_idx').on(table.accountId)]
+);
+
+export const bidRecommendation = pgTable(
+    'bid_recommendation',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        ruleId: uuid('rule_id')
+            .notNull()
+            .references(() => bidRule.id, { onDelete: 'cascade' }),
+        accountId: text('account_id').notNull(),
+        countryCode: text('country_code').notNull(),
+        campaignId: text('campaign_id').notNull(),
+        adGroupId: text('ad_group_id'),
+        targetId: text('target_id').notNull(),
+        currentBid: numeric('current_bid', { precision: 6, scale: 2 }).notNull(),
+        proposedBid: numeric('proposed_bid', { precision: 6, scale: 2 }).notNull(),
+        metrics: jsonb('metrics').notNull(), // lookback totals the rule matched on
+        status: text('status').notNull().default('pending'), // 'pending' | 'applied' | 'failed' | 'dismissed' | 'superseded'
+        error: text('error'),
+        createdAt: timestamp('created_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+        appliedAt: timestamp('applied_at', { withTimezone: true, mode: 'date' }),
+    },
+    table => [index('bid_recommendation_account_status_idx').on(table.accountId, table.status), index('bid_recommendation_target_idx').on(table.targetId)]
+);
+
+/**
+ * ----------------------------------------------------------------------------
+ * Entity Change Log
+ * ----------------------------------------------------------------------------
+ * History of bid and budget values. Our own write paths record the changes
+ * they make; sync-ad-entities and the AMS campaign-management handlers record
+ * differences between an incoming entity and the row it replaces.
+ */
+export const entityChange = pgTable(
+    'entity_change',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        accountId: text('account_id'), // null when an AMS update arrives before the campaign has been synced
+        entityType: text('entity_type').notNull(), // 'campaign' | 'adGroup' | 'target'
+        entityId: text('entity_id').notNull(),
+        campaignId: text('campaign_id').notNull(),
+        adGroupId: text('ad_group_id'),
+        field: text('field').notNull(), // 'budget' | 'defaultBid' | 'bid'
+        oldValue: numeric('old_value', { precision: 10, scale: 2 }),
+        newValue: numeric('new_value', { precision: 10, scale: 2 }),
+        source: text('source').notNull(), // 'bidbeacon' | 'export' | 'ams'
+        changedBy: text('changed_by'), // who made a bidbeacon change, e.g. 'bid-rules'; null for changes made outside BidBeacon
+        reason: text('reason'),
+        changedAt: timestamp('changed_at', { withTimezone: true, mode: 'date' }).notNull(), // when the change took effect, as best known
+        recordedAt: timestamp('recorded_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+    },
+    table => [
+        index('entity_change_entity_idx').on(table.entityType, table.entityId, table.changedAt),
+        index('entity_change_account_idx').on(table.accountId, table.changedAt),
+        index('entity_change_campaign_idx').on(table.campaignId, table.changedAt),
+    ]
+);
+
+/**
+ * ----------------------------------------------------------------------------
+ * Alerts
+ * ----------------------------------------------------------------------------
+ * Alert rules are evaluated by the evaluate-alerts job. Each condition a rule
+ * finds opens an incident keyed by rule and dedup key; the incident stays
+ * firing (and is not re-sent until renotifyMinutes passes) until the
+ * condition clears. Notifications go out through the rule's channels.
+ */
+export const alertChannel = pgTable('alert_channel', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    name: text('name').notNull(),
+    type: text('type').notNull(), // 'webhook' | 'slack' | 'email'
+    config: jsonb('config').notNull(), // validated by the channel type's config schema
+    enabled: boolean('enabled').notNull().default(true),
+    createdAt: timestamp('created_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+});
+
+export const alertRule = pgTable(
+    'alert_rule',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        name: text('name').notNull(),
+        type: text('type').notNull(), // 'metric_threshold' | 'job_failure' | 'dlq_depth' | 'report_error'
+        accountId: text('account_id'), // null watches every account (required for metric_threshold)
+        config: jsonb('config').notNull(), // validated by the rule type's config schema
+        channelIds: jsonb('channel_ids').notNull().default([]), // string[] of alertChannel ids
+        enabled: boolean('enabled').notNull().default(true),
+        renotifyMinutes: integer('renotify_minutes'), // re-send a still-firing incident after this long; null sends once
+        snoozedUntil: timestamp('snoozed_until', { withTimezone: true, mode: 'date' }), // incidents are tracked but not sent until then
+        createdAt: timestamp('created_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+        updatedAt: timestamp('updated_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+    },
+    table => [index('alert_rule_account_idx').on(table.accountId)]
+);
+
+export const alertIncident = pgTable(
+    'alert_incident',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        ruleId: uuid('rule_id')
+            .notNull()
+            .references(() => alertRule.id, { onDelete: 'cascade' }),
+        dedupKey: text('dedup_key').notNull(), // what the rule fired on, e.g. a job name or account and country
+        status: text('status').notNull().default('firing'), // 'firing' | 'resolved'
+        message: text('message').notNull(), // latest evaluation's message
+        details: jsonb('details'),
+        firedAt: timestamp('fired_at', { withTimezone: true, mode: 'date' }).notNull(),
+        lastSeenAt: timestamp('last_seen_at', { withTimezone: true, mode: 'date' }).notNull(),
+        lastNotifiedAt: timestamp('last_notified_at', { withTimezone: true, mode: 'date' }), // null until a notification reaches a channel
+        deliveryError: text('delivery_error'), // channel failures from the latest notification
+        resolvedAt: timestamp('resolved_at', { withTimezone: true, mode: 'date' }),
+    },
+    table => [index('alert_incident_rule_status_idx').on(table.ruleId, table.status), index('alert_incident_fired_idx').on(table.firedAt)]
+);
+
+/**
+ * ----------------------------------------------------------------------------
+ * Performance Digests
+ * ----------------------------------------------------------------------------
+ * Per-recipient daily or weekly performance emails for an account, sent by
+ * the send-digests job through an email alert channel's SMTP settings. Every
+ * send attempt is kept in digestReport.
+ */
+export const digestSubscription = pgTable(
+    'digest_subscription',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        accountId: text('account_id').notNull(),
+        countryCode: text('country_code').notNull(),
+        recipient: text('recipient').notNull(), // email address
+        frequency: text('frequency').notNull(), // 'daily' | 'weekly' (weekly digests go out on Mondays)
+        sendHour: smallint('send_hour').notNull().default(8), // 0–23, account-local
+        channelId: uuid('channel_id')
+            .notNull()
+            .references(() => alertChannel.id, { onDelete: 'cascade' }), // email channel whose SMTP settings are used
+        includeCsv: boolean('include_csv').notNull().default(true),
+        enabled: boolean('enabled').notNull().default(true),
+        createdAt: timestamp('created_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+        updatedAt: timestamp('updated_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+    },
+    table => [index('digest_subscription_account_idx').on(table.accountId)]
+);
+
+export const digestReport = pgTable(
+    'digest_report',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        subscriptionId: uuid('subscription_id').references(() => digestSubscription.id, { onDelete: 'set null' }), // null once the subscription is deleted
+        accountId: text('account_id').notNull(),
+        countryCode: text('country_code').notNull(),
+        recipient: text('recipient').notNull(),
+        frequency: text('frequency').notNull(),
+        periodFrom: date('period_from').notNull(), // account-local, inclusive
+        periodTo: date('period_to').notNull(),
+        subject: text('subject'), // null when the digest could not be built
+        html: text('html'),
+        text: text('text'),
+        attachments: jsonb('attachments').notNull().default([]), // string[] of attached CSV filenames
+        status: text('status').notNull(), // 'sent' | 'failed'
+        error: text('error'),
+        createdAt: timestamp('created_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+    },
+    table => [index('digest_report_account_idx').on(table.accountId, table.createdAt), index('digest_report_subscription_period_idx').on(table.subscriptionId, table.periodTo)]
+);
+
 /**
  * ----------------------------------------------------------------------------
  * Marketing Streams
@@ -566,6 +962,125 @@ export const amsSpConversion = pgTable(
     table => [primaryKey({ columns: [table.idempotencyId] })]
 );
 
+// Sponsored Brands streams carry keyword IDs and 14-day click attribution only
+export const amsSbTraffic = pgTable(
+    'ams_sb_traffic',
+    {
+        idempotencyId: text('idempotency_id').notNull(),
+        datasetId: text('dataset_id').notNull(),
+        marketplaceId: text('marketplace_id').notNull(),
+        currency: text('currency').notNull(),
+        advertiserId: text('advertiser_id').notNull(),
+        campaignId: text('campaign_id').notNull(),
+        adGroupId: text('ad_group_id').notNull(),
+        adId: text('ad_id').notNull(),
+        keywordId: text('keyword_id').notNull(),
+        keywordText: text('keyword_text'),
+        matchType: text('match_type'),
+        timeWindowStart: timestamp('time_window_start', {
+            withTimezone: true,
+            mode: 'date',
+        }).notNull(),
+        clicks: bigint('clicks', { mode: 'number' }).notNull(),
+        impressions: bigint('impressions', { mode: 'number' }).notNull(),
+        viewableImpressions: bigint('viewable_impressions', { mode: 'number' }),
+        cost: doublePrecision('cost').notNull(),
+    },
+    table => [primaryKey({ columns: [table.idempotencyId] })]
+);
+
+export const amsSbConversion = pgTable(
+    'ams_sb_conversion',
+    {
+        idempotencyId: text('idempotency_id').notNull(),
+        datasetId: text('dataset_id').notNull(),
+        marketplaceId: text('marketplace_id').notNull(),
+        currency: text('currency').notNull(),
+        advertiserId: text('advertiser_id').notNull(),
+        campaignId: text('campaign_id').notNull(),
+        adGroupId: text('ad_group_id').notNull(),
+        adId: text('ad_id').notNull(),
+        keywordId: text('keyword_id').notNull(),
+        timeWindowStart: timestamp('time_window_start', {
+            withTimezone: true,
+            mode: 'date',
+        }).notNull(),
+        attributedConversions14d: bigint('attributed_conversions_14d', { mode: 'number' }),
+        attributedSales14d: doublePrecision('attributed_sales_14d'),
+        attributedUnitsOrdered14d: bigint('attributed_units_ordered_14d', { mode: 'number' }),
+        attributedNewToBrandPurchases14d: bigint('attributed_new_to_brand_purchases_14d', { mode: 'number' }),
+        attributedNewToBrandSales14d: doublePrecision('attributed_new_to_brand_sales_14d'),
+    },
+    table => [primaryKey({ columns: [table.idempotencyId] })]
+);
+
+// Sponsored Display streams carry target IDs, and view-through conversions alongside 14-day click attribution
+export const amsSdTraffic = pgTable(
+    'ams_sd_traffic',
+    {
+        idempotencyId: text('idempotency_id').notNull(),
+        datasetId: text('dataset_id').notNull(),
+        marketplaceId: text('marketplace_id').notNull(),
+        currency: text('currency').notNull(),
+        advertiserId: text('advertiser_id').notNull(),
+        campaignId: text('campaign_id').notNull(),
+        adGroupId: text('ad_group_id').notNull(),
+        adId: text('ad_id').notNull(),
+        targetId: text('target_id').notNull(),
+        costType: text('cost_type'), // CPC or VCPM
+        timeWindowStart: timestamp('time_window_start', {
+            withTimezone: true,
+            mode: 'date',
+        }).notNull(),
+        clicks: bigint('clicks', { mode: 'number' }).notNull(),
+        impressions: bigint('impressions', { mode: 'number' }).notNull(),
+        viewImpressions: bigint('view_impressions', { mode: 'number' }),
+        cost: doublePrecision('cost').notNull(),
+    },
+    table => [primaryKey({ columns: [table.idempotencyId] })]
+);
+
+export const amsSdConversion = pgTable(
+    'ams_sd_conversion',
+    {
+        idempotencyId: text('idempotency_id').notNull(),
+        datasetId: text('dataset_id').notNull(),
+        marketplaceId: text('marketplace_id').notNull(),
+        currency: text('currency').notNull(),
+        advertiserId: text('advertiser_id').notNull(),
+        campaignId: text('campaign_id').notNull(),
+        adGroupId: text('ad_group_id').notNull(),
+        adId: text('ad_id').notNull(),
+        targetId: text('target_id').notNull(),
+        timeWindowStart: timestamp('time_window_start', {
+            withTimezone: true,
+            mode: 'date',
+        }).notNull(),
+        attributedConversions14d: bigint('attributed_conversions_14d', { mode: 'number' }),
+        attributedSales14d: doublePrecision('attributed_sales_14d'),
+        attributedUnitsOrdered14d: bigint('attributed_units_ordered_14d', { mode: 'number' }),
+        viewAttributedConversions14d: bigint('view_attributed_conversions_14d', { mode: 'number' }),
+        viewAttributedSales14d: doublePrecision('view_attributed_sales_14d'),
+    },
+    table => [primaryKey({ columns: [table.idempotencyId] })]
+);
+
+// Latest Sponsored Products budget recommendation per campaign
+export const amsSpBudgetRecommendations = pgTable(
+    'ams_sp_budget_recommendations',
+    {
+        advertiserId: text('advertiser_id').notNull(),
+        marketplaceId: text('marketplace_id').notNull(),
+        campaignId: text('campaign_id').notNull(),
+        datasetId: text('dataset_id').notNull(),
+        currentBudget: doublePrecision('current_budget'),
+        suggestedBudget: doublePrecision('suggested_budget').notNull(),
+        missedOpportunities: jsonb('missed_opportunities'), // Estimated missed impressions, clicks and sales while out of budget, as sent
+        recommendedAt: timestamp('recommended_at', { withTimezone: true, mode: 'date' }).notNull(),
+    },
+    table => [primaryKey({ columns: [table.advertiserId, table.marketplaceId, table.campaignId] })]
+);
+
 export const amsBudgetUsage = pgTable(
     'ams_budget_usage',
     {
@@ -594,7 +1109,8 @@ export const amsMetrics = pgTable(
     {
         id: uuid('id').primaryKey().defaultRandom(),
         timestamp: timestamp('timestamp', { withTimezone: true, mode: 'date' }).notNull(),
-        entityType: text('entity_type').notNull(), // 'campaign' | 'adGroup' | 'ad' | 'target' | 'spTraffic' | 'spConversion' | 'budgetUsage'
+        entityType: text('entity_type').notNull(), // entityType of a dataset in src/worker/datasets.ts, e.g. 'campaign' | 'spTraffic' | 'sbConversion'
+        schemaVersion: smallint('schema_version'), // Payload schema version as received, before upgrades; null on rows from before versioning
         success: boolean('success').notNull(),
         durationMs: integer('duration_ms').notNull(),
         error: text('error'), // Only populated on failure
@@ -602,6 +1118,18 @@ export const amsMetrics = pgTable(
     table => [index('ams_metrics_timestamp_idx').on(table.timestamp)]
 );
 
+// Payloads for datasets no handler is registered for, parked here instead of being retried into the DLQ
+export const amsUnrouted = pgTable(
+    'ams_unrouted',
+    {
+        id: uuid('id').primaryKey().defaultRandom(),
+        datasetId: text('dataset_id').notNull(),
+        payload: jsonb('payload').notNull(),
+        receivedAt: timestamp('received_at', { withTimezone: true, mode: 'date' }).notNull().defaultNow(),
+    },
+    table => [index('ams_unrouted_dataset_received_idx').on(table.datasetId, table.receivedAt)]
+);
+
 /**
  * ----------------------------------------------------------------------------
  * Amazon Ads API Authentication & Account Management
@@ -615,6 +1143,7 @@ export const advertiserAccount = pgTable(
         accountName: text('account_name').notNull(),
         status: text('status').notNull(), // e.g., "CREATED"
         countryCode: text('country_code').notNull(), // Individual country code (denormalized)
+        region: text('region').notNull().default('na'), // Ads API region serving countryCode: 'na', 'eu', 'fe'
         profileId: text('profile_id'), // Optional profile ID from alternateIds
         entityId: text('entity_id'), // Optional entity ID from alternateIds
         enabled: boolean('enabled').notNull().default(true), // Whether this account is enabled
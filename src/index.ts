@@ -10,6 +10,7 @@ import { db, testConnection } from '@/db/index.js';
 import { runMigrations } from '@/db/migrate.js';
 import { accountDatasetMetadata, reportDatasetMetadata } from '@/db/schema.js';
 import { startJobs, stopJobs } from '@/jobs/index.js';
+import { transitionReportDataset } from '@/lib/report-status-state-machine/transitions.js';
 import { emitEvent } from '@/utils/events.js';
 
 const PORT = Number(process.env.PORT) || 8080;
@@ -63,7 +64,10 @@ async function performStartupCleanup() {
         await db.update(reportDatasetMetadata).set({ refreshing: false }).where(eq(reportDatasetMetadata.refreshing, true));
 
         // Reset stuck 'parsing' status back to 'fetching' to allow complete and successful retry of parsing.
-        await db.update(reportDatasetMetadata).set({ status: 'fetching' }).where(eq(reportDatasetMetadata.status, 'parsing'));
+        const stuckParsing = await db.select({ uid: reportDatasetMetadata.uid }).from(reportDatasetMetadata).where(eq(reportDatasetMetadata.status, 'parsing'));
+        for (const { uid } of stuckParsing) {
+            await transitionReportDataset(uid, 'fetching', { reason: 'Server restarted while parsing' });
+        }
 
         // Reset any stuck fetching flags in account_dataset_metadata
         // These flags indicate in-progress entity syncs that won't complete after a crash
@@ -0,0 +1,38 @@
+/**
+ * Job: Evaluate alert rules
+ * Runs every 5 minutes, opens and resolves alert incidents, and sends the notifications that are due.
+ */
+
+import { boss } from '@/jobs/boss';
+import { evaluateAlertRules } from '@/lib/alerts';
+import { withJobSession } from '@/utils/job-sessions';
+
+// ============================================================================
+// Job Definition
+// ============================================================================
+
+export const evaluateAlertsJob = boss
+    .createJob('evaluate-alerts')
+    .schedule({
+        cron: '*/5 * * * *', // Run every 5 minutes
+    })
+    .work(async jobs => {
+        await Promise.all(
+            jobs.map(job =>
+                withJobSession(
+                    {
+                        jobName: 'evaluate-alerts',
+                        bossJobId: job.id,
+                        input: job.data,
+                    },
+                    async recorder => {
+                        const summary = await evaluateAlertRules();
+                        await recorder.addAction({
+                            type: 'alerts-evaluated',
+                            ...summary,
+                        });
+                    }
+                )
+            )
+        );
+    });
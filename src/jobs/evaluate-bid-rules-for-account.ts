@@ -0,0 +1,44 @@
+/**
+ * Job: Evaluate bid rules for a specific account.
+ * Runs the account's enabled bid rules against daily target performance and stores the proposed
+ * bid changes as pending bidRecommendation rows. Bids are only changed when a recommendation is applied.
+ */
+
+import { z } from 'zod';
+import { boss } from '@/jobs/boss';
+import { evaluateBidRules, saveRecommendations } from '@/lib/bid-rules';
+import { withJobSession } from '@/utils/job-sessions';
+
+const jobInputSchema = z.object({
+    accountId: z.string(),
+    countryCode: z.string(),
+});
+
+export const evaluateBidRulesForAccountJob = boss
+    .createJob('evaluate-bid-rules-for-account')
+    .input(jobInputSchema)
+    .work(async jobs => {
+        await Promise.all(
+            jobs.map(job =>
+                withJobSession(
+                    {
+                        jobName: 'evaluate-bid-rules-for-account',
+                        bossJobId: job.id,
+                        input: job.data,
+                    },
+                    async recorder => {
+                        const { accountId, countryCode } = job.data;
+                        const proposals = await evaluateBidRules(accountId, countryCode);
+                        const saved = await saveRecommendations(accountId, countryCode, proposals);
+
+                        await recorder.addAction({
+                            type: 'bid-rules-evaluated',
+                            accountId,
+                            countryCode,
+                            recommendations: saved,
+                        });
+                    }
+                )
+            )
+        );
+    });
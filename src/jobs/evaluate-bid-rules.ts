@@ -0,0 +1,58 @@
+/**
+ * Job: Enqueues evaluate-bid-rules-for-account jobs for all enabled accounts.
+ * Runs once a day, after the previous day's daily reports have had time to land, and enqueues
+ * evaluate-bid-rules-for-account jobs for each enabled account.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '@/db/index';
+import { advertiserAccount } from '@/db/schema';
+import { boss } from '@/jobs/boss';
+import { withJobSession } from '@/utils/job-sessions';
+import { evaluateBidRulesForAccountJob } from './evaluate-bid-rules-for-account';
+
+// ============================================================================
+// Job Definition
+// ============================================================================
+
+export const evaluateBidRulesJob = boss
+    .createJob('evaluate-bid-rules')
+    .schedule({
+        cron: '30 12 * * *', // Run daily at 12:30 UTC
+    })
+    .work(async jobs => {
+        await Promise.all(
+            jobs.map(job =>
+                withJobSession(
+                    {
+                        jobName: 'evaluate-bid-rules',
+                        bossJobId: job.id,
+                        input: job.data,
+                    },
+                    async recorder => {
+                        const enabledAccounts = await db
+                            .select({
+                                adsAccountId: advertiserAccount.adsAccountId,
+                                countryCode: advertiserAccount.countryCode,
+                            })
+                            .from(advertiserAccount)
+                            .where(eq(advertiserAccount.enabled, true));
+
+                        await Promise.all(
+                            enabledAccounts.map(account =>
+                                evaluateBidRulesForAccountJob.emit({
+                                    accountId: account.adsAccountId,
+                                    countryCode: account.countryCode,
+                                })
+                            )
+                        );
+
+                        await recorder.addAction({
+                            type: 'bid-rules-enqueue',
+                            accountsEnqueued: enabledAccounts.length,
+                        });
+                    }
+                )
+            )
+        );
+    });
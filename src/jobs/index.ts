@@ -12,6 +12,12 @@ import './summarize-daily-target-stream-for-account.js';
 import './summarize-daily-target-stream.js';
 import './summarize-hourly-target-stream-for-account.js';
 import './summarize-hourly-target-stream.js';
+import './reconcile-performance-for-account.js';
+import './reconcile-performance.js';
+import './evaluate-bid-rules-for-account.js';
+import './evaluate-bid-rules.js';
+import './evaluate-alerts.js';
+import './send-digests.js';
 import './cleanup-ams-metrics.js';
 
 export async function startJobs(): Promise<void> {
@@ -0,0 +1,204 @@
+/**
+ * Job: Reconcile AMS stream totals with report totals for a specific account.
+ * For each recent day whose daily target report has been processed, sums impressions, clicks,
+ * spend, sales and orders per campaign from amsSpTraffic/amsSpConversion and from the report rows
+ * in performanceDaily, and stores both sides in performanceReconciliation.
+ */
+
+import { and, eq, gte, lt, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '@/db/index';
+import { advertiserAccount, amsSpConversion, amsSpTraffic, performanceDaily, performanceReconciliation, reportDatasetMetadata } from '@/db/schema';
+import { boss } from '@/jobs/boss';
+import { DEFAULT_STREAM_ATTRIBUTION, getAttributedColumns } from '@/lib/stream-attribution';
+import { formatZonedDate, utcNow, utcSubtractDays, zonedAddDays } from '@/utils/date';
+import { type JobSessionRecorder, withJobSession } from '@/utils/job-sessions';
+import { getTimezoneForCountry } from '@/utils/timezones';
+
+/**
+ * How many days back to reconcile. Late AMS messages can still land for a few days,
+ * so recent days are recompared on every run.
+ */
+export const RECONCILIATION_DAYS = 7;
+
+const jobInputSchema = z.object({
+    accountId: z.string(),
+    countryCode: z.string(),
+});
+
+export const reconcilePerformanceForAccountJob = boss
+    .createJob('reconcile-performance-for-account')
+    .input(jobInputSchema)
+    .work(async jobs => {
+        await Promise.all(
+            jobs.map(job =>
+                withJobSession(
+                    {
+                        jobName: 'reconcile-performance-for-account',
+                        bossJobId: job.id,
+                        input: job.data,
+                    },
+                    recorder => reconcileForAccount(job.data.accountId, job.data.countryCode, recorder)
+                )
+            )
+        );
+    });
+
+type CampaignTotals = {
+    impressions: number;
+    clicks: number;
+    spend: number;
+    sales: number;
+    orders: number;
+};
+
+const emptyTotals = (): CampaignTotals => ({ impressions: 0, clicks: 0, spend: 0, sales: 0, orders: 0 });
+
+async function reconcileForAccount(accountId: string, countryCode: string, recorder: JobSessionRecorder) {
+    const accountRecord = await db
+        .select({ entityId: advertiserAccount.entityId })
+        .from(advertiserAccount)
+        .where(and(eq(advertiserAccount.adsAccountId, accountId), eq(advertiserAccount.countryCode, countryCode)))
+        .limit(1);
+
+    const entityId = accountRecord[0]?.entityId;
+    if (!entityId) {
+        await recorder.addAction({
+            type: 'reconciliation-skipped',
+            accountId,
+            countryCode,
+            reason: 'missing-entity-id',
+        });
+        return;
+    }
+
+    // Only days with a processed daily target report have report totals to compare against
+    const datasets = await db
+        .select({
+            periodStart: reportDatasetMetadata.periodStart,
+            lastProcessedReportId: reportDatasetMetadata.lastProcessedReportId,
+        })
+        .from(reportDatasetMetadata)
+        .where(
+            and(
+                eq(reportDatasetMetadata.accountId, accountId),
+                eq(reportDatasetMetadata.countryCode, countryCode),
+                eq(reportDatasetMetadata.aggregation, 'daily'),
+                eq(reportDatasetMetadata.entityType, 'target'),
+                eq(reportDatasetMetadata.status, 'completed'),
+                gte(reportDatasetMetadata.periodStart, utcSubtractDays(utcNow(), RECONCILIATION_DAYS))
+            )
+        );
+
+    const timezone = getTimezoneForCountry(countryCode);
+    let rowsWritten = 0;
+
+    for (const dataset of datasets) {
+        const dayStart = dataset.periodStart;
+        const dayEnd = zonedAddDays(dayStart, 1, timezone);
+        const bucketDate = formatZonedDate(dayStart, timezone);
+
+        const streamTraffic = await db
+            .select({
+                campaignId: amsSpTraffic.campaignId,
+                impressions: sql<number>`COALESCE(SUM(${amsSpTraffic.impressions}), 0)::int`,
+                clicks: sql<number>`COALESCE(SUM(${amsSpTraffic.clicks}), 0)::int`,
+                spend: sql<number>`COALESCE(SUM(${amsSpTraffic.cost}), 0)`,
+            })
+            .from(amsSpTraffic)
+            .where(and(eq(amsSpTraffic.advertiserId, entityId), gte(amsSpTraffic.timeWindowStart, dayStart), lt(amsSpTraffic.timeWindowStart, dayEnd)))
+            .groupBy(amsSpTraffic.campaignId);
+
+        // Reports use Amazon's default attribution, so the stream side does too regardless of the account's setting
+        const attributedColumns = getAttributedColumns(DEFAULT_STREAM_ATTRIBUTION);
+        const streamConversions = await db
+            .select({
+                campaignId: amsSpConversion.campaignId,
+                sales: sql<number>`COALESCE(SUM(${attributedColumns.sales}), 0)`,
+                orders: sql<number>`COALESCE(SUM(${attributedColumns.orders}), 0)::int`,
+            })
+            .from(amsSpConversion)
+            .where(and(eq(amsSpConversion.advertiserId, entityId), gte(amsSpConversion.timeWindowStart, dayStart), lt(amsSpConversion.timeWindowStart, dayEnd)))
+            .groupBy(amsSpConversion.campaignId);
+
+        // Report-sourced target rows only: search term and product rows cover the same spend and would double count
+        const reportTotals = await db
+            .select({
+                campaignId: performanceDaily.campaignId,
+                impressions: sql<number>`COALESCE(SUM(${performanceDaily.impressions}), 0)::int`,
+                clicks: sql<number>`COALESCE(SUM(${performanceDaily.clicks}), 0)::int`,
+                spend: sql<string>`COALESCE(SUM(${performanceDaily.spend}), 0)`,
+                sales: sql<string>`COALESCE(SUM(${performanceDaily.sales}), 0)`,
+                orders: sql<number>`COALESCE(SUM(${performanceDaily.orders}), 0)::int`,
+            })
+            .from(performanceDaily)
+            .where(and(eq(performanceDaily.accountId, accountId), eq(performanceDaily.bucketDate, bucketDate), eq(performanceDaily.entityType, 'target'), eq(performanceDaily.source, 'report')))
+            .groupBy(performanceDaily.campaignId);
+
+        const campaigns = new Map<string, { stream: CampaignTotals; report: CampaignTotals }>();
+        const getCampaign = (campaignId: string) => {
+            let totals = campaigns.get(campaignId);
+            if (!totals) {
+                totals = { stream: emptyTotals(), report: emptyTotals() };
+                campaigns.set(campaignId, totals);
+            }
+            return totals;
+        };
+
+        for (const row of streamTraffic) {
+            const { stream } = getCampaign(row.campaignId);
+            stream.impressions = Number(row.impressions);
+            stream.clicks = Number(row.clicks);
+            stream.spend = Number(row.spend);
+        }
+        for (const row of streamConversions) {
+            const { stream } = getCampaign(row.campaignId);
+            stream.sales = Number(row.sales);
+            stream.orders = Number(row.orders);
+        }
+        for (const row of reportTotals) {
+            getCampaign(row.campaignId).report = {
+                impressions: Number(row.impressions),
+                clicks: Number(row.clicks),
+                spend: Number(row.spend),
+                sales: Number(row.sales),
+                orders: Number(row.orders),
+            };
+        }
+
+        const values = [...campaigns].map(([campaignId, { stream, report }]) => ({
+            accountId,
+            bucketDate,
+            campaignId,
+            streamImpressions: stream.impressions,
+            streamClicks: stream.clicks,
+            streamSpend: stream.spend.toFixed(2),
+            streamSales: stream.sales.toFixed(2),
+            streamOrders: stream.orders,
+            reportImpressions: report.impressions,
+            reportClicks: report.clicks,
+            reportSpend: report.spend.toFixed(2),
+            reportSales: report.sales.toFixed(2),
+            reportOrders: report.orders,
+            reportId: dataset.lastProcessedReportId,
+            reconciledAt: new Date(),
+        }));
+
+        // Replace the whole day so campaigns that dropped out of both sources don't linger
+        await db.transaction(async tx => {
+            await tx.delete(performanceReconciliation).where(and(eq(performanceReconciliation.accountId, accountId), eq(performanceReconciliation.bucketDate, bucketDate)));
+            if (values.length > 0) {
+                await tx.insert(performanceReconciliation).values(values);
+            }
+        });
+        rowsWritten += values.length;
+    }
+
+    await recorder.addAction({
+        type: 'reconciliation-complete',
+        accountId,
+        countryCode,
+        days: datasets.length,
+        rowsWritten,
+    });
+}
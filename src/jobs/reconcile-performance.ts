@@ -0,0 +1,58 @@
+/**
+ * Job: Enqueues reconcile-performance-for-account jobs for all enabled accounts.
+ * Runs every hour, offset from the summarizers, and enqueues reconcile-performance-for-account
+ * jobs for each enabled account.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '@/db/index';
+import { advertiserAccount } from '@/db/schema';
+import { boss } from '@/jobs/boss';
+import { withJobSession } from '@/utils/job-sessions';
+import { reconcilePerformanceForAccountJob } from './reconcile-performance-for-account';
+
+// ============================================================================
+// Job Definition
+// ============================================================================
+
+export const reconcilePerformanceJob = boss
+    .createJob('reconcile-performance')
+    .schedule({
+        cron: '40 * * * *', // Run every hour at :40
+    })
+    .work(async jobs => {
+        await Promise.all(
+            jobs.map(job =>
+                withJobSession(
+                    {
+                        jobName: 'reconcile-performance',
+                        bossJobId: job.id,
+                        input: job.data,
+                    },
+                    async recorder => {
+                        const enabledAccounts = await db
+                            .select({
+                                adsAccountId: advertiserAccount.adsAccountId,
+                                countryCode: advertiserAccount.countryCode,
+                            })
+                            .from(advertiserAccount)
+                            .where(eq(advertiserAccount.enabled, true));
+
+                        await Promise.all(
+                            enabledAccounts.map(account =>
+                                reconcilePerformanceForAccountJob.emit({
+                                    accountId: account.adsAccountId,
+                                    countryCode: account.countryCode,
+                                })
+                            )
+                        );
+
+                        await recorder.addAction({
+                            type: 'reconciliation-enqueue',
+                            accountsEnqueued: enabledAccounts.length,
+                        });
+                    }
+                )
+            )
+        );
+    });
@@ -0,0 +1,38 @@
+/**
+ * Job: Send performance digests
+ * Runs hourly and emails the daily and weekly digests that are due in each account's timezone.
+ */
+
+import { boss } from '@/jobs/boss';
+import { sendDueDigests } from '@/lib/digests';
+import { withJobSession } from '@/utils/job-sessions';
+
+// ============================================================================
+// Job Definition
+// ============================================================================
+
+export const sendDigestsJob = boss
+    .createJob('send-digests')
+    .schedule({
+        cron: '5 * * * *', // Run every hour at :05
+    })
+    .work(async jobs => {
+        await Promise.all(
+            jobs.map(job =>
+                withJobSession(
+                    {
+                        jobName: 'send-digests',
+                        bossJobId: job.id,
+                        input: job.data,
+                    },
+                    async recorder => {
+                        const summary = await sendDueDigests();
+                        await recorder.addAction({
+                            type: 'digests-sent',
+                            ...summary,
+                        });
+                    }
+                )
+            )
+        );
+    });
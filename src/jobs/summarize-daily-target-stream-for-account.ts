@@ -1,18 +1,24 @@
 /**
  * Job: Summarize daily target stream data from AMS into performanceDaily table for a specific account.
- * Aggregates delta data from amsSpConversion and amsSpTraffic for the current day
- * (in account timezone) into performanceDaily.
+ * Aggregates delta data from the Sponsored Products, Brands and Display traffic and conversion streams
+ * for the current day (in account timezone) into performanceDaily, tagged with the ad product.
+ * Placements come from the Sponsored Products streams only.
  */
 
 import { formatInTimeZone } from 'date-fns-tz';
 import { and, eq, gte, lte, sql } from 'drizzle-orm';
 import { z } from 'zod';
 import { db } from '@/db/index';
-import { advertiserAccount, amsSpConversion, amsSpTraffic, performanceDaily } from '@/db/schema';
+import { advertiserAccount, amsSpConversion, amsSpTraffic, performanceDaily, performancePlacementDaily } from '@/db/schema';
 import { boss } from '@/jobs/boss';
+import { PROVENANCE_FROM_EXCLUDED, streamWritePrecedence } from '@/lib/performance-source';
+import { normalizePlacement } from '@/lib/placement';
+import { getAttributedColumns, getStreamAttribution, type StreamAttribution } from '@/lib/stream-attribution';
+import { aggregateTargetStream, getTargetStreamSources } from '@/lib/target-stream';
+import type { Placement } from '@/types/reports';
 import { zonedNow, zonedStartOfDay } from '@/utils/date';
+import { type JobSessionRecorder, withJobSession } from '@/utils/job-sessions';
 import { getTimezoneForCountry } from '@/utils/timezones';
-import { withJobSession, type JobSessionRecorder } from '@/utils/job-sessions';
 
 const jobInputSchema = z.object({
     accountId: z.string(),
@@ -37,18 +43,6 @@ export const summarizeDailyTargetStreamForAccountJob = boss
         );
     });
 
-type AggregatedRow = {
-    campaignId: string;
-    adGroupId: string;
-    adId: string;
-    keywordId: string;
-    impressions: number;
-    clicks: number;
-    spend: number;
-    sales: number;
-    orders: number;
-};
-
 async function summarizeDailyForAccount(accountId: string, countryCode: string, recorder: JobSessionRecorder) {
     const accountRecord = await db
         .select({ entityId: advertiserAccount.entityId })
@@ -75,65 +69,10 @@ async function summarizeDailyForAccount(accountId: string, countryCode: string,
 
     const bucketDateStr = formatInTimeZone(todayStart, timezone, 'yyyy-MM-dd');
 
-    const trafficAggregates = await db
-        .select({
-            campaignId: amsSpTraffic.campaignId,
-            adGroupId: amsSpTraffic.adGroupId,
-            adId: amsSpTraffic.adId,
-            keywordId: amsSpTraffic.keywordId,
-            impressions: sql<number>`COALESCE(SUM(${amsSpTraffic.impressions}), 0)::int`,
-            clicks: sql<number>`COALESCE(SUM(${amsSpTraffic.clicks}), 0)::int`,
-            spend: sql<number>`COALESCE(SUM(${amsSpTraffic.cost}), 0)`,
-        })
-        .from(amsSpTraffic)
-        .where(and(eq(amsSpTraffic.advertiserId, entityId), gte(amsSpTraffic.timeWindowStart, todayStart), lte(amsSpTraffic.timeWindowStart, todayEnd)))
-        .groupBy(amsSpTraffic.campaignId, amsSpTraffic.adGroupId, amsSpTraffic.adId, amsSpTraffic.keywordId);
-
-    const conversionAggregates = await db
-        .select({
-            campaignId: amsSpConversion.campaignId,
-            adGroupId: amsSpConversion.adGroupId,
-            adId: amsSpConversion.adId,
-            keywordId: amsSpConversion.keywordId,
-            sales: sql<number>`COALESCE(SUM(${amsSpConversion.attributedSales14d}), 0)`,
-            orders: sql<number>`COALESCE(SUM(${amsSpConversion.attributedConversions14d}), 0)::int`,
-        })
-        .from(amsSpConversion)
-        .where(and(eq(amsSpConversion.advertiserId, entityId), gte(amsSpConversion.timeWindowStart, todayStart), lte(amsSpConversion.timeWindowStart, todayEnd)))
-        .groupBy(amsSpConversion.campaignId, amsSpConversion.adGroupId, amsSpConversion.adId, amsSpConversion.keywordId);
-
-    const conversionMap = new Map<string, { sales: number; orders: number }>();
-    for (const conv of conversionAggregates) {
-        conversionMap.set(`${conv.campaignId}|${conv.adGroupId}|${conv.adId}|${conv.keywordId}`, { sales: conv.sales, orders: conv.orders });
-    }
-
-    const aggregatedData: AggregatedRow[] = trafficAggregates.map(traffic => {
-        const key = `${traffic.campaignId}|${traffic.adGroupId}|${traffic.adId}|${traffic.keywordId}`;
-        const conversion = conversionMap.get(key) ?? { sales: 0, orders: 0 };
-        return {
-            ...traffic,
-            sales: conversion.sales,
-            orders: conversion.orders,
-        };
-    });
-
-    const trafficKeys = new Set(trafficAggregates.map(t => `${t.campaignId}|${t.adGroupId}|${t.adId}|${t.keywordId}`));
-    for (const conv of conversionAggregates) {
-        const key = `${conv.campaignId}|${conv.adGroupId}|${conv.adId}|${conv.keywordId}`;
-        if (!trafficKeys.has(key)) {
-            aggregatedData.push({
-                campaignId: conv.campaignId,
-                adGroupId: conv.adGroupId,
-                adId: conv.adId,
-                keywordId: conv.keywordId,
-                impressions: 0,
-                clicks: 0,
-                spend: 0,
-                sales: conv.sales,
-                orders: conv.orders,
-            });
-        }
-    }
+    // Sponsored Products sales and orders are counted in the account's attribution window
+    const attribution = await getStreamAttribution(accountId);
+    const aggregates = await Promise.all(getTargetStreamSources(attribution).map(source => aggregateTargetStream(source, { advertiserId: entityId, from: todayStart, to: todayEnd, byHour: false })));
+    const aggregatedData = aggregates.flatMap(aggregate => aggregate.rows);
 
     const insertValues = aggregatedData.map(row => ({
         accountId,
@@ -142,13 +81,19 @@ async function summarizeDailyForAccount(accountId: string, countryCode: string,
         campaignId: row.campaignId,
         adGroupId: row.adGroupId,
         adId: row.adId,
+        adProduct: row.adProduct,
         entityType: 'target' as const,
-        entityId: row.keywordId,
+        entityId: row.targetId,
         impressions: row.impressions,
         clicks: row.clicks,
         spend: String(row.spend),
         sales: String(row.sales),
         orders: row.orders,
+        source: 'stream' as const,
+        reportId: null,
+        sourceAsOf: now,
+        attributionWindow: row.attribution.window,
+        attributionSameSku: row.attribution.sameSku,
     }));
 
     const batchSize = 1000;
@@ -158,28 +103,138 @@ async function summarizeDailyForAccount(accountId: string, countryCode: string,
             .insert(performanceDaily)
             .values(batch)
             .onConflictDoUpdate({
-                target: [performanceDaily.accountId, performanceDaily.bucketDate, performanceDaily.adId, performanceDaily.entityType, performanceDaily.entityId],
+                target: [performanceDaily.accountId, performanceDaily.bucketDate, performanceDaily.adId, performanceDaily.entityType, performanceDaily.entityId, performanceDaily.matchedTargetId],
                 set: {
                     campaignId: sql`excluded.campaign_id`,
                     adGroupId: sql`excluded.ad_group_id`,
+                    adProduct: sql`excluded.ad_product`,
                     targetMatchType: sql`excluded.target_match_type`,
                     impressions: sql`excluded.impressions`,
                     clicks: sql`excluded.clicks`,
                     spend: sql`excluded.spend`,
                     sales: sql`excluded.sales`,
                     orders: sql`excluded.orders`,
+                    ...PROVENANCE_FROM_EXCLUDED,
                 },
+                setWhere: streamWritePrecedence(performanceDaily, 'daily'),
             });
     }
 
+    const placementRowsInserted = await summarizeDailyPlacements({ accountId, entityId, dayStart: todayStart, dayEnd: todayEnd, bucketDate: bucketDateStr, now, attribution });
+
     await recorder.addAction({
         type: 'ams-summary-complete',
         cadence: 'daily',
         accountId,
         countryCode,
+        attributionWindow: attribution.window,
+        attributionSameSku: attribution.sameSku,
         bucketDate: bucketDateStr,
-        trafficAggregates: trafficAggregates.length,
-        conversionAggregates: conversionAggregates.length,
+        trafficAggregates: aggregates.reduce((total, aggregate) => total + aggregate.trafficAggregates, 0),
+        conversionAggregates: aggregates.reduce((total, aggregate) => total + aggregate.conversionAggregates, 0),
         rowsInserted: insertValues.length,
+        placementRowsInserted,
     });
 }
+
+type PlacementTotals = {
+    impressions: number;
+    clicks: number;
+    spend: number;
+    sales: number;
+    orders: number;
+};
+
+/**
+ * Summarize the same day per campaign and placement into performancePlacementDaily.
+ * Several stream placements can map to one stored placement, so totals are merged after normalizing.
+ */
+async function summarizeDailyPlacements(args: { accountId: string; entityId: string; dayStart: Date; dayEnd: Date; bucketDate: string; now: Date; attribution: StreamAttribution }): Promise<number> {
+    const { accountId, entityId, dayStart, dayEnd, bucketDate, now, attribution } = args;
+    const attributedColumns = getAttributedColumns(attribution);
+
+    const trafficAggregates = await db
+        .select({
+            campaignId: amsSpTraffic.campaignId,
+            placement: amsSpTraffic.placement,
+            impressions: sql<number>`COALESCE(SUM(${amsSpTraffic.impressions}), 0)::int`,
+            clicks: sql<number>`COALESCE(SUM(${amsSpTraffic.clicks}), 0)::int`,
+            spend: sql<number>`COALESCE(SUM(${amsSpTraffic.cost}), 0)`,
+        })
+        .from(amsSpTraffic)
+        .where(and(eq(amsSpTraffic.advertiserId, entityId), gte(amsSpTraffic.timeWindowStart, dayStart), lte(amsSpTraffic.timeWindowStart, dayEnd)))
+        .groupBy(amsSpTraffic.campaignId, amsSpTraffic.placement);
+
+    const conversionAggregates = await db
+        .select({
+            campaignId: amsSpConversion.campaignId,
+            placement: amsSpConversion.placement,
+            sales: sql<number>`COALESCE(SUM(${attributedColumns.sales}), 0)`,
+            orders: sql<number>`COALESCE(SUM(${attributedColumns.orders}), 0)::int`,
+        })
+        .from(amsSpConversion)
+        .where(and(eq(amsSpConversion.advertiserId, entityId), gte(amsSpConversion.timeWindowStart, dayStart), lte(amsSpConversion.timeWindowStart, dayEnd)))
+        .groupBy(amsSpConversion.campaignId, amsSpConversion.placement);
+
+    const totalsByKey = new Map<string, { campaignId: string; placement: Placement; totals: PlacementTotals }>();
+    const getTotals = (campaignId: string, rawPlacement: string) => {
+        const placement = normalizePlacement(rawPlacement);
+        const key = `${campaignId}|${placement}`;
+        let entry = totalsByKey.get(key);
+        if (!entry) {
+            entry = { campaignId, placement, totals: { impressions: 0, clicks: 0, spend: 0, sales: 0, orders: 0 } };
+            totalsByKey.set(key, entry);
+        }
+        return entry.totals;
+    };
+    for (const traffic of trafficAggregates) {
+        const totals = getTotals(traffic.campaignId, traffic.placement);
+        totals.impressions += Number(traffic.impressions);
+        totals.clicks += Number(traffic.clicks);
+        totals.spend += Number(traffic.spend);
+    }
+    for (const conv of conversionAggregates) {
+        const totals = getTotals(conv.campaignId, conv.placement);
+        totals.sales += Number(conv.sales);
+        totals.orders += Number(conv.orders);
+    }
+
+    const insertValues = [...totalsByKey.values()].map(({ campaignId, placement, totals }) => ({
+        accountId,
+        bucketStart: dayStart,
+        bucketDate,
+        campaignId,
+        placement,
+        impressions: totals.impressions,
+        clicks: totals.clicks,
+        spend: totals.spend.toFixed(2),
+        sales: totals.sales.toFixed(2),
+        orders: totals.orders,
+        source: 'stream' as const,
+        reportId: null,
+        sourceAsOf: now,
+        attributionWindow: attribution.window,
+        attributionSameSku: attribution.sameSku,
+    }));
+
+    const batchSize = 1000;
+    for (let i = 0; i < insertValues.length; i += batchSize) {
+        await db
+            .insert(performancePlacementDaily)
+            .values(insertValues.slice(i, i + batchSize))
+            .onConflictDoUpdate({
+                target: [performancePlacementDaily.accountId, performancePlacementDaily.bucketDate, performancePlacementDaily.campaignId, performancePlacementDaily.placement],
+                set: {
+                    impressions: sql`excluded.impressions`,
+                    clicks: sql`excluded.clicks`,
+                    spend: sql`excluded.spend`,
+                    sales: sql`excluded.sales`,
+                    orders: sql`excluded.orders`,
+                    ...PROVENANCE_FROM_EXCLUDED,
+                },
+                setWhere: streamWritePrecedence(performancePlacementDaily, 'daily'),
+            });
+    }
+
+    return insertValues.length;
+}
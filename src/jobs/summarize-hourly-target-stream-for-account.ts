@@ -1,17 +1,23 @@
 /**
  * Job: Summarize hourly target stream data from AMS into performanceHourly table for a specific account.
- * Aggregates delta data from amsSpConversion and amsSpTraffic for the trailing 24 hours
- * into performanceHourly, grouped by hour.
+ * Aggregates delta data from the Sponsored Products, Brands and Display traffic and conversion streams
+ * for the trailing 24 hours into performanceHourly, grouped by hour and tagged with the ad product.
+ * Placements come from the Sponsored Products streams only.
  */
 
 import { formatInTimeZone } from 'date-fns-tz';
 import { and, eq, gte, lte, sql } from 'drizzle-orm';
 import { z } from 'zod';
 import { db } from '@/db/index';
-import { advertiserAccount, amsSpConversion, amsSpTraffic, performanceHourly } from '@/db/schema';
+import { advertiserAccount, amsSpConversion, amsSpTraffic, performanceHourly, performancePlacementHourly } from '@/db/schema';
 import { boss } from '@/jobs/boss';
+import { PROVENANCE_FROM_EXCLUDED, streamWritePrecedence } from '@/lib/performance-source';
+import { normalizePlacement } from '@/lib/placement';
+import { getAttributedColumns, getStreamAttribution, type StreamAttribution } from '@/lib/stream-attribution';
+import { aggregateTargetStream, getTargetStreamSources } from '@/lib/target-stream';
+import type { Placement } from '@/types/reports';
+import { type JobSessionRecorder, withJobSession } from '@/utils/job-sessions';
 import { getTimezoneForCountry } from '@/utils/timezones';
-import { withJobSession, type JobSessionRecorder } from '@/utils/job-sessions';
 
 const jobInputSchema = z.object({
     accountId: z.string(),
@@ -36,19 +42,6 @@ export const summarizeHourlyTargetStreamForAccountJob = boss
         );
     });
 
-type HourlyRow = {
-    campaignId: string;
-    adGroupId: string;
-    adId: string;
-    keywordId: string;
-    hourStart: Date;
-    impressions: number;
-    clicks: number;
-    spend: number;
-    sales: number;
-    orders: number;
-};
-
 async function summarizeHourlyForAccount(accountId: string, countryCode: string, recorder: JobSessionRecorder) {
     const accountRecord = await db
         .select({ entityId: advertiserAccount.entityId })
@@ -72,88 +65,35 @@ async function summarizeHourlyForAccount(accountId: string, countryCode: string,
     const windowStart = new Date(windowEnd.getTime() - 24 * 60 * 60 * 1000);
     const timezone = getTimezoneForCountry(countryCode);
 
-    const trafficAggregates = await db
-        .select({
-            campaignId: amsSpTraffic.campaignId,
-            adGroupId: amsSpTraffic.adGroupId,
-            adId: amsSpTraffic.adId,
-            keywordId: amsSpTraffic.keywordId,
-            hourStart: sql<Date>`date_trunc('hour', ${amsSpTraffic.timeWindowStart})`.as('hour_start'),
-            impressions: sql<number>`COALESCE(SUM(${amsSpTraffic.impressions}), 0)::int`,
-            clicks: sql<number>`COALESCE(SUM(${amsSpTraffic.clicks}), 0)::int`,
-            spend: sql<number>`COALESCE(SUM(${amsSpTraffic.cost}), 0)`,
-        })
-        .from(amsSpTraffic)
-        .where(and(eq(amsSpTraffic.advertiserId, entityId), gte(amsSpTraffic.timeWindowStart, windowStart), lte(amsSpTraffic.timeWindowStart, windowEnd)))
-        .groupBy(amsSpTraffic.campaignId, amsSpTraffic.adGroupId, amsSpTraffic.adId, amsSpTraffic.keywordId, sql`date_trunc('hour', ${amsSpTraffic.timeWindowStart})`);
-
-    const conversionAggregates = await db
-        .select({
-            campaignId: amsSpConversion.campaignId,
-            adGroupId: amsSpConversion.adGroupId,
-            adId: amsSpConversion.adId,
-            keywordId: amsSpConversion.keywordId,
-            hourStart: sql<Date>`date_trunc('hour', ${amsSpConversion.timeWindowStart})`.as('hour_start'),
-            sales: sql<number>`COALESCE(SUM(${amsSpConversion.attributedSales14d}), 0)`,
-            orders: sql<number>`COALESCE(SUM(${amsSpConversion.attributedConversions14d}), 0)::int`,
-        })
-        .from(amsSpConversion)
-        .where(and(eq(amsSpConversion.advertiserId, entityId), gte(amsSpConversion.timeWindowStart, windowStart), lte(amsSpConversion.timeWindowStart, windowEnd)))
-        .groupBy(amsSpConversion.campaignId, amsSpConversion.adGroupId, amsSpConversion.adId, amsSpConversion.keywordId, sql`date_trunc('hour', ${amsSpConversion.timeWindowStart})`);
-
-    const conversionMap = new Map<string, { sales: number; orders: number }>();
-    for (const conv of conversionAggregates) {
-        conversionMap.set(`${conv.campaignId}|${conv.adGroupId}|${conv.adId}|${conv.keywordId}|${new Date(conv.hourStart).toISOString()}`, { sales: conv.sales, orders: conv.orders });
-    }
-
-    const aggregatedData: HourlyRow[] = trafficAggregates.map(traffic => {
-        const key = `${traffic.campaignId}|${traffic.adGroupId}|${traffic.adId}|${traffic.keywordId}|${new Date(traffic.hourStart).toISOString()}`;
-        const conversion = conversionMap.get(key) ?? { sales: 0, orders: 0 };
-        return {
-            ...traffic,
-            hourStart: new Date(traffic.hourStart),
-            sales: conversion.sales,
-            orders: conversion.orders,
-        };
-    });
-
-    const trafficKeys = new Set(trafficAggregates.map(t => `${t.campaignId}|${t.adGroupId}|${t.adId}|${t.keywordId}|${new Date(t.hourStart).toISOString()}`));
-    for (const conv of conversionAggregates) {
-        const key = `${conv.campaignId}|${conv.adGroupId}|${conv.adId}|${conv.keywordId}|${new Date(conv.hourStart).toISOString()}`;
-        if (!trafficKeys.has(key)) {
-            aggregatedData.push({
-                campaignId: conv.campaignId,
-                adGroupId: conv.adGroupId,
-                adId: conv.adId,
-                keywordId: conv.keywordId,
-                hourStart: new Date(conv.hourStart),
-                impressions: 0,
-                clicks: 0,
-                spend: 0,
-                sales: conv.sales,
-                orders: conv.orders,
-            });
-        }
-    }
+    // Sponsored Products sales and orders are counted in the account's attribution window
+    const attribution = await getStreamAttribution(accountId);
+    const aggregates = await Promise.all(getTargetStreamSources(attribution).map(source => aggregateTargetStream(source, { advertiserId: entityId, from: windowStart, to: windowEnd, byHour: true })));
+    const aggregatedData = aggregates.flatMap(aggregate => aggregate.rows);
 
     const insertValues = aggregatedData.map(row => {
-        const rowBucketDate = formatInTimeZone(row.hourStart, timezone, 'yyyy-MM-dd');
-        const hour = parseInt(formatInTimeZone(row.hourStart, timezone, 'H'), 10);
+        const rowBucketDate = formatInTimeZone(row.bucketStart, timezone, 'yyyy-MM-dd');
+        const hour = parseInt(formatInTimeZone(row.bucketStart, timezone, 'H'), 10);
         return {
             accountId,
-            bucketStart: row.hourStart,
+            bucketStart: row.bucketStart,
             bucketDate: rowBucketDate,
             bucketHour: hour,
             campaignId: row.campaignId,
             adGroupId: row.adGroupId,
             adId: row.adId,
+            adProduct: row.adProduct,
             entityType: 'target' as const,
-            entityId: row.keywordId,
+            entityId: row.targetId,
             impressions: row.impressions,
             clicks: row.clicks,
             spend: String(row.spend),
             sales: String(row.sales),
             orders: row.orders,
+            source: 'stream' as const,
+            reportId: null,
+            sourceAsOf: windowEnd,
+            attributionWindow: row.attribution.window,
+            attributionSameSku: row.attribution.sameSku,
         };
     });
 
@@ -164,31 +104,154 @@ async function summarizeHourlyForAccount(accountId: string, countryCode: string,
             .insert(performanceHourly)
             .values(batch)
             .onConflictDoUpdate({
-                target: [performanceHourly.accountId, performanceHourly.bucketStart, performanceHourly.adId, performanceHourly.entityType, performanceHourly.entityId],
+                target: [
+                    performanceHourly.accountId,
+                    performanceHourly.bucketStart,
+                    performanceHourly.adId,
+                    performanceHourly.entityType,
+                    performanceHourly.entityId,
+                    performanceHourly.matchedTargetId,
+                ],
                 set: {
                     bucketDate: sql`excluded.bucket_date`,
                     bucketHour: sql`excluded.bucket_hour`,
                     campaignId: sql`excluded.campaign_id`,
                     adGroupId: sql`excluded.ad_group_id`,
+                    adProduct: sql`excluded.ad_product`,
                     targetMatchType: sql`excluded.target_match_type`,
                     impressions: sql`excluded.impressions`,
                     clicks: sql`excluded.clicks`,
                     spend: sql`excluded.spend`,
                     sales: sql`excluded.sales`,
                     orders: sql`excluded.orders`,
+                    ...PROVENANCE_FROM_EXCLUDED,
                 },
+                setWhere: streamWritePrecedence(performanceHourly, 'hourly'),
             });
     }
 
+    const placementRowsInserted = await summarizeHourlyPlacements({ accountId, entityId, windowStart, windowEnd, timezone, attribution });
+
     await recorder.addAction({
         type: 'ams-summary-complete',
         cadence: 'hourly',
         accountId,
         countryCode,
+        attributionWindow: attribution.window,
+        attributionSameSku: attribution.sameSku,
         windowStart: windowStart.toISOString(),
         windowEnd: windowEnd.toISOString(),
-        trafficAggregates: trafficAggregates.length,
-        conversionAggregates: conversionAggregates.length,
+        trafficAggregates: aggregates.reduce((total, aggregate) => total + aggregate.trafficAggregates, 0),
+        conversionAggregates: aggregates.reduce((total, aggregate) => total + aggregate.conversionAggregates, 0),
         rowsInserted: insertValues.length,
+        placementRowsInserted,
     });
 }
+
+type PlacementTotals = {
+    impressions: number;
+    clicks: number;
+    spend: number;
+    sales: number;
+    orders: number;
+};
+
+/**
+ * Summarize the same window per campaign and placement into performancePlacementHourly.
+ * Several stream placements can map to one stored placement, so totals are merged after normalizing.
+ */
+async function summarizeHourlyPlacements(args: { accountId: string; entityId: string; windowStart: Date; windowEnd: Date; timezone: string; attribution: StreamAttribution }): Promise<number> {
+    const { accountId, entityId, windowStart, windowEnd, timezone, attribution } = args;
+    const attributedColumns = getAttributedColumns(attribution);
+
+    const trafficAggregates = await db
+        .select({
+            campaignId: amsSpTraffic.campaignId,
+            placement: amsSpTraffic.placement,
+            hourStart: sql<Date>`date_trunc('hour', ${amsSpTraffic.timeWindowStart})`.as('hour_start'),
+            impressions: sql<number>`COALESCE(SUM(${amsSpTraffic.impressions}), 0)::int`,
+            clicks: sql<number>`COALESCE(SUM(${amsSpTraffic.clicks}), 0)::int`,
+            spend: sql<number>`COALESCE(SUM(${amsSpTraffic.cost}), 0)`,
+        })
+        .from(amsSpTraffic)
+        .where(and(eq(amsSpTraffic.advertiserId, entityId), gte(amsSpTraffic.timeWindowStart, windowStart), lte(amsSpTraffic.timeWindowStart, windowEnd)))
+        .groupBy(amsSpTraffic.campaignId, amsSpTraffic.placement, sql`date_trunc('hour', ${amsSpTraffic.timeWindowStart})`);
+
+    const conversionAggregates = await db
+        .select({
+            campaignId: amsSpConversion.campaignId,
+            placement: amsSpConversion.placement,
+            hourStart: sql<Date>`date_trunc('hour', ${amsSpConversion.timeWindowStart})`.as('hour_start'),
+            sales: sql<number>`COALESCE(SUM(${attributedColumns.sales}), 0)`,
+            orders: sql<number>`COALESCE(SUM(${attributedColumns.orders}), 0)::int`,
+        })
+        .from(amsSpConversion)
+        .where(and(eq(amsSpConversion.advertiserId, entityId), gte(amsSpConversion.timeWindowStart, windowStart), lte(amsSpConversion.timeWindowStart, windowEnd)))
+        .groupBy(amsSpConversion.campaignId, amsSpConversion.placement, sql`date_trunc('hour', ${amsSpConversion.timeWindowStart})`);
+
+    const totalsByKey = new Map<string, { campaignId: string; placement: Placement; hourStart: Date; totals: PlacementTotals }>();
+    const getTotals = (campaignId: string, rawPlacement: string, rawHourStart: Date) => {
+        const placement = normalizePlacement(rawPlacement);
+        const hourStart = new Date(rawHourStart);
+        const key = `${campaignId}|${placement}|${hourStart.toISOString()}`;
+        let entry = totalsByKey.get(key);
+        if (!entry) {
+            entry = { campaignId, placement, hourStart, totals: { impressions: 0, clicks: 0, spend: 0, sales: 0, orders: 0 } };
+            totalsByKey.set(key, entry);
+        }
+        return entry.totals;
+    };
+    for (const traffic of trafficAggregates) {
+        const totals = getTotals(traffic.campaignId, traffic.placement, traffic.hourStart);
+        totals.impressions += Number(traffic.impressions);
+        totals.clicks += Number(traffic.clicks);
+        totals.spend += Number(traffic.spend);
+    }
+    for (const conv of conversionAggregates) {
+        const totals = getTotals(conv.campaignId, conv.placement, conv.hourStart);
+        totals.sales += Number(conv.sales);
+        totals.orders += Number(conv.orders);
+    }
+
+    const insertValues = [...totalsByKey.values()].map(({ campaignId, placement, hourStart, totals }) => ({
+        accountId,
+        bucketStart: hourStart,
+        bucketDate: formatInTimeZone(hourStart, timezone, 'yyyy-MM-dd'),
+        bucketHour: parseInt(formatInTimeZone(hourStart, timezone, 'H'), 10),
+        campaignId,
+        placement,
+        impressions: totals.impressions,
+        clicks: totals.clicks,
+        spend: totals.spend.toFixed(2),
+        sales: totals.sales.toFixed(2),
+        orders: totals.orders,
+        source: 'stream' as const,
+        reportId: null,
+        sourceAsOf: windowEnd,
+        attributionWindow: attribution.window,
+        attributionSameSku: attribution.sameSku,
+    }));
+
+    const batchSize = 1000;
+    for (let i = 0; i < insertValues.length; i += batchSize) {
+        await db
+            .insert(performancePlacementHourly)
+            .values(insertValues.slice(i, i + batchSize))
+            .onConflictDoUpdate({
+                target: [performancePlacementHourly.accountId, performancePlacementHourly.bucketStart, performancePlacementHourly.campaignId, performancePlacementHourly.placement],
+                set: {
+                    bucketDate: sql`excluded.bucket_date`,
+                    bucketHour: sql`excluded.bucket_hour`,
+                    impressions: sql`excluded.impressions`,
+                    clicks: sql`excluded.clicks`,
+                    spend: sql`excluded.spend`,
+                    sales: sql`excluded.sales`,
+                    orders: sql`excluded.orders`,
+                    ...PROVENANCE_FROM_EXCLUDED,
+                },
+                setWhere: streamWritePrecedence(performancePlacementHourly, 'hourly'),
+            });
+    }
+
+    return insertValues.length;
+}
@@ -16,6 +16,8 @@ import { type ExportContentType, type ExportStatusResponse, getExportStatus } fr
 import { db } from '@/db/index';
 import { accountDatasetMetadata, ad, adGroup, advertiserAccount, campaign, target } from '@/db/schema';
 import { boss } from '@/jobs/boss';
+import { getAccountRegion } from '@/lib/account-region/index';
+import { type EntityChangeInput, recordChanges, withoutAmsRecordedChanges } from '@/lib/change-log';
 import { utcNow } from '@/utils/date';
 import { emitEvent } from '@/utils/events';
 import { withJobSession } from '@/utils/job-sessions';
@@ -236,7 +238,7 @@ export const syncAdEntitiesJob = boss
                     try {
                                     // Look up advertiser account to get profileId
                                     const account = await db.query.advertiserAccount.findFirst({
-                                        where: eq(advertiserAccount.adsAccountId, accountId),
+                                        where: and(eq(advertiserAccount.adsAccountId, accountId), eq(advertiserAccount.countryCode, countryCode)),
                                         columns: {
                                             adsAccountId: true,
                                             profileId: true,
@@ -252,25 +254,38 @@ export const syncAdEntitiesJob = boss
                                     }
 
                                     const profileId = Number(account.profileId);
+                                    const region = await getAccountRegion(accountId, countryCode);
 
                                     // Step 1: Create all exports in parallel
                                     const [campaignsExport, adGroupsExport, adsExport, targetsExport] = await Promise.all([
-                                        exportCampaigns({
-                                            profileId,
-                                            adProductFilter: ['SPONSORED_PRODUCTS'],
-                                        }),
-                                        exportAdGroups({
-                                            profileId,
-                                            adProductFilter: ['SPONSORED_PRODUCTS'],
-                                        }),
-                                        exportAds({
-                                            profileId,
-                                            adProductFilter: ['SPONSORED_PRODUCTS'],
-                                        }),
-                                        exportTargets({
-                                            profileId,
-                                            adProductFilter: ['SPONSORED_PRODUCTS'],
-                                        }),
+                                        exportCampaigns(
+                                            {
+                                                profileId,
+                                                adProductFilter: ['SPONSORED_PRODUCTS'],
+                                            },
+                                            region
+                                        ),
+                                        exportAdGroups(
+                                            {
+                                                profileId,
+                                                adProductFilter: ['SPONSORED_PRODUCTS'],
+                                            },
+                                            region
+                                        ),
+                                        exportAds(
+                                            {
+                                                profileId,
+                                                adProductFilter: ['SPONSORED_PRODUCTS'],
+                                            },
+                                            region
+                                        ),
+                                        exportTargets(
+                                            {
+                                                profileId,
+                                                adProductFilter: ['SPONSORED_PRODUCTS'],
+                                            },
+                                            region
+                                        ),
                                     ]);
 
                                     // Initialize export states
@@ -339,7 +354,7 @@ export const syncAdEntitiesJob = boss
                                                         exportId: exportState.exportId,
                                                         contentType: exportState.contentType,
                                                     },
-                                                    'na'
+                                                    region
                                                 );
 
                                                 exportState.status = status.status;
@@ -543,7 +558,13 @@ export const syncAdEntitiesJob = boss
                                     const adIds = adsData.map(a => a.adId);
                                     const targetIds = targetsData.map(t => t.targetId);
 
+                                    let changesRecorded = 0;
                                     await db.transaction(async tx => {
+                                        // Bids and budgets changed outside BidBeacon only show up as a difference from the rows being replaced,
+                                        // unless AMS already reported them
+                                        const exportedChanges = await diffExportedValues(tx, accountId, campaignsData, adGroupsData, targetsData);
+                                        changesRecorded = await recordChanges(await withoutAmsRecordedChanges(exportedChanges, tx), tx);
+
                                         // Delete existing data for this account only (scoped to exported IDs)
                                         // Delete in reverse dependency order to respect foreign key constraints
                                         if (targetIds.length > 0) {
@@ -624,15 +645,7 @@ export const syncAdEntitiesJob = boss
                                         // Insert targets
                                         if (targetsData.length > 0) {
                                             const targetRecords: InferInsertModel<typeof target>[] = targetsData.map(t => {
-                                                // Handle bid amount - could be number or bid object with currencyCode and bid
-                                                let bidAmount: string | null = null;
-                                                if (t.bid !== undefined) {
-                                                    if (typeof t.bid === 'number') {
-                                                        bidAmount = t.bid.toString();
-                                                    } else if (typeof t.bid === 'object' && t.bid !== null) {
-                                                        bidAmount = t.bid.bid.toString();
-                                                    }
-                                                }
+                                                const bidAmount = getExportedTargetBid(t)?.toString() ?? null;
 
                                                 return {
                                                     id: t.targetId,
@@ -691,6 +704,7 @@ export const syncAdEntitiesJob = boss
                                             countryCode,
                                             totals: syncTotals,
                                             totalRecords,
+                                            changesRecorded,
                                         });
                 } catch (error) {
                     // Update metadata with error
@@ -733,6 +747,114 @@ async function downloadAndParse<T>(url: string, schema: z.ZodType<T>): Promise<T
     return schema.parse(rawJson);
 }
 
+// Handle bid amount - could be number or bid object with currencyCode and bid
+function getExportedTargetBid(t: z.infer<typeof targetExportSchema>): number | null {
+    if (t.bid === undefined) {
+        return null;
+    }
+    return typeof t.bid === 'number' ? t.bid : t.bid.bid;
+}
+
+/**
+ * Bid and budget differences between exported entities and the rows they replace. Entities without
+ * a prior row are new, not changed. Amazon's lastUpdatedDateTime is the best known change time.
+ */
+async function diffExportedValues(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    accountId: string,
+    campaignsData: z.infer<typeof campaignsExportSchema>,
+    adGroupsData: z.infer<typeof adGroupsExportSchema>,
+    targetsData: z.infer<typeof targetsExportSchema>
+): Promise<EntityChangeInput[]> {
+    const changes: EntityChangeInput[] = [];
+    const base = { accountId, source: 'export' as const };
+
+    if (campaignsData.length > 0) {
+        const rows = await tx
+            .select({ campaignId: campaign.campaignId, budgetAmount: campaign.budgetAmount })
+            .from(campaign)
+            .where(
+                inArray(
+                    campaign.campaignId,
+                    campaignsData.map(c => c.campaignId)
+                )
+            );
+        const previous = new Map(rows.map(row => [row.campaignId, row.budgetAmount]));
+        for (const c of campaignsData) {
+            if (previous.has(c.campaignId)) {
+                changes.push({
+                    ...base,
+                    entityType: 'campaign',
+                    entityId: c.campaignId,
+                    campaignId: c.campaignId,
+                    field: 'budget',
+                    oldValue: previous.get(c.campaignId),
+                    newValue: c.budgetCaps?.budgetValue?.monetaryBudget?.amount ?? null,
+                    changedAt: new Date(c.lastUpdatedDateTime),
+                });
+            }
+        }
+    }
+
+    if (adGroupsData.length > 0) {
+        const rows = await tx
+            .select({ adGroupId: adGroup.adGroupId, bidAmount: adGroup.bidAmount })
+            .from(adGroup)
+            .where(
+                inArray(
+                    adGroup.adGroupId,
+                    adGroupsData.map(ag => ag.adGroupId)
+                )
+            );
+        const previous = new Map(rows.map(row => [row.adGroupId, row.bidAmount]));
+        for (const ag of adGroupsData) {
+            if (previous.has(ag.adGroupId)) {
+                changes.push({
+                    ...base,
+                    entityType: 'adGroup',
+                    entityId: ag.adGroupId,
+                    campaignId: ag.campaignId,
+                    adGroupId: ag.adGroupId,
+                    field: 'defaultBid',
+                    oldValue: previous.get(ag.adGroupId),
+                    newValue: ag.bid?.defaultBid ?? null,
+                    changedAt: new Date(ag.lastUpdatedDateTime),
+                });
+            }
+        }
+    }
+
+    if (targetsData.length > 0) {
+        const rows = await tx
+            .select({ targetId: target.targetId, bidAmount: target.bidAmount })
+            .from(target)
+            .where(
+                inArray(
+                    target.targetId,
+                    targetsData.map(t => t.targetId)
+                )
+            );
+        const previous = new Map(rows.map(row => [row.targetId, row.bidAmount]));
+        for (const t of targetsData) {
+            if (previous.has(t.targetId)) {
+                changes.push({
+                    ...base,
+                    entityType: 'target',
+                    entityId: t.targetId,
+                    campaignId: t.campaignId,
+                    adGroupId: t.adGroupId ?? null,
+                    field: 'bid',
+                    oldValue: previous.get(t.targetId),
+                    newValue: getExportedTargetBid(t),
+                    changedAt: new Date(t.lastUpdatedDateTime),
+                });
+            }
+        }
+    }
+
+    return changes;
+}
+
 async function batchInsert<T extends Record<string, unknown>>(
     tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
     table: Parameters<typeof tx.insert>[0],
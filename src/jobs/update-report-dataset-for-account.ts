@@ -1,25 +1,45 @@
-import { and, desc, eq, isNotNull, isNull, lt, lte, sql } from 'drizzle-orm';
+import { and, countDistinct, desc, eq, isNotNull, isNull, lt, lte, type SQL, sql } from 'drizzle-orm';
 import { z } from 'zod';
+import type { DatePeriod } from '@/amazon-ads/create-report';
 import { db } from '@/db/index';
 import { reportDatasetMetadata } from '@/db/schema';
 import { boss } from '@/jobs/boss';
-import { getNextRefreshTime } from '@/lib/report-status-state-machine/eligibility';
-import type { AggregationType, EntityType } from '@/types/reports';
-import { zonedNow, zonedStartOfDay, zonedSubtractDays, zonedSubtractHours, zonedSubtractMonths, zonedTopOfHour } from '@/utils/date';
+import { hasReportConfig } from '@/config/reports/configs';
+import { createReportForPeriods } from '@/lib/create-report/index';
+import { planReportBatches } from '@/lib/create-report/report-batches';
+import { getNextRefreshTime, isEligibleForReport } from '@/lib/report-status-state-machine/eligibility';
+import { getRefreshOffsets } from '@/lib/report-status-state-machine/schedules';
+import { transitionReportDataset } from '@/lib/report-status-state-machine/transitions';
+import { AGGREGATION_TYPES, type AggregationType, ENTITY_TYPES, type EntityType } from '@/types/reports';
+import {
+    zonedLocalNow,
+    zonedNow,
+    zonedStartOfDay,
+    zonedStartOfMonth,
+    zonedStartOfYear,
+    zonedSubtractDays,
+    zonedSubtractHours,
+    zonedSubtractMonths,
+    zonedTopOfHour,
+} from '@/utils/date';
 import { emitEvent } from '@/utils/events';
 import { getTimezoneForCountry } from '@/utils/timezones';
 import { updateReportStatusJob } from './update-report-status';
 import { withJobSession } from '@/utils/job-sessions';
 
-// Amazon Ads API data retention periods
+// Amazon Ads API data retention periods (monthly and annual reports are built from daily data)
 const HOURLY_RETENTION_DAYS = 14;
 const DAILY_RETENTION_MONTHS = 15;
 
+// Maximum number of in-flight Amazon reports per account, aggregation and entity type
+const MAX_CONCURRENT_REPORTS = 5;
+
 // ============================================================================
 // Job Definition
 //
 // This job backfills any missing rows into the report_dataset_metadata table
-// for a given account and country code, and then enqueues update-report-status
+// for a given account and country code, creates multi-period reports for rows
+// that are eligible for a new report, and then enqueues update-report-status
 // for any rows that are due for refresh.
 // ============================================================================
 
@@ -46,60 +66,62 @@ export const updateReportDatasetForAccountJob = boss
                         const timezone = getTimezoneForCountry(countryCode);
                         const now = zonedNow(timezone);
 
-                        const dailyCleanup = await cleanupOutOfBoundsMetadataRecords(accountId, countryCode, now, 'daily', 'target', timezone);
-                        const hourlyCleanup = await cleanupOutOfBoundsMetadataRecords(accountId, countryCode, now, 'hourly', 'target', timezone);
-
-                        await recorder.addAction({
-                            type: 'report-dataset-cleanup',
-                            accountId,
-                            countryCode,
-                            aggregation: 'daily',
-                            entityType: 'target',
-                            cutoff: dailyCleanup.cutoff.toISOString(),
-                            deletedCount: dailyCleanup.deletedCount,
-                        });
-
-                        await recorder.addAction({
-                            type: 'report-dataset-cleanup',
-                            accountId,
-                            countryCode,
-                            aggregation: 'hourly',
-                            entityType: 'target',
-                            cutoff: hourlyCleanup.cutoff.toISOString(),
-                            deletedCount: hourlyCleanup.deletedCount,
-                        });
-
-                        const dailyInsert = await insertMissingMetadataRecords(accountId, countryCode, now, 'daily', 'target', timezone);
-                        const hourlyInsert = await insertMissingMetadataRecords(accountId, countryCode, now, 'hourly', 'target', timezone);
-
-                        await recorder.addAction({
-                            type: 'report-dataset-backfill',
-                            accountId,
-                            countryCode,
-                            aggregation: 'daily',
-                            entityType: 'target',
-                            insertedCount: dailyInsert.insertedCount,
-                            totalPeriods: dailyInsert.totalPeriods,
-                            windowStart: dailyInsert.earliestPeriodStart.toISOString(),
-                            windowEnd: dailyInsert.latestPeriodStart.toISOString(),
-                        });
-
-                        await recorder.addAction({
-                            type: 'report-dataset-backfill',
-                            accountId,
-                            countryCode,
-                            aggregation: 'hourly',
-                            entityType: 'target',
-                            insertedCount: hourlyInsert.insertedCount,
-                            totalPeriods: hourlyInsert.totalPeriods,
-                            windowStart: hourlyInsert.earliestPeriodStart.toISOString(),
-                            windowEnd: hourlyInsert.latestPeriodStart.toISOString(),
-                        });
-
-                        const dailyResult = await enqueueUpdateReportStatusJobs(accountId, countryCode, now, 'daily', 'target');
-                        const hourlyResult = await enqueueUpdateReportStatusJobs(accountId, countryCode, now, 'hourly', 'target');
-                        const totalDatasets = dailyResult.count + hourlyResult.count;
-                        const enqueuedActions = [...dailyResult.actions, ...hourlyResult.actions];
+                        const enqueuedCounts: Record<AggregationType, number> = { hourly: 0, daily: 0, monthly: 0, annual: 0 };
+                        const enqueuedActions: Awaited<ReturnType<typeof enqueueUpdateReportStatusJobs>>['actions'] = [];
+
+                        for (const entityType of ENTITY_TYPES) {
+                            for (const aggregation of AGGREGATION_TYPES) {
+                                // Some entity types (placement) only have hourly and daily reports
+                                if (!hasReportConfig(aggregation, entityType)) {
+                                    continue;
+                                }
+
+                                const cleanup = await cleanupOutOfBoundsMetadataRecords(accountId, countryCode, now, aggregation, entityType, timezone);
+
+                                await recorder.addAction({
+                                    type: 'report-dataset-cleanup',
+                                    accountId,
+                                    countryCode,
+                                    aggregation,
+                                    entityType,
+                                    cutoff: cleanup.cutoff.toISOString(),
+                                    deletedCount: cleanup.deletedCount,
+                                });
+
+                                const offsets = await getRefreshOffsets(accountId, aggregation, entityType);
+                                const insert = await insertMissingMetadataRecords(accountId, countryCode, now, aggregation, entityType, timezone, offsets);
+
+                                await recorder.addAction({
+                                    type: 'report-dataset-backfill',
+                                    accountId,
+                                    countryCode,
+                                    aggregation,
+                                    entityType,
+                                    insertedCount: insert.insertedCount,
+                                    totalPeriods: insert.totalPeriods,
+                                    windowStart: insert.earliestPeriodStart.toISOString(),
+                                    windowEnd: insert.latestPeriodStart.toISOString(),
+                                });
+
+                                const batched = await createBatchedReports(accountId, countryCode, now, aggregation, entityType, offsets);
+                                for (const batch of batched.created) {
+                                    await recorder.addAction({
+                                        type: 'report-batch-created',
+                                        accountId,
+                                        countryCode,
+                                        aggregation,
+                                        entityType,
+                                        reportId: batch.reportId,
+                                        periods: batch.periods.map(period => period.startDate),
+                                        datasetCount: batch.datasetCount,
+                                    });
+                                }
+
+                                const result = await enqueueUpdateReportStatusJobs(accountId, countryCode, now, aggregation, entityType, batched.uncovered);
+                                enqueuedCounts[aggregation] += result.count;
+                                enqueuedActions.push(...result.actions);
+                            }
+                        }
 
                         emitEvent({
                             type: 'reports:refreshed',
@@ -110,9 +132,11 @@ export const updateReportDatasetForAccountJob = boss
                             type: 'report-dataset-scan',
                             accountId,
                             countryCode,
-                            dailyEnqueuedCount: dailyResult.count,
-                            hourlyEnqueuedCount: hourlyResult.count,
-                            totalEnqueuedCount: totalDatasets,
+                            dailyEnqueuedCount: enqueuedCounts.daily,
+                            hourlyEnqueuedCount: enqueuedCounts.hourly,
+                            monthlyEnqueuedCount: enqueuedCounts.monthly,
+                            annualEnqueuedCount: enqueuedCounts.annual,
+                            totalEnqueuedCount: enqueuedCounts.hourly + enqueuedCounts.daily + enqueuedCounts.monthly + enqueuedCounts.annual,
                         });
 
                         await Promise.all(enqueuedActions.map(action => recorder.addAction(action)));
@@ -125,6 +149,57 @@ export const updateReportDatasetForAccountJob = boss
 // ============================================================================
 // Utility Functions
 // ============================================================================
+
+type ReportDatasetRecord = typeof reportDatasetMetadata.$inferSelect;
+
+/** Due rows without a report that createBatchedReports did not request one for */
+type UncoveredRecords = {
+    /** Not eligible yet; their job only reschedules them */
+    ineligible: ReportDatasetRecord[];
+    /** Rows of the batch whose creation failed; their jobs create single-period reports */
+    failed: ReportDatasetRecord[];
+};
+
+/**
+ * Start of the period containing `now`, in account-local time.
+ */
+function getCurrentPeriodStart(now: Date, aggregation: AggregationType, timezone: string): Date {
+    switch (aggregation) {
+        case 'hourly':
+            return zonedTopOfHour(now, timezone);
+        case 'daily':
+            return zonedStartOfDay(now, timezone);
+        case 'monthly':
+            return zonedStartOfMonth(now, timezone);
+        case 'annual':
+            return zonedStartOfYear(now, timezone);
+    }
+}
+
+function getPreviousPeriodStart(periodStart: Date, aggregation: AggregationType, timezone: string): Date {
+    switch (aggregation) {
+        case 'hourly':
+            return zonedSubtractHours(periodStart, 1, timezone);
+        case 'daily':
+            return zonedSubtractDays(periodStart, 1, timezone);
+        case 'monthly':
+            return zonedSubtractMonths(periodStart, 1, timezone);
+        case 'annual':
+            return zonedSubtractMonths(periodStart, 12, timezone);
+    }
+}
+
+/**
+ * Earliest period start Amazon still has data for. Monthly and annual buckets share the daily
+ * retention, measured from today so a year is only kept while its start is within reach.
+ */
+function getRetentionCutoff(now: Date, aggregation: AggregationType, timezone: string): Date {
+    if (aggregation === 'hourly') {
+        return zonedSubtractHours(zonedTopOfHour(now, timezone), HOURLY_RETENTION_DAYS * 24, timezone);
+    }
+    return zonedSubtractMonths(zonedStartOfDay(now, timezone), DAILY_RETENTION_MONTHS, timezone);
+}
+
 /**
  * Insert missing metadata records within the retention period.
  * Creates missing rows starting from the most recent period and working backwards
@@ -136,13 +211,11 @@ async function insertMissingMetadataRecords(
     now: Date,
     aggregation: AggregationType,
     entityType: EntityType,
-    timezone: string
+    timezone: string,
+    offsets: readonly number[]
 ): Promise<{ insertedCount: number; totalPeriods: number; earliestPeriodStart: Date; latestPeriodStart: Date }> {
-    const isHourly = aggregation === 'hourly';
-    const currentPeriodStart = isHourly ? zonedTopOfHour(now, timezone) : zonedStartOfDay(now, timezone);
-    const earliestPeriodStart = isHourly
-        ? zonedSubtractHours(currentPeriodStart, HOURLY_RETENTION_DAYS * 24, timezone)
-        : zonedSubtractMonths(currentPeriodStart, DAILY_RETENTION_MONTHS, timezone);
+    const currentPeriodStart = getCurrentPeriodStart(now, aggregation, timezone);
+    const earliestPeriodStart = getRetentionCutoff(now, aggregation, timezone);
     let insertedCount = 0;
     let totalPeriods = 0;
 
@@ -160,13 +233,14 @@ async function insertMissingMetadataRecords(
             entityType,
             status: 'missing',
             error: null,
+            offsets,
         });
         if (inserted) {
             insertedCount += 1;
         }
 
         // Move to the previous period
-        periodStart = isHourly ? zonedSubtractHours(periodStart, 1, timezone) : zonedSubtractDays(periodStart, 1, timezone);
+        periodStart = getPreviousPeriodStart(periodStart, aggregation, timezone);
     }
 
     return {
@@ -185,11 +259,7 @@ async function cleanupOutOfBoundsMetadataRecords(
     entityType: EntityType,
     timezone: string
 ): Promise<{ deletedCount: number; cutoff: Date }> {
-    const isHourly = aggregation === 'hourly';
-    const currentPeriodStart = isHourly ? zonedTopOfHour(now, timezone) : zonedStartOfDay(now, timezone);
-    const cutoff = isHourly
-        ? zonedSubtractHours(currentPeriodStart, HOURLY_RETENTION_DAYS * 24, timezone)
-        : zonedSubtractMonths(currentPeriodStart, DAILY_RETENTION_MONTHS, timezone);
+    const cutoff = getRetentionCutoff(now, aggregation, timezone);
 
     const deletedRows = await db
         .delete(reportDatasetMetadata)
@@ -219,8 +289,9 @@ async function insertMetadata(args: {
     entityType: EntityType;
     status: 'missing' | 'fetching' | 'parsing' | 'completed' | 'error';
     error?: string | null;
+    offsets: readonly number[];
 }): Promise<boolean> {
-    const { accountId, countryCode, periodStart, aggregation, entityType, status, error } = args;
+    const { accountId, countryCode, periodStart, aggregation, entityType, status, error, offsets } = args;
 
     const inserted = await db
         .insert(reportDatasetMetadata)
@@ -231,7 +302,7 @@ async function insertMetadata(args: {
             aggregation,
             entityType,
             status,
-            nextRefreshAt: getNextRefreshTime({ reportId: null, periodStart, aggregation, lastReportCreatedAt: null, countryCode }),
+            nextRefreshAt: getNextRefreshTime({ reportId: null, periodStart, aggregation, lastReportCreatedAt: null, countryCode }, offsets),
             reportId: null,
             error: error ?? null,
         })
@@ -246,14 +317,20 @@ async function insertMetadata(args: {
 /**
  * Enqueue update-report-status jobs for records that are due for refresh.
  *
- * We only enqueue jobs such that the total number of concurrent jobs is less than MAX_CONCURRENT_REPORTS.
- * If already at capacity, the function returns early without enqueueing any more jobs.
- *
- * Eligible rows are sorted to prioritize rows with report IDs (in-progress reports that need continued
- * processing), then by most recent period, then by nextRefreshAt. This ensures rows with report IDs always
- * get included before the limit is applied.
+ * Every overdue report gets one job, which processes all rows sharing it. New reports are created by
+ * createBatchedReports, so rows without a report only get a per-row job when batching did not cover them:
+ * rows that are due but not eligible (the job reschedules them) and rows of a batch whose creation failed
+ * (the job creates a single-period report). Those creations share the MAX_CONCURRENT_REPORTS cap with
+ * every active report, including batches created moments ago.
  */
-async function enqueueUpdateReportStatusJobs(accountId: string, countryCode: string, now: Date, aggregation: AggregationType, entityType: EntityType): Promise<{
+async function enqueueUpdateReportStatusJobs(
+    accountId: string,
+    countryCode: string,
+    now: Date,
+    aggregation: AggregationType,
+    entityType: EntityType,
+    uncovered: UncoveredRecords
+): Promise<{
     count: number;
     actions: Array<{
         type: string;
@@ -262,43 +339,24 @@ async function enqueueUpdateReportStatusJobs(accountId: string, countryCode: str
         input: Record<string, string>;
     }>;
 }> {
-    const MAX_CONCURRENT_REPORTS = 5;
+    const datasetFilter = and(
+        eq(reportDatasetMetadata.accountId, accountId),
+        eq(reportDatasetMetadata.countryCode, countryCode),
+        eq(reportDatasetMetadata.aggregation, aggregation),
+        eq(reportDatasetMetadata.entityType, entityType)
+    );
 
     // Enqueue update-report-status jobs for records that already have a reportId and nextRefreshAt
-    // is overdue..
-    const recordsWithActiveReport = await db
+    // is overdue. Rows sharing a multi-period report only need one job, which processes all of them.
+    const overdueRecordsWithReport = await db
         .select()
         .from(reportDatasetMetadata)
-        .where(
-            and(
-                eq(reportDatasetMetadata.accountId, accountId),
-                eq(reportDatasetMetadata.countryCode, countryCode),
-                eq(reportDatasetMetadata.aggregation, aggregation),
-                eq(reportDatasetMetadata.entityType, entityType),
-                isNotNull(reportDatasetMetadata.reportId),
-                lte(reportDatasetMetadata.nextRefreshAt, now)
-            )
-        )
+        .where(and(datasetFilter, isNotNull(reportDatasetMetadata.reportId), lte(reportDatasetMetadata.nextRefreshAt, now)))
         .orderBy(desc(reportDatasetMetadata.periodStart));
+    const recordsWithActiveReport = [...new Map(overdueRecordsWithReport.map(record => [record.reportId, record])).values()];
 
-    // Enqueue update-report-status jobs for records that do not have a reportId, but are
-    // overdue.
-    const recordsDueForNewReport = await db
-        .select()
-        .from(reportDatasetMetadata)
-        .where(
-            and(
-                eq(reportDatasetMetadata.accountId, accountId),
-                eq(reportDatasetMetadata.countryCode, countryCode),
-                eq(reportDatasetMetadata.aggregation, aggregation),
-                eq(reportDatasetMetadata.entityType, entityType),
-                eq(reportDatasetMetadata.refreshing, false),
-                isNull(reportDatasetMetadata.reportId),
-                lte(reportDatasetMetadata.nextRefreshAt, now)
-            )
-        )
-        .orderBy(desc(reportDatasetMetadata.periodStart))
-        .limit(Math.max(0, MAX_CONCURRENT_REPORTS - recordsWithActiveReport.length));
+    const availableSlots = MAX_CONCURRENT_REPORTS - (await countActiveReports(datasetFilter));
+    const recordsDueForNewReport = [...uncovered.ineligible, ...uncovered.failed.slice(0, Math.max(0, availableSlots))];
 
     const recordsNeedingWork = [...recordsWithActiveReport, ...recordsDueForNewReport];
     if (recordsNeedingWork.length === 0) {
@@ -311,8 +369,8 @@ async function enqueueUpdateReportStatusJobs(accountId: string, countryCode: str
                 accountId: record.accountId,
                 countryCode: record.countryCode,
                 timestamp: record.periodStart.toISOString(),
-                aggregation: record.aggregation as 'hourly' | 'daily',
-                entityType: record.entityType as 'target' | 'product',
+                aggregation: record.aggregation as AggregationType,
+                entityType: record.entityType as EntityType,
             })
         )
     );
@@ -343,3 +401,78 @@ async function enqueueUpdateReportStatusJobs(accountId: string, countryCode: str
         actions,
     };
 }
+
+/**
+ * Create multi-period reports for rows that are due and eligible for a new report.
+ *
+ * Eligible rows are grouped with planReportBatches so a backfill sends one createReport call per few
+ * days instead of one per bucket, and every row in a batch moves to 'fetching' with the shared reportId.
+ * Batches are limited by the free MAX_CONCURRENT_REPORTS slots. If creating a batch fails, its rows stay
+ * due and are returned as uncovered, along with due rows that are not eligible, for per-row
+ * update-report-status jobs to handle.
+ */
+async function createBatchedReports(
+    accountId: string,
+    countryCode: string,
+    now: Date,
+    aggregation: AggregationType,
+    entityType: EntityType,
+    offsets: readonly number[]
+): Promise<{ created: Array<{ reportId: string; periods: DatePeriod[]; datasetCount: number }>; uncovered: UncoveredRecords }> {
+    const datasetFilter = and(
+        eq(reportDatasetMetadata.accountId, accountId),
+        eq(reportDatasetMetadata.countryCode, countryCode),
+        eq(reportDatasetMetadata.aggregation, aggregation),
+        eq(reportDatasetMetadata.entityType, entityType)
+    );
+
+    const dueRecords = await db
+        .select()
+        .from(reportDatasetMetadata)
+        .where(and(datasetFilter, eq(reportDatasetMetadata.refreshing, false), isNull(reportDatasetMetadata.reportId), lte(reportDatasetMetadata.nextRefreshAt, now)))
+        .orderBy(desc(reportDatasetMetadata.periodStart));
+    // Rows retrying a failed report are due once their backoff has elapsed, regardless of eligibility offsets
+    const isEligible = (record: ReportDatasetRecord) => record.failedAttempts > 0 || isEligibleForReport(record.periodStart, aggregation, record.lastReportCreatedAt, countryCode, now, offsets);
+    const eligibleRecords = dueRecords.filter(isEligible);
+    const uncovered: UncoveredRecords = { ineligible: dueRecords.filter(record => !isEligible(record)), failed: [] };
+
+    const availableSlots = MAX_CONCURRENT_REPORTS - (await countActiveReports(datasetFilter));
+    const created: Array<{ reportId: string; periods: DatePeriod[]; datasetCount: number }> = [];
+    for (const batch of planReportBatches(eligibleRecords, countryCode, aggregation).slice(0, Math.max(0, availableSlots))) {
+        let reportId: string;
+        try {
+            reportId = await createReportForPeriods({ accountId, countryCode, aggregation, entityType, periods: batch.periods });
+        } catch (error) {
+            console.error(`Failed to create batched ${aggregation} ${entityType} report for ${accountId}`, error);
+            uncovered.failed = batch.rows;
+            break;
+        }
+        const lastReportCreatedAt = zonedLocalNow(getTimezoneForCountry(countryCode));
+
+        for (const record of batch.rows) {
+            await transitionReportDataset(record.uid, 'fetching', {
+                reason: `Report requested from Amazon Ads API (${batch.periods.length} periods)`,
+                set: {
+                    reportId,
+                    lastReportCreatedAt,
+                    nextRefreshAt: getNextRefreshTime({ ...record, reportId }, offsets),
+                },
+            });
+        }
+
+        created.push({ reportId, periods: batch.periods, datasetCount: batch.rows.length });
+    }
+
+    return { created, uncovered };
+}
+
+/**
+ * Number of distinct in-flight reports for a dataset filter.
+ */
+async function countActiveReports(datasetFilter: SQL | undefined): Promise<number> {
+    const [activeReports] = await db
+        .select({ count: countDistinct(reportDatasetMetadata.reportId) })
+        .from(reportDatasetMetadata)
+        .where(and(datasetFilter, isNotNull(reportDatasetMetadata.reportId)));
+    return activeReports?.count ?? 0;
+}
@@ -4,17 +4,18 @@
  * report creation, parsing, and status updates.
  */
 
-import { toZonedTime } from 'date-fns-tz';
 import { and, eq, type InferSelectModel } from 'drizzle-orm';
 import { z } from 'zod';
 import { db } from '@/db/index';
 import { reportDatasetMetadata } from '@/db/schema';
+import { getAccountRegion } from '@/lib/account-region/index';
 import { createReportForDataset } from '@/lib/create-report/index';
+import { findDatasetsSharingReport } from '@/lib/create-report/report-batches';
 import { parseReport } from '@/lib/parse-report/index';
-import { getNextAction } from '@/lib/report-status-state-machine';
+import { getNextAction, getRefreshOffsets, getRetryAt, MAX_REPORT_ATTEMPTS, transitionReportDataset } from '@/lib/report-status-state-machine';
 import { getNextRefreshTime } from '@/lib/report-status-state-machine/eligibility';
-import { AGGREGATION_TYPES, ENTITY_TYPES } from '@/types/reports';
-import { utcNow } from '@/utils/date';
+import { AGGREGATION_TYPES, type AggregationType, ENTITY_TYPES, type EntityType } from '@/types/reports';
+import { zonedLocalNow } from '@/utils/date';
 import { emitEvent } from '@/utils/events';
 import { withJobSession } from '@/utils/job-sessions';
 import { getTimezoneForCountry } from '@/utils/timezones';
@@ -54,7 +55,6 @@ export const updateReportStatusJob = boss
                         input: job.data,
                     },
                     async recorder => {
-                        let action: string | undefined;
                         let reportDatum: InferSelectModel<typeof reportDatasetMetadata> | undefined;
                         try {
                             // Fetch current row once at the start
@@ -74,20 +74,26 @@ export const updateReportStatusJob = boss
                     // Mark as refreshing immediately so UI updates ASAP
                     await setRefreshing(reportDatum, true);
 
+                    // Refresh offsets come from the account's schedule (or the defaults)
+                    const offsets = await getRefreshOffsets(accountId, aggregation, entityType);
+
                     // Determine next action using state machine
                     // The state machine will fetch report status if reportId exists
-                    action = await getNextAction(
+                    const next = await getNextAction(
                         reportDatum.periodStart,
-                        reportDatum.aggregation as 'hourly' | 'daily',
-                        reportDatum.entityType as 'target' | 'product',
+                        reportDatum.aggregation as AggregationType,
+                        reportDatum.entityType as EntityType,
                         reportDatum.lastReportCreatedAt,
                         reportDatum.reportId,
-                        countryCode
+                        countryCode,
+                        await getAccountRegion(accountId, countryCode),
+                        offsets,
+                        reportDatum.failedAttempts
                     );
 
-                        switch (action) {
+                        switch (next.action) {
                             case 'none': {
-                                await setNextRefreshAt(reportDatum, getNextRefreshTime(reportDatum));
+                                await setNextRefreshAt(reportDatum, getNextRefreshTime(reportDatum, offsets));
                                 await setRefreshing(reportDatum, false);
                                 await recorder.addAction({
                                     type: 'report-status-checked',
@@ -102,9 +108,11 @@ export const updateReportStatusJob = boss
 
                             case 'create': {
                                 const reportId = await createReportForDataset({ accountId, countryCode, timestamp, aggregation, entityType });
-                                const updatedRow = await setReport(reportDatum, reportId);
-                                await setNextRefreshAt(updatedRow, getNextRefreshTime(updatedRow));
-                                await setStatus(updatedRow, 'fetching');
+                                const updatedRow = await transitionReportDataset(reportDatum.uid, 'fetching', {
+                                    reason: reportDatum.failedAttempts > 0 ? `Report recreated after ${reportDatum.failedAttempts} failed attempts` : 'Report requested from Amazon Ads API',
+                                    set: { reportId, lastReportCreatedAt: zonedLocalNow(getTimezoneForCountry(countryCode)) },
+                                });
+                                await setNextRefreshAt(updatedRow, getNextRefreshTime(updatedRow, offsets));
                                 await setRefreshing(updatedRow, false);
                                 await recorder.addAction({
                                     type: 'report-status-queued',
@@ -119,14 +127,40 @@ export const updateReportStatusJob = boss
                             }
 
                             case 'process': {
+                                // Multi-period reports are shared by every bucket they cover, so all of them are parsed together
+                                const buckets = await findDatasetsSharingReport(reportDatum);
+                                const otherBuckets = buckets.filter(bucket => bucket.uid !== reportDatum?.uid);
+                                if (otherBuckets.some(bucket => bucket.status === 'parsing')) {
+                                    // Another job is already parsing this report
+                                    await setRefreshing(reportDatum, false);
+                                    break;
+                                }
+
                                 // Set status to 'parsing' at the start of parsing
-                                await setStatus(reportDatum, 'parsing');
-                                await parseReport(reportDatum.uid);
+                                for (const bucket of buckets) {
+                                    await transitionReportDataset(bucket.uid, 'parsing', { reason: 'Report completed, parsing started' });
+                                }
+
+                                try {
+                                    await parseReport(reportDatum.uid);
+                                } catch (error) {
+                                    // This bucket is marked as failed below; release the others sharing the report
+                                    const message = error instanceof Error ? error.message : String(error);
+                                    for (const bucket of otherBuckets) {
+                                        await transitionReportDataset(bucket.uid, 'error', { reason: `Shared report failed to parse: ${message}`, set: { error: message } });
+                                    }
+                                    throw error;
+                                }
 
                                 // Mark report as processed: clear reportId, set lastProcessedReportId
-                                const processedRow = await markReportProcessed(reportDatum, reportDatum.reportId);
-                                await setNextRefreshAt(processedRow, getNextRefreshTime(processedRow));
-                                await setRefreshing(processedRow, false);
+                                for (const bucket of buckets) {
+                                    const processedRow = await transitionReportDataset(bucket.uid, 'completed', {
+                                        reason: buckets.length > 1 ? `Report parsed (shared by ${buckets.length} periods)` : 'Report parsed',
+                                        set: { reportId: null, lastProcessedReportId: bucket.reportId, error: null, failureReason: null, failedAttempts: 0 },
+                                    });
+                                    await setNextRefreshAt(processedRow, getNextRefreshTime(processedRow, offsets));
+                                }
+                                await setRefreshing(reportDatum, false);
                                 await recorder.addAction({
                                     type: 'report-status-processed',
                                     accountId,
@@ -135,12 +169,47 @@ export const updateReportStatusJob = boss
                                     entityType,
                                     timestamp,
                                     reportId: reportDatum.reportId ?? null,
+                                    bucketCount: buckets.length,
+                                });
+                                break;
+                            }
+
+                            case 'fail': {
+                                // Amazon won't complete this report; every bucket sharing it backs off and retries,
+                                // or is marked dead once it has failed MAX_REPORT_ATTEMPTS times
+                                const buckets = await findDatasetsSharingReport(reportDatum);
+                                for (const bucket of buckets) {
+                                    const failedAttempts = bucket.failedAttempts + 1;
+                                    const isDead = failedAttempts >= MAX_REPORT_ATTEMPTS;
+                                    await transitionReportDataset(bucket.uid, isDead ? 'dead' : 'error', {
+                                        reason: isDead
+                                            ? `Report failed ${failedAttempts} times, giving up: ${next.failureReason}`
+                                            : `Report failed (attempt ${failedAttempts} of ${MAX_REPORT_ATTEMPTS}): ${next.failureReason}`,
+                                        set: {
+                                            reportId: null,
+                                            failureReason: next.failureReason,
+                                            failedAttempts,
+                                            nextRefreshAt: isDead ? null : getRetryAt(failedAttempts),
+                                        },
+                                    });
+                                }
+                                await setRefreshing(reportDatum, false);
+                                await recorder.addAction({
+                                    type: 'report-status-failed',
+                                    accountId,
+                                    countryCode,
+                                    aggregation,
+                                    entityType,
+                                    timestamp,
+                                    reportId: reportDatum.reportId ?? null,
+                                    failureReason: next.failureReason,
+                                    failedAttempts: reportDatum.failedAttempts + 1,
                                 });
                                 break;
                             }
 
                             default:
-                                throw new Error(`Unknown action received from state machine: ${action}`);
+                                throw new Error(`Unknown action received from state machine: ${JSON.stringify(next)}`);
                         }
 
                         if (reportDatum.error) {
@@ -189,66 +258,6 @@ async function setRefreshing(row: InferSelectModel<typeof reportDatasetMetadata>
     }
 }
 
-/**
- * Updates the status for a report datum and emits update event.
- */
-async function setStatus(row: InferSelectModel<typeof reportDatasetMetadata>, status: string): Promise<void> {
-    const [updatedRow] = await db
-        .update(reportDatasetMetadata)
-        .set({ status })
-        .where(
-            and(
-                eq(reportDatasetMetadata.accountId, row.accountId),
-                eq(reportDatasetMetadata.periodStart, row.periodStart),
-                eq(reportDatasetMetadata.aggregation, row.aggregation),
-                eq(reportDatasetMetadata.entityType, row.entityType)
-            )
-        )
-        .returning();
-
-    if (updatedRow) {
-        emitEvent({
-            type: 'report:refreshed',
-            row: updatedRow,
-        });
-    }
-}
-
-/**
- * Marks a report as processed: clears reportId, sets lastProcessedReportId, and emits update event.
- * Returns the updated row.
- */
-async function markReportProcessed(row: InferSelectModel<typeof reportDatasetMetadata>, reportId: string | null): Promise<InferSelectModel<typeof reportDatasetMetadata>> {
-    const [updatedRow] = await db
-        .update(reportDatasetMetadata)
-        .set({
-            status: 'completed',
-            reportId: null,
-            lastProcessedReportId: reportId,
-            error: null,
-        })
-        .where(
-            and(
-                eq(reportDatasetMetadata.accountId, row.accountId),
-                eq(reportDatasetMetadata.periodStart, row.periodStart),
-                eq(reportDatasetMetadata.aggregation, row.aggregation),
-                eq(reportDatasetMetadata.entityType, row.entityType)
-            )
-        )
-        .returning();
-
-    if (!updatedRow) {
-        throw new Error(`Failed to mark report as processed for ${row.accountId}`);
-    }
-
-    emitEvent({
-        type: 'report:refreshed',
-        row: updatedRow,
-    });
-
-    return updatedRow;
-}
-
 async function setNextRefreshAt(row: InferSelectModel<typeof reportDatasetMetadata>, nextRefreshAt: Date | null): Promise<void> {
     const [updatedRow] = await db
         .update(reportDatasetMetadata)
@@ -271,48 +280,9 @@ async function setNextRefreshAt(row: InferSelectModel<typeof reportDatasetMetada
     }
 }
 
-/**
- * Sets the reportId and lastReportCreatedAt after a report is created via the Amazon Ads API.
- * Returns the updated row.
- */
-async function setReport(row: InferSelectModel<typeof reportDatasetMetadata>, reportId: string): Promise<InferSelectModel<typeof reportDatasetMetadata>> {
-    // Convert current UTC time to country's timezone and store as timezone-less timestamp
-    const timezone = getTimezoneForCountry(row.countryCode);
-    const nowUtc = utcNow();
-    const zonedTime = toZonedTime(nowUtc, timezone);
-    const lastReportCreatedAt = new Date(zonedTime.getFullYear(), zonedTime.getMonth(), zonedTime.getDate(), zonedTime.getHours(), zonedTime.getMinutes(), zonedTime.getSeconds());
-
-    const [updatedRow] = await db
-        .update(reportDatasetMetadata)
-        .set({
-            reportId,
-            lastReportCreatedAt,
-        })
-        .where(
-            and(
-                eq(reportDatasetMetadata.accountId, row.accountId),
-                eq(reportDatasetMetadata.periodStart, row.periodStart),
-                eq(reportDatasetMetadata.aggregation, row.aggregation),
-                eq(reportDatasetMetadata.entityType, row.entityType)
-            )
-        )
-        .returning();
-
-    if (!updatedRow) {
-        throw new Error(`Failed to update metadata for report ${reportId}`);
-    }
-
-    emitEvent({
-        type: 'report:refreshed',
-        row: updatedRow,
-    });
-
-    return updatedRow;
-}
-
 /**
  * Handles errors during report status update job execution.
- * Builds detailed error message, logs error, sets error state, schedules retry, and emits events.
+ * Builds detailed error message and transitions the dataset to the error state.
  */
 async function setError(reportDatum: typeof reportDatasetMetadata.$inferSelect, error: unknown): Promise<void> {
     // Build error message and stack trace for logging
@@ -320,25 +290,10 @@ async function setError(reportDatum: typeof reportDatasetMetadata.$inferSelect,
     const errorStack = error instanceof Error && error.stack ? error.stack : undefined;
     const fullError = errorStack ? `${errorMessage}\n${JSON.stringify(errorStack)}` : errorMessage;
 
-    const [updatedRow] = await db
-        .update(reportDatasetMetadata)
-        .set({ status: 'error', error: fullError, refreshing: false })
-        .where(
-            and(
-                eq(reportDatasetMetadata.accountId, reportDatum.accountId),
-                eq(reportDatasetMetadata.periodStart, reportDatum.periodStart),
-                eq(reportDatasetMetadata.aggregation, reportDatum.aggregation),
-                eq(reportDatasetMetadata.entityType, reportDatum.entityType)
-            )
-        )
-        .returning();
-
-    if (updatedRow) {
-        emitEvent({
-            type: 'report:refreshed',
-            row: updatedRow,
-        });
-    }
+    await transitionReportDataset(reportDatum.uid, 'error', {
+        reason: `Job failed: ${errorMessage}`,
+        set: { error: fullError, refreshing: false },
+    });
 }
 
 async function clearError(row: InferSelectModel<typeof reportDatasetMetadata>): Promise<void> {
@@ -0,0 +1,28 @@
+import { and, eq } from 'drizzle-orm';
+import { API_REGIONS, type ApiRegion, getApiRegionForCountry } from '@/amazon-ads/config.js';
+import { db } from '@/db/index.js';
+import { advertiserAccount } from '@/db/schema.js';
+
+/**
+ * Resolves the Amazon Ads API region for an advertiser account in a given country.
+ * Uses the region stored on the advertiser account, falling back to the country mapping
+ * when the account hasn't been synced yet.
+ */
+export async function getAccountRegion(accountId: string, countryCode: string): Promise<ApiRegion> {
+    const account = await db.query.advertiserAccount.findFirst({
+        where: and(eq(advertiserAccount.adsAccountId, accountId), eq(advertiserAccount.countryCode, countryCode)),
+        columns: {
+            region: true,
+        },
+    });
+
+    if (account && isApiRegion(account.region)) {
+        return account.region;
+    }
+
+    return getApiRegionForCountry(countryCode);
+}
+
+function isApiRegion(value: string): value is ApiRegion {
+    return (API_REGIONS as readonly string[]).includes(value);
+}
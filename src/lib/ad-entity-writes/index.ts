@@ -0,0 +1,226 @@
+import { eq, inArray } from 'drizzle-orm';
+import { type BatchResponse, type BatchResults, chunkBatch, partitionBatchResults } from '@/amazon-ads/batch-results';
+import { createNegativeTargets, createTargets, MAX_TARGETS_PER_CREATE, type NewTarget } from '@/amazon-ads/create-targets';
+import { type AdGroupState, MAX_AD_GROUPS_PER_UPDATE, updateAdGroups } from '@/amazon-ads/update-ad-groups';
+import { type CampaignState, MAX_CAMPAIGNS_PER_UPDATE, updateCampaigns } from '@/amazon-ads/update-campaigns';
+import { MAX_TARGETS_PER_UPDATE, type TargetState, updateTargets } from '@/amazon-ads/update-targets';
+import { db } from '@/db/index';
+import { adGroup, campaign, target } from '@/db/schema';
+import { getAccountRegion } from '@/lib/account-region';
+import { type EntityChangeInput, recordChanges } from '@/lib/change-log';
+
+/** `reason` is stored with the bid or budget change in the change log */
+export type TargetUpdate = { targetId: string; bid?: number; state?: TargetState; reason?: string };
+export type AdGroupUpdate = { adGroupId: string; name?: string; state?: AdGroupState; defaultBid?: number; reason?: string };
+export type CampaignUpdate = { campaignId: string; name?: string; state?: CampaignState; endDate?: string | null; dailyBudget?: number; reason?: string };
+
+/** Delivery status stored on locally created targets until the next export sync fills in the real one */
+const PENDING_SYNC_DELIVERY_STATUS = 'PENDING_SYNC';
+
+/**
+ * Send items in request-sized batches and pair each with its outcome. A batch whose request throws
+ * fails every item in it; the other batches still go out.
+ */
+async function sendInBatches<I, S>(items: I[], size: number, send: (batch: I[]) => Promise<BatchResponse<S>>): Promise<BatchResults<I, S>> {
+    const results: BatchResults<I, S> = { succeeded: [], failed: [] };
+    for (const [batchIndex, batch] of chunkBatch(items, size).entries()) {
+        const offset = batchIndex * size;
+        try {
+            const batchResults = partitionBatchResults(batch, await send(batch));
+            results.succeeded.push(...batchResults.succeeded.map(item => ({ ...item, index: item.index + offset })));
+            results.failed.push(...batchResults.failed.map(item => ({ ...item, index: item.index + offset })));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            results.failed.push(...batch.map((input, index) => ({ index: index + offset, input, message })));
+        }
+    }
+    return results;
+}
+
+/**
+ * Update target bids and states in Amazon, then in the local target table for the targets that succeeded.
+ * Bid changes are recorded in the change log as made by `changedBy`.
+ */
+export async function writeTargetUpdates(accountId: string, countryCode: string, updates: TargetUpdate[], changedBy: string) {
+    const region = await getAccountRegion(accountId, countryCode);
+    const results = await sendInBatches(updates, MAX_TARGETS_PER_UPDATE, batch => updateTargets({ advertiserAccountId: accountId, targets: batch }, region));
+
+    const now = new Date();
+    await db.transaction(async tx => {
+        const targetIds = results.succeeded.map(({ input }) => input.targetId);
+        const previous = targetIds.length > 0 ? await tx.select().from(target).where(inArray(target.targetId, targetIds)) : [];
+        const previousById = new Map(previous.map(row => [row.targetId, row]));
+
+        // Targets missing locally have no campaign to file the change under; the next sync adds them
+        await recordChanges(
+            results.succeeded.flatMap(({ input }): EntityChangeInput[] => {
+                const prior = previousById.get(input.targetId);
+                if (!prior || input.bid === undefined) {
+                    return [];
+                }
+                return [
+                    {
+                        accountId,
+                        entityType: 'target',
+                        entityId: input.targetId,
+                        campaignId: prior.campaignId,
+                        adGroupId: prior.adGroupId,
+                        field: 'bid',
+                        oldValue: prior.bidAmount,
+                        newValue: input.bid,
+                        source: 'bidbeacon',
+                        changedBy,
+                        reason: input.reason,
+                        changedAt: now,
+                    },
+                ];
+            }),
+            tx
+        );
+
+        for (const { input } of results.succeeded) {
+            await tx
+                .update(target)
+                .set({ bidAmount: input.bid?.toFixed(2), state: input.state, lastUpdatedDateTime: now })
+                .where(eq(target.targetId, input.targetId));
+        }
+    });
+    return results;
+}
+
+/**
+ * Update ad groups in Amazon, then in the local adGroup table for the ad groups that succeeded.
+ * Default bid changes are recorded in the change log as made by `changedBy`.
+ */
+export async function writeAdGroupUpdates(accountId: string, countryCode: string, updates: AdGroupUpdate[], changedBy: string) {
+    const region = await getAccountRegion(accountId, countryCode);
+    const results = await sendInBatches(updates, MAX_AD_GROUPS_PER_UPDATE, batch => updateAdGroups({ advertiserAccountId: accountId, adGroups: batch }, region));
+
+    const now = new Date();
+    await db.transaction(async tx => {
+        const adGroupIds = results.succeeded.map(({ input }) => input.adGroupId);
+        const previous = adGroupIds.length > 0 ? await tx.select().from(adGroup).where(inArray(adGroup.adGroupId, adGroupIds)) : [];
+        const previousById = new Map(previous.map(row => [row.adGroupId, row]));
+
+        await recordChanges(
+            results.succeeded.flatMap(({ input }): EntityChangeInput[] => {
+                const prior = previousById.get(input.adGroupId);
+                if (!prior || input.defaultBid === undefined) {
+                    return [];
+                }
+                return [
+                    {
+                        accountId,
+                        entityType: 'adGroup',
+                        entityId: input.adGroupId,
+                        campaignId: prior.campaignId,
+                        adGroupId: input.adGroupId,
+                        field: 'defaultBid',
+                        oldValue: prior.bidAmount,
+                        newValue: input.defaultBid,
+                        source: 'bidbeacon',
+                        changedBy,
+                        reason: input.reason,
+                        changedAt: now,
+                    },
+                ];
+            }),
+            tx
+        );
+
+        for (const { input } of results.succeeded) {
+            await tx
+                .update(adGroup)
+                .set({ name: input.name, state: input.state, bidAmount: input.defaultBid?.toFixed(2), lastUpdatedDateTime: now })
+                .where(eq(adGroup.adGroupId, input.adGroupId));
+        }
+    });
+    return results;
+}
+
+/**
+ * Update campaigns in Amazon, then in the local campaign table for the campaigns that succeeded.
+ * Budget changes are recorded in the change log as made by `changedBy`.
+ */
+export async function writeCampaignUpdates(accountId: string, countryCode: string, updates: CampaignUpdate[], changedBy: string) {
+    const region = await getAccountRegion(accountId, countryCode);
+    const results = await sendInBatches(updates, MAX_CAMPAIGNS_PER_UPDATE, batch => updateCampaigns({ advertiserAccountId: accountId, campaigns: batch }, region));
+
+    const now = new Date();
+    await db.transaction(async tx => {
+        const campaignIds = results.succeeded.map(({ input }) => input.campaignId);
+        const previous = campaignIds.length > 0 ? await tx.select().from(campaign).where(inArray(campaign.campaignId, campaignIds)) : [];
+        const previousById = new Map(previous.map(row => [row.campaignId, row]));
+
+        await recordChanges(
+            results.succeeded.flatMap(({ input }): EntityChangeInput[] => {
+                const prior = previousById.get(input.campaignId);
+                if (input.dailyBudget === undefined) {
+                    return [];
+                }
+                return [
+                    {
+                        accountId,
+                        entityType: 'campaign',
+                        entityId: input.campaignId,
+                        campaignId: input.campaignId,
+                        field: 'budget',
+                        oldValue: prior?.budgetAmount ?? null,
+                        newValue: input.dailyBudget,
+                        source: 'bidbeacon',
+                        changedBy,
+                        reason: input.reason,
+                        changedAt: now,
+                    },
+                ];
+            }),
+            tx
+        );
+
+        for (const { input } of results.succeeded) {
+            const budget = input.dailyBudget !== undefined ? { budgetType: 'MONETARY', budgetPeriod: 'DAILY', budgetAmount: input.dailyBudget.toFixed(2) } : {};
+            await tx
+                .update(campaign)
+                .set({ name: input.name, state: input.state, endDate: input.endDate, ...budget, lastUpdatedDateTime: now })
+                .where(eq(campaign.campaignId, input.campaignId));
+        }
+    });
+    return results;
+}
+
+/**
+ * Create targets (or negative targets) in Amazon, then insert the created ones into the local
+ * target table so they show up before the next export sync.
+ */
+export async function writeNewTargets(accountId: string, countryCode: string, targets: NewTarget[], options: { negative: boolean }) {
+    const region = await getAccountRegion(accountId, countryCode);
+    const create = options.negative ? createNegativeTargets : createTargets;
+    const results = await sendInBatches(targets, MAX_TARGETS_PER_CREATE, batch => create({ advertiserAccountId: accountId, targets: batch }, region));
+
+    if (results.succeeded.length > 0) {
+        const now = new Date();
+        await db
+            .insert(target)
+            .values(
+                results.succeeded.map(({ input, result }) => ({
+                    id: result.target.targetId,
+                    campaignId: input.campaignId,
+                    targetId: result.target.targetId,
+                    adGroupId: input.adGroupId ?? null,
+                    adProduct: 'SPONSORED_PRODUCTS',
+                    state: input.state ?? 'ENABLED',
+                    negative: options.negative,
+                    bidAmount: options.negative ? null : (input.bid?.toFixed(2) ?? null),
+                    targetMatchType: input.matchType,
+                    targetAsin: input.asin ?? null,
+                    targetKeyword: input.keyword ?? null,
+                    targetType: input.targetType,
+                    deliveryStatus: PENDING_SYNC_DELIVERY_STATUS,
+                    creationDateTime: now,
+                    lastUpdatedDateTime: now,
+                }))
+            )
+            .onConflictDoNothing();
+    }
+    return results;
+}
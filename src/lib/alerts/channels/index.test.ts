@@ -0,0 +1,159 @@
+import { once } from 'node:events';
+import { createServer as createHttpServer, type IncomingMessage } from 'node:http';
+import { type AddressInfo, createServer as createTcpServer } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { type AlertNotification, parseChannelConfig, sendEmailWithChannel, sendToChannel } from './index';
+
+const notification: AlertNotification = {
+    ruleId: 'rule-1',
+    ruleName: 'Report errors',
+    ruleType: 'report_error',
+    accountId: 'account-1',
+    dedupKey: 'account-1:US',
+    message: '2 report datasets in error for account-1 (US)',
+    details: { count: 2 },
+    firedAt: new Date('2026-10-19T12:00:00Z'),
+};
+
+const closers: (() => void)[] = [];
+afterEach(() => {
+    for (const close of closers.splice(0)) {
+        close();
+    }
+});
+
+async function startHttpStub(status = 200) {
+    const requests: { headers: IncomingMessage['headers']; body: unknown }[] = [];
+    const server = createHttpServer(async (request, response) => {
+        let body = '';
+        for await (const chunk of request) {
+            body += chunk;
+        }
+        requests.push({ headers: request.headers, body: JSON.parse(body) });
+        response.writeHead(status).end(status === 200 ? 'ok' : 'nope');
+    });
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    closers.push(() => server.close());
+    return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`, requests };
+}
+
+/** Accepts one message per connection and records the commands and DATA it received. */
+async function startSmtpStub(options: { rejectRecipient?: boolean } = {}) {
+    const sessions: { commands: string[]; data: string }[] = [];
+    const server = createTcpServer(socket => {
+        const session = { commands: [] as string[], data: '' };
+        sessions.push(session);
+        let buffer = '';
+        let inData = false;
+        socket.setEncoding('utf8');
+        socket.write('220 stub ESMTP\r\n');
+        socket.on('data', (chunk: string) => {
+            buffer += chunk;
+            for (let index = buffer.indexOf('\r\n'); index !== -1; index = buffer.indexOf('\r\n')) {
+                const line = buffer.slice(0, index);
+                buffer = buffer.slice(index + 2);
+                if (inData) {
+                    if (line === '.') {
+                        inData = false;
+                        socket.write('250 queued\r\n');
+                    } else {
+                        session.data += `${line}\r\n`;
+                    }
+                    continue;
+                }
+                session.commands.push(line);
+                const verb = line.split(/[ :]/)[0]?.toUpperCase();
+                if (verb === 'EHLO') {
+                    socket.write('250-stub\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+                } else if (verb === 'AUTH') {
+                    socket.write('235 ok\r\n');
+                } else if (verb === 'RCPT' && options.rejectRecipient) {
+                    socket.write('550 no such user\r\n');
+                } else if (verb === 'DATA') {
+                    inData = true;
+                    socket.write('354 go ahead\r\n');
+                } else if (verb === 'QUIT') {
+                    socket.end('221 bye\r\n');
+                } else {
+                    socket.write('250 ok\r\n');
+                }
+            }
+        });
+    });
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    closers.push(() => server.close());
+    return { port: (server.address() as AddressInfo).port, sessions };
+}
+
+describe('webhook channel', () => {
+    it('posts the notification as JSON with the configured headers', async () => {
+        const stub = await startHttpStub();
+        await sendToChannel('webhook', { url: stub.url, headers: { Authorization: 'Bearer secret' } }, notification);
+
+        expect(stub.requests).toHaveLength(1);
+        expect(stub.requests[0]?.headers.authorization).toBe('Bearer secret');
+        expect(stub.requests[0]?.body).toMatchObject({ ruleName: 'Report errors', dedupKey: 'account-1:US', firedAt: '2026-10-19T12:00:00.000Z' });
+    });
+
+    it('throws when the endpoint rejects the notification', async () => {
+        const stub = await startHttpStub(500);
+        await expect(sendToChannel('webhook', { url: stub.url }, notification)).rejects.toThrow('Webhook responded 500: nope');
+    });
+});
+
+describe('slack channel', () => {
+    it('posts a text message', async () => {
+        const stub = await startHttpStub();
+        await sendToChannel('slack', { url: stub.url }, notification);
+
+        expect(stub.requests[0]?.body).toEqual({ text: '*Report errors* (account-1)\n2 report datasets in error for account-1 (US)' });
+    });
+});
+
+describe('email channel', () => {
+    it('sends the notification over SMTP', async () => {
+        const stub = await startSmtpStub();
+        await sendToChannel('email', { host: '127.0.0.1', port: stub.port, username: 'alerts', password: 'secret', from: 'BidBeacon <alerts@example.com>', to: ['ops@example.com'] }, notification);
+
+        const session = stub.sessions[0];
+        expect(session?.commands).toEqual([
+            expect.stringMatching(/^EHLO /),
+            `AUTH PLAIN ${Buffer.from('\0alerts\0secret').toString('base64')}`,
+            'MAIL FROM:<alerts@example.com>',
+            'RCPT TO:<ops@example.com>',
+            'DATA',
+            'QUIT',
+        ]);
+        expect(session?.data).toContain('Subject: [BidBeacon] Report errors\r\n');
+        expect(session?.data).toContain('2 report datasets in error for account-1 (US)\r\n');
+    });
+
+    it('throws with the server reply when a recipient is rejected', async () => {
+        const stub = await startSmtpStub({ rejectRecipient: true });
+        await expect(sendToChannel('email', { host: '127.0.0.1', port: stub.port, from: 'alerts@example.com', to: ['nobody@example.com'] }, notification)).rejects.toThrow(
+            'SMTP RCPT failed: 550 no such user'
+        );
+    });
+
+    it('sends HTML with attachments as a multipart message to the message recipients', async () => {
+        const stub = await startSmtpStub();
+        await sendEmailWithChannel(
+            { host: '127.0.0.1', port: stub.port, from: 'digests@example.com', to: ['ops@example.com'] },
+            { to: ['owner@example.com'], subject: 'Digest', text: 'Plain', html: '<p>Rich</p>', attachments: [{ filename: 'campaigns.csv', contentType: 'text/csv', content: 'a,b' }] }
+        );
+
+        const session = stub.sessions[0];
+        expect(session?.commands).toContain('RCPT TO:<owner@example.com>');
+        expect(session?.commands).not.toContain('RCPT TO:<ops@example.com>');
+        expect(session?.data).toMatch(/Content-Type: multipart\/mixed; boundary="/);
+        expect(session?.data).toMatch(/Content-Type: multipart\/alternative; boundary="/);
+        expect(session?.data).toContain('Content-Disposition: attachment; filename="campaigns.csv"');
+        expect(session?.data).toContain(Buffer.from('a,b').toString('base64'));
+    });
+
+    it('rejects config without recipients', () => {
+        expect(() => parseChannelConfig('email', { host: 'smtp.example.com', from: 'alerts@example.com', to: [] })).toThrow();
+    });
+});
@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { type MailMessage, sendMail } from './smtp';
+
+export type AlertNotification = {
+    ruleId: string;
+    ruleName: string;
+    ruleType: string;
+    accountId: string | null;
+    dedupKey: string;
+    message: string;
+    details: Record<string, unknown>;
+    firedAt: Date;
+    /** Set on notifications sent from a channel's test action */
+    test?: boolean;
+};
+
+/**
+ * A way of delivering notifications. `send` receives config already parsed by `configSchema` and
+ * throws when the notification was not accepted.
+ */
+export type AlertChannelDefinition<C> = {
+    configSchema: z.ZodType<C, z.ZodTypeDef, unknown>;
+    send(config: C, notification: AlertNotification): Promise<void>;
+};
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// ============================================================================
+// Generic webhook: the notification as JSON
+// ============================================================================
+
+const webhookConfigSchema = z.object({
+    url: z.string().url(),
+    headers: z.record(z.string()).optional(),
+});
+
+const webhookChannel: AlertChannelDefinition<z.infer<typeof webhookConfigSchema>> = {
+    configSchema: webhookConfigSchema,
+    async send(config, notification) {
+        await postJson(config.url, { ...notification, firedAt: notification.firedAt.toISOString() }, config.headers);
+    },
+};
+
+// ============================================================================
+// Slack-compatible incoming webhook: a `text` message
+// ============================================================================
+
+const slackConfigSchema = z.object({
+    url: z.string().url(),
+});
+
+const slackChannel: AlertChannelDefinition<z.infer<typeof slackConfigSchema>> = {
+    configSchema: slackConfigSchema,
+    async send(config, notification) {
+        const prefix = notification.test ? '[Test] ' : '';
+        const account = notification.accountId ? ` (${notification.accountId})` : '';
+        await postJson(config.url, { text: `${prefix}*${notification.ruleName}*${account}\n${notification.message}` });
+    },
+};
+
+// ============================================================================
+// Email over SMTP
+// ============================================================================
+
+const emailConfigSchema = z.object({
+    host: z.string().min(1),
+    port: z.number().int().min(1).max(65535).default(587),
+    secure: z.boolean().default(false),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    from: z.string().min(1),
+    to: z.array(z.string().email()).min(1),
+});
+
+const emailChannel: AlertChannelDefinition<z.infer<typeof emailConfigSchema>> = {
+    configSchema: emailConfigSchema,
+    async send(config, notification) {
+        const prefix = notification.test ? '[Test] ' : '';
+        const lines = [
+            notification.message,
+            '',
+            `Rule: ${notification.ruleName} (${notification.ruleType})`,
+            ...(notification.accountId ? [`Account: ${notification.accountId}`] : []),
+            `Fired: ${notification.firedAt.toISOString()}`,
+            '',
+            JSON.stringify(notification.details, null, 2),
+        ];
+        await sendMail(config, { from: config.from, to: config.to, subject: `${prefix}[BidBeacon] ${notification.ruleName}`, text: lines.join('\n') });
+    },
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/** Channel types by name. Add a definition here to support a new channel type. */
+export const ALERT_CHANNELS = {
+    webhook: webhookChannel,
+    slack: slackChannel,
+    email: emailChannel,
+};
+
+export type AlertChannelType = keyof typeof ALERT_CHANNELS;
+export const ALERT_CHANNEL_TYPES = Object.keys(ALERT_CHANNELS) as [AlertChannelType, ...AlertChannelType[]];
+
+/**
+ * Validate a channel's config for its type, throwing on invalid config.
+ */
+export function parseChannelConfig(type: AlertChannelType, config: unknown): unknown {
+    const channel: AlertChannelDefinition<unknown> = ALERT_CHANNELS[type];
+    return channel.configSchema.parse(config);
+}
+
+/**
+ * Send a notification through a channel, throwing if the channel rejects it.
+ */
+export async function sendToChannel(type: AlertChannelType, config: unknown, notification: AlertNotification): Promise<void> {
+    const channel: AlertChannelDefinition<unknown> = ALERT_CHANNELS[type];
+    await channel.send(channel.configSchema.parse(config), notification);
+}
+
+/**
+ * Send an email with an email channel's SMTP settings and sender, to the message's own recipients.
+ */
+export async function sendEmailWithChannel(config: unknown, message: Omit<MailMessage, 'from'>): Promise<void> {
+    const smtp = emailConfigSchema.parse(config);
+    await sendMail(smtp, { ...message, from: smtp.from });
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        throw new Error(`Webhook responded ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+    }
+}
@@ -0,0 +1,276 @@
+import { randomUUID } from 'node:crypto';
+import net from 'node:net';
+import { hostname } from 'node:os';
+import tls from 'node:tls';
+
+export type SmtpOptions = {
+    host: string;
+    port: number;
+    /** Connect over TLS from the start (usually port 465). Otherwise STARTTLS is used when the server offers it. */
+    secure: boolean;
+    username?: string;
+    password?: string;
+    timeoutMs?: number;
+};
+
+export type MailAttachment = {
+    filename: string;
+    contentType: string;
+    content: string;
+};
+
+export type MailMessage = {
+    from: string;
+    to: string[];
+    subject: string;
+    text: string;
+    html?: string;
+    attachments?: MailAttachment[];
+};
+
+type SmtpReply = { code: number; lines: string[] };
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Reads multi-line SMTP replies off a socket, one reply per `read()`.
+ */
+class SmtpConnection {
+    private buffer = '';
+    private replies: SmtpReply[] = [];
+    private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+    private error: Error | null = null;
+    private detach: () => void = () => {};
+
+    constructor(
+        private socket: net.Socket,
+        private timeoutMs: number
+    ) {
+        this.attach(socket);
+    }
+
+    private attach(socket: net.Socket) {
+        const onData = (chunk: string) => {
+            this.buffer += chunk;
+            this.parse();
+        };
+        const onError = (error: Error) => this.fail(error);
+        const onClose = () => this.fail(new Error('SMTP connection closed'));
+        const onTimeout = () => {
+            this.fail(new Error('SMTP connection timed out'));
+            socket.destroy();
+        };
+
+        socket.setEncoding('utf8');
+        socket.setTimeout(this.timeoutMs);
+        socket.on('data', onData);
+        socket.on('error', onError);
+        socket.on('close', onClose);
+        socket.on('timeout', onTimeout);
+        this.detach = () => {
+            socket.off('data', onData);
+            socket.off('error', onError);
+            socket.off('close', onClose);
+            socket.off('timeout', onTimeout);
+        };
+    }
+
+    private parse() {
+        const lines: string[] = [];
+        let end = 0;
+        for (let index = this.buffer.indexOf('\r\n'); index !== -1; index = this.buffer.indexOf('\r\n', end)) {
+            const line = this.buffer.slice(end, index);
+            end = index + 2;
+            lines.push(line.slice(4));
+            // The last line of a reply has a space after the code; continuation lines have a dash
+            if (line.charAt(3) !== '-') {
+                this.buffer = this.buffer.slice(end);
+                end = 0;
+                this.push({ code: Number(line.slice(0, 3)), lines: lines.splice(0) });
+            }
+        }
+    }
+
+    private push(reply: SmtpReply) {
+        if (this.waiting) {
+            this.waiting.resolve(reply);
+            this.waiting = null;
+        } else {
+            this.replies.push(reply);
+        }
+    }
+
+    private fail(error: Error) {
+        this.error ??= error;
+        this.waiting?.reject(error);
+        this.waiting = null;
+    }
+
+    read(): Promise<SmtpReply> {
+        const reply = this.replies.shift();
+        if (reply) {
+            return Promise.resolve(reply);
+        }
+        if (this.error) {
+            return Promise.reject(this.error);
+        }
+        return new Promise((resolve, reject) => {
+            this.waiting = { resolve, reject };
+        });
+    }
+
+    async expect(codes: number[], command?: string): Promise<SmtpReply> {
+        if (command !== undefined) {
+            this.socket.write(`${command}\r\n`);
+        }
+        const reply = await this.read();
+        if (!codes.includes(reply.code)) {
+            const sent = command === undefined ? 'greeting' : command.split(' ')[0];
+            throw new Error(`SMTP ${sent} failed: ${reply.code} ${reply.lines.join(' ')}`);
+        }
+        return reply;
+    }
+
+    write(data: string) {
+        this.socket.write(data);
+    }
+
+    async upgrade(host: string) {
+        this.detach();
+        const secured = tls.connect({ socket: this.socket, servername: host });
+        await new Promise<void>((resolve, reject) => {
+            secured.once('secureConnect', resolve);
+            secured.once('error', reject);
+        });
+        this.socket = secured;
+        this.attach(secured);
+    }
+
+    close() {
+        this.detach();
+        // Errors after QUIT no longer matter, but an unhandled socket error would crash the process
+        this.socket.on('error', () => {});
+        this.socket.end();
+    }
+}
+
+/**
+ * Send a plain-text email over SMTP.
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const socket = await openSocket(options, timeoutMs);
+    const connection = new SmtpConnection(socket, timeoutMs);
+
+    try {
+        await connection.expect([220]);
+        let capabilities = await connection.expect([250], `EHLO ${hostname()}`);
+
+        if (!options.secure && capabilities.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+            await connection.expect([220], 'STARTTLS');
+            await connection.upgrade(options.host);
+            capabilities = await connection.expect([250], `EHLO ${hostname()}`);
+        }
+
+        if (options.username) {
+            const credentials = Buffer.from(`\0${options.username}\0${options.password ?? ''}`).toString('base64');
+            await connection.expect([235], `AUTH PLAIN ${credentials}`);
+        }
+
+        await connection.expect([250], `MAIL FROM:<${envelopeAddress(message.from)}>`);
+        for (const recipient of message.to) {
+            await connection.expect([250, 251], `RCPT TO:<${envelopeAddress(recipient)}>`);
+        }
+        await connection.expect([354], 'DATA');
+        connection.write(formatMessage(message));
+        await connection.expect([250], '.');
+        await connection.expect([221], 'QUIT').catch(() => {});
+    } finally {
+        connection.close();
+    }
+}
+
+function openSocket(options: SmtpOptions, timeoutMs: number): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+        const socket = options.secure ? tls.connect({ host: options.host, port: options.port, servername: options.host }) : net.connect({ host: options.host, port: options.port });
+        const timer = setTimeout(() => {
+            socket.destroy();
+            reject(new Error(`SMTP connection to ${options.host}:${options.port} timed out`));
+        }, timeoutMs);
+        const onError = (error: Error) => {
+            clearTimeout(timer);
+            reject(error);
+        };
+        socket.once('error', onError);
+        socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+            clearTimeout(timer);
+            socket.off('error', onError);
+            resolve(socket);
+        });
+    });
+}
+
+/**
+ * The bare address of `Name <address>` or `address`.
+ */
+export function envelopeAddress(address: string): string {
+    return address.match(/<([^>]+)>/)?.[1] ?? address.trim();
+}
+
+/**
+ * Headers and body of a message as sent after DATA: CRLF line endings and dot-stuffed. The closing
+ * `.` line is sent separately. An HTML version makes the body multipart/alternative, and attachments
+ * wrap it in multipart/mixed.
+ */
+export function formatMessage(message: MailMessage): string {
+    const domain = envelopeAddress(message.from).split('@')[1] ?? 'localhost';
+    const headers = [
+        `From: ${message.from}`,
+        `To: ${message.to.join(', ')}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: <${randomUUID()}@${domain}>`,
+        'MIME-Version: 1.0',
+    ];
+
+    let content: MimePart = { headers: ['Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: 8bit'], body: message.text.split(/\r?\n/).join('\r\n') };
+    if (message.html !== undefined) {
+        content = multipart('alternative', [content, base64Part(['Content-Type: text/html; charset=utf-8'], message.html)]);
+    }
+    if (message.attachments?.length) {
+        const attachments = message.attachments.map(attachment =>
+            base64Part([`Content-Type: ${attachment.contentType}; name="${attachment.filename}"`, `Content-Disposition: attachment; filename="${attachment.filename}"`], attachment.content)
+        );
+        content = multipart('mixed', [content, ...attachments]);
+    }
+
+    const body = renderPart(content)
+        .split('\r\n')
+        .map(line => (line.startsWith('.') ? `.${line}` : line))
+        .join('\r\n');
+    return `${headers.join('\r\n')}\r\n${body}\r\n`;
+}
+
+type MimePart = { headers: string[]; body: string };
+
+const renderPart = (part: MimePart) => `${part.headers.join('\r\n')}\r\n\r\n${part.body}`;
+
+const base64Part = (headers: string[], content: string): MimePart => ({
+    headers: [...headers, 'Content-Transfer-Encoding: base64'],
+    body: (
+        Buffer.from(content)
+            .toString('base64')
+            .match(/.{1,76}/g) ?? []
+    ).join('\r\n'),
+});
+
+function multipart(subtype: 'alternative' | 'mixed', parts: MimePart[]): MimePart {
+    const boundary = `=_${randomUUID()}`;
+    return {
+        headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+        body: `${parts.map(part => `--${boundary}\r\n${renderPart(part)}\r\n`).join('')}--${boundary}--`,
+    };
+}
+
+// Non-ASCII headers are sent as RFC 2047 encoded words
+const encodeHeader = (value: string) => (/^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`);
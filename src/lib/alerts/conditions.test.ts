@@ -0,0 +1,29 @@
+import type { SQL } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { describe, expect, it, vi } from 'vitest';
+
+const query: { where?: SQL; rows: unknown[] } = { rows: [] };
+const select = () => ({
+    from: () => ({
+        where: (where: SQL) => {
+            query.where = where;
+            return { groupBy: () => Promise.resolve(query.rows) };
+        },
+    }),
+});
+vi.mock('@/db/index', () => ({ db: { select } }));
+vi.mock('@/worker/sqsClient', () => ({}));
+
+const { findAlertConditions } = await import('./conditions');
+
+describe('findAlertConditions report_error', () => {
+    it('alerts on dead datasets and says they stopped retrying', async () => {
+        query.rows = [{ accountId: 'a1', countryCode: 'US', count: 2, dead: 1, latestError: 'Report FAILED' }];
+
+        const findings = await findAlertConditions({ type: 'report_error', accountId: null, config: {} }, new Date());
+
+        expect(findings.map(finding => finding.message)).toEqual(['2 report datasets in error for a1 (US), 1 dead and no longer retrying: Report FAILED']);
+        const where = new PgDialect().sqlToQuery(query.where as SQL);
+        expect(where.params).toEqual(['error', 'dead']);
+    });
+});
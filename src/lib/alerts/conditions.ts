@@ -0,0 +1,154 @@
+import { and, desc, eq, gte, inArray, sql } from 'drizzle-orm';
+import { db } from '@/db/index';
+import { jobSessions, performanceHourly, reportDatasetMetadata } from '@/db/schema';
+import { matchesConditions } from '@/lib/bid-rules/rules';
+import { deriveMetrics } from '@/lib/performance-query/derived-metrics';
+import { utcSubtractHours } from '@/utils/date';
+import { getDlqUrlFromMainQueue, getQueueMetrics } from '@/worker/sqsClient';
+import { type AlertFinding, type AlertRuleConfig, type AlertRuleType, alertRuleConfigSchemas } from './rules';
+
+type RuleInput = { type: string; accountId: string | null; config: unknown };
+
+const OPERATOR_SYMBOLS = { gt: '>', gte: '>=', lt: '<', lte: '<=', eq: '=' } as const;
+
+/**
+ * Check a rule's condition now. Each finding is one thing the rule would alert on.
+ */
+export async function findAlertConditions(rule: RuleInput, now: Date): Promise<AlertFinding[]> {
+    const type = rule.type as AlertRuleType;
+    switch (type) {
+        case 'metric_threshold':
+            return findMetricThreshold(rule.accountId, alertRuleConfigSchemas.metric_threshold.parse(rule.config), now);
+        case 'job_failure':
+            return findJobFailures(rule.accountId, alertRuleConfigSchemas.job_failure.parse(rule.config), now);
+        case 'dlq_depth':
+            return findDlqDepth(alertRuleConfigSchemas.dlq_depth.parse(rule.config));
+        case 'report_error':
+            return findReportErrors(rule.accountId, alertRuleConfigSchemas.report_error.parse(rule.config));
+        default:
+            throw new Error(`Unknown alert rule type: ${rule.type}`);
+    }
+}
+
+async function findMetricThreshold(accountId: string | null, config: AlertRuleConfig<'metric_threshold'>, now: Date): Promise<AlertFinding[]> {
+    if (!accountId) {
+        throw new Error('Metric threshold rules need an account');
+    }
+
+    const [row] = await db
+        .select({
+            impressions: sql<string>`COALESCE(SUM(${performanceHourly.impressions}), 0)`,
+            clicks: sql<string>`COALESCE(SUM(${performanceHourly.clicks}), 0)`,
+            spend: sql<string>`COALESCE(SUM(${performanceHourly.spend}), 0)`,
+            sales: sql<string>`COALESCE(SUM(${performanceHourly.sales}), 0)`,
+            orders: sql<string>`COALESCE(SUM(${performanceHourly.orders}), 0)`,
+        })
+        .from(performanceHourly)
+        .where(
+            and(
+                eq(performanceHourly.accountId, accountId),
+                eq(performanceHourly.entityType, 'target'),
+                gte(performanceHourly.bucketStart, utcSubtractHours(now, config.windowHours)),
+                config.campaignId ? eq(performanceHourly.campaignId, config.campaignId) : undefined
+            )
+        );
+
+    const totals = {
+        impressions: Number(row?.impressions ?? 0),
+        clicks: Number(row?.clicks ?? 0),
+        spend: Number(row?.spend ?? 0),
+        sales: Number(row?.sales ?? 0),
+        orders: Number(row?.orders ?? 0),
+    };
+    const metrics = { ...totals, ...deriveMetrics(totals) };
+    if (!matchesConditions(metrics, config.conditions)) {
+        return [];
+    }
+
+    const described = config.conditions.map(condition => `${condition.metric} ${formatMetric(metrics[condition.metric])} ${OPERATOR_SYMBOLS[condition.operator]} ${condition.value}`);
+    const scope = config.campaignId ? `campaign ${config.campaignId}` : 'the account';
+    return [
+        {
+            key: config.campaignId ?? accountId,
+            message: `${described.join(', ')} over the last ${config.windowHours}h for ${scope}`,
+            details: { accountId, campaignId: config.campaignId ?? null, windowHours: config.windowHours, metrics },
+        },
+    ];
+}
+
+async function findJobFailures(accountId: string | null, config: AlertRuleConfig<'job_failure'>, now: Date): Promise<AlertFinding[]> {
+    const failures = await db
+        .select({ jobName: jobSessions.jobName, error: jobSessions.error, finishedAt: jobSessions.finishedAt })
+        .from(jobSessions)
+        .where(
+            and(
+                eq(jobSessions.status, 'failed'),
+                gte(jobSessions.startedAt, new Date(now.getTime() - config.windowMinutes * 60 * 1000)),
+                config.jobName ? eq(jobSessions.jobName, config.jobName) : undefined,
+                // Per-account jobs carry the account in their input
+                accountId ? sql`${jobSessions.input}->>'accountId' = ${accountId}` : undefined
+            )
+        )
+        .orderBy(desc(jobSessions.startedAt));
+
+    const byJob = new Map<string, typeof failures>();
+    for (const failure of failures) {
+        byJob.set(failure.jobName, [...(byJob.get(failure.jobName) ?? []), failure]);
+    }
+
+    return [...byJob].map(([jobName, sessions]) => {
+        const latest = sessions[0];
+        return {
+            key: jobName,
+            message: `${sessions.length} ${jobName} session${sessions.length === 1 ? '' : 's'} failed in the last ${config.windowMinutes} minutes${latest?.error ? `: ${latest.error}` : ''}`,
+            details: { jobName, failures: sessions.length, latestError: latest?.error ?? null, latestFinishedAt: latest?.finishedAt?.toISOString() ?? null },
+        };
+    });
+}
+
+async function findDlqDepth(config: AlertRuleConfig<'dlq_depth'>): Promise<AlertFinding[]> {
+    const mainQueueUrl = process.env.AMS_QUEUE_URL;
+    if (!mainQueueUrl) {
+        throw new Error('AMS_QUEUE_URL not configured');
+    }
+    const dlqUrl = await getDlqUrlFromMainQueue(mainQueueUrl);
+    if (!dlqUrl) {
+        throw new Error('AMS queue has no dead-letter queue');
+    }
+
+    const metrics = await getQueueMetrics(dlqUrl);
+    if (metrics.approximateVisible < config.threshold) {
+        return [];
+    }
+    return [
+        {
+            key: 'dlq',
+            message: `${metrics.approximateVisible} messages in the AMS dead-letter queue (threshold ${config.threshold})`,
+            details: { dlqUrl, approximateVisible: metrics.approximateVisible, oldestMessageAge: metrics.oldestMessageAge },
+        },
+    ];
+}
+
+async function findReportErrors(accountId: string | null, config: AlertRuleConfig<'report_error'>): Promise<AlertFinding[]> {
+    const rows = await db
+        .select({
+            accountId: reportDatasetMetadata.accountId,
+            countryCode: reportDatasetMetadata.countryCode,
+            count: sql<number>`COUNT(*)::int`,
+            dead: sql<number>`(COUNT(*) FILTER (WHERE ${reportDatasetMetadata.status} = 'dead'))::int`,
+            latestError: sql<string | null>`(ARRAY_AGG(${reportDatasetMetadata.error} ORDER BY ${reportDatasetMetadata.periodStart} DESC))[1]`,
+        })
+        .from(reportDatasetMetadata)
+        .where(and(inArray(reportDatasetMetadata.status, ['error', 'dead']), accountId ? eq(reportDatasetMetadata.accountId, accountId) : undefined))
+        .groupBy(reportDatasetMetadata.accountId, reportDatasetMetadata.countryCode);
+
+    return rows
+        .filter(row => row.count >= config.minRows)
+        .map(row => ({
+            key: `${row.accountId}:${row.countryCode}`,
+            message: `${row.count} report dataset${row.count === 1 ? '' : 's'} in error for ${row.accountId} (${row.countryCode})${row.dead > 0 ? `, ${row.dead} dead and no longer retrying` : ''}${row.latestError ? `: ${row.latestError}` : ''}`,
+            details: { accountId: row.accountId, countryCode: row.countryCode, count: row.count, dead: row.dead, latestError: row.latestError },
+        }));
+}
+
+const formatMetric = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(2));
@@ -0,0 +1,139 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '@/db/index';
+import { alertChannel, alertIncident, alertRule } from '@/db/schema';
+import { utcNow } from '@/utils/date';
+import { type AlertChannelType, type AlertNotification, sendToChannel } from './channels';
+import { findAlertConditions } from './conditions';
+import { type AlertFinding, planIncidents } from './rules';
+
+export { ALERT_CHANNEL_TYPES, ALERT_CHANNELS, type AlertChannelDefinition, type AlertChannelType, type AlertNotification, parseChannelConfig } from './channels';
+export * from './rules';
+
+type Channel = typeof alertChannel.$inferSelect;
+type Rule = typeof alertRule.$inferSelect;
+
+export type AlertEvaluationSummary = {
+    rules: number;
+    opened: number;
+    resolved: number;
+    notified: number;
+    deliveryFailures: number;
+    errors: { ruleId: string; message: string }[];
+};
+
+/**
+ * Evaluate every enabled rule, update its incidents, and send the notifications that are due. A rule
+ * whose check throws keeps its incidents as they are and is reported in `errors`.
+ */
+export async function evaluateAlertRules(now: Date = utcNow()): Promise<AlertEvaluationSummary> {
+    const rules = await db.select().from(alertRule).where(eq(alertRule.enabled, true));
+    const channels = await db.select().from(alertChannel).where(eq(alertChannel.enabled, true));
+    const channelsById = new Map(channels.map(channel => [channel.id, channel]));
+
+    const summary: AlertEvaluationSummary = { rules: rules.length, opened: 0, resolved: 0, notified: 0, deliveryFailures: 0, errors: [] };
+
+    for (const rule of rules) {
+        let findings: AlertFinding[];
+        try {
+            findings = await findAlertConditions(rule, now);
+        } catch (error) {
+            summary.errors.push({ ruleId: rule.id, message: error instanceof Error ? error.message : String(error) });
+            continue;
+        }
+
+        const firing = await db
+            .select({ id: alertIncident.id, dedupKey: alertIncident.dedupKey, lastNotifiedAt: alertIncident.lastNotifiedAt })
+            .from(alertIncident)
+            .where(and(eq(alertIncident.ruleId, rule.id), eq(alertIncident.status, 'firing')));
+        const plan = planIncidents(firing, findings, { now, renotifyMinutes: rule.renotifyMinutes, snoozedUntil: rule.snoozedUntil });
+
+        if (plan.resolvedIds.length > 0) {
+            await db.update(alertIncident).set({ status: 'resolved', resolvedAt: now }).where(inArray(alertIncident.id, plan.resolvedIds));
+            summary.resolved += plan.resolvedIds.length;
+        }
+
+        const toNotify: { incidentId: string; firedAt: Date; finding: AlertFinding }[] = [];
+        for (const { incidentId, finding, notify } of plan.continuing) {
+            const [incident] = await db
+                .update(alertIncident)
+                .set({ message: finding.message, details: finding.details, lastSeenAt: now })
+                .where(eq(alertIncident.id, incidentId))
+                .returning({ firedAt: alertIncident.firedAt });
+            if (notify && incident) {
+                toNotify.push({ incidentId, firedAt: incident.firedAt, finding });
+            }
+        }
+        for (const { finding, notify } of plan.opened) {
+            const [incident] = await db
+                .insert(alertIncident)
+                .values({ ruleId: rule.id, dedupKey: finding.key, message: finding.message, details: finding.details, firedAt: now, lastSeenAt: now })
+                .returning({ id: alertIncident.id });
+            summary.opened += 1;
+            if (notify && incident) {
+                toNotify.push({ incidentId: incident.id, firedAt: now, finding });
+            }
+        }
+
+        const ruleChannels = parseChannelIds(rule.channelIds).flatMap(id => channelsById.get(id) ?? []);
+        for (const { incidentId, firedAt, finding } of toNotify) {
+            const errors = await deliver(ruleChannels, toNotification(rule, finding, firedAt));
+            // An incident no channel accepted stays unnotified, so the next evaluation retries it
+            const delivered = ruleChannels.length === 0 || errors.length < ruleChannels.length;
+            await db
+                .update(alertIncident)
+                .set({ lastNotifiedAt: delivered ? now : undefined, deliveryError: errors.length > 0 ? errors.join('; ') : null })
+                .where(eq(alertIncident.id, incidentId));
+            summary.notified += delivered ? 1 : 0;
+            summary.deliveryFailures += errors.length;
+        }
+    }
+
+    return summary;
+}
+
+/**
+ * Send a sample notification through a channel, throwing with the channel's error if it fails.
+ */
+export async function sendTestNotification(channelId: string): Promise<void> {
+    const channel = await db.query.alertChannel.findFirst({ where: eq(alertChannel.id, channelId) });
+    if (!channel) {
+        throw new Error(`Alert channel ${channelId} not found`);
+    }
+    await sendToChannel(channel.type as AlertChannelType, channel.config, {
+        ruleId: 'test',
+        ruleName: 'Test notification',
+        ruleType: 'test',
+        accountId: null,
+        dedupKey: 'test',
+        message: `This is a test notification for the "${channel.name}" channel.`,
+        details: {},
+        firedAt: utcNow(),
+        test: true,
+    });
+}
+
+async function deliver(channels: Channel[], notification: AlertNotification): Promise<string[]> {
+    const errors: string[] = [];
+    for (const channel of channels) {
+        try {
+            await sendToChannel(channel.type as AlertChannelType, channel.config, notification);
+        } catch (error) {
+            errors.push(`${channel.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    return errors;
+}
+
+const toNotification = (rule: Rule, finding: AlertFinding, firedAt: Date): AlertNotification => ({
+    ruleId: rule.id,
+    ruleName: rule.name,
+    ruleType: rule.type,
+    accountId: rule.accountId,
+    dedupKey: finding.key,
+    message: finding.message,
+    details: finding.details,
+    firedAt,
+});
+
+const parseChannelIds = (value: unknown) => z.array(z.string()).catch([]).parse(value);
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { alertRuleConfigSchemas, planIncidents } from './rules';
+
+const now = new Date('2026-10-19T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+const finding = (key: string) => ({ key, message: `${key} is broken`, details: {} });
+
+describe('planIncidents', () => {
+    it('opens new keys, continues known ones and resolves the rest', () => {
+        const plan = planIncidents(
+            [
+                { id: 'a', dedupKey: 'job-a', lastNotifiedAt: minutesAgo(10) },
+                { id: 'b', dedupKey: 'job-b', lastNotifiedAt: minutesAgo(10) },
+            ],
+            [finding('job-a'), finding('job-c')],
+            { now, renotifyMinutes: null, snoozedUntil: null }
+        );
+
+        expect(plan.opened).toEqual([{ finding: finding('job-c'), notify: true }]);
+        expect(plan.continuing).toEqual([{ incidentId: 'a', finding: finding('job-a'), notify: false }]);
+        expect(plan.resolvedIds).toEqual(['b']);
+    });
+
+    it('renotifies once the renotify interval has passed', () => {
+        const firing = [
+            { id: 'a', dedupKey: 'job-a', lastNotifiedAt: minutesAgo(59) },
+            { id: 'b', dedupKey: 'job-b', lastNotifiedAt: minutesAgo(60) },
+        ];
+        const plan = planIncidents(firing, [finding('job-a'), finding('job-b')], { now, renotifyMinutes: 60, snoozedUntil: null });
+
+        expect(plan.continuing.map(item => item.notify)).toEqual([false, true]);
+    });
+
+    it('retries incidents that were never delivered', () => {
+        const plan = planIncidents([{ id: 'a', dedupKey: 'job-a', lastNotifiedAt: null }], [finding('job-a')], { now, renotifyMinutes: null, snoozedUntil: null });
+
+        expect(plan.continuing[0]?.notify).toBe(true);
+    });
+
+    it('tracks but does not notify while snoozed', () => {
+        const snoozed = planIncidents([{ id: 'a', dedupKey: 'job-a', lastNotifiedAt: null }], [finding('job-a'), finding('job-b')], {
+            now,
+            renotifyMinutes: null,
+            snoozedUntil: minutesAgo(-30),
+        });
+        expect(snoozed.opened.map(item => item.notify)).toEqual([false]);
+        expect(snoozed.continuing.map(item => item.notify)).toEqual([false]);
+
+        const expired = planIncidents([], [finding('job-b')], { now, renotifyMinutes: null, snoozedUntil: minutesAgo(1) });
+        expect(expired.opened.map(item => item.notify)).toEqual([true]);
+    });
+
+    it('ignores repeated keys within one evaluation', () => {
+        const plan = planIncidents([], [finding('job-a'), finding('job-a')], { now, renotifyMinutes: null, snoozedUntil: null });
+
+        expect(plan.opened).toHaveLength(1);
+    });
+});
+
+describe('alertRuleConfigSchemas', () => {
+    it('fills in defaults', () => {
+        expect(alertRuleConfigSchemas.job_failure.parse({})).toEqual({ windowMinutes: 60 });
+        expect(alertRuleConfigSchemas.dlq_depth.parse({})).toEqual({ threshold: 1 });
+    });
+
+    it('requires metric threshold conditions', () => {
+        expect(() => alertRuleConfigSchemas.metric_threshold.parse({ conditions: [] })).toThrow();
+    });
+});
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { bidRuleConditionSchema } from '@/lib/bid-rules/rules';
+
+export const ALERT_RULE_TYPES = ['metric_threshold', 'job_failure', 'dlq_depth', 'report_error'] as const;
+export type AlertRuleType = (typeof ALERT_RULE_TYPES)[number];
+
+export const alertRuleConfigSchemas = {
+    // Every condition must hold for the account's (or one campaign's) target performance over the window
+    metric_threshold: z.object({
+        conditions: z.array(bidRuleConditionSchema).min(1),
+        windowHours: z.number().int().min(1).max(168).default(24),
+        campaignId: z.string().optional(),
+    }),
+    // Job sessions that failed within the window, one incident per job name
+    job_failure: z.object({
+        jobName: z.string().optional(),
+        windowMinutes: z.number().int().min(5).max(1440).default(60),
+    }),
+    // Messages waiting in the AMS dead-letter queue
+    dlq_depth: z.object({
+        threshold: z.number().int().min(1).default(1),
+    }),
+    // Report datasets in the error state, one incident per account and country
+    report_error: z.object({
+        minRows: z.number().int().min(1).default(1),
+    }),
+} satisfies Record<AlertRuleType, z.ZodTypeAny>;
+
+export type AlertRuleConfig<T extends AlertRuleType> = z.infer<(typeof alertRuleConfigSchemas)[T]>;
+
+/** Something a rule found wrong. `key` identifies it across evaluations so it is only alerted once. */
+export type AlertFinding = {
+    key: string;
+    message: string;
+    details: Record<string, unknown>;
+};
+
+export type FiringIncident = {
+    id: string;
+    dedupKey: string;
+    lastNotifiedAt: Date | null;
+};
+
+export type IncidentPlan = {
+    opened: { finding: AlertFinding; notify: boolean }[];
+    continuing: { incidentId: string; finding: AlertFinding; notify: boolean }[];
+    resolvedIds: string[];
+};
+
+/**
+ * Match a rule's findings to its firing incidents. New keys open incidents, known keys continue them,
+ * and incidents whose key was not found again resolve. A continuing incident is only notified again
+ * once `renotifyMinutes` has passed since the last notification, or if it was never delivered.
+ * Nothing is notified while the rule is snoozed.
+ */
+export function planIncidents(firing: FiringIncident[], findings: AlertFinding[], options: { now: Date; renotifyMinutes: number | null; snoozedUntil: Date | null }): IncidentPlan {
+    const snoozed = options.snoozedUntil !== null && options.snoozedUntil > options.now;
+    const firingByKey = new Map(firing.map(incident => [incident.dedupKey, incident]));
+    const seen = new Set<string>();
+    const plan: IncidentPlan = { opened: [], continuing: [], resolvedIds: [] };
+
+    for (const finding of findings) {
+        if (seen.has(finding.key)) {
+            continue;
+        }
+        seen.add(finding.key);
+
+        const incident = firingByKey.get(finding.key);
+        if (!incident) {
+            plan.opened.push({ finding, notify: !snoozed });
+            continue;
+        }
+
+        const renotifyDue = incident.lastNotifiedAt === null || (options.renotifyMinutes !== null && options.now.getTime() - incident.lastNotifiedAt.getTime() >= options.renotifyMinutes * 60 * 1000);
+        plan.continuing.push({ incidentId: incident.id, finding, notify: !snoozed && renotifyDue });
+    }
+
+    plan.resolvedIds = firing.filter(incident => !seen.has(incident.dedupKey)).map(incident => incident.id);
+    return plan;
+}
+
+/**
+ * Validate a rule's config for its type, filling in defaults. Throws on invalid config.
+ */
+export function parseAlertRuleConfig(type: AlertRuleType, config: unknown): AlertRuleConfig<AlertRuleType> {
+    return alertRuleConfigSchemas[type].parse(config);
+}
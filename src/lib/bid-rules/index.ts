@@ -0,0 +1,201 @@
+import { and, asc, eq, getTableColumns, gte, inArray, isNotNull, lte, sql } from 'drizzle-orm';
+import { db } from '@/db/index';
+import { bidRecommendation, bidRule, performanceDaily, target } from '@/db/schema';
+import { writeTargetUpdates } from '@/lib/ad-entity-writes';
+import { deriveMetrics } from '@/lib/performance-query/derived-metrics';
+import { formatZonedDate, utcNow, zonedStartOfDay, zonedSubtractDays } from '@/utils/date';
+import { getTimezoneForCountry } from '@/utils/timezones';
+import { type BidRuleMetrics, bidRuleActionSchema, bidRuleConditionSchema, computeProposedBid, matchesConditions } from './rules';
+
+export * from './rules';
+
+export type BidProposal = {
+    ruleId: string;
+    ruleName: string;
+    campaignId: string;
+    adGroupId: string | null;
+    targetId: string;
+    currentBid: number;
+    proposedBid: number;
+    metrics: BidRuleMetrics;
+    from: string;
+    to: string;
+};
+
+export type ApplyResult = {
+    applied: number;
+    failed: number;
+};
+
+/**
+ * Evaluate an account's enabled rules (or one rule, enabled or not) against daily target performance
+ * over each rule's lookback of completed account-local days. Rules run oldest first and a target is
+ * only proposed by the first rule that changes its bid. Nothing is written.
+ */
+export async function evaluateBidRules(accountId: string, countryCode: string, options: { ruleId?: string } = {}): Promise<BidProposal[]> {
+    const rules = await db
+        .select()
+        .from(bidRule)
+        .where(and(eq(bidRule.accountId, accountId), options.ruleId ? eq(bidRule.id, options.ruleId) : eq(bidRule.enabled, true)))
+        .orderBy(asc(bidRule.createdAt));
+
+    const timezone = getTimezoneForCountry(countryCode);
+    const todayStart = zonedStartOfDay(utcNow(), timezone);
+    const to = formatZonedDate(zonedSubtractDays(todayStart, 1, timezone), timezone);
+
+    const proposals: BidProposal[] = [];
+    const proposedTargetIds = new Set<string>();
+
+    for (const rule of rules) {
+        const conditions = bidRuleConditionSchema.array().parse(rule.conditions);
+        const action = bidRuleActionSchema.parse(rule.action);
+        const from = formatZonedDate(zonedSubtractDays(todayStart, rule.lookbackDays, timezone), timezone);
+
+        // Only enabled, positive targets with a bid of their own can take a bid change
+        const rows = await db
+            .select({
+                targetId: performanceDaily.entityId,
+                campaignId: target.campaignId,
+                adGroupId: target.adGroupId,
+                bidAmount: target.bidAmount,
+                impressions: sql<string>`COALESCE(SUM(${performanceDaily.impressions}), 0)::bigint`,
+                clicks: sql<string>`COALESCE(SUM(${performanceDaily.clicks}), 0)::bigint`,
+                spend: sql<string>`COALESCE(SUM(${performanceDaily.spend}), 0)`,
+                sales: sql<string>`COALESCE(SUM(${performanceDaily.sales}), 0)`,
+                orders: sql<string>`COALESCE(SUM(${performanceDaily.orders}), 0)::bigint`,
+            })
+            .from(performanceDaily)
+            .innerJoin(target, eq(target.targetId, performanceDaily.entityId))
+            .where(
+                and(
+                    eq(performanceDaily.accountId, accountId),
+                    eq(performanceDaily.entityType, 'target'),
+                    gte(performanceDaily.bucketDate, from),
+                    lte(performanceDaily.bucketDate, to),
+                    eq(target.negative, false),
+                    sql`upper(${target.state}) = 'ENABLED'`,
+                    isNotNull(target.bidAmount)
+                )
+            )
+            .groupBy(performanceDaily.entityId, target.campaignId, target.adGroupId, target.bidAmount);
+
+        for (const row of rows) {
+            if (proposedTargetIds.has(row.targetId)) {
+                continue;
+            }
+
+            const totals = {
+                impressions: Number(row.impressions),
+                clicks: Number(row.clicks),
+                spend: Number(row.spend),
+                sales: Number(row.sales),
+                orders: Number(row.orders),
+            };
+            const metrics = { ...totals, ...deriveMetrics(totals) };
+            if (!matchesConditions(metrics, conditions)) {
+                continue;
+            }
+
+            const currentBid = Number(row.bidAmount);
+            const proposedBid = computeProposedBid(currentBid, action);
+            if (proposedBid === currentBid) {
+                continue;
+            }
+
+            proposedTargetIds.add(row.targetId);
+            proposals.push({
+                ruleId: rule.id,
+                ruleName: rule.name,
+                campaignId: row.campaignId,
+                adGroupId: row.adGroupId,
+                targetId: row.targetId,
+                currentBid,
+                proposedBid,
+                metrics,
+                from,
+                to,
+            });
+        }
+    }
+
+    return proposals;
+}
+
+/**
+ * Store proposals as pending recommendations. Pending recommendations from earlier evaluations are
+ * superseded, so each target has at most one pending change.
+ */
+export async function saveRecommendations(accountId: string, countryCode: string, proposals: BidProposal[]): Promise<number> {
+    await db.transaction(async tx => {
+        await tx
+            .update(bidRecommendation)
+            .set({ status: 'superseded' })
+            .where(and(eq(bidRecommendation.accountId, accountId), eq(bidRecommendation.countryCode, countryCode), eq(bidRecommendation.status, 'pending')));
+
+        if (proposals.length > 0) {
+            await tx.insert(bidRecommendation).values(
+                proposals.map(proposal => ({
+                    ruleId: proposal.ruleId,
+                    accountId,
+                    countryCode,
+                    campaignId: proposal.campaignId,
+                    adGroupId: proposal.adGroupId,
+                    targetId: proposal.targetId,
+                    currentBid: proposal.currentBid.toFixed(2),
+                    proposedBid: proposal.proposedBid.toFixed(2),
+                    metrics: proposal.metrics,
+                }))
+            );
+        }
+    });
+    return proposals.length;
+}
+
+/**
+ * Send pending recommendations to the Ads API and record the outcome of each. writeTargetUpdates also
+ * writes applied bids to the target table, so the next evaluation starts from them.
+ */
+export async function applyRecommendations(recommendationIds: string[]): Promise<ApplyResult> {
+    const recommendations = await db
+        .select({ ...getTableColumns(bidRecommendation), ruleName: bidRule.name })
+        .from(bidRecommendation)
+        .innerJoin(bidRule, eq(bidRule.id, bidRecommendation.ruleId))
+        .where(and(inArray(bidRecommendation.id, recommendationIds), eq(bidRecommendation.status, 'pending')));
+
+    const byAccount = new Map<string, typeof recommendations>();
+    for (const recommendation of recommendations) {
+        const key = `${recommendation.accountId}|${recommendation.countryCode}`;
+        byAccount.set(key, [...(byAccount.get(key) ?? []), recommendation]);
+    }
+
+    const result: ApplyResult = { applied: 0, failed: 0 };
+
+    for (const group of byAccount.values()) {
+        const { accountId, countryCode } = group[0] as (typeof recommendations)[number];
+        const { succeeded, failed } = await writeTargetUpdates(
+            accountId,
+            countryCode,
+            group.map(recommendation => ({
+                targetId: recommendation.targetId,
+                bid: Number(recommendation.proposedBid),
+                reason: `Bid rule "${recommendation.ruleName}"`,
+            })),
+            'bid-rules'
+        );
+
+        const appliedIds = succeeded.flatMap(({ index }) => group[index]?.id ?? []);
+        if (appliedIds.length > 0) {
+            await db.update(bidRecommendation).set({ status: 'applied', appliedAt: new Date() }).where(inArray(bidRecommendation.id, appliedIds));
+        }
+        for (const { index, message } of failed) {
+            const id = group[index]?.id;
+            if (id) {
+                await db.update(bidRecommendation).set({ status: 'failed', error: message }).where(eq(bidRecommendation.id, id));
+            }
+        }
+        result.applied += succeeded.length;
+        result.failed += failed.length;
+    }
+
+    return result;
+}
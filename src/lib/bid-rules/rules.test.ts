@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { deriveMetrics } from '@/lib/performance-query/derived-metrics';
+import { computeProposedBid, matchesConditions } from './rules';
+
+const totals = { impressions: 2000, clicks: 40, spend: 30, sales: 60, orders: 3 };
+const metrics = { ...totals, ...deriveMetrics(totals) };
+
+describe('matchesConditions', () => {
+    it('requires every condition to hold', () => {
+        expect(
+            matchesConditions(metrics, [
+                { metric: 'acos', operator: 'gte', value: 50 },
+                { metric: 'clicks', operator: 'gt', value: 20 },
+            ])
+        ).toBe(true);
+        expect(
+            matchesConditions(metrics, [
+                { metric: 'acos', operator: 'gte', value: 50 },
+                { metric: 'orders', operator: 'lt', value: 3 },
+            ])
+        ).toBe(false);
+    });
+
+    it('matches anything when there are no conditions', () => {
+        expect(matchesConditions(metrics, [])).toBe(true);
+    });
+});
+
+describe('computeProposedBid', () => {
+    it('moves the bid by a percentage, rounded to cents', () => {
+        expect(computeProposedBid(1.25, { type: 'decrease_bid', percent: 10 })).toBe(1.13);
+        expect(computeProposedBid(1.25, { type: 'increase_bid', percent: 20 })).toBe(1.5);
+    });
+
+    it('clamps to the action bounds', () => {
+        expect(computeProposedBid(0.5, { type: 'decrease_bid', percent: 50, minBid: 0.3 })).toBe(0.3);
+        expect(computeProposedBid(2, { type: 'increase_bid', percent: 50, maxBid: 2.5 })).toBe(2.5);
+    });
+
+    it('never goes below the marketplace minimum', () => {
+        expect(computeProposedBid(0.03, { type: 'decrease_bid', percent: 90 })).toBe(0.02);
+    });
+
+    it('sets a fixed bid', () => {
+        expect(computeProposedBid(1.1, { type: 'set_bid', amount: 0.75 })).toBe(0.75);
+    });
+});
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import type { DerivedMetrics, PerformanceTotals } from '@/lib/performance-query/derived-metrics';
+
+export const BID_RULE_METRICS = ['impressions', 'clicks', 'spend', 'sales', 'orders', 'acos', 'roas', 'ctr', 'cpc', 'cvr'] as const;
+export const BID_RULE_OPERATORS = ['gt', 'gte', 'lt', 'lte', 'eq'] as const;
+
+/** Lowest bid Amazon accepts for a Sponsored Products target */
+export const MIN_BID = 0.02;
+
+/** Highest bid the target table can store */
+export const MAX_BID = 99.99;
+
+export const bidRuleConditionSchema = z.object({
+    metric: z.enum(BID_RULE_METRICS),
+    operator: z.enum(BID_RULE_OPERATORS),
+    value: z.number(),
+});
+
+export const bidRuleActionSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.enum(['increase_bid', 'decrease_bid']),
+        percent: z.number().positive().max(100),
+        minBid: z.number().min(MIN_BID).optional(),
+        maxBid: z.number().max(MAX_BID).optional(),
+    }),
+    z.object({
+        type: z.literal('set_bid'),
+        amount: z.number().min(MIN_BID).max(MAX_BID),
+    }),
+]);
+
+export type BidRuleCondition = z.infer<typeof bidRuleConditionSchema>;
+export type BidRuleAction = z.infer<typeof bidRuleActionSchema>;
+export type BidRuleMetrics = PerformanceTotals & DerivedMetrics;
+
+/**
+ * Whether every condition holds for a target's lookback metrics. Ratios follow deriveMetrics, so a
+ * target with spend and no sales has an ACoS of 0: pair ACoS conditions with a sales condition.
+ */
+export function matchesConditions(metrics: BidRuleMetrics, conditions: BidRuleCondition[]): boolean {
+    return conditions.every(condition => compare(metrics[condition.metric], condition.operator, condition.value));
+}
+
+function compare(value: number, operator: (typeof BID_RULE_OPERATORS)[number], threshold: number): boolean {
+    switch (operator) {
+        case 'gt':
+            return value > threshold;
+        case 'gte':
+            return value >= threshold;
+        case 'lt':
+            return value < threshold;
+        case 'lte':
+            return value <= threshold;
+        case 'eq':
+            return value === threshold;
+    }
+}
+
+/**
+ * The bid an action proposes, rounded to cents and clamped to the action's bounds and Amazon's limits.
+ */
+export function computeProposedBid(currentBid: number, action: BidRuleAction): number {
+    if (action.type === 'set_bid') {
+        return clampBid(action.amount, MIN_BID, MAX_BID);
+    }
+
+    const factor = action.type === 'increase_bid' ? 1 + action.percent / 100 : 1 - action.percent / 100;
+    return clampBid(currentBid * factor, action.minBid ?? MIN_BID, action.maxBid ?? MAX_BID);
+}
+
+const clampBid = (bid: number, min: number, max: number) => Math.min(Math.max(Math.round(bid * 100) / 100, min), max);
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { buildSpendProfile, cumulativeShare, forecastPacing, UNIFORM_PROFILE } from './forecast';
+
+// Spend only between 08:00 and 20:00, evenly
+const daytimeProfile = Array.from({ length: 24 }, (_, hour) => (hour >= 8 && hour < 20 ? 1 / 12 : 0));
+
+describe('buildSpendProfile', () => {
+    it('averages the hourly share of spend across days', () => {
+        const profile = buildSpendProfile([
+            { date: '2026-10-01', hour: 9, spend: 30 },
+            { date: '2026-10-01', hour: 10, spend: 10 },
+            { date: '2026-10-02', hour: 9, spend: 5 },
+            { date: '2026-10-02', hour: 10, spend: 5 },
+            { date: '2026-10-03', hour: 10, spend: 2 },
+        ]);
+
+        expect(profile?.[9]).toBeCloseTo((0.75 + 0.5 + 0) / 3);
+        expect(profile?.[10]).toBeCloseTo((0.25 + 0.5 + 1) / 3);
+        expect(profile?.reduce((sum, share) => sum + share, 0)).toBeCloseTo(1);
+    });
+
+    it('needs enough days with spend', () => {
+        expect(
+            buildSpendProfile([
+                { date: '2026-10-01', hour: 9, spend: 30 },
+                { date: '2026-10-02', hour: 9, spend: 0 },
+                { date: '2026-10-03', hour: 9, spend: 10 },
+            ])
+        ).toBeNull();
+    });
+});
+
+describe('cumulativeShare', () => {
+    it('interpolates within the hour', () => {
+        expect(cumulativeShare(UNIFORM_PROFILE, 12)).toBeCloseTo(0.5);
+        expect(cumulativeShare(daytimeProfile, 8.5)).toBeCloseTo(1 / 24);
+        expect(cumulativeShare(daytimeProfile, 24)).toBeCloseTo(1);
+    });
+});
+
+describe('forecastPacing', () => {
+    it('projects a campaign spending with its profile to spend what the profile expects', () => {
+        const forecast = forecastPacing(
+            100,
+            [
+                { hour: 10, usagePercentage: 10 },
+                { hour: 12, usagePercentage: 20 },
+            ],
+            daytimeProfile
+        );
+
+        expect(forecast?.projectedSpend).toBeCloseTo(60);
+        expect(forecast?.exhaustsAtHour).toBeNull();
+    });
+
+    it('finds the hour an overspending campaign runs out', () => {
+        const forecast = forecastPacing(
+            100,
+            [
+                { hour: 10, usagePercentage: 20 },
+                { hour: 12, usagePercentage: 40 },
+            ],
+            daytimeProfile
+        );
+
+        expect(forecast?.projectedSpend).toBeCloseTo(120);
+        // 40 spent by noon, then 10 an hour until the remaining 60 is gone
+        expect(forecast?.exhaustsAtHour).toBe(18);
+    });
+
+    it('weights a recent surge in spend', () => {
+        const steady = forecastPacing(100, [{ hour: 12, usagePercentage: 40 }], daytimeProfile);
+        const surging = forecastPacing(
+            100,
+            [
+                { hour: 10, usagePercentage: 10 },
+                { hour: 12, usagePercentage: 40 },
+            ],
+            daytimeProfile
+        );
+
+        expect(surging?.projectedSpend ?? 0).toBeGreaterThan(steady?.projectedSpend ?? 0);
+    });
+
+    it('reports when an exhausted budget ran out', () => {
+        const forecast = forecastPacing(
+            50,
+            [
+                { hour: 9, usagePercentage: 60 },
+                { hour: 14.5, usagePercentage: 100 },
+                { hour: 15, usagePercentage: 100 },
+            ],
+            daytimeProfile
+        );
+
+        expect(forecast).toEqual({ spent: 50, projectedSpend: 50, projectedUsagePercentage: 100, exhaustsAtHour: 14.5 });
+    });
+
+    it('has nothing to forecast without snapshots', () => {
+        expect(forecastPacing(100, [], daytimeProfile)).toBeNull();
+    });
+});
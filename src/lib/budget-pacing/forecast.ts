@@ -0,0 +1,122 @@
+/** Days of hourly spend a spend profile is averaged over */
+export const PROFILE_DAYS = 14;
+
+/** Days with spend needed before a profile is trusted */
+export const MIN_PROFILE_DAYS = 3;
+
+/** Hours of budget-usage snapshots the intraday spend rate is measured over */
+export const RECENT_WINDOW_HOURS = 2;
+
+/** Below this expected share of the day's spend, an estimate scaled from it is too noisy to use */
+const MIN_EXPECTED_SHARE = 0.02;
+
+export const UNIFORM_PROFILE: number[] = Array.from({ length: 24 }, () => 1 / 24);
+
+export type HourlySpend = { date: string; hour: number; spend: number };
+
+/** `hour` is a fractional account-local hour, e.g. 14.5 for 14:30 */
+export type UsageSnapshot = { hour: number; usagePercentage: number };
+
+export type PacingForecast = {
+    spent: number;
+    projectedSpend: number;
+    projectedUsagePercentage: number;
+    /** Fractional local hour the budget runs out at, or null if it lasts the day */
+    exhaustsAtHour: number | null;
+};
+
+/**
+ * The average share of a day's spend that falls in each local hour, over days that had spend.
+ * Null when fewer than MIN_PROFILE_DAYS days had spend.
+ */
+export function buildSpendProfile(rows: HourlySpend[]): number[] | null {
+    const days = new Map<string, number[]>();
+    for (const row of rows) {
+        let hours = days.get(row.date);
+        if (!hours) {
+            hours = Array.from({ length: 24 }, () => 0);
+            days.set(row.date, hours);
+        }
+        // DST repeats an hour label; both halves count toward it
+        hours[row.hour] = (hours[row.hour] ?? 0) + row.spend;
+    }
+
+    const activeDays = [...days.values()].filter(hours => hours.reduce((sum, spend) => sum + spend, 0) > 0);
+    if (activeDays.length < MIN_PROFILE_DAYS) {
+        return null;
+    }
+
+    const profile = Array.from({ length: 24 }, () => 0);
+    for (const hours of activeDays) {
+        const total = hours.reduce((sum, spend) => sum + spend, 0);
+        for (const [hour, spend] of hours.entries()) {
+            profile[hour] = (profile[hour] ?? 0) + spend / total / activeDays.length;
+        }
+    }
+    return profile;
+}
+
+/**
+ * Share of a day's spend the profile expects by a fractional local hour.
+ */
+export function cumulativeShare(profile: number[], hour: number): number {
+    const clamped = Math.min(Math.max(hour, 0), 24);
+    const whole = Math.floor(clamped);
+    let share = 0;
+    for (let index = 0; index < whole; index++) {
+        share += profile[index] ?? 0;
+    }
+    return share + (profile[whole] ?? 0) * (clamped - whole);
+}
+
+/**
+ * Project end-of-day spend from today's usage snapshots (ascending by hour). Two estimates are averaged
+ * when available: spend so far scaled by the share of the day the profile expects to be done, and the
+ * spend rate over the last RECENT_WINDOW_HOURS carried through the rest of the profile. The remaining
+ * spend follows the profile, which gives the hour the budget runs out.
+ */
+export function forecastPacing(budget: number, snapshots: UsageSnapshot[], profile: number[]): PacingForecast | null {
+    const latest = snapshots.at(-1);
+    if (!latest || budget <= 0) {
+        return null;
+    }
+
+    const spent = (budget * latest.usagePercentage) / 100;
+    if (latest.usagePercentage >= 100) {
+        const exhausted = snapshots.find(snapshot => snapshot.usagePercentage >= 100) ?? latest;
+        return { spent, projectedSpend: spent, projectedUsagePercentage: latest.usagePercentage, exhaustsAtHour: exhausted.hour };
+    }
+
+    const expectedShare = cumulativeShare(profile, latest.hour);
+    const remainingShare = 1 - expectedShare;
+    const estimates: number[] = [];
+
+    if (expectedShare >= MIN_EXPECTED_SHARE) {
+        estimates.push(spent / expectedShare);
+    }
+
+    const windowStart = snapshots.find(snapshot => snapshot.hour >= latest.hour - RECENT_WINDOW_HOURS && snapshot !== latest);
+    if (windowStart) {
+        const windowShare = expectedShare - cumulativeShare(profile, windowStart.hour);
+        const windowSpend = (budget * (latest.usagePercentage - windowStart.usagePercentage)) / 100;
+        if (windowShare > 0.001) {
+            estimates.push(spent + (windowSpend * remainingShare) / windowShare);
+        }
+    }
+
+    const projectedSpend = Math.max(estimates.length > 0 ? estimates.reduce((sum, estimate) => sum + estimate, 0) / estimates.length : spent, spent);
+
+    let exhaustsAtHour: number | null = null;
+    if (projectedSpend > budget && remainingShare > 0) {
+        // Walk the rest of the day in quarter hours until the projected spend passes the budget
+        for (let hour = latest.hour; hour <= 24; hour += 0.25) {
+            const projectedAtHour = spent + ((projectedSpend - spent) * (cumulativeShare(profile, hour) - expectedShare)) / remainingShare;
+            if (projectedAtHour >= budget) {
+                exhaustsAtHour = hour;
+                break;
+            }
+        }
+    }
+
+    return { spent, projectedSpend, projectedUsagePercentage: (projectedSpend / budget) * 100, exhaustsAtHour };
+}
@@ -0,0 +1,236 @@
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { and, asc, eq, gte, inArray, lt, sql } from 'drizzle-orm';
+import { db } from '@/db/index';
+import { advertiserAccount, amsBudgetUsage, budgetPacingSetting, campaign, performanceHourly } from '@/db/schema';
+import { formatZonedDate, utcNow, zonedAddDays, zonedStartOfDay, zonedSubtractDays } from '@/utils/date';
+import { getTimezoneForCountry } from '@/utils/timezones';
+import { buildSpendProfile, forecastPacing, PROFILE_DAYS, UNIFORM_PROFILE, type UsageSnapshot } from './forecast';
+
+export * from './forecast';
+
+/** Account-local hour a campaign has to last until when the account has no setting */
+export const DEFAULT_PACING_ALERT_HOUR = 20;
+
+export type PacingStatus = 'exhausted' | 'at_risk' | 'on_track';
+
+export type CampaignPacing = {
+    campaignId: string;
+    campaignName: string | null;
+    budget: number;
+    spent: number;
+    usagePercentage: number;
+    projectedSpend: number;
+    projectedUsagePercentage: number;
+    /** Fractional account-local hour the budget ran or is projected to run out */
+    exhaustsAtHour: number | null;
+    status: PacingStatus;
+    /** Whether the forecast used the campaign's own spend profile rather than the account's or a flat one */
+    campaignProfile: boolean;
+    lastUpdatedAt: Date;
+};
+
+export type BudgetExhaustion = {
+    campaignId: string;
+    campaignName: string | null;
+    date: string;
+    /** Fractional account-local hour the first usage message at or over 100% arrived */
+    exhaustedAtHour: number;
+};
+
+export type BudgetPacing = {
+    date: string;
+    alertHour: number;
+    campaigns: CampaignPacing[];
+};
+
+/**
+ * Get the local hour an account's campaigns should last until, falling back to the default.
+ */
+export async function getPacingAlertHour(accountId: string): Promise<number> {
+    const setting = await db.query.budgetPacingSetting.findFirst({
+        where: eq(budgetPacingSetting.accountId, accountId),
+        columns: { alertHour: true },
+    });
+    return setting?.alertHour ?? DEFAULT_PACING_ALERT_HOUR;
+}
+
+/**
+ * Save the local hour an account's campaigns should last until, replacing any existing setting.
+ */
+export async function savePacingAlertHour(accountId: string, alertHour: number): Promise<void> {
+    await db
+        .insert(budgetPacingSetting)
+        .values({ accountId, alertHour })
+        .onConflictDoUpdate({
+            target: budgetPacingSetting.accountId,
+            set: { alertHour, updatedAt: new Date() },
+        });
+}
+
+/**
+ * Forecast today's end-of-day spend for each campaign with budget-usage messages today. The intraday
+ * usage curve comes from the budget-usage stream; the shape of the rest of the day comes from the
+ * campaign's hourly spend over the last PROFILE_DAYS days, or the account's when the campaign has too
+ * little history. A campaign is at risk when its budget is projected to run out before the alert hour.
+ */
+export async function getBudgetPacing(accountId: string, countryCode: string): Promise<BudgetPacing> {
+    const timezone = getTimezoneForCountry(countryCode);
+    const now = utcNow();
+    const todayStart = zonedStartOfDay(now, timezone);
+    const date = formatZonedDate(todayStart, timezone);
+    const alertHour = await getPacingAlertHour(accountId);
+
+    const account = await db.query.advertiserAccount.findFirst({
+        where: and(eq(advertiserAccount.adsAccountId, accountId), eq(advertiserAccount.countryCode, countryCode)),
+        columns: { entityId: true },
+    });
+    if (!account?.entityId) {
+        return { date, alertHour, campaigns: [] };
+    }
+
+    const usage = await db
+        .select({
+            campaignId: amsBudgetUsage.budgetScopeId,
+            budget: amsBudgetUsage.budget,
+            usagePercentage: amsBudgetUsage.budgetUsagePercentage,
+            updatedAt: amsBudgetUsage.usageUpdatedTimestamp,
+        })
+        .from(amsBudgetUsage)
+        .where(and(eq(amsBudgetUsage.advertiserId, account.entityId), eq(amsBudgetUsage.budgetScopeType, 'CAMPAIGN'), gte(amsBudgetUsage.usageUpdatedTimestamp, todayStart)))
+        .orderBy(asc(amsBudgetUsage.usageUpdatedTimestamp));
+
+    const usageByCampaign = groupByCampaign(usage);
+    const campaignIds = [...usageByCampaign.keys()];
+    if (campaignIds.length === 0) {
+        return { date, alertHour, campaigns: [] };
+    }
+
+    const profileFrom = formatZonedDate(zonedSubtractDays(todayStart, PROFILE_DAYS, timezone), timezone);
+    const [hourly, names] = await Promise.all([
+        db
+            .select({
+                campaignId: performanceHourly.campaignId,
+                date: sql<string>`${performanceHourly.bucketDate}::text`,
+                hour: performanceHourly.bucketHour,
+                spend: sql<string>`COALESCE(SUM(${performanceHourly.spend}), 0)`,
+            })
+            .from(performanceHourly)
+            .where(and(eq(performanceHourly.accountId, accountId), eq(performanceHourly.entityType, 'target'), gte(performanceHourly.bucketDate, profileFrom), lt(performanceHourly.bucketDate, date)))
+            .groupBy(performanceHourly.campaignId, performanceHourly.bucketDate, performanceHourly.bucketHour),
+        db.select({ campaignId: campaign.campaignId, name: campaign.name }).from(campaign).where(inArray(campaign.campaignId, campaignIds)),
+    ]);
+
+    const spendRows = hourly.map(row => ({ campaignId: row.campaignId, date: row.date, hour: row.hour, spend: Number(row.spend) }));
+    const accountProfile = buildSpendProfile(spendRows);
+    const spendByCampaign = groupByCampaign(spendRows);
+    const nameById = new Map(names.map(row => [row.campaignId, row.name]));
+
+    const campaigns: CampaignPacing[] = [];
+    for (const [campaignId, rows] of usageByCampaign) {
+        const latest = rows.at(-1);
+        if (!latest) {
+            continue;
+        }
+
+        // Budgets can change during the day, so express every snapshot's spend against the current budget
+        const snapshots: UsageSnapshot[] = rows.map(row => ({
+            hour: localHour(row.updatedAt, timezone),
+            usagePercentage: latest.budget > 0 ? (row.budget * row.usagePercentage) / latest.budget : 0,
+        }));
+        const campaignProfile = buildSpendProfile(spendByCampaign.get(campaignId) ?? []);
+        const forecast = forecastPacing(latest.budget, snapshots, campaignProfile ?? accountProfile ?? UNIFORM_PROFILE);
+        if (!forecast) {
+            continue;
+        }
+
+        campaigns.push({
+            campaignId,
+            campaignName: nameById.get(campaignId) ?? null,
+            budget: latest.budget,
+            spent: forecast.spent,
+            usagePercentage: latest.usagePercentage,
+            projectedSpend: forecast.projectedSpend,
+            projectedUsagePercentage: forecast.projectedUsagePercentage,
+            exhaustsAtHour: forecast.exhaustsAtHour,
+            status: latest.usagePercentage >= 100 ? 'exhausted' : forecast.exhaustsAtHour !== null && forecast.exhaustsAtHour < alertHour ? 'at_risk' : 'on_track',
+            campaignProfile: campaignProfile !== null,
+            lastUpdatedAt: latest.updatedAt,
+        });
+    }
+
+    // Exhausted and at-risk campaigns first, soonest to run out first
+    const statusOrder: Record<PacingStatus, number> = { exhausted: 0, at_risk: 1, on_track: 2 };
+    campaigns.sort((a, b) => statusOrder[a.status] - statusOrder[b.status] || (a.exhaustsAtHour ?? 25) - (b.exhaustsAtHour ?? 25) || b.projectedUsagePercentage - a.projectedUsagePercentage);
+
+    return { date, alertHour, campaigns };
+}
+
+/**
+ * Campaigns whose budget ran out on each account-local day from `from` to `to` (YYYY-MM-DD, inclusive),
+ * soonest first, from the budget-usage stream.
+ */
+export async function getBudgetExhaustions(accountId: string, countryCode: string, from: string, to: string): Promise<BudgetExhaustion[]> {
+    const timezone = getTimezoneForCountry(countryCode);
+    const account = await db.query.advertiserAccount.findFirst({
+        where: and(eq(advertiserAccount.adsAccountId, accountId), eq(advertiserAccount.countryCode, countryCode)),
+        columns: { entityId: true },
+    });
+    if (!account?.entityId) {
+        return [];
+    }
+
+    const rangeStart = fromZonedTime(`${from}T00:00:00`, timezone);
+    const rangeEnd = zonedAddDays(fromZonedTime(`${to}T00:00:00`, timezone), 1, timezone);
+    const usage = await db
+        .select({ campaignId: amsBudgetUsage.budgetScopeId, updatedAt: amsBudgetUsage.usageUpdatedTimestamp })
+        .from(amsBudgetUsage)
+        .where(
+            and(
+                eq(amsBudgetUsage.advertiserId, account.entityId),
+                eq(amsBudgetUsage.budgetScopeType, 'CAMPAIGN'),
+                gte(amsBudgetUsage.budgetUsagePercentage, 100),
+                gte(amsBudgetUsage.usageUpdatedTimestamp, rangeStart),
+                lt(amsBudgetUsage.usageUpdatedTimestamp, rangeEnd)
+            )
+        )
+        .orderBy(asc(amsBudgetUsage.usageUpdatedTimestamp));
+
+    // Rows are in time order, so the first per campaign and day is when it ran out
+    const first = new Map<string, { campaignId: string; date: string; updatedAt: Date }>();
+    for (const row of usage) {
+        const date = formatZonedDate(row.updatedAt, timezone);
+        const key = `${row.campaignId}:${date}`;
+        if (!first.has(key)) {
+            first.set(key, { campaignId: row.campaignId, date, updatedAt: row.updatedAt });
+        }
+    }
+    if (first.size === 0) {
+        return [];
+    }
+
+    const campaignIds = [...new Set([...first.values()].map(row => row.campaignId))];
+    const names = await db.select({ campaignId: campaign.campaignId, name: campaign.name }).from(campaign).where(inArray(campaign.campaignId, campaignIds));
+    const nameById = new Map(names.map(row => [row.campaignId, row.name]));
+
+    return [...first.values()].map(row => ({
+        campaignId: row.campaignId,
+        campaignName: nameById.get(row.campaignId) ?? null,
+        date: row.date,
+        exhaustedAtHour: localHour(row.updatedAt, timezone),
+    }));
+}
+
+const localHour = (date: Date, timezone: string) => Number(formatInTimeZone(date, timezone, 'H')) + Number(formatInTimeZone(date, timezone, 'm')) / 60;
+
+function groupByCampaign<T extends { campaignId: string }>(rows: T[]): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const row of rows) {
+        const group = groups.get(row.campaignId);
+        if (group) {
+            group.push(row);
+        } else {
+            groups.set(row.campaignId, [row]);
+        }
+    }
+    return groups;
+}
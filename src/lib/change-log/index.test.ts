@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/db/index', () => ({ db: {} }));
+
+const { amountChanged, getAmsAdGroupDefaultBid, getAmsCampaignBudget, getAmsTargetBid, withoutAmsRecordedChanges } = await import('./index');
+
+describe('amountChanged', () => {
+    it('compares amounts in cents regardless of representation', () => {
+        expect(amountChanged('1.5', 1.5)).toBe(false);
+        expect(amountChanged('1.50', '1.5')).toBe(false);
+        expect(amountChanged('1.50', 1.51)).toBe(true);
+    });
+
+    it('treats a value appearing or disappearing as a change', () => {
+        expect(amountChanged(null, 0.75)).toBe(true);
+        expect(amountChanged('0.75', null)).toBe(true);
+        expect(amountChanged(null, undefined)).toBe(false);
+    });
+});
+
+describe('AMS value extraction', () => {
+    it('reads target bids in both shapes AMS sends', () => {
+        expect(getAmsTargetBid({ bid: 0.85 })).toBe(0.85);
+        expect(getAmsTargetBid({ bid: { bid: 1.1, currency_code: 'USD' } })).toBe(1.1);
+        expect(getAmsTargetBid(null)).toBeNull();
+    });
+
+    it('reads the ad group default bid', () => {
+        expect(getAmsAdGroupDefaultBid({ bid: { default_bid: 0.6, currency_code: 'USD' } })).toBe(0.6);
+        expect(getAmsAdGroupDefaultBid({ bid: {} })).toBeNull();
+    });
+
+    it('prefers the daily monetary budget cap', () => {
+        const budgets = [
+            { recurrence_time_period: 'LIFETIME', budget_value: { monetary_budget_value: { monetary_budget: { value: 500 } } } },
+            { recurrence_time_period: 'DAILY', budget_value: { monetary_budget_value: { monetary_budget: { value: 25 } } } },
+        ];
+
+        expect(getAmsCampaignBudget(budgets)).toBe(25);
+        expect(getAmsCampaignBudget({ budget_caps: budgets })).toBe(25);
+        expect(getAmsCampaignBudget({ marketplace_settings: {} })).toBeNull();
+    });
+});
+
+describe('withoutAmsRecordedChanges', () => {
+    const change = (entityId: string, newValue: string) => ({
+        accountId: 'a1',
+        entityType: 'target' as const,
+        entityId,
+        campaignId: 'c1',
+        field: 'bid' as const,
+        oldValue: '0.50',
+        newValue,
+        source: 'export' as const,
+        changedAt: new Date('2026-03-01T00:00:00Z'),
+    });
+    const executorWithLatest = (rows: Array<{ entityId: string; source: string; newValue: string }>) => {
+        const query = { from: () => query, where: () => query, orderBy: async () => rows.map(row => ({ entityType: 'target', field: 'bid', ...row })) };
+        return { selectDistinctOn: () => query } as unknown as Parameters<typeof withoutAmsRecordedChanges>[1];
+    };
+
+    it('drops differences AMS already recorded with the same value', async () => {
+        const changes = [change('t1', '0.75'), change('t2', '0.80'), change('t3', '0.90')];
+        const executor = executorWithLatest([
+            { entityId: 't1', source: 'ams', newValue: '0.75' },
+            { entityId: 't2', source: 'ams', newValue: '0.60' },
+            { entityId: 't3', source: 'bidbeacon', newValue: '0.90' },
+        ]);
+
+        expect((await withoutAmsRecordedChanges(changes, executor)).map(c => c.entityId)).toEqual(['t2', 't3']);
+    });
+});
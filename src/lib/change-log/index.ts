@@ -0,0 +1,185 @@
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { type Database, db } from '@/db/index';
+import { campaign, entityChange } from '@/db/schema';
+
+export const CHANGE_ENTITY_TYPES = ['campaign', 'adGroup', 'target'] as const;
+export const CHANGE_FIELDS = ['budget', 'defaultBid', 'bid'] as const;
+export const CHANGE_SOURCES = ['bidbeacon', 'export', 'ams'] as const;
+
+export type ChangeEntityType = (typeof CHANGE_ENTITY_TYPES)[number];
+export type ChangeField = (typeof CHANGE_FIELDS)[number];
+export type ChangeSource = (typeof CHANGE_SOURCES)[number];
+
+type Amount = string | number | null | undefined;
+
+export type EntityChangeInput = {
+    accountId: string | null;
+    entityType: ChangeEntityType;
+    entityId: string;
+    campaignId: string;
+    adGroupId?: string | null;
+    field: ChangeField;
+    oldValue: Amount;
+    newValue: Amount;
+    source: ChangeSource;
+    changedBy?: string | null;
+    reason?: string | null;
+    changedAt: Date;
+};
+
+type Executor = Database | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const toCents = (value: Amount) => (value === null || value === undefined || value === '' ? null : Math.round(Number(value) * 100));
+
+/**
+ * Whether two amounts differ, compared in cents so '1.5', '1.50' and 1.5 are equal.
+ */
+export function amountChanged(oldValue: Amount, newValue: Amount): boolean {
+    return toCents(oldValue) !== toCents(newValue);
+}
+
+/**
+ * Store the changes whose value actually moved. Pass the transaction of the write being recorded so
+ * the history commits with it.
+ */
+export async function recordChanges(changes: EntityChangeInput[], executor: Executor = db): Promise<number> {
+    const values = changes
+        .filter(change => amountChanged(change.oldValue, change.newValue))
+        .map(change => ({
+            accountId: change.accountId,
+            entityType: change.entityType,
+            entityId: change.entityId,
+            campaignId: change.campaignId,
+            adGroupId: change.adGroupId ?? null,
+            field: change.field,
+            oldValue: formatAmount(change.oldValue),
+            newValue: formatAmount(change.newValue),
+            source: change.source,
+            changedBy: change.changedBy ?? null,
+            reason: change.reason ?? null,
+            changedAt: change.changedAt,
+        }));
+
+    for (let start = 0; start < values.length; start += 500) {
+        await executor.insert(entityChange).values(values.slice(start, start + 500));
+    }
+    return values.length;
+}
+
+function formatAmount(value: Amount): string | null {
+    const cents = toCents(value);
+    return cents === null ? null : (cents / 100).toFixed(2);
+}
+
+/**
+ * Record a bid or budget difference between an AMS campaign-management message and the previous one
+ * for the same entity. AMS also reports the changes BidBeacon made, so a difference that lands on the
+ * value of the entity's latest BidBeacon change is skipped. The account comes from the synced
+ * campaign, so it is null until the first sync. Pass the transaction that stores the message.
+ */
+export async function recordAmsChange(change: Omit<EntityChangeInput, 'accountId' | 'source'>, executor: Executor = db): Promise<void> {
+    if (!amountChanged(change.oldValue, change.newValue)) {
+        return;
+    }
+
+    const latest = await executor.query.entityChange.findFirst({
+        where: and(eq(entityChange.entityType, change.entityType), eq(entityChange.entityId, change.entityId), eq(entityChange.field, change.field)),
+        orderBy: desc(entityChange.changedAt),
+        columns: { source: true, newValue: true },
+    });
+    if (latest?.source === 'bidbeacon' && !amountChanged(latest.newValue, change.newValue)) {
+        return;
+    }
+
+    const synced = await executor.query.campaign.findFirst({
+        where: eq(campaign.campaignId, change.campaignId),
+        columns: { accountId: true },
+    });
+    await recordChanges([{ ...change, accountId: synced?.accountId ?? null, source: 'ams' }], executor);
+}
+
+/**
+ * Drop changes whose entity and field already have an AMS entry with the same new value as their
+ * latest change. AMS messages only update the ams_cm_* tables, so the next export diffs against the
+ * stale synced row and would otherwise record the same change again.
+ */
+export async function withoutAmsRecordedChanges(changes: EntityChangeInput[], executor: Executor = db): Promise<EntityChangeInput[]> {
+    const moved = changes.filter(change => amountChanged(change.oldValue, change.newValue));
+    if (moved.length === 0) {
+        return moved;
+    }
+
+    const latest = await executor
+        .selectDistinctOn([entityChange.entityType, entityChange.entityId, entityChange.field], {
+            entityType: entityChange.entityType,
+            entityId: entityChange.entityId,
+            field: entityChange.field,
+            source: entityChange.source,
+            newValue: entityChange.newValue,
+        })
+        .from(entityChange)
+        .where(
+            inArray(
+                entityChange.entityId,
+                moved.map(change => change.entityId)
+            )
+        )
+        .orderBy(entityChange.entityType, entityChange.entityId, entityChange.field, desc(entityChange.changedAt));
+    const latestByKey = new Map(latest.map(row => [`${row.entityType}|${row.entityId}|${row.field}`, row]));
+
+    return moved.filter(change => {
+        const recorded = latestByKey.get(`${change.entityType}|${change.entityId}|${change.field}`);
+        return !(recorded?.source === 'ams' && !amountChanged(recorded.newValue, change.newValue));
+    });
+}
+
+/**
+ * The bid in an AMS target `bid` payload, which carries bid.bid either as a number or as { bid, currency_code }.
+ */
+export function getAmsTargetBid(bid: unknown): number | null {
+    const value = isRecord(bid) ? bid.bid : undefined;
+    if (typeof value === 'number') {
+        return value;
+    }
+    return isRecord(value) && typeof value.bid === 'number' ? value.bid : null;
+}
+
+/**
+ * The default bid in an AMS ad group `bid` payload.
+ */
+export function getAmsAdGroupDefaultBid(bid: unknown): number | null {
+    const value = isRecord(bid) ? bid.bid : undefined;
+    return isRecord(value) && typeof value.default_bid === 'number' ? value.default_bid : null;
+}
+
+/**
+ * The daily budget in an AMS campaign `budgets` payload. AMS types budgets loosely, so this takes the
+ * first monetary budget amount it finds, preferring a DAILY budget cap.
+ */
+export function getAmsCampaignBudget(budgets: unknown): number | null {
+    const caps = Array.isArray(budgets) ? budgets : isRecord(budgets) && Array.isArray(budgets.budget_caps) ? budgets.budget_caps : [budgets];
+    const daily = caps.find(cap => isRecord(cap) && cap.recurrence_time_period === 'DAILY');
+    return findMonetaryAmount(daily ?? caps[0]);
+}
+
+function findMonetaryAmount(value: unknown): number | null {
+    if (!isRecord(value)) {
+        return null;
+    }
+    const monetary = value.monetary_budget;
+    if (isRecord(monetary)) {
+        const amount = monetary.value ?? monetary.amount;
+        if (typeof amount === 'number') {
+            return amount;
+        }
+    }
+    for (const nested of Object.values(value)) {
+        const amount = findMonetaryAmount(nested);
+        if (amount !== null) {
+            return amount;
+        }
+    }
+    return null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
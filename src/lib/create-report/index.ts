@@ -1,10 +1,11 @@
 import { eq } from 'drizzle-orm';
-import { createReport } from '@/amazon-ads/create-report.js';
-import { reportConfigs } from '@/config/reports/configs.js';
+import { createReport, type DatePeriod } from '@/amazon-ads/create-report.js';
+import { getReportConfig } from '@/config/reports/configs.js';
 import { db } from '@/db/index.js';
 import { advertiserAccount } from '@/db/schema.js';
 import type { AggregationType, EntityType } from '@/types/reports.js';
-import { utcAddHours } from '@/utils/date.js';
+import { getAccountRegion } from '../account-region/index.js';
+import { getReportPeriod } from './report-batches.js';
 
 export type CreateReportForDatasetInput = {
     accountId: string;
@@ -14,13 +15,34 @@ export type CreateReportForDatasetInput = {
     entityType: EntityType;
 };
 
+export type CreateReportForPeriodsInput = {
+    accountId: string;
+    countryCode: string;
+    aggregation: AggregationType;
+    entityType: EntityType;
+    periods: DatePeriod[];
+};
+
 /**
- * Creates a report via Amazon Ads API.
+ * Creates a report for a single dataset bucket via Amazon Ads API.
  * Returns the reportId if successful, throws an error otherwise.
  */
 export async function createReportForDataset(input: CreateReportForDatasetInput): Promise<string> {
-    const reportConfig = reportConfigs[input.aggregation][input.entityType];
-    const date = new Date(input.timestamp);
+    return createReportForPeriods({
+        accountId: input.accountId,
+        countryCode: input.countryCode,
+        aggregation: input.aggregation,
+        entityType: input.entityType,
+        periods: [getReportPeriod(new Date(input.timestamp), input.countryCode, input.aggregation)],
+    });
+}
+
+/**
+ * Creates one report covering several periods via Amazon Ads API (see report-batches.ts).
+ * Returns the reportId if successful, throws an error otherwise.
+ */
+export async function createReportForPeriods(input: CreateReportForPeriodsInput): Promise<string> {
+    const reportConfig = getReportConfig(input.aggregation, input.entityType);
 
     // Find the advertiser account
     const account = await db.query.advertiserAccount.findFirst({
@@ -34,21 +56,8 @@ export async function createReportForDataset(input: CreateReportForDatasetInput)
         throw new Error('Advertiser account not found');
     }
 
-    // Calculate date window
-    const windowStart = new Date(input.timestamp);
-    const windowEnd = input.aggregation === 'hourly' ? utcAddHours(windowStart, 1) : windowStart;
-
-    const formatDate = (date: Date): string => {
-        const isoString = date.toISOString();
-        const datePart = isoString.split('T')[0];
-        if (!datePart) {
-            throw new Error('Failed to format date');
-        }
-        return datePart;
-    };
-
-    const startDate = formatDate(windowStart);
-    const endDate = formatDate(windowEnd);
+    const region = await getAccountRegion(input.accountId, input.countryCode);
+    const periodsLabel = input.periods.map(period => (period.startDate === period.endDate ? period.startDate : `${period.startDate} to ${period.endDate}`)).join(', ');
 
     // Create the report via Amazon Ads API
     let reportId: string;
@@ -63,40 +72,28 @@ export async function createReportForDataset(input: CreateReportForDatasetInput)
                 reports: [
                     {
                         format: reportConfig.format,
-                        periods: [
-                            {
-                                datePeriod: {
-                                    startDate,
-                                    endDate,
-                                },
-                            },
-                        ],
+                        periods: input.periods.map(datePeriod => ({ datePeriod })),
                         query: {
                             fields: reportConfig.fields,
                         },
                     },
                 ],
             },
-            'na'
+            region
         );
 
         if (!response.success || response.success.length === 0) {
-            throw new Error(
-                `Failed to create ${input.aggregation} ${input.entityType} report - API response did not contain success data (account: ${input.accountId}, period: ${input.timestamp}, date range: ${startDate} to ${endDate})`
-            );
+            throw new Error(`Failed to create ${input.aggregation} ${input.entityType} report - API response did not contain success data (account: ${input.accountId}, periods: ${periodsLabel})`);
         }
 
         reportId = response.success[0]?.report?.reportId || '';
         if (!reportId) {
-            throw new Error(`Failed to create ${input.aggregation} ${input.entityType} report - no reportId returned from API (account: ${input.accountId}, period: ${input.timestamp})`);
+            throw new Error(`Failed to create ${input.aggregation} ${input.entityType} report - no reportId returned from API (account: ${input.accountId}, periods: ${periodsLabel})`);
         }
     } catch (error) {
         // Wrap error with context about what we were trying to create
         if (error instanceof Error) {
-            throw new Error(
-                `Failed to create ${input.aggregation} ${input.entityType} report for account ${input.accountId} (period: ${input.timestamp}, date range: ${startDate} to ${endDate}): ${error.message}`,
-                { cause: error }
-            );
+            throw new Error(`Failed to create ${input.aggregation} ${input.entityType} report for account ${input.accountId} (periods: ${periodsLabel}): ${error.message}`, { cause: error });
         }
         throw error;
     }
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/db/index.js', () => ({ db: {} }));
+
+const { getReportPeriod, planReportBatches } = await import('@/lib/create-report/report-batches');
+
+describe('report batch planning', () => {
+    it('requests the local date of a bucket', () => {
+        // 2025-12-01 20:00 in Los Angeles is already 2025-12-02 in UTC
+        const periodStart = new Date(Date.UTC(2025, 11, 2, 4, 0, 0));
+
+        expect(getReportPeriod(periodStart, 'US', 'daily')).toEqual({ startDate: '2025-12-01', endDate: '2025-12-01' });
+    });
+
+    it('shares one period between the hourly buckets of a day', () => {
+        const rows = [0, 1, 2].map(hour => ({ periodStart: new Date(Date.UTC(2025, 11, 1, 8 + hour, 0, 0)) }));
+
+        const batches = planReportBatches(rows, 'US', 'hourly');
+
+        expect(batches).toHaveLength(1);
+        expect(batches[0]?.periods).toEqual([{ startDate: '2025-12-01', endDate: '2025-12-01' }]);
+        expect(batches[0]?.rows).toHaveLength(3);
+    });
+
+    it('splits batches at the period limit, most recent first', () => {
+        const rows = [1, 2, 3, 4, 5].map(day => ({ periodStart: new Date(Date.UTC(2025, 11, day, 8, 0, 0)) }));
+
+        const batches = planReportBatches(rows, 'US', 'daily', 2);
+
+        expect(batches.map(batch => batch.periods.map(period => period.startDate))).toEqual([['2025-12-05', '2025-12-04'], ['2025-12-03', '2025-12-02'], ['2025-12-01']]);
+    });
+
+    it('requests the whole local month of a monthly bucket', () => {
+        // 2025-11-01 00:00 in Los Angeles
+        const periodStart = new Date(Date.UTC(2025, 10, 1, 7, 0, 0));
+
+        expect(getReportPeriod(periodStart, 'US', 'monthly')).toEqual({ startDate: '2025-11-01', endDate: '2025-11-30' });
+    });
+
+    it('cuts the current annual bucket off at today', () => {
+        vi.useFakeTimers({ now: new Date(Date.UTC(2025, 11, 15, 20, 0, 0)) });
+        const periodStart = new Date(Date.UTC(2025, 0, 1, 8, 0, 0));
+
+        expect(getReportPeriod(periodStart, 'US', 'annual')).toEqual({ startDate: '2025-01-01', endDate: '2025-12-15' });
+        vi.useRealTimers();
+    });
+});
@@ -0,0 +1,91 @@
+import { and, eq, type InferSelectModel } from 'drizzle-orm';
+import type { DatePeriod } from '@/amazon-ads/create-report.js';
+import { db } from '@/db/index.js';
+import { reportDatasetMetadata } from '@/db/schema.js';
+import type { AggregationType } from '@/types/reports.js';
+import { formatZonedDate, zonedAddMonths, zonedSubtractDays } from '@/utils/date.js';
+import { getTimezoneForCountry } from '@/utils/timezones.js';
+
+/**
+ * Maximum number of periods requested in a single Amazon Ads report.
+ * Kept small so one slow or failed report only delays a week of buckets.
+ */
+export const MAX_PERIODS_PER_REPORT = 7;
+
+export type ReportBatch<T> = {
+    /** Periods to request, one per local date (or month/year for monthly and annual buckets) */
+    periods: DatePeriod[];
+    /** Dataset rows covered by those periods; they will share the created reportId */
+    rows: T[];
+};
+
+/**
+ * Get the report period covering a dataset bucket.
+ * Amazon reports are requested by local date, so every hourly bucket of a day maps to that day's period.
+ * Monthly and annual buckets span their whole month/year, cut off at today for the current one.
+ */
+export function getReportPeriod(periodStart: Date, countryCode: string, aggregation: AggregationType): DatePeriod {
+    const timezone = getTimezoneForCountry(countryCode);
+    const startDate = formatZonedDate(periodStart, timezone);
+    if (aggregation === 'hourly' || aggregation === 'daily') {
+        return { startDate, endDate: startDate };
+    }
+
+    const nextPeriodStart = zonedAddMonths(periodStart, aggregation === 'monthly' ? 1 : 12, timezone);
+    const lastDate = formatZonedDate(zonedSubtractDays(nextPeriodStart, 1, timezone), timezone);
+    const today = formatZonedDate(new Date(), timezone);
+    return { startDate, endDate: lastDate < today ? lastDate : today };
+}
+
+/**
+ * Group dataset rows into multi-period report requests.
+ * Rows are taken most recent first, and each batch holds at most `maxPeriods` distinct periods.
+ */
+export function planReportBatches<T extends { periodStart: Date }>(rows: T[], countryCode: string, aggregation: AggregationType, maxPeriods = MAX_PERIODS_PER_REPORT): ReportBatch<T>[] {
+    const rowsByPeriod = new Map<string, { period: DatePeriod; rows: T[] }>();
+    for (const row of [...rows].sort((a, b) => b.periodStart.getTime() - a.periodStart.getTime())) {
+        const period = getReportPeriod(row.periodStart, countryCode, aggregation);
+        const periodRows = rowsByPeriod.get(period.startDate);
+        if (periodRows) {
+            periodRows.rows.push(row);
+        } else {
+            rowsByPeriod.set(period.startDate, { period, rows: [row] });
+        }
+    }
+
+    const batches: ReportBatch<T>[] = [];
+    for (const { period, rows: periodRows } of rowsByPeriod.values()) {
+        let batch = batches.at(-1);
+        if (!batch || batch.periods.length >= maxPeriods) {
+            batch = { periods: [], rows: [] };
+            batches.push(batch);
+        }
+        batch.periods.push(period);
+        batch.rows.push(...periodRows);
+    }
+
+    return batches;
+}
+
+/**
+ * Find every dataset row sharing a row's report (including the row itself).
+ * Returns just the row when it has no report.
+ */
+export async function findDatasetsSharingReport(row: InferSelectModel<typeof reportDatasetMetadata>): Promise<InferSelectModel<typeof reportDatasetMetadata>[]> {
+    if (!row.reportId) {
+        return [row];
+    }
+
+    return db
+        .select()
+        .from(reportDatasetMetadata)
+        .where(
+            and(
+                eq(reportDatasetMetadata.accountId, row.accountId),
+                eq(reportDatasetMetadata.countryCode, row.countryCode),
+                eq(reportDatasetMetadata.aggregation, row.aggregation),
+                eq(reportDatasetMetadata.entityType, row.entityType),
+                eq(reportDatasetMetadata.reportId, row.reportId)
+            )
+        );
+}
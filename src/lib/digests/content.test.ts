@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { deriveMetrics } from '@/lib/performance-query/derived-metrics';
+import { type DigestRow, getDigestPeriod, isDigestDue, rankMovers } from './content';
+
+const metrics = (sales: number) => {
+    const totals = { impressions: 100, clicks: 10, spend: 5, sales, orders: 1 };
+    return { ...totals, ...deriveMetrics(totals) };
+};
+const row = (id: string, previousSales: number, currentSales: number): DigestRow => ({ id, name: id, campaignName: null, current: metrics(currentSales), previous: metrics(previousSales) });
+
+describe('getDigestPeriod', () => {
+    it('covers yesterday against the day before for daily digests', () => {
+        expect(getDigestPeriod('daily', '2026-10-19')).toEqual({ from: '2026-10-18', to: '2026-10-18', previousFrom: '2026-10-17', previousTo: '2026-10-17' });
+    });
+
+    it('covers the seven days ending yesterday for weekly digests', () => {
+        expect(getDigestPeriod('weekly', '2026-10-19')).toEqual({ from: '2026-10-12', to: '2026-10-18', previousFrom: '2026-10-05', previousTo: '2026-10-11' });
+    });
+});
+
+describe('isDigestDue', () => {
+    it('is due from the send hour on', () => {
+        expect(isDigestDue('daily', 8, { isoWeekday: 3, hour: 7 })).toBe(false);
+        expect(isDigestDue('daily', 8, { isoWeekday: 3, hour: 8 })).toBe(true);
+        expect(isDigestDue('daily', 8, { isoWeekday: 3, hour: 15 })).toBe(true);
+    });
+
+    it('sends weekly digests on Mondays only', () => {
+        expect(isDigestDue('weekly', 8, { isoWeekday: 1, hour: 9 })).toBe(true);
+        expect(isDigestDue('weekly', 8, { isoWeekday: 2, hour: 9 })).toBe(false);
+    });
+});
+
+describe('rankMovers', () => {
+    it('ranks gainers and losers by the change in sales', () => {
+        const movers = rankMovers([row('flat', 10, 10), row('small-gain', 10, 12), row('big-gain', 10, 40), row('small-loss', 10, 8), row('big-loss', 30, 0)], 5);
+
+        expect(movers.gainers.map(mover => mover.id)).toEqual(['big-gain', 'small-gain']);
+        expect(movers.losers.map(mover => mover.id)).toEqual(['big-loss', 'small-loss']);
+    });
+
+    it('keeps only the top rows', () => {
+        const movers = rankMovers([row('a', 0, 1), row('b', 0, 2), row('c', 0, 3)], 2);
+
+        expect(movers.gainers.map(mover => mover.id)).toEqual(['c', 'b']);
+    });
+});
@@ -0,0 +1,75 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { BudgetExhaustion } from '@/lib/budget-pacing';
+import type { PerformanceChange } from '@/lib/performance-query/comparison';
+import type { DerivedMetrics, PerformanceTotals } from '@/lib/performance-query/derived-metrics';
+
+export const DIGEST_FREQUENCIES = ['daily', 'weekly'] as const;
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+/** Campaigns and targets listed as top gainers and top losers */
+export const DIGEST_MOVER_LIMIT = 5;
+
+export type DigestMetrics = PerformanceTotals & DerivedMetrics;
+
+/** Account-local dates (YYYY-MM-DD), inclusive */
+export type DigestPeriod = { from: string; to: string; previousFrom: string; previousTo: string };
+
+export type DigestRow = {
+    id: string;
+    name: string;
+    /** The target's campaign; null on campaign rows */
+    campaignName: string | null;
+    current: DigestMetrics;
+    previous: DigestMetrics;
+};
+
+export type Digest = {
+    accountId: string;
+    accountName: string;
+    countryCode: string;
+    frequency: DigestFrequency;
+    period: DigestPeriod;
+    totals: DigestMetrics;
+    previousTotals: DigestMetrics;
+    change: PerformanceChange;
+    /** Every campaign and target with activity in either period */
+    campaigns: DigestRow[];
+    targets: DigestRow[];
+    budgetExhaustions: BudgetExhaustion[];
+};
+
+/**
+ * The completed days a digest sent on account-local `today` covers (yesterday, or the seven days ending
+ * yesterday) and the period of equal length before it.
+ */
+export function getDigestPeriod(frequency: DigestFrequency, today: string): DigestPeriod {
+    const days = frequency === 'daily' ? 1 : 7;
+    const shift = (offset: number) => format(addDays(parseISO(today), offset), 'yyyy-MM-dd');
+    return { from: shift(-days), to: shift(-1), previousFrom: shift(-2 * days), previousTo: shift(-days - 1) };
+}
+
+/**
+ * Whether a digest is due at an account-local time: from its send hour on, every day for daily digests
+ * and on Mondays (ISO weekday 1) for weekly ones.
+ */
+export function isDigestDue(frequency: DigestFrequency, sendHour: number, local: { isoWeekday: number; hour: number }): boolean {
+    if (frequency === 'weekly' && local.isoWeekday !== 1) {
+        return false;
+    }
+    return local.hour >= sendHour;
+}
+
+/**
+ * The rows whose sales rose and fell the most against the previous period.
+ */
+export function rankMovers(rows: DigestRow[], limit: number = DIGEST_MOVER_LIMIT): { gainers: DigestRow[]; losers: DigestRow[] } {
+    const salesChange = (row: DigestRow) => row.current.sales - row.previous.sales;
+    const sorted = [...rows].sort((a, b) => salesChange(b) - salesChange(a));
+    return {
+        gainers: sorted.filter(row => salesChange(row) > 0).slice(0, limit),
+        losers: sorted
+            .filter(row => salesChange(row) < 0)
+            .reverse()
+            .slice(0, limit),
+    };
+}
@@ -0,0 +1,270 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { and, count, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+import { db } from '@/db/index';
+import { advertiserAccount, alertChannel, campaign, digestReport, digestSubscription, performanceDaily, target } from '@/db/schema';
+import { sendEmailWithChannel } from '@/lib/alerts/channels';
+import { getBudgetExhaustions } from '@/lib/budget-pacing';
+import { calculateChange, deriveMetrics, type PerformanceTotals } from '@/lib/performance-query';
+import { utcNow } from '@/utils/date';
+import { getTimezoneForCountry } from '@/utils/timezones';
+import { type Digest, type DigestFrequency, type DigestMetrics, type DigestPeriod, type DigestRow, getDigestPeriod, isDigestDue } from './content';
+import { renderDigestCsvs, renderDigestHtml, renderDigestSubject, renderDigestText } from './render';
+
+export * from './content';
+export * from './render';
+
+/** Send attempts per subscription and period before the job stops retrying */
+export const MAX_DIGEST_ATTEMPTS = 3;
+
+type Subscription = typeof digestSubscription.$inferSelect;
+
+export type DigestSendSummary = {
+    subscriptions: number;
+    sent: number;
+    failed: number;
+};
+
+const EMPTY_TOTALS: PerformanceTotals = { impressions: 0, clicks: 0, spend: 0, sales: 0, orders: 0 };
+
+/**
+ * Build the digest an account receives on account-local `today`, from daily target performance and the
+ * synced campaign and target names.
+ */
+export async function buildDigest(accountId: string, countryCode: string, frequency: DigestFrequency, today: string): Promise<Digest> {
+    const period = getDigestPeriod(frequency, today);
+    const current = sql<boolean>`${performanceDaily.bucketDate} >= ${period.from}`;
+
+    const rows = await db
+        .select({
+            campaignId: performanceDaily.campaignId,
+            targetId: performanceDaily.entityId,
+            current,
+            impressions: sql<string>`COALESCE(SUM(${performanceDaily.impressions}), 0)::bigint`,
+            clicks: sql<string>`COALESCE(SUM(${performanceDaily.clicks}), 0)::bigint`,
+            spend: sql<string>`COALESCE(SUM(${performanceDaily.spend}), 0)`,
+            sales: sql<string>`COALESCE(SUM(${performanceDaily.sales}), 0)`,
+            orders: sql<string>`COALESCE(SUM(${performanceDaily.orders}), 0)::bigint`,
+        })
+        .from(performanceDaily)
+        .where(
+            and(
+                eq(performanceDaily.accountId, accountId),
+                eq(performanceDaily.entityType, 'target'),
+                gte(performanceDaily.bucketDate, period.previousFrom),
+                lte(performanceDaily.bucketDate, period.to)
+            )
+        )
+        .groupBy(performanceDaily.campaignId, performanceDaily.entityId, current);
+
+    const campaignTotals = new Map<string, { current: PerformanceTotals; previous: PerformanceTotals }>();
+    const targetTotals = new Map<string, { campaignId: string; current: PerformanceTotals; previous: PerformanceTotals }>();
+    for (const row of rows) {
+        const totals = { impressions: Number(row.impressions), clicks: Number(row.clicks), spend: Number(row.spend), sales: Number(row.sales), orders: Number(row.orders) };
+        const side = row.current ? 'current' : 'previous';
+
+        const campaignEntry = campaignTotals.get(row.campaignId) ?? { current: EMPTY_TOTALS, previous: EMPTY_TOTALS };
+        campaignEntry[side] = addTotals(campaignEntry[side], totals);
+        campaignTotals.set(row.campaignId, campaignEntry);
+
+        const targetEntry = targetTotals.get(row.targetId) ?? { campaignId: row.campaignId, current: EMPTY_TOTALS, previous: EMPTY_TOTALS };
+        targetEntry[side] = addTotals(targetEntry[side], totals);
+        targetTotals.set(row.targetId, targetEntry);
+    }
+
+    const [account, campaignNames, targetNames, budgetExhaustions] = await Promise.all([
+        db.query.advertiserAccount.findFirst({
+            where: and(eq(advertiserAccount.adsAccountId, accountId), eq(advertiserAccount.countryCode, countryCode)),
+            columns: { accountName: true },
+        }),
+        campaignTotals.size > 0
+            ? db
+                  .select({ id: campaign.campaignId, name: campaign.name })
+                  .from(campaign)
+                  .where(inArray(campaign.campaignId, [...campaignTotals.keys()]))
+            : Promise.resolve([]),
+        targetTotals.size > 0
+            ? db
+                  .select({ id: target.targetId, keyword: target.targetKeyword, asin: target.targetAsin, type: target.targetType })
+                  .from(target)
+                  .where(inArray(target.targetId, [...targetTotals.keys()]))
+            : Promise.resolve([]),
+        getBudgetExhaustions(accountId, countryCode, period.from, period.to),
+    ]);
+    const campaignNameById = new Map(campaignNames.map(row => [row.id, row.name]));
+    const targetNameById = new Map(targetNames.map(row => [row.id, row.keyword ?? row.asin ?? row.type]));
+
+    const campaigns: DigestRow[] = [...campaignTotals].map(([id, totals]) => ({
+        id,
+        name: campaignNameById.get(id) ?? id,
+        campaignName: null,
+        current: withDerived(totals.current),
+        previous: withDerived(totals.previous),
+    }));
+    const targets: DigestRow[] = [...targetTotals].map(([id, totals]) => ({
+        id,
+        name: targetNameById.get(id) ?? id,
+        campaignName: campaignNameById.get(totals.campaignId) ?? totals.campaignId,
+        current: withDerived(totals.current),
+        previous: withDerived(totals.previous),
+    }));
+
+    const totals = withDerived([...campaignTotals.values()].reduce((sum, entry) => addTotals(sum, entry.current), EMPTY_TOTALS));
+    const previousTotals = withDerived([...campaignTotals.values()].reduce((sum, entry) => addTotals(sum, entry.previous), EMPTY_TOTALS));
+
+    return {
+        accountId,
+        accountName: account?.accountName ?? accountId,
+        countryCode,
+        frequency,
+        period,
+        totals,
+        previousTotals,
+        change: calculateChange(totals, previousTotals),
+        campaigns,
+        targets,
+        budgetExhaustions,
+    };
+}
+
+/**
+ * Email a digest to a subscription's recipient and record the attempt in the digest history. Delivery
+ * errors are recorded rather than thrown.
+ */
+export async function sendDigest(subscription: Subscription, digest: Digest): Promise<typeof digestReport.$inferSelect> {
+    const subject = renderDigestSubject(digest);
+    const html = renderDigestHtml(digest);
+    const text = renderDigestText(digest);
+    const attachments = subscription.includeCsv ? renderDigestCsvs(digest) : [];
+
+    let error: string | null = null;
+    try {
+        const channel = await db.query.alertChannel.findFirst({ where: eq(alertChannel.id, subscription.channelId) });
+        if (channel?.type !== 'email') {
+            throw new Error(`Email channel ${subscription.channelId} not found`);
+        }
+        await sendEmailWithChannel(channel.config, { to: [subscription.recipient], subject, text, html, attachments });
+    } catch (sendError) {
+        error = sendError instanceof Error ? sendError.message : String(sendError);
+    }
+
+    const [report] = await db
+        .insert(digestReport)
+        .values({
+            subscriptionId: subscription.id,
+            accountId: subscription.accountId,
+            countryCode: subscription.countryCode,
+            recipient: subscription.recipient,
+            frequency: subscription.frequency,
+            periodFrom: digest.period.from,
+            periodTo: digest.period.to,
+            subject,
+            html,
+            text,
+            attachments: attachments.map(attachment => attachment.filename),
+            status: error ? 'failed' : 'sent',
+            error,
+        })
+        .returning();
+    if (!report) {
+        throw new Error(`Failed to record digest for subscription ${subscription.id}`);
+    }
+    return report;
+}
+
+/**
+ * Send every enabled subscription's digest that is due at `now` in its account's timezone and has not
+ * been sent for its period yet. A digest that fails to build or send is recorded as failed and retried on
+ * later runs up to MAX_DIGEST_ATTEMPTS times; the other subscriptions are still sent.
+ */
+export async function sendDueDigests(now: Date = utcNow()): Promise<DigestSendSummary> {
+    const subscriptions = await db.select().from(digestSubscription).where(eq(digestSubscription.enabled, true));
+    const summary: DigestSendSummary = { subscriptions: subscriptions.length, sent: 0, failed: 0 };
+    // Recipients of the same account and period share one digest
+    const digests = new Map<string, Promise<Digest>>();
+
+    for (const subscription of subscriptions) {
+        const frequency = subscription.frequency as DigestFrequency;
+        const timezone = getTimezoneForCountry(subscription.countryCode);
+        const local = { isoWeekday: Number(formatInTimeZone(now, timezone, 'i')), hour: Number(formatInTimeZone(now, timezone, 'H')) };
+        if (!isDigestDue(frequency, subscription.sendHour, local)) {
+            continue;
+        }
+
+        const today = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+        const period = getDigestPeriod(frequency, today);
+        const attempts = await db
+            .select({ status: digestReport.status, count: count() })
+            .from(digestReport)
+            .where(and(eq(digestReport.subscriptionId, subscription.id), eq(digestReport.periodTo, period.to)))
+            .groupBy(digestReport.status);
+        const sent = attempts.some(row => row.status === 'sent');
+        const failed = attempts.find(row => row.status === 'failed')?.count ?? 0;
+        if (sent || failed >= MAX_DIGEST_ATTEMPTS) {
+            continue;
+        }
+
+        const key = `${subscription.accountId}:${subscription.countryCode}:${frequency}:${today}`;
+        let digest = digests.get(key);
+        if (!digest) {
+            digest = buildDigest(subscription.accountId, subscription.countryCode, frequency, today);
+            digests.set(key, digest);
+        }
+        let report: typeof digestReport.$inferSelect;
+        try {
+            report = await sendDigest(subscription, await digest);
+        } catch (error) {
+            report = await recordDigestFailure(subscription, period, error);
+        }
+        summary[report.status === 'sent' ? 'sent' : 'failed'] += 1;
+    }
+
+    return summary;
+}
+
+/**
+ * Send a subscription's latest digest immediately, whether or not it is due or was already sent.
+ */
+export async function sendDigestNow(subscriptionId: string): Promise<typeof digestReport.$inferSelect> {
+    const subscription = await db.query.digestSubscription.findFirst({ where: eq(digestSubscription.id, subscriptionId) });
+    if (!subscription) {
+        throw new Error(`Digest subscription ${subscriptionId} not found`);
+    }
+    const today = formatInTimeZone(utcNow(), getTimezoneForCountry(subscription.countryCode), 'yyyy-MM-dd');
+    const digest = await buildDigest(subscription.accountId, subscription.countryCode, subscription.frequency as DigestFrequency, today);
+    return sendDigest(subscription, digest);
+}
+
+/**
+ * Record a failed attempt for a subscription whose digest could not be built, so it counts towards
+ * MAX_DIGEST_ATTEMPTS like a failed send.
+ */
+async function recordDigestFailure(subscription: Subscription, period: DigestPeriod, error: unknown): Promise<typeof digestReport.$inferSelect> {
+    const [report] = await db
+        .insert(digestReport)
+        .values({
+            subscriptionId: subscription.id,
+            accountId: subscription.accountId,
+            countryCode: subscription.countryCode,
+            recipient: subscription.recipient,
+            frequency: subscription.frequency,
+            periodFrom: period.from,
+            periodTo: period.to,
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+        })
+        .returning();
+    if (!report) {
+        throw new Error(`Failed to record digest for subscription ${subscription.id}`);
+    }
+    return report;
+}
+
+const addTotals = (a: PerformanceTotals, b: PerformanceTotals): PerformanceTotals => ({
+    impressions: a.impressions + b.impressions,
+    clicks: a.clicks + b.clicks,
+    spend: a.spend + b.spend,
+    sales: a.sales + b.sales,
+    orders: a.orders + b.orders,
+});
+
+const withDerived = (totals: PerformanceTotals): DigestMetrics => ({ ...totals, ...deriveMetrics(totals) });
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChange } from '@/lib/performance-query/comparison';
+import { deriveMetrics, type PerformanceTotals } from '@/lib/performance-query/derived-metrics';
+import type { Digest } from './content';
+import { renderDigestCsvs, renderDigestHtml, renderDigestSubject, renderDigestText } from './render';
+
+const metrics = (totals: PerformanceTotals) => ({ ...totals, ...deriveMetrics(totals) });
+
+const totals = metrics({ impressions: 2000, clicks: 80, spend: 40, sales: 200, orders: 8 });
+const previousTotals = metrics({ impressions: 1800, clicks: 70, spend: 50, sales: 160, orders: 6 });
+
+const digest: Digest = {
+    accountId: 'account-1',
+    accountName: 'Acme <Tools>',
+    countryCode: 'US',
+    frequency: 'daily',
+    period: { from: '2026-10-18', to: '2026-10-18', previousFrom: '2026-10-17', previousTo: '2026-10-17' },
+    totals,
+    previousTotals,
+    change: calculateChange(totals, previousTotals),
+    campaigns: [
+        {
+            id: 'c1',
+            name: 'Brand, exact',
+            campaignName: null,
+            current: metrics({ impressions: 2000, clicks: 80, spend: 40, sales: 200, orders: 8 }),
+            previous: metrics({ impressions: 1800, clicks: 70, spend: 50, sales: 160, orders: 6 }),
+        },
+    ],
+    targets: [
+        {
+            id: 't1',
+            name: 'hammer "pro"',
+            campaignName: 'Brand, exact',
+            current: metrics({ impressions: 500, clicks: 20, spend: 10, sales: 0, orders: 0 }),
+            previous: metrics({ impressions: 500, clicks: 20, spend: 10, sales: 45.5, orders: 2 }),
+        },
+    ],
+    budgetExhaustions: [{ campaignId: 'c1', campaignName: 'Brand, exact', date: '2026-10-18', exhaustedAtHour: 17.5 }],
+};
+
+describe('renderDigestText', () => {
+    it('lists totals with their change, movers and pacing issues', () => {
+        const text = renderDigestText(digest);
+
+        expect(renderDigestSubject(digest)).toBe('Daily digest for Acme <Tools> (US): 2026-10-18');
+        expect(text).toContain('Spend: $40.00 (-20.0% vs $50.00)');
+        expect(text).toContain('Sales: $200.00 (+25.0% vs $160.00)');
+        expect(text).toContain('Top gaining campaigns:\n  Brand, exact: sales $200.00 (+$40.00), spend $40.00');
+        expect(text).toContain('Top losing targets:\n  hammer "pro" (Brand, exact): sales $0.00 (-$45.50), spend $10.00');
+        expect(text).toContain('Brand, exact ran out of budget at 17:30 on 2026-10-18');
+    });
+});
+
+describe('renderDigestHtml', () => {
+    it('escapes names', () => {
+        const html = renderDigestHtml(digest);
+
+        expect(html).toContain('Acme &lt;Tools&gt; (US)');
+        expect(html).toContain('hammer &quot;pro&quot;');
+        expect(html).not.toContain('<Tools>');
+    });
+});
+
+describe('renderDigestCsvs', () => {
+    it('writes campaign and target rows with both periods', () => {
+        const [campaigns, targets] = renderDigestCsvs(digest);
+
+        expect(campaigns?.filename).toBe('campaigns_2026-10-18.csv');
+        expect(campaigns?.content.split('\r\n')).toEqual([
+            'campaign_id,campaign,impressions,clicks,spend,sales,orders,acos,previous_impressions,previous_clicks,previous_spend,previous_sales,previous_orders,previous_acos',
+            'c1,"Brand, exact",2000,80,40,200,8,20,1800,70,50,160,6,31.25',
+        ]);
+        expect(targets?.content.split('\r\n')[1]).toBe('t1,"hammer ""pro""","Brand, exact",500,20,10,0,0,0,500,20,10,45.50,2,21.98');
+    });
+});
@@ -0,0 +1,149 @@
+import type { MailAttachment } from '@/lib/alerts/channels/smtp';
+import { type Digest, type DigestMetrics, type DigestRow, rankMovers } from './content';
+
+const HEADLINE_METRICS = [
+    { key: 'spend', label: 'Spend', format: (value: number) => formatMoney(value) },
+    { key: 'sales', label: 'Sales', format: (value: number) => formatMoney(value) },
+    { key: 'acos', label: 'ACOS', format: (value: number) => `${value.toFixed(1)}%` },
+    { key: 'orders', label: 'Orders', format: (value: number) => value.toLocaleString('en-US') },
+] as const;
+
+export function renderDigestSubject(digest: Digest): string {
+    return `${digest.frequency === 'daily' ? 'Daily' : 'Weekly'} digest for ${digest.accountName} (${digest.countryCode}): ${periodLabel(digest)}`;
+}
+
+export function renderDigestText(digest: Digest): string {
+    const lines = [renderDigestSubject(digest), ''];
+
+    for (const metric of HEADLINE_METRICS) {
+        lines.push(`${metric.label}: ${metric.format(digest.totals[metric.key])} (${formatChange(digest.change[metric.key])} vs ${metric.format(digest.previousTotals[metric.key])})`);
+    }
+
+    for (const [title, rows] of moverSections(digest)) {
+        lines.push('', `${title}:`);
+        if (rows.length === 0) {
+            lines.push('  None');
+        }
+        for (const row of rows) {
+            lines.push(`  ${rowLabel(row)}: sales ${formatMoney(row.current.sales)} (${formatSignedMoney(row.current.sales - row.previous.sales)}), spend ${formatMoney(row.current.spend)}`);
+        }
+    }
+
+    lines.push('', 'Pacing issues:');
+    if (digest.budgetExhaustions.length === 0) {
+        lines.push('  No campaign ran out of budget');
+    }
+    for (const exhaustion of digest.budgetExhaustions) {
+        lines.push(`  ${exhaustion.campaignName ?? exhaustion.campaignId} ran out of budget at ${formatHour(exhaustion.exhaustedAtHour)} on ${exhaustion.date}`);
+    }
+
+    return lines.join('\n');
+}
+
+export function renderDigestHtml(digest: Digest): string {
+    const cell = 'padding:6px 10px;border-bottom:1px solid #e5e7eb;';
+    const headline = HEADLINE_METRICS.map(
+        metric => `<td style="padding:10px 14px;">
+<div style="font-size:12px;color:#6b7280;">${metric.label}</div>
+<div style="font-size:20px;font-weight:600;">${escapeHtml(metric.format(digest.totals[metric.key]))}</div>
+<div style="font-size:12px;color:${changeColor(digest.change[metric.key], metric.key === 'acos')};">${escapeHtml(formatChange(digest.change[metric.key]))} vs ${escapeHtml(metric.format(digest.previousTotals[metric.key]))}</div>
+</td>`
+    ).join('');
+
+    const sections = moverSections(digest)
+        .map(([title, rows]) => {
+            const body =
+                rows.length === 0
+                    ? `<tr><td style="${cell}color:#6b7280;" colspan="4">None</td></tr>`
+                    : rows
+                          .map(
+                              row => `<tr>
+<td style="${cell}">${escapeHtml(row.name)}${row.campaignName ? `<div style="font-size:11px;color:#6b7280;">${escapeHtml(row.campaignName)}</div>` : ''}</td>
+<td style="${cell}text-align:right;">${formatMoney(row.current.sales)}</td>
+<td style="${cell}text-align:right;color:${changeColor(row.current.sales - row.previous.sales)};">${formatSignedMoney(row.current.sales - row.previous.sales)}</td>
+<td style="${cell}text-align:right;">${formatMoney(row.current.spend)}</td>
+</tr>`
+                          )
+                          .join('');
+            return `<h3 style="font-size:14px;margin:24px 0 8px;">${title}</h3>
+<table style="border-collapse:collapse;width:100%;font-size:13px;">
+<tr style="color:#6b7280;font-size:11px;text-align:left;"><th style="${cell}">Name</th><th style="${cell}text-align:right;">Sales</th><th style="${cell}text-align:right;">Change</th><th style="${cell}text-align:right;">Spend</th></tr>
+${body}
+</table>`;
+        })
+        .join('\n');
+
+    const pacing =
+        digest.budgetExhaustions.length === 0
+            ? '<p style="color:#6b7280;font-size:13px;">No campaign ran out of budget.</p>'
+            : `<ul style="font-size:13px;padding-left:18px;">${digest.budgetExhaustions
+                  .map(exhaustion => `<li>${escapeHtml(exhaustion.campaignName ?? exhaustion.campaignId)} ran out of budget at ${formatHour(exhaustion.exhaustedAtHour)} on ${exhaustion.date}</li>`)
+                  .join('')}</ul>`;
+
+    return `<!doctype html>
+<html>
+<body style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#111827;max-width:680px;margin:0 auto;padding:16px;">
+<h2 style="font-size:18px;margin:0 0 4px;">${escapeHtml(digest.accountName)} (${escapeHtml(digest.countryCode)})</h2>
+<div style="font-size:13px;color:#6b7280;">${digest.frequency === 'daily' ? 'Daily' : 'Weekly'} digest for ${periodLabel(digest)}, compared with ${previousPeriodLabel(digest)}</div>
+<table style="border-collapse:collapse;margin-top:16px;"><tr>${headline}</tr></table>
+${sections}
+<h3 style="font-size:14px;margin:24px 0 8px;">Pacing issues</h3>
+${pacing}
+</body>
+</html>`;
+}
+
+/**
+ * Every campaign and target in the digest with both periods' metrics, one CSV each.
+ */
+export function renderDigestCsvs(digest: Digest): MailAttachment[] {
+    const suffix = digest.period.from === digest.period.to ? digest.period.to : `${digest.period.from}_${digest.period.to}`;
+    return [
+        { filename: `campaigns_${suffix}.csv`, contentType: 'text/csv', content: toCsv(['campaign_id', 'campaign'], digest.campaigns, row => [row.id, row.name]) },
+        { filename: `targets_${suffix}.csv`, contentType: 'text/csv', content: toCsv(['target_id', 'target', 'campaign'], digest.targets, row => [row.id, row.name, row.campaignName ?? '']) },
+    ];
+}
+
+const CSV_METRICS = ['impressions', 'clicks', 'spend', 'sales', 'orders', 'acos'] as const satisfies readonly (keyof DigestMetrics)[];
+
+function toCsv(columns: string[], rows: DigestRow[], identify: (row: DigestRow) => string[]): string {
+    const header = [...columns, ...CSV_METRICS, ...CSV_METRICS.map(metric => `previous_${metric}`)];
+    const lines = rows.map(row => [...identify(row), ...CSV_METRICS.map(metric => formatCsvNumber(row.current[metric])), ...CSV_METRICS.map(metric => formatCsvNumber(row.previous[metric]))]);
+    return [header, ...lines].map(line => line.map(escapeCsv).join(',')).join('\r\n');
+}
+
+function moverSections(digest: Digest): [string, DigestRow[]][] {
+    const campaigns = rankMovers(digest.campaigns);
+    const targets = rankMovers(digest.targets);
+    return [
+        ['Top gaining campaigns', campaigns.gainers],
+        ['Top losing campaigns', campaigns.losers],
+        ['Top gaining targets', targets.gainers],
+        ['Top losing targets', targets.losers],
+    ];
+}
+
+const periodLabel = (digest: Digest) => (digest.period.from === digest.period.to ? digest.period.to : `${digest.period.from} to ${digest.period.to}`);
+const previousPeriodLabel = (digest: Digest) => (digest.period.previousFrom === digest.period.previousTo ? digest.period.previousTo : `${digest.period.previousFrom} to ${digest.period.previousTo}`);
+
+const rowLabel = (row: DigestRow) => (row.campaignName ? `${row.name} (${row.campaignName})` : row.name);
+
+const formatMoney = (value: number) => `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatSignedMoney = (value: number) => `${value < 0 ? '-' : '+'}${formatMoney(Math.abs(value))}`;
+const formatChange = (change: number | null) => (change === null ? 'n/a' : `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`);
+const formatHour = (hour: number) => {
+    const minutes = Math.round(hour * 60);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+const formatCsvNumber = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(2));
+
+// A rising ACOS is bad news, so its colors are inverted
+const changeColor = (change: number | null, inverted = false) => {
+    if (change === null || change === 0) {
+        return '#6b7280';
+    }
+    return change > 0 !== inverted ? '#047857' : '#b91c1c';
+};
+
+const escapeHtml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
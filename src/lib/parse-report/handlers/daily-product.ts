@@ -1,73 +1,129 @@
-import { promisify } from 'node:util';
-import { gunzip } from 'node:zlib';
-import { z } from 'zod';
+import { sql } from 'drizzle-orm';
 import { dailyReportRowSchema } from '@/config/reports/daily-product';
 import { db } from '@/db/index';
 import { performanceDaily } from '@/db/schema';
+import { PROVENANCE_FROM_EXCLUDED, REPORT_ATTRIBUTION, reportWritePrecedence } from '@/lib/performance-source';
 import { getTimezoneForCountry } from '@/utils/timezones';
 import { parseDailyTimestamp } from '../utils/parse-period-start-timestamp';
+import { ReportProgress } from '../utils/report-progress';
+import { streamReportRows } from '../utils/stream-report-rows';
 import type { ParseReportInput, ParseReportOutput } from './input';
 
-const gunzipAsync = promisify(gunzip);
-
 export async function handleDailyProduct(input: ParseReportInput): Promise<ParseReportOutput> {
     const timezone = getTimezoneForCountry(input.countryCode);
 
-    const response = await fetch(input.reportUrl, {
-        signal: AbortSignal.timeout(60000),
-    });
+    // Keys already written by this parse, so later batches add to them instead of overwriting
+    const writtenKeys = new Set<string>();
 
-    if (!response.ok) {
-        throw new Error(`Failed to download report: ${response.status} ${response.statusText}`);
-    }
+    // Set progress upfront so progress bar starts at 0%
+    const progress = await ReportProgress.start(input);
+
+    for await (const batch of streamReportRows(input.reportUrls, dailyReportRowSchema)) {
+        // Product rows are broken down by target, so the same ASIN appears once per matching target
+        // under an ad. Rows are summed per (day, ad, ASIN) to keep each upsert batch free of duplicate keys.
+        const valuesByKey = new Map<string, typeof performanceDaily.$inferInsert>();
+        for (const rowError of batch.errors) {
+            progress.recordError(rowError);
+        }
 
-    const compressedData = await response.arrayBuffer();
-    const decompressedData = await gunzipAsync(Buffer.from(compressedData));
-    const rawJson = JSON.parse(decompressedData.toString());
+        for (const row of batch.rows) {
+            let bucketStart: Date | undefined;
+            try {
+                const timestamp = parseDailyTimestamp(row['date.value'], timezone);
+                bucketStart = timestamp.bucketStart;
 
-    const rows = z.array(dailyReportRowSchema).parse(rawJson);
+                // For product reports, entityId is the advertised product ID (ASIN)
+                const asin = row['advertisedProduct.id'].trim();
+                if (!asin) {
+                    throw new Error(`Advertised product ID is empty for ad ${row['ad.id']}`);
+                }
 
-    let insertedCount = 0;
-    for (const row of rows) {
-        // For product reports, entityId is the advertised product ID
-        const entityId = row['advertisedProduct.id'];
-        const dateValue = row['date.value'];
-        const { bucketStart, bucketDate } = parseDailyTimestamp(dateValue, timezone);
+                progress.recordSuccess(bucketStart);
+                const key = `${timestamp.bucketDate}|${row['ad.id']}|${asin}`;
+                const existing = valuesByKey.get(key);
+                if (existing) {
+                    existing.impressions = (existing.impressions ?? 0) + row['metric.impressions'];
+                    existing.clicks = (existing.clicks ?? 0) + row['metric.clicks'];
+                    existing.spend = String(Number(existing.spend) + row['metric.totalCost']);
+                    existing.sales = String(Number(existing.sales) + row['metric.sales']);
+                    existing.orders = (existing.orders ?? 0) + row['metric.purchases'];
+                    continue;
+                }
 
-        await db
-            .insert(performanceDaily)
-            .values({
-                accountId: input.accountId,
-                bucketStart,
-                bucketDate,
-                campaignId: row['campaign.id'],
-                adGroupId: row['adGroup.id'],
-                adId: row['ad.id'],
-                entityType: input.reportConfig.entityType,
-                entityId,
-                targetMatchType: null,
-                impressions: row['metric.impressions'],
-                clicks: row['metric.clicks'],
-                spend: String(row['metric.totalCost']),
-                sales: String(row['metric.sales']),
-                orders: row['metric.purchases'],
-            })
-            .onConflictDoUpdate({
-                target: [performanceDaily.accountId, performanceDaily.bucketDate, performanceDaily.adId, performanceDaily.entityType, performanceDaily.entityId],
-                set: {
+                valuesByKey.set(key, {
+                    accountId: input.accountId,
+                    bucketStart,
+                    bucketDate: timestamp.bucketDate,
                     campaignId: row['campaign.id'],
                     adGroupId: row['adGroup.id'],
+                    adId: row['ad.id'],
+                    entityType: 'asin',
+                    entityId: asin,
                     targetMatchType: null,
                     impressions: row['metric.impressions'],
                     clicks: row['metric.clicks'],
                     spend: String(row['metric.totalCost']),
                     sales: String(row['metric.sales']),
                     orders: row['metric.purchases'],
-                },
-            });
+                    source: 'report',
+                    reportId: input.reportId,
+                    sourceAsOf: input.reportCreatedAt,
+                    ...REPORT_ATTRIBUTION,
+                });
+            } catch (error) {
+                progress.recordError(
+                    {
+                        row: row as unknown as Record<string, unknown>,
+                        error: error instanceof Error ? error.message : String(error),
+                    },
+                    bucketStart
+                );
+            }
+        }
+
+        const newValues: (typeof performanceDaily.$inferInsert)[] = [];
+        const repeatedValues: (typeof performanceDaily.$inferInsert)[] = [];
+        for (const [key, value] of valuesByKey) {
+            (writtenKeys.has(key) ? repeatedValues : newValues).push(value);
+            writtenKeys.add(key);
+        }
+
+        await upsertValues(newValues, 'replace');
+        await upsertValues(repeatedValues, 'accumulate');
 
-        insertedCount++;
+        await progress.flush();
     }
 
-    return { rowsProcessed: insertedCount, successCount: insertedCount, errorCount: rows.length - insertedCount };
+    return progress.summary();
+}
+
+/**
+ * Upserts performance rows. 'replace' overwrites metrics from an earlier parse of the report;
+ * 'accumulate' adds to rows already written by an earlier batch of this parse.
+ */
+async function upsertValues(values: (typeof performanceDaily.$inferInsert)[], mode: 'replace' | 'accumulate') {
+    if (values.length === 0) {
+        return;
+    }
+
+    const metric = (column: string) => (mode === 'replace' ? sql.raw(`excluded.${column}`) : sql.raw(`performance_daily.${column} + excluded.${column}`));
+
+    await db
+        .insert(performanceDaily)
+        .values(values)
+        .onConflictDoUpdate({
+            target: [performanceDaily.accountId, performanceDaily.bucketDate, performanceDaily.adId, performanceDaily.entityType, performanceDaily.entityId, performanceDaily.matchedTargetId],
+            set: {
+                campaignId: sql`excluded.campaign_id`,
+                adGroupId: sql`excluded.ad_group_id`,
+                targetMatchType: sql`excluded.target_match_type`,
+                impressions: metric('impressions'),
+                clicks: metric('clicks'),
+                spend: metric('spend'),
+                sales: metric('sales'),
+                orders: metric('orders'),
+                ...PROVENANCE_FROM_EXCLUDED,
+            },
+            setWhere: reportWritePrecedence(performanceDaily),
+        });
 }
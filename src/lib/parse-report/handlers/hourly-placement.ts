@@ -0,0 +1,119 @@
+import { sql } from 'drizzle-orm';
+import { hourlyPlacementReportRowSchema } from '@/config/reports/hourly-placement';
+import { db } from '@/db/index';
+import { performancePlacementHourly } from '@/db/schema';
+import { PROVENANCE_FROM_EXCLUDED, REPORT_ATTRIBUTION, reportWritePrecedence } from '@/lib/performance-source';
+import { normalizePlacement } from '@/lib/placement';
+import { getTimezoneForCountry } from '@/utils/timezones';
+import { normalizeHourlyValue, parseHourlyTimestamp } from '../utils/parse-period-start-timestamp';
+import { ReportProgress } from '../utils/report-progress';
+import { streamReportRows } from '../utils/stream-report-rows';
+import type { ParseReportInput, ParseReportOutput } from './input';
+
+export async function handleHourlyPlacement(input: ParseReportInput): Promise<ParseReportOutput> {
+    const timezone = getTimezoneForCountry(input.countryCode);
+
+    // Keys already written by this parse, so later batches add to them instead of overwriting
+    const writtenKeys = new Set<string>();
+
+    // Set progress upfront so progress bar starts at 0%
+    const progress = await ReportProgress.start(input);
+
+    for await (const batch of streamReportRows(input.reportUrls, hourlyPlacementReportRowSchema)) {
+        // Several report placements can map to 'other', so rows are summed per (hour, campaign, placement)
+        const valuesByKey = new Map<string, typeof performancePlacementHourly.$inferInsert>();
+        for (const rowError of batch.errors) {
+            progress.recordError(rowError);
+        }
+
+        for (const row of batch.rows) {
+            let bucketStart: Date | undefined;
+            try {
+                const normalizedHourValue = normalizeHourlyValue(row['hour.value'], row['date.value']);
+                const timestamp = parseHourlyTimestamp(normalizedHourValue, timezone);
+                bucketStart = timestamp.bucketStart;
+                const placement = normalizePlacement(row['placement.value']);
+
+                progress.recordSuccess(bucketStart);
+                const key = `${bucketStart.toISOString()}|${row['campaign.id']}|${placement}`;
+                const existing = valuesByKey.get(key);
+                if (existing) {
+                    existing.impressions = (existing.impressions ?? 0) + row['metric.impressions'];
+                    existing.clicks = (existing.clicks ?? 0) + row['metric.clicks'];
+                    existing.spend = String(Number(existing.spend) + row['metric.totalCost']);
+                    existing.sales = String(Number(existing.sales) + row['metric.sales']);
+                    existing.orders = (existing.orders ?? 0) + row['metric.purchases'];
+                    continue;
+                }
+
+                valuesByKey.set(key, {
+                    accountId: input.accountId,
+                    bucketStart,
+                    bucketDate: timestamp.bucketDate,
+                    bucketHour: timestamp.bucketHour,
+                    campaignId: row['campaign.id'],
+                    placement,
+                    impressions: row['metric.impressions'],
+                    clicks: row['metric.clicks'],
+                    spend: String(row['metric.totalCost']),
+                    sales: String(row['metric.sales']),
+                    orders: row['metric.purchases'],
+                    source: 'report',
+                    reportId: input.reportId,
+                    sourceAsOf: input.reportCreatedAt,
+                    ...REPORT_ATTRIBUTION,
+                });
+            } catch (error) {
+                progress.recordError(
+                    {
+                        row: row as unknown as Record<string, unknown>,
+                        error: error instanceof Error ? error.message : String(error),
+                    },
+                    bucketStart
+                );
+            }
+        }
+
+        const newValues: (typeof performancePlacementHourly.$inferInsert)[] = [];
+        const repeatedValues: (typeof performancePlacementHourly.$inferInsert)[] = [];
+        for (const [key, value] of valuesByKey) {
+            (writtenKeys.has(key) ? repeatedValues : newValues).push(value);
+            writtenKeys.add(key);
+        }
+
+        await upsertValues(newValues, 'replace');
+        await upsertValues(repeatedValues, 'accumulate');
+
+        await progress.flush();
+    }
+
+    return progress.summary();
+}
+
+/**
+ * Upserts placement rows. 'replace' overwrites metrics from an earlier parse of the report;
+ * 'accumulate' adds to rows already written by an earlier batch of this parse.
+ */
+async function upsertValues(values: (typeof performancePlacementHourly.$inferInsert)[], mode: 'replace' | 'accumulate') {
+    if (values.length === 0) {
+        return;
+    }
+
+    const metric = (column: string) => (mode === 'replace' ? sql.raw(`excluded.${column}`) : sql.raw(`performance_placement_hourly.${column} + excluded.${column}`));
+
+    await db
+        .insert(performancePlacementHourly)
+        .values(values)
+        .onConflictDoUpdate({
+            target: [performancePlacementHourly.accountId, performancePlacementHourly.bucketStart, performancePlacementHourly.campaignId, performancePlacementHourly.placement],
+            set: {
+                impressions: metric('impressions'),
+                clicks: metric('clicks'),
+                spend: metric('spend'),
+                sales: metric('sales'),
+                orders: metric('orders'),
+                ...PROVENANCE_FROM_EXCLUDED,
+            },
+            setWhere: reportWritePrecedence(performancePlacementHourly),
+        });
+}
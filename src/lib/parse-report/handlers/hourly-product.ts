@@ -1,74 +1,138 @@
-import { promisify } from 'node:util';
-import { gunzip } from 'node:zlib';
-import { z } from 'zod';
+import { sql } from 'drizzle-orm';
 import { hourlyReportRowSchema } from '@/config/reports/hourly-product';
 import { db } from '@/db/index';
 import { performanceHourly } from '@/db/schema';
+import { PROVENANCE_FROM_EXCLUDED, REPORT_ATTRIBUTION, reportWritePrecedence } from '@/lib/performance-source';
 import { getTimezoneForCountry } from '@/utils/timezones';
 import { normalizeHourlyValue, parseHourlyTimestamp } from '../utils/parse-period-start-timestamp';
+import { ReportProgress } from '../utils/report-progress';
+import { streamReportRows } from '../utils/stream-report-rows';
 import type { ParseReportInput, ParseReportOutput } from './input';
 
-const gunzipAsync = promisify(gunzip);
-
 export async function handleHourlyProduct(input: ParseReportInput): Promise<ParseReportOutput> {
+    const startTime = performance.now();
+    console.log(`[handleHourlyProduct] Starting for report ${input.reportUid} (${input.reportUrls.length} parts)`);
+
     const timezone = getTimezoneForCountry(input.countryCode);
 
-    const response = await fetch(input.reportUrl, {
-        signal: AbortSignal.timeout(60000),
-    });
+    // Keys already written by this parse, so later batches add to them instead of overwriting
+    const writtenKeys = new Set<string>();
 
-    if (!response.ok) {
-        throw new Error(`Failed to download report: ${response.status} ${response.statusText}`);
-    }
+    // Set progress upfront so progress bar starts at 0%
+    const progress = await ReportProgress.start(input);
+
+    for await (const batch of streamReportRows(input.reportUrls, hourlyReportRowSchema)) {
+        // Product rows are broken down by target, so the same ASIN appears once per matching target
+        // under an ad. Rows are summed per (hour, ad, ASIN) to keep each upsert batch free of duplicate keys.
+        const valuesByKey = new Map<string, typeof performanceHourly.$inferInsert>();
+        for (const rowError of batch.errors) {
+            progress.recordError(rowError);
+        }
 
-    const compressedData = await response.arrayBuffer();
-    const decompressedData = await gunzipAsync(Buffer.from(compressedData));
-    const rawJson = JSON.parse(decompressedData.toString());
-
-    const rows = z.array(hourlyReportRowSchema).parse(rawJson);
-
-    let insertedCount = 0;
-    for (const row of rows) {
-        // For product reports, entityId is the advertised product ID
-        const entityId = row['advertisedProduct.id'];
-        const normalizedHourValue = normalizeHourlyValue(row['hour.value'], row['date.value']);
-        const { bucketStart, bucketDate, bucketHour } = parseHourlyTimestamp(normalizedHourValue, timezone);
-
-        await db
-            .insert(performanceHourly)
-            .values({
-                accountId: input.accountId,
-                bucketStart,
-                bucketDate,
-                bucketHour,
-                campaignId: row['campaign.id'],
-                adGroupId: row['adGroup.id'],
-                adId: row['ad.id'],
-                entityType: input.reportConfig.entityType,
-                entityId,
-                targetMatchType: null,
-                impressions: row['metric.impressions'],
-                clicks: row['metric.clicks'],
-                spend: String(row['metric.totalCost']),
-                sales: String(row['metric.sales']),
-                orders: row['metric.purchases'],
-            })
-            .onConflictDoUpdate({
-                target: [performanceHourly.accountId, performanceHourly.bucketStart, performanceHourly.adId, performanceHourly.entityType, performanceHourly.entityId],
-                set: {
+        for (const row of batch.rows) {
+            let bucketStart: Date | undefined;
+            try {
+                const normalizedHourValue = normalizeHourlyValue(row['hour.value'], row['date.value']);
+                const timestamp = parseHourlyTimestamp(normalizedHourValue, timezone);
+                bucketStart = timestamp.bucketStart;
+
+                // For product reports, entityId is the advertised product ID (ASIN)
+                const asin = row['advertisedProduct.id'].trim();
+                if (!asin) {
+                    throw new Error(`Advertised product ID is empty for ad ${row['ad.id']}`);
+                }
+
+                progress.recordSuccess(bucketStart);
+                const key = `${bucketStart.toISOString()}|${row['ad.id']}|${asin}`;
+                const existing = valuesByKey.get(key);
+                if (existing) {
+                    existing.impressions = (existing.impressions ?? 0) + row['metric.impressions'];
+                    existing.clicks = (existing.clicks ?? 0) + row['metric.clicks'];
+                    existing.spend = String(Number(existing.spend) + row['metric.totalCost']);
+                    existing.sales = String(Number(existing.sales) + row['metric.sales']);
+                    existing.orders = (existing.orders ?? 0) + row['metric.purchases'];
+                    continue;
+                }
+
+                valuesByKey.set(key, {
+                    accountId: input.accountId,
+                    bucketStart,
+                    bucketDate: timestamp.bucketDate,
+                    bucketHour: timestamp.bucketHour,
                     campaignId: row['campaign.id'],
                     adGroupId: row['adGroup.id'],
+                    adId: row['ad.id'],
+                    entityType: 'asin',
+                    entityId: asin,
                     targetMatchType: null,
                     impressions: row['metric.impressions'],
                     clicks: row['metric.clicks'],
                     spend: String(row['metric.totalCost']),
                     sales: String(row['metric.sales']),
                     orders: row['metric.purchases'],
-                },
-            });
+                    source: 'report',
+                    reportId: input.reportId,
+                    sourceAsOf: input.reportCreatedAt,
+                    ...REPORT_ATTRIBUTION,
+                });
+            } catch (error) {
+                progress.recordError(
+                    {
+                        row: row as unknown as Record<string, unknown>,
+                        error: error instanceof Error ? error.message : String(error),
+                    },
+                    bucketStart
+                );
+            }
+        }
+
+        const newValues: (typeof performanceHourly.$inferInsert)[] = [];
+        const repeatedValues: (typeof performanceHourly.$inferInsert)[] = [];
+        for (const [key, value] of valuesByKey) {
+            (writtenKeys.has(key) ? repeatedValues : newValues).push(value);
+            writtenKeys.add(key);
+        }
 
-        insertedCount++;
+        await upsertValues(newValues, 'replace');
+        await upsertValues(repeatedValues, 'accumulate');
+
+        await progress.flush();
     }
 
-    return { rowsProcessed: insertedCount, successCount: insertedCount, errorCount: rows.length - insertedCount };
+    const { successCount, errorCount, rowsProcessed } = progress.summary();
+    const totalTime = performance.now() - startTime;
+    console.log(`[handleHourlyProduct] Total time: ${totalTime.toFixed(2)}ms (${rowsProcessed} rows, ${successCount} processed, ${errorCount} errors)`);
+
+    return { successCount, errorCount, rowsProcessed };
+}
+
+/**
+ * Upserts performance rows. 'replace' overwrites metrics from an earlier parse of the report;
+ * 'accumulate' adds to rows already written by an earlier batch of this parse.
+ */
+async function upsertValues(values: (typeof performanceHourly.$inferInsert)[], mode: 'replace' | 'accumulate') {
+    if (values.length === 0) {
+        return;
+    }
+
+    const metric = (column: string) => (mode === 'replace' ? sql.raw(`excluded.${column}`) : sql.raw(`performance_hourly.${column} + excluded.${column}`));
+
+    await db
+        .insert(performanceHourly)
+        .values(values)
+        .onConflictDoUpdate({
+            target: [performanceHourly.accountId, performanceHourly.bucketStart, performanceHourly.adId, performanceHourly.entityType, performanceHourly.entityId, performanceHourly.matchedTargetId],
+            set: {
+                campaignId: sql`excluded.campaign_id`,
+                adGroupId: sql`excluded.ad_group_id`,
+                targetMatchType: sql`excluded.target_match_type`,
+                impressions: metric('impressions'),
+                clicks: metric('clicks'),
+                spend: metric('spend'),
+                sales: metric('sales'),
+                orders: metric('orders'),
+                ...PROVENANCE_FROM_EXCLUDED,
+            },
+            setWhere: reportWritePrecedence(performanceHourly),
+        });
 }
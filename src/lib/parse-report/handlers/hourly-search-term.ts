@@ -0,0 +1,136 @@
+import { sql } from 'drizzle-orm';
+import { hourlySearchTermReportRowSchema } from '@/config/reports/hourly-search-term';
+import { db } from '@/db/index';
+import { performanceHourly } from '@/db/schema';
+import { PROVENANCE_FROM_EXCLUDED, REPORT_ATTRIBUTION, reportWritePrecedence } from '@/lib/performance-source';
+import { getTimezoneForCountry } from '@/utils/timezones';
+import { normalizeHourlyValue, parseHourlyTimestamp } from '../utils/parse-period-start-timestamp';
+import { ReportProgress } from '../utils/report-progress';
+import { streamReportRows } from '../utils/stream-report-rows';
+import { TargetCache } from '../utils/target-cache';
+import type { ParseReportInput, ParseReportOutput } from './input';
+
+export async function handleHourlySearchTerm(input: ParseReportInput): Promise<ParseReportOutput> {
+    const timezone = getTimezoneForCountry(input.countryCode);
+
+    // Keys already written by this parse, so later batches add to them instead of overwriting
+    const writtenKeys = new Set<string>();
+
+    // Set progress upfront so progress bar starts at 0%
+    const progress = await ReportProgress.start(input);
+
+    for await (const batch of streamReportRows(input.reportUrls, hourlySearchTermReportRowSchema)) {
+        const uniqueAdGroupIds = [...new Set(batch.rows.map(r => r['adGroup.id']))];
+        const targetCache = await TargetCache.build(uniqueAdGroupIds);
+
+        // The same search term can match several targets under one ad, so rows are keyed
+        // per (hour, ad, matched target, search term). Repeated keys are summed to keep each
+        // upsert batch free of duplicates.
+        const valuesByKey = new Map<string, typeof performanceHourly.$inferInsert>();
+        for (const rowError of batch.errors) {
+            progress.recordError(rowError);
+        }
+
+        for (const row of batch.rows) {
+            let bucketStart: Date | undefined;
+            try {
+                const normalizedHourValue = normalizeHourlyValue(row['hour.value'], row['date.value']);
+                const timestamp = parseHourlyTimestamp(normalizedHourValue, timezone);
+                bucketStart = timestamp.bucketStart;
+                const searchTerm = row['searchTerm.value'].trim();
+                if (!searchTerm) {
+                    throw new Error(`Search term is empty for target "${row['target.value']}" (${row['target.matchType']})`);
+                }
+                const matchedTargetId = targetCache.getTargetId(row['adGroup.id'], row['target.value'], row['target.matchType']);
+
+                progress.recordSuccess(bucketStart);
+                const key = `${bucketStart.toISOString()}|${row['ad.id']}|${matchedTargetId}|${searchTerm}`;
+                const existing = valuesByKey.get(key);
+                if (existing) {
+                    existing.impressions = (existing.impressions ?? 0) + row['metric.impressions'];
+                    existing.clicks = (existing.clicks ?? 0) + row['metric.clicks'];
+                    existing.spend = String(Number(existing.spend) + row['metric.totalCost']);
+                    existing.sales = String(Number(existing.sales) + row['metric.sales']);
+                    existing.orders = (existing.orders ?? 0) + row['metric.purchases'];
+                    continue;
+                }
+
+                valuesByKey.set(key, {
+                    accountId: input.accountId,
+                    bucketStart,
+                    bucketDate: timestamp.bucketDate,
+                    bucketHour: timestamp.bucketHour,
+                    campaignId: row['campaign.id'],
+                    adGroupId: row['adGroup.id'],
+                    adId: row['ad.id'],
+                    entityType: 'search_term',
+                    entityId: searchTerm,
+                    matchedTargetId,
+                    targetMatchType: row['target.matchType'],
+                    impressions: row['metric.impressions'],
+                    clicks: row['metric.clicks'],
+                    spend: String(row['metric.totalCost']),
+                    sales: String(row['metric.sales']),
+                    orders: row['metric.purchases'],
+                    source: 'report',
+                    reportId: input.reportId,
+                    sourceAsOf: input.reportCreatedAt,
+                    ...REPORT_ATTRIBUTION,
+                });
+            } catch (error) {
+                progress.recordError(
+                    {
+                        row: row as unknown as Record<string, unknown>,
+                        error: error instanceof Error ? error.message : String(error),
+                    },
+                    bucketStart
+                );
+            }
+        }
+
+        const newValues: (typeof performanceHourly.$inferInsert)[] = [];
+        const repeatedValues: (typeof performanceHourly.$inferInsert)[] = [];
+        for (const [key, value] of valuesByKey) {
+            (writtenKeys.has(key) ? repeatedValues : newValues).push(value);
+            writtenKeys.add(key);
+        }
+
+        await upsertValues(newValues, 'replace');
+        await upsertValues(repeatedValues, 'accumulate');
+
+        await progress.flush();
+    }
+
+    return progress.summary();
+}
+
+/**
+ * Upserts performance rows. 'replace' overwrites metrics from an earlier parse of the report;
+ * 'accumulate' adds to rows already written by an earlier batch of this parse.
+ */
+async function upsertValues(values: (typeof performanceHourly.$inferInsert)[], mode: 'replace' | 'accumulate') {
+    if (values.length === 0) {
+        return;
+    }
+
+    const metric = (column: string) => (mode === 'replace' ? sql.raw(`excluded.${column}`) : sql.raw(`performance_hourly.${column} + excluded.${column}`));
+
+    await db
+        .insert(performanceHourly)
+        .values(values)
+        .onConflictDoUpdate({
+            target: [performanceHourly.accountId, performanceHourly.bucketStart, performanceHourly.adId, performanceHourly.entityType, performanceHourly.entityId, performanceHourly.matchedTargetId],
+            set: {
+                campaignId: sql`excluded.campaign_id`,
+                adGroupId: sql`excluded.ad_group_id`,
+                targetMatchType: sql`excluded.target_match_type`,
+                impressions: metric('impressions'),
+                clicks: metric('clicks'),
+                spend: metric('spend'),
+                sales: metric('sales'),
+                orders: metric('orders'),
+                ...PROVENANCE_FROM_EXCLUDED,
+            },
+            setWhere: reportWritePrecedence(performanceHourly),
+        });
+}
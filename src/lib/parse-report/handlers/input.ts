@@ -1,12 +1,25 @@
 import type { ReportConfig } from '@/types/reports';
 
+/** A dataset bucket covered by the report being parsed */
+export type ReportBucket = {
+    uid: string;
+    periodStart: Date;
+};
+
 export type ParseReportInput = {
     reportUid: string;
+    /** Amazon Ads report being parsed, recorded on every row it writes */
+    reportId: string;
+    /** When the report was requested (UTC); rows are only replaced by data captured later */
+    reportCreatedAt: Date;
     accountId: string;
     periodStart: Date;
     reportConfig: ReportConfig;
     countryCode: string;
-    reportUrl: string;
+    /** Download URLs for every completed report part */
+    reportUrls: string[];
+    /** Every bucket sharing this report (multi-period reports cover several), including reportUid's */
+    buckets: ReportBucket[];
 };
 
 export type ParseReportOutput = {
@@ -0,0 +1,129 @@
+import { sql } from 'drizzle-orm';
+import { monthlyReportRowSchema } from '@/config/reports/monthly-product';
+import { db } from '@/db/index';
+import { performanceMonthly } from '@/db/schema';
+import { getTimezoneForCountry } from '@/utils/timezones';
+import { parseMonthlyTimestamp } from '../utils/parse-period-start-timestamp';
+import { ReportProgress } from '../utils/report-progress';
+import { streamReportRows } from '../utils/stream-report-rows';
+import type { ParseReportInput, ParseReportOutput } from './input';
+
+export async function handleMonthlyProduct(input: ParseReportInput): Promise<ParseReportOutput> {
+    const timezone = getTimezoneForCountry(input.countryCode);
+
+    // Keys already written by this parse, so later batches add to them instead of overwriting
+    const writtenKeys = new Set<string>();
+
+    // Set progress upfront so progress bar starts at 0%
+    const progress = await ReportProgress.start(input);
+
+    for await (const batch of streamReportRows(input.reportUrls, monthlyReportRowSchema)) {
+        // Product rows are broken down by target, so the same ASIN appears once per matching target
+        // under an ad. Rows are summed per (month, ad, ASIN) to keep each upsert batch free of duplicate keys.
+        const valuesByKey = new Map<string, typeof performanceMonthly.$inferInsert>();
+        for (const rowError of batch.errors) {
+            progress.recordError(rowError);
+        }
+
+        for (const row of batch.rows) {
+            let bucketStart: Date | undefined;
+            try {
+                const timestamp = parseMonthlyTimestamp(row['month.value'], timezone);
+                bucketStart = timestamp.bucketStart;
+
+                // For product reports, entityId is the advertised product ID (ASIN)
+                const asin = row['advertisedProduct.id'].trim();
+                if (!asin) {
+                    throw new Error(`Advertised product ID is empty for ad ${row['ad.id']}`);
+                }
+
+                progress.recordSuccess(bucketStart);
+                const key = `${timestamp.bucketMonth}|${row['ad.id']}|${asin}`;
+                const existing = valuesByKey.get(key);
+                if (existing) {
+                    existing.impressions = (existing.impressions ?? 0) + row['metric.impressions'];
+                    existing.clicks = (existing.clicks ?? 0) + row['metric.clicks'];
+                    existing.spend = String(Number(existing.spend) + row['metric.totalCost']);
+                    existing.sales = String(Number(existing.sales) + row['metric.sales']);
+                    existing.orders = (existing.orders ?? 0) + row['metric.purchases'];
+                    continue;
+                }
+
+                valuesByKey.set(key, {
+                    accountId: input.accountId,
+                    bucketStart,
+                    bucketMonth: timestamp.bucketMonth,
+                    campaignId: row['campaign.id'],
+                    adGroupId: row['adGroup.id'],
+                    adId: row['ad.id'],
+                    entityType: 'asin',
+                    entityId: asin,
+                    targetMatchType: null,
+                    impressions: row['metric.impressions'],
+                    clicks: row['metric.clicks'],
+                    spend: String(row['metric.totalCost']),
+                    sales: String(row['metric.sales']),
+                    orders: row['metric.purchases'],
+                });
+            } catch (error) {
+                progress.recordError(
+                    {
+                        row: row as unknown as Record<string, unknown>,
+                        error: error instanceof Error ? error.message : String(error),
+                    },
+                    bucketStart
+                );
+            }
+        }
+
+        const newValues: (typeof performanceMonthly.$inferInsert)[] = [];
+        const repeatedValues: (typeof performanceMonthly.$inferInsert)[] = [];
+        for (const [key, value] of valuesByKey) {
+            (writtenKeys.has(key) ? repeatedValues : newValues).push(value);
+            writtenKeys.add(key);
+        }
+
+        await upsertValues(newValues, 'replace');
+        await upsertValues(repeatedValues, 'accumulate');
+
+        await progress.flush();
+    }
+
+    return progress.summary();
+}
+
+/**
+ * Upserts performance rows. 'replace' overwrites metrics from an earlier parse of the report;
+ * 'accumulate' adds to rows already written by an earlier batch of this parse.
+ */
+async function upsertValues(values: (typeof performanceMonthly.$inferInsert)[], mode: 'replace' | 'accumulate') {
+    if (values.length === 0) {
+        return;
+    }
+
+    const metric = (column: string) => (mode === 'replace' ? sql.raw(`excluded.${column}`) : sql.raw(`performance_monthly.${column} + excluded.${column}`));
+
+    await db
+        .insert(performanceMonthly)
+        .values(values)
+        .onConflictDoUpdate({
+            target: [
+                performanceMonthly.accountId,
+                performanceMonthly.bucketMonth,
+                performanceMonthly.adId,
+                performanceMonthly.entityType,
+                performanceMonthly.entityId,
+                performanceMonthly.matchedTargetId,
+            ],
+            set: {
+                campaignId: sql`excluded.campaign_id`,
+                adGroupId: sql`excluded.ad_group_id`,
+                targetMatchType: sql`excluded.target_match_type`,
+                impressions: metric('impressions'),
+                clicks: metric('clicks'),
+                spend: metric('spend'),
+                sales: metric('sales'),
+                orders: metric('orders'),
+            },
+        });
+}
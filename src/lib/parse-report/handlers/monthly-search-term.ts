@@ -0,0 +1,134 @@
+import { sql } from 'drizzle-orm';
+import { monthlySearchTermReportRowSchema } from '@/config/reports/monthly-search-term';
+import { db } from '@/db/index';
+import { performanceMonthly } from '@/db/schema';
+import { getTimezoneForCountry } from '@/utils/timezones';
+import { parseMonthlyTimestamp } from '../utils/parse-period-start-timestamp';
+import { ReportProgress } from '../utils/report-progress';
+import { streamReportRows } from '../utils/stream-report-rows';
+import { TargetCache } from '../utils/target-cache';
+import type { ParseReportInput, ParseReportOutput } from './input';
+
+export async function handleMonthlySearchTerm(input: ParseReportInput): Promise<ParseReportOutput> {
+    const timezone = getTimezoneForCountry(input.countryCode);
+
+    // Keys already written by this parse, so later batches add to them instead of overwriting
+    const writtenKeys = new Set<string>();
+
+    // Set progress upfront so progress bar starts at 0%
+    const progress = await ReportProgress.start(input);
+
+    for await (const batch of streamReportRows(input.reportUrls, monthlySearchTermReportRowSchema)) {
+        const uniqueAdGroupIds = [...new Set(batch.rows.map(r => r['adGroup.id']))];
+        const targetCache = await TargetCache.build(uniqueAdGroupIds);
+
+        // The same search term can match several targets under one ad, so rows are keyed
+        // per (month, ad, matched target, search term). Repeated keys are summed to keep each
+        // upsert batch free of duplicates.
+        const valuesByKey = new Map<string, typeof performanceMonthly.$inferInsert>();
+        for (const rowError of batch.errors) {
+            progress.recordError(rowError);
+        }
+
+        for (const row of batch.rows) {
+            let bucketStart: Date | undefined;
+            try {
+                const timestamp = parseMonthlyTimestamp(row['month.value'], timezone);
+                bucketStart = timestamp.bucketStart;
+                const searchTerm = row['searchTerm.value'].trim();
+                if (!searchTerm) {
+                    throw new Error(`Search term is empty for target "${row['target.value']}" (${row['target.matchType']})`);
+                }
+                const matchedTargetId = targetCache.getTargetId(row['adGroup.id'], row['target.value'], row['target.matchType']);
+
+                progress.recordSuccess(bucketStart);
+                const key = `${timestamp.bucketMonth}|${row['ad.id']}|${matchedTargetId}|${searchTerm}`;
+                const existing = valuesByKey.get(key);
+                if (existing) {
+                    existing.impressions = (existing.impressions ?? 0) + row['metric.impressions'];
+                    existing.clicks = (existing.clicks ?? 0) + row['metric.clicks'];
+                    existing.spend = String(Number(existing.spend) + row['metric.totalCost']);
+                    existing.sales = String(Number(existing.sales) + row['metric.sales']);
+                    existing.orders = (existing.orders ?? 0) + row['metric.purchases'];
+                    continue;
+                }
+
+                valuesByKey.set(key, {
+                    accountId: input.accountId,
+                    bucketStart,
+                    bucketMonth: timestamp.bucketMonth,
+                    campaignId: row['campaign.id'],
+                    adGroupId: row['adGroup.id'],
+                    adId: row['ad.id'],
+                    entityType: 'search_term',
+                    entityId: searchTerm,
+                    matchedTargetId,
+                    targetMatchType: row['target.matchType'],
+                    impressions: row['metric.impressions'],
+                    clicks: row['metric.clicks'],
+                    spend: String(row['metric.totalCost']),
+                    sales: String(row['metric.sales']),
+                    orders: row['metric.purchases'],
+                });
+            } catch (error) {
+                progress.recordError(
+                    {
+                        row: row as unknown as Record<string, unknown>,
+                        error: error instanceof Error ? error.message : String(error),
+                    },
+                    bucketStart
+                );
+            }
+        }
+
+        const newValues: (typeof performanceMonthly.$inferInsert)[] = [];
+        const repeatedValues: (typeof performanceMonthly.$inferInsert)[] = [];
+        for (const [key, value] of valuesByKey) {
+            (writtenKeys.has(key) ? repeatedValues : newValues).push(value);
+            writtenKeys.add(key);
+        }
+
+        await upsertValues(newValues, 'replace');
+        await upsertValues(repeatedValues, 'accumulate');
+
+        await progress.flush();
+    }
+
+    return progress.summary();
+}
+
+/**
+ * Upserts performance rows. 'replace' overwrites metrics from an earlier parse of the report;
+ * 'accumulate' adds to rows already written by an earlier batch of this parse.
+ */
+async function upsertValues(values: (typeof performanceMonthly.$inferInsert)[], mode: 'replace' | 'accumulate') {
+    if (values.length === 0) {
+        return;
+    }
+
+    const metric = (column: string) => (mode === 'replace' ? sql.raw(`excluded.${column}`) : sql.raw(`performance_monthly.${column} + excluded.${column}`));
+
+    await db
+        .insert(performanceMonthly)
+        .values(values)
+        .onConflictDoUpdate({
+            target: [
+                performanceMonthly.accountId,
+                performanceMonthly.bucketMonth,
+                performanceMonthly.adId,
+                performanceMonthly.entityType,
+                performanceMonthly.entityId,
+                performanceMonthly.matchedTargetId,
+            ],
+            set: {
+                campaignId: sql`excluded.campaign_id`,
+                adGroupId: sql`excluded.ad_group_id`,
+                targetMatchType: sql`excluded.target_match_type`,
+                impressions: metric('impressions'),
+                clicks: metric('clicks'),
+                spend: metric('spend'),
+                sales: metric('sales'),
+                orders: metric('orders'),
+            },
+        });
+}
@@ -0,0 +1,90 @@
+import { sql } from 'drizzle-orm';
+import { monthlyReportRowSchema } from '@/config/reports/monthly-target';
+import { db } from '@/db/index';
+import { performanceMonthly } from '@/db/schema';
+import { getTimezoneForCountry } from '@/utils/timezones';
+import { parseMonthlyTimestamp } from '../utils/parse-period-start-timestamp';
+import { ReportProgress } from '../utils/report-progress';
+import { streamReportRows } from '../utils/stream-report-rows';
+import { TargetCache } from '../utils/target-cache';
+import type { ParseReportInput, ParseReportOutput } from './input';
+
+export async function handleMonthlyTarget(input: ParseReportInput): Promise<ParseReportOutput> {
+    const timezone = getTimezoneForCountry(input.countryCode);
+
+    // Set progress upfront so progress bar starts at 0%
+    const progress = await ReportProgress.start(input);
+
+    for await (const batch of streamReportRows(input.reportUrls, monthlyReportRowSchema)) {
+        const uniqueAdGroupIds = [...new Set(batch.rows.map(r => r['adGroup.id']))];
+        const targetCache = await TargetCache.build(uniqueAdGroupIds);
+
+        const valuesToInsert: (typeof performanceMonthly.$inferInsert)[] = [];
+        for (const rowError of batch.errors) {
+            progress.recordError(rowError);
+        }
+
+        for (const row of batch.rows) {
+            let bucketStart: Date | undefined;
+            try {
+                const timestamp = parseMonthlyTimestamp(row['month.value'], timezone);
+                bucketStart = timestamp.bucketStart;
+                const entityId = targetCache.getTargetId(row['adGroup.id'], row['target.value'], row['target.matchType']);
+
+                valuesToInsert.push({
+                    accountId: input.accountId,
+                    bucketStart,
+                    bucketMonth: timestamp.bucketMonth,
+                    campaignId: row['campaign.id'],
+                    adGroupId: row['adGroup.id'],
+                    adId: row['ad.id'],
+                    entityType: input.reportConfig.entityType,
+                    entityId,
+                    impressions: row['metric.impressions'],
+                    clicks: row['metric.clicks'],
+                    spend: String(row['metric.totalCost']),
+                    sales: String(row['metric.sales']),
+                    orders: row['metric.purchases'],
+                });
+                progress.recordSuccess(bucketStart);
+            } catch (error) {
+                progress.recordError(
+                    {
+                        row: row as unknown as Record<string, unknown>,
+                        error: error instanceof Error ? error.message : String(error),
+                    },
+                    bucketStart
+                );
+            }
+        }
+
+        if (valuesToInsert.length > 0) {
+            await db
+                .insert(performanceMonthly)
+                .values(valuesToInsert)
+                .onConflictDoUpdate({
+                    target: [
+                        performanceMonthly.accountId,
+                        performanceMonthly.bucketMonth,
+                        performanceMonthly.adId,
+                        performanceMonthly.entityType,
+                        performanceMonthly.entityId,
+                        performanceMonthly.matchedTargetId,
+                    ],
+                    set: {
+                        campaignId: sql`excluded.campaign_id`,
+                        adGroupId: sql`excluded.ad_group_id`,
+                        impressions: sql`excluded.impressions`,
+                        clicks: sql`excluded.clicks`,
+                        spend: sql`excluded.spend`,
+                        sales: sql`excluded.sales`,
+                        orders: sql`excluded.orders`,
+                    },
+                });
+        }
+
+        await progress.flush();
+    }
+
+    return progress.summary();
+}
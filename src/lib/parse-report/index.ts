@@ -1,12 +1,27 @@
+import { fromZonedTime } from 'date-fns-tz';
 import { eq, type InferSelectModel } from 'drizzle-orm';
-import { reportConfigs } from '@/config/reports/configs';
+import { getReportConfig } from '@/config/reports/configs';
 import { db } from '@/db';
 import { reportDatasetMetadata } from '@/db/schema';
+import type { AggregationType, EntityType } from '@/types/reports';
+import { getTimezoneForCountry } from '@/utils/timezones';
+import { getAccountRegion } from '../account-region';
+import { findDatasetsSharingReport } from '../create-report/report-batches';
+import { handleAnnualProduct } from './handlers/annual-product';
+import { handleAnnualSearchTerm } from './handlers/annual-search-term';
+import { handleAnnualTarget } from './handlers/annual-target';
+import { handleDailyPlacement } from './handlers/daily-placement';
 import { handleDailyProduct } from './handlers/daily-product';
+import { handleDailySearchTerm } from './handlers/daily-search-term';
 import { handleDailyTarget } from './handlers/daily-target';
+import { handleHourlyPlacement } from './handlers/hourly-placement';
 import { handleHourlyProduct } from './handlers/hourly-product';
+import { handleHourlySearchTerm } from './handlers/hourly-search-term';
 import { handleHourlyTarget } from './handlers/hourly-target';
 import type { ParseReportInput, ParseReportOutput } from './handlers/input';
+import { handleMonthlyProduct } from './handlers/monthly-product';
+import { handleMonthlySearchTerm } from './handlers/monthly-search-term';
+import { handleMonthlyTarget } from './handlers/monthly-target';
 import { validateReportReady } from './validate-report-ready';
 
 export async function parseReport(reportUid: InferSelectModel<typeof reportDatasetMetadata>['uid']): Promise<ParseReportOutput> {
@@ -23,20 +38,28 @@ export async function parseReport(reportUid: InferSelectModel<typeof reportDatas
     }
 
     // Validate report is ready to be processed
-    const reportUrl = await validateReportReady(reportMetadata.reportId);
+    const region = await getAccountRegion(reportMetadata.accountId, reportMetadata.countryCode);
+    const reportUrls = await validateReportReady(reportMetadata.reportId, region);
 
     // Farm out processing to the appropriate handler
-    const aggregation = reportMetadata.aggregation as 'hourly' | 'daily';
-    const entityType = reportMetadata.entityType as 'target' | 'product';
-    const reportConfig = reportConfigs[aggregation][entityType];
+    const aggregation = reportMetadata.aggregation as AggregationType;
+    const entityType = reportMetadata.entityType as EntityType;
+    const reportConfig = getReportConfig(aggregation, entityType);
+
+    // Multi-period reports are shared by every bucket they cover; rows are split back per bucket
+    const buckets = await findDatasetsSharingReport(reportMetadata);
 
     const input: ParseReportInput = {
         reportUid: reportMetadata.uid,
+        reportId: reportMetadata.reportId,
+        // lastReportCreatedAt is stored as account-local wall time
+        reportCreatedAt: reportMetadata.lastReportCreatedAt ? fromZonedTime(reportMetadata.lastReportCreatedAt, getTimezoneForCountry(reportMetadata.countryCode)) : new Date(),
         accountId: reportMetadata.accountId,
         periodStart: reportMetadata.periodStart,
         countryCode: reportMetadata.countryCode,
         reportConfig,
-        reportUrl,
+        reportUrls,
+        buckets: buckets.map(bucket => ({ uid: bucket.uid, periodStart: bucket.periodStart })),
     };
 
     switch (`${aggregation}-${entityType}`) {
@@ -48,6 +71,26 @@ export async function parseReport(reportUid: InferSelectModel<typeof reportDatas
             return handleHourlyProduct(input);
         case 'daily-product':
             return handleDailyProduct(input);
+        case 'hourly-searchTerm':
+            return handleHourlySearchTerm(input);
+        case 'daily-searchTerm':
+            return handleDailySearchTerm(input);
+        case 'hourly-placement':
+            return handleHourlyPlacement(input);
+        case 'daily-placement':
+            return handleDailyPlacement(input);
+        case 'monthly-target':
+            return handleMonthlyTarget(input);
+        case 'monthly-product':
+            return handleMonthlyProduct(input);
+        case 'monthly-searchTerm':
+            return handleMonthlySearchTerm(input);
+        case 'annual-target':
+            return handleAnnualTarget(input);
+        case 'annual-product':
+            return handleAnnualProduct(input);
+        case 'annual-searchTerm':
+            return handleAnnualSearchTerm(input);
     }
 
     throw new Error(`No handler found for aggregation: ${aggregation}, entityType: ${entityType}`);
@@ -44,6 +44,34 @@ export function parseDailyTimestamp(dateValue: string, timezone: string): { buck
     return { bucketStart, bucketDate };
 }
 
+/**
+ * Parses month.value ('YYYY-MM' or any date within the month) into the month's bucket.
+ */
+export function parseMonthlyTimestamp(monthValue: string, timezone: string): { bucketStart: Date; bucketMonth: string } {
+    const match = monthValue.match(/^(\d{4})-(\d{2})/);
+    if (!match) {
+        throw new Error(`Invalid month.value format: ${monthValue}`);
+    }
+
+    const bucketMonth = `${match[1]}-${match[2]}-01`;
+    const { bucketStart } = parseDailyTimestamp(bucketMonth, timezone);
+    return { bucketStart, bucketMonth };
+}
+
+/**
+ * Parses year.value ('YYYY' or any date within the year) into the year's bucket.
+ */
+export function parseAnnualTimestamp(yearValue: string, timezone: string): { bucketStart: Date; bucketYear: number } {
+    const match = yearValue.match(/^(\d{4})/);
+    if (!match) {
+        throw new Error(`Invalid year.value format: ${yearValue}`);
+    }
+
+    const bucketYear = parseInt(match[1], 10);
+    const { bucketStart } = parseDailyTimestamp(`${match[1]}-01-01`, timezone);
+    return { bucketStart, bucketYear };
+}
+
 export function normalizeHourlyValue(hourValue: string, dateValue?: string): string {
     if (hourValue.includes('T')) {
         return hourValue;
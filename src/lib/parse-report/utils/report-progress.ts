@@ -0,0 +1,118 @@
+import { eq } from 'drizzle-orm';
+import { db } from '@/db/index';
+import { reportDatasetErrorMetrics, reportDatasetMetadata } from '@/db/schema';
+import { emitEvent } from '@/utils/events';
+import type { ParseReportInput, ParseReportOutput } from '../handlers/input';
+import type { ReportRowError } from './stream-report-rows';
+
+type BucketCounts = {
+    totalRecords: number;
+    successRecords: number;
+    errorRecords: number;
+};
+
+/**
+ * Tracks parse progress and error rows for every dataset bucket covered by a report.
+ *
+ * A multi-period report holds rows for several buckets, so each row is attributed to the bucket
+ * whose periodStart matches the row's bucket start. Rows matching no bucket (schema errors, or hours
+ * outside the batch in a day-wide hourly report) are attributed to the bucket being parsed.
+ */
+export class ReportProgress {
+    private readonly uidsByPeriodStart: Map<number, string>;
+    private readonly counts = new Map<string, BucketCounts>();
+    private readonly dirtyUids = new Set<string>();
+    private pendingErrors: Array<ReportRowError & { uid: string }> = [];
+
+    private constructor(private readonly input: ParseReportInput) {
+        this.uidsByPeriodStart = new Map(input.buckets.map(bucket => [bucket.periodStart.getTime(), bucket.uid]));
+        for (const uid of [input.reportUid, ...input.buckets.map(bucket => bucket.uid)]) {
+            this.counts.set(uid, { totalRecords: 0, successRecords: 0, errorRecords: 0 });
+            this.dirtyUids.add(uid);
+        }
+    }
+
+    /**
+     * Starts tracking a parse, resetting progress on every bucket so progress bars start at 0%.
+     */
+    static async start(input: ParseReportInput): Promise<ReportProgress> {
+        const progress = new ReportProgress(input);
+        await progress.flush();
+        return progress;
+    }
+
+    recordSuccess(bucketStart: Date): void {
+        const counts = this.countsFor(bucketStart);
+        counts.totalRecords += 1;
+        counts.successRecords += 1;
+    }
+
+    recordError(rowError: ReportRowError, bucketStart?: Date): void {
+        const counts = this.countsFor(bucketStart);
+        counts.totalRecords += 1;
+        counts.errorRecords += 1;
+        this.pendingErrors.push({ ...rowError, uid: this.uidFor(bucketStart) });
+    }
+
+    /**
+     * Writes queued error rows and the progress of every bucket touched since the last flush.
+     */
+    async flush(): Promise<void> {
+        if (this.pendingErrors.length > 0) {
+            await db.insert(reportDatasetErrorMetrics).values(
+                this.pendingErrors.map(e => ({
+                    reportDatasetMetadataId: e.uid,
+                    row: e.row,
+                    error: e.error,
+                }))
+            );
+            this.pendingErrors = [];
+        }
+
+        for (const uid of this.dirtyUids) {
+            const counts = this.counts.get(uid);
+            const [updatedRow] = await db
+                .update(reportDatasetMetadata)
+                .set({ ...counts })
+                .where(eq(reportDatasetMetadata.uid, uid))
+                .returning();
+            if (updatedRow) {
+                emitEvent({
+                    type: 'report:refreshed',
+                    row: updatedRow,
+                });
+            }
+        }
+        this.dirtyUids.clear();
+    }
+
+    /**
+     * Totals across every bucket of the report.
+     */
+    summary(): ParseReportOutput {
+        let successCount = 0;
+        let errorCount = 0;
+        let rowsProcessed = 0;
+        for (const counts of this.counts.values()) {
+            successCount += counts.successRecords;
+            errorCount += counts.errorRecords;
+            rowsProcessed += counts.totalRecords;
+        }
+        return { successCount, errorCount, rowsProcessed };
+    }
+
+    private uidFor(bucketStart?: Date): string {
+        return (bucketStart && this.uidsByPeriodStart.get(bucketStart.getTime())) ?? this.input.reportUid;
+    }
+
+    private countsFor(bucketStart?: Date): BucketCounts {
+        const uid = this.uidFor(bucketStart);
+        this.dirtyUids.add(uid);
+        let counts = this.counts.get(uid);
+        if (!counts) {
+            counts = { totalRecords: 0, successRecords: 0, errorRecords: 0 };
+            this.counts.set(uid, counts);
+        }
+        return counts;
+    }
+}
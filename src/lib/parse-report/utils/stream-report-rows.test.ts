@@ -0,0 +1,92 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { gzipSync } from 'node:zlib';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { parseJsonValues, streamReportRows } from '@/lib/parse-report/utils/stream-report-rows';
+
+const rowSchema = z.object({
+    'campaign.id': z.coerce.string(),
+    'target.value': z.string(),
+    'metric.clicks': z.number(),
+});
+
+async function* chunked(text: string, size: number): AsyncGenerator<string> {
+    for (let i = 0; i < text.length; i += size) {
+        yield text.slice(i, i + size);
+    }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+    const values: T[] = [];
+    for await (const value of iterable) {
+        values.push(value);
+    }
+    return values;
+}
+
+describe('parseJsonValues', () => {
+    it('splits a top-level array regardless of chunk boundaries', async () => {
+        const rows = [{ 'target.value': 'asin="B0[1]"', note: 'quote \\" and } brace' }, { nested: { list: [1, [2]] } }, {}];
+        const json = JSON.stringify(rows);
+
+        for (const size of [1, 3, 7, json.length]) {
+            expect(await collect(parseJsonValues(chunked(json, size)))).toEqual(rows);
+        }
+    });
+
+    it('accepts newline-delimited objects', async () => {
+        const ndjson = '{"a":1}\n{"a":2}\n';
+        expect(await collect(parseJsonValues(chunked(ndjson, 4)))).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+
+    it('rejects a truncated document', async () => {
+        await expect(collect(parseJsonValues(chunked('[{"a":1},{"a":', 5)))).rejects.toThrow('ended in the middle of a value');
+    });
+});
+
+describe('streamReportRows', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    const parts: Record<string, unknown[]> = {
+        '/part-1.json.gz': [
+            { 'campaign.id': 1, 'target.value': 'mug', 'metric.clicks': 3 },
+            { 'campaign.id': 2, 'target.value': 'cup', 'metric.clicks': 'not-a-number' },
+            { 'campaign.id': 3, 'target.value': 'tea', 'metric.clicks': 1 },
+        ],
+        '/part-2.json.gz': [{ 'campaign.id': 4, 'target.value': 'pot', 'metric.clicks': 0 }],
+    };
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            const rows = parts[req.url ?? ''];
+            if (!rows) {
+                res.writeHead(404).end();
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'application/octet-stream' }).end(gzipSync(JSON.stringify(rows)));
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    it('walks every report part and batches rows across part boundaries', async () => {
+        const batches = await collect(streamReportRows([`${baseUrl}/part-1.json.gz`, `${baseUrl}/part-2.json.gz`], rowSchema, 2));
+
+        expect(batches.map(b => b.rows.length + b.errors.length)).toEqual([2, 2]);
+        expect(batches.flatMap(b => b.rows.map(r => r['campaign.id']))).toEqual(['1', '3', '4']);
+
+        const errors = batches.flatMap(b => b.errors);
+        expect(errors).toHaveLength(1);
+        expect(errors[0]?.row).toMatchObject({ 'campaign.id': 2 });
+    });
+
+    it('fails when a part cannot be downloaded', async () => {
+        await expect(collect(streamReportRows([`${baseUrl}/part-1.json.gz`, `${baseUrl}/missing.json.gz`], rowSchema))).rejects.toThrow('Failed to download report part 2 of 2');
+    });
+});
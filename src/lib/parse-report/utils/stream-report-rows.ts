@@ -0,0 +1,142 @@
+import { Readable } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { createGunzip } from 'node:zlib';
+import type { z } from 'zod';
+
+export const REPORT_BATCH_SIZE = 1000;
+
+// Large daily reports stream straight into upserts, so the download stays open while batches are written
+const DOWNLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type ReportRowError = {
+    row: Record<string, unknown>;
+    error: string;
+};
+
+export type ReportRowBatch<T> = {
+    /** Rows that passed schema validation */
+    rows: T[];
+    /** Rows that failed schema validation, ready for reportDatasetErrorMetrics */
+    errors: ReportRowError[];
+};
+
+/**
+ * Streams every part of a completed GZIP_JSON report and yields validated rows in batches.
+ *
+ * Each part is downloaded, gunzipped and split into top-level JSON values incrementally, so
+ * memory stays bounded by the batch size rather than the report size. Rows failing the schema
+ * are yielded as errors instead of failing the whole report.
+ */
+export async function* streamReportRows<T extends z.ZodTypeAny>(reportUrls: string[], rowSchema: T, batchSize = REPORT_BATCH_SIZE): AsyncGenerator<ReportRowBatch<z.infer<T>>> {
+    let batch: ReportRowBatch<z.infer<T>> = { rows: [], errors: [] };
+
+    for (const [partIndex, reportUrl] of reportUrls.entries()) {
+        const response = await fetch(reportUrl, {
+            signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+        });
+
+        if (!response.ok || !response.body) {
+            throw new Error(`Failed to download report part ${partIndex + 1} of ${reportUrls.length}: ${response.status} ${response.statusText}`);
+        }
+
+        const text = Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>)
+            .pipe(createGunzip())
+            .setEncoding('utf8');
+
+        for await (const value of parseJsonValues(text)) {
+            const result = rowSchema.safeParse(value);
+            if (result.success) {
+                batch.rows.push(result.data);
+            } else {
+                batch.errors.push({
+                    row: (value ?? {}) as Record<string, unknown>,
+                    error: result.error.message,
+                });
+            }
+
+            if (batch.rows.length + batch.errors.length >= batchSize) {
+                yield batch;
+                batch = { rows: [], errors: [] };
+            }
+        }
+    }
+
+    if (batch.rows.length + batch.errors.length > 0) {
+        yield batch;
+    }
+}
+
+/**
+ * Incrementally splits a JSON document into its top-level values.
+ * Accepts either a single top-level array (yields each element) or concatenated /
+ * newline-delimited values (yields each value).
+ */
+export async function* parseJsonValues(chunks: AsyncIterable<string>): AsyncGenerator<unknown> {
+    let buffer = '';
+    let valueStart = -1;
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    // Depth at which values live: 1 inside a wrapping array, 0 for concatenated values
+    let valueDepth: number | null = null;
+
+    for await (const chunk of chunks) {
+        const offset = buffer.length;
+        buffer += chunk;
+
+        for (let i = offset; i < buffer.length; i++) {
+            const char = buffer[i];
+
+            if (inString) {
+                if (escaped) {
+                    escaped = false;
+                } else if (char === '\\') {
+                    escaped = true;
+                } else if (char === '"') {
+                    inString = false;
+                }
+                continue;
+            }
+
+            if (valueDepth === null) {
+                if (char === '[') {
+                    valueDepth = 1;
+                    depth = 1;
+                    continue;
+                }
+                if (char === '{') {
+                    valueDepth = 0;
+                } else {
+                    continue;
+                }
+            }
+
+            if (char === '"') {
+                inString = true;
+            } else if (char === '{' || char === '[') {
+                if (depth === valueDepth) {
+                    valueStart = i;
+                }
+                depth++;
+            } else if (char === '}' || char === ']') {
+                depth--;
+                if (depth === valueDepth && valueStart !== -1) {
+                    yield JSON.parse(buffer.slice(valueStart, i + 1));
+                    valueStart = -1;
+                }
+            }
+        }
+
+        // Drop everything already consumed so the buffer only holds the value in progress
+        if (valueStart === -1) {
+            buffer = '';
+        } else if (valueStart > 0) {
+            buffer = buffer.slice(valueStart);
+            valueStart = 0;
+        }
+    }
+
+    if (valueStart !== -1 || inString) {
+        throw new Error('Report JSON ended in the middle of a value');
+    }
+}
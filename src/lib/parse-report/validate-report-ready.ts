@@ -1,12 +1,13 @@
+import type { ApiRegion } from '@/amazon-ads/config';
 import { retrieveReport } from '@/amazon-ads/retrieve-report';
 
-export async function validateReportReady(reportId: string): Promise<string> {
+export async function validateReportReady(reportId: string, region: ApiRegion): Promise<string[]> {
     // Retrieve report and validate it's ready
     const retrieveResponse = await retrieveReport(
         {
             reportIds: [reportId],
         },
-        'na'
+        region
     );
 
     const report = retrieveResponse.success?.[0]?.report;
@@ -18,18 +19,16 @@ export async function validateReportReady(reportId: string): Promise<string> {
         throw new Error(`Report is not ready. Current status: ${report.status}`);
     }
 
-    // Extract URL from completedReportParts array (even if there's only 1 part)
-    let reportUrl: string | null | undefined;
+    // Collect URLs from every completed part; large reports are split across several files
+    let reportUrls: string[];
     if (report.completedReportParts && report.completedReportParts.length > 0) {
-        reportUrl = report.completedReportParts[0].url;
-    } else {
+        reportUrls = report.completedReportParts.map(part => part.url);
+    } else if (report.url) {
         // Fallback to legacy url field for backward compatibility
-        reportUrl = report.url;
-    }
-
-    if (!reportUrl) {
+        reportUrls = [report.url];
+    } else {
         throw new Error('No URL found in report');
     }
 
-    return reportUrl;
+    return reportUrls;
 }
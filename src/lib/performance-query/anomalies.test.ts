@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/db/index', () => ({ db: {} }));
+
+const { detectAnomalies } = await import('@/lib/performance-query/anomalies');
+
+const hour = (clicks: number) => ({ impressions: clicks * 50, clicks, spend: clicks * 0.5, sales: 0, orders: 0 });
+
+describe('detectAnomalies', () => {
+    const baseline = Array.from({ length: 28 }, (_, index) => hour(10 + (index % 3)));
+
+    it('flags a value far outside the same-hour baseline', () => {
+        const anomalies = detectAnomalies(hour(40), baseline);
+
+        expect(anomalies.map(anomaly => anomaly.metric)).toEqual(['impressions', 'clicks', 'spend']);
+        expect(anomalies[0]?.zScore).toBeGreaterThan(3);
+    });
+
+    it('leaves values within the usual range unflagged', () => {
+        expect(detectAnomalies(hour(11), baseline)).toEqual([]);
+    });
+
+    it('skips sparse baselines', () => {
+        const sparse = Array.from({ length: 28 }, (_, index) => (index < 3 ? hour(10) : hour(0)));
+
+        expect(detectAnomalies(hour(40), sparse)).toEqual([]);
+    });
+});
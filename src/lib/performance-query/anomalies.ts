@@ -0,0 +1,106 @@
+import { format, parseISO, subDays } from 'date-fns';
+import { type SQL, sql } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import { db } from '@/db/index';
+import { performanceHourly } from '@/db/schema';
+import type { PerformanceTotals } from './derived-metrics';
+
+/** Trailing days of the same hour a value is compared against */
+export const ANOMALY_BASELINE_DAYS = 28;
+
+/** Absolute z-score at which a value is flagged */
+export const ANOMALY_Z_THRESHOLD = 3;
+
+/** Fewer non-zero baseline days than this is too sparse to call anything unusual */
+const MIN_ACTIVE_BASELINE_DAYS = 7;
+
+const ANOMALY_METRICS = ['impressions', 'clicks', 'spend', 'sales', 'orders'] as const;
+
+export type PerformanceAnomaly = {
+    metric: (typeof ANOMALY_METRICS)[number];
+    value: number;
+    mean: number;
+    stdDev: number;
+    zScore: number;
+};
+
+/**
+ * Flag metrics whose value is at least ANOMALY_Z_THRESHOLD standard deviations from the baseline mean.
+ * `baseline` holds one sample per day, with zeros for days that had no rows.
+ */
+export function detectAnomalies(value: PerformanceTotals, baseline: PerformanceTotals[]): PerformanceAnomaly[] {
+    const activeDays = baseline.filter(sample => sample.impressions > 0 || sample.spend > 0).length;
+    if (activeDays < MIN_ACTIVE_BASELINE_DAYS) {
+        return [];
+    }
+
+    const anomalies: PerformanceAnomaly[] = [];
+    for (const metric of ANOMALY_METRICS) {
+        const samples = baseline.map(sample => sample[metric]);
+        const mean = samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+        const variance = samples.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / samples.length;
+        const stdDev = Math.sqrt(variance);
+        if (stdDev === 0) {
+            continue;
+        }
+
+        const zScore = (value[metric] - mean) / stdDev;
+        if (Math.abs(zScore) >= ANOMALY_Z_THRESHOLD) {
+            anomalies.push({ metric, value: value[metric], mean, stdDev, zScore });
+        }
+    }
+    return anomalies;
+}
+
+/**
+ * Hourly totals keyed by local date, local hour and any extra grouping keys, read from performanceHourly.
+ * Callers pass the expressions that define "local" so the baseline buckets hours the same way as the
+ * values it is compared with.
+ */
+export class HourlyBaseline {
+    private constructor(private readonly totalsByKey: Map<string, PerformanceTotals>) {}
+
+    static async load(params: { where: SQL | undefined; localDate: SQL<string>; localHour: SQL<number>; keys: (SQL | PgColumn)[] }): Promise<HourlyBaseline> {
+        const keyFields = Object.fromEntries(params.keys.map((key, index) => [`key${index}`, sql<string | null>`${key}`]));
+        const rows = await db
+            .select({
+                localDate: params.localDate,
+                localHour: params.localHour,
+                ...keyFields,
+                impressions: sql<string>`COALESCE(SUM(${performanceHourly.impressions}), 0)::bigint`,
+                clicks: sql<string>`COALESCE(SUM(${performanceHourly.clicks}), 0)::bigint`,
+                spend: sql<string>`COALESCE(SUM(${performanceHourly.spend}), 0)`,
+                sales: sql<string>`COALESCE(SUM(${performanceHourly.sales}), 0)`,
+                orders: sql<string>`COALESCE(SUM(${performanceHourly.orders}), 0)::bigint`,
+            })
+            .from(performanceHourly)
+            .where(params.where)
+            .groupBy(params.localDate, params.localHour, ...params.keys);
+
+        const totalsByKey = new Map<string, PerformanceTotals>();
+        for (const row of rows) {
+            const keyParts = params.keys.map((_, index) => (row as Record<string, unknown>)[`key${index}`] as string | null);
+            totalsByKey.set(baselineKey(row.localDate, Number(row.localHour), keyParts), {
+                impressions: Number(row.impressions),
+                clicks: Number(row.clicks),
+                spend: Number(row.spend),
+                sales: Number(row.sales),
+                orders: Number(row.orders),
+            });
+        }
+        return new HourlyBaseline(totalsByKey);
+    }
+
+    /**
+     * One sample per day for the ANOMALY_BASELINE_DAYS days before `localDate`, at the same hour.
+     */
+    samples(localDate: string, localHour: number, keyParts: (string | null)[] = []): PerformanceTotals[] {
+        const day = parseISO(localDate);
+        return Array.from({ length: ANOMALY_BASELINE_DAYS }, (_, index) => {
+            const sampleDate = format(subDays(day, index + 1), 'yyyy-MM-dd');
+            return this.totalsByKey.get(baselineKey(sampleDate, localHour, keyParts)) ?? { impressions: 0, clicks: 0, spend: 0, sales: 0, orders: 0 };
+        });
+    }
+}
+
+const baselineKey = (localDate: string, localHour: number, keyParts: (string | null)[]) => [localDate, localHour, ...keyParts].join('|');
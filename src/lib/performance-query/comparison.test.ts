@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { getComparisonShift, shiftBucketForward, shiftLocalDate } from '@/lib/performance-query/comparison';
+
+describe('performance comparison periods', () => {
+    it('compares a day range with the equal-length range before it', () => {
+        const shift = getComparisonShift('day', '2026-03-08', '2026-03-14', 'previous_period');
+
+        expect(shiftLocalDate('2026-03-08', shift, -1)).toBe('2026-03-01');
+        expect(shiftLocalDate('2026-03-14', shift, -1)).toBe('2026-03-07');
+        expect(shiftBucketForward('2026-03-03', 'day', shift)).toBe('2026-03-10');
+    });
+
+    it('shifts month ranges by whole months', () => {
+        const shift = getComparisonShift('month', '2026-01-01', '2026-03-31', 'previous_period');
+
+        expect(shift).toEqual({ days: 0, months: 3 });
+        expect(shiftLocalDate('2026-01-01', shift, -1)).toBe('2025-10-01');
+        expect(shiftBucketForward('2025-11-01', 'month', shift)).toBe('2026-02-01');
+    });
+
+    it('lines up hour buckets a week apart', () => {
+        const shift = getComparisonShift('hour', '2026-03-14', '2026-03-14', 'previous_week');
+
+        expect(shiftBucketForward('2026-03-07T17:00:00Z', 'hour', shift)).toBe('2026-03-14T17:00:00Z');
+    });
+
+    it('rejects week-over-week comparison for monthly data', () => {
+        expect(() => getComparisonShift('month', '2026-01-01', '2026-01-31', 'previous_week')).toThrow();
+    });
+});
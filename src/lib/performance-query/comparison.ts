@@ -0,0 +1,85 @@
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { DerivedMetrics, PerformanceTotals } from './derived-metrics';
+
+export const COMPARISON_PERIODS = ['previous_period', 'previous_week', 'previous_year'] as const;
+export type ComparisonPeriod = (typeof COMPARISON_PERIODS)[number];
+
+type Granularity = 'hour' | 'day' | 'month' | 'year';
+
+/** How far back the comparison range sits from the queried range */
+export type ComparisonShift = { days: number; months: number };
+
+export type PerformanceChange = Record<keyof PerformanceTotals | keyof DerivedMetrics, number | null>;
+
+/**
+ * The shift for a comparison period. 'previous_period' is the range of equal length immediately before,
+ * measured in days for hour and day granularities and in whole months or years otherwise.
+ */
+export function getComparisonShift(granularity: Granularity, from: string, to: string, period: ComparisonPeriod): ComparisonShift {
+    switch (period) {
+        case 'previous_year':
+            return { days: 0, months: 12 };
+        case 'previous_week':
+            if (granularity === 'month' || granularity === 'year') {
+                throw new Error(`previous_week comparison is not available for ${granularity} granularity`);
+            }
+            return { days: 7, months: 0 };
+        case 'previous_period': {
+            if (granularity === 'hour' || granularity === 'day') {
+                return { days: differenceInCalendarDays(parseISO(to), parseISO(from)) + 1, months: 0 };
+            }
+            const fromYear = Number(from.slice(0, 4));
+            const toYear = Number(to.slice(0, 4));
+            if (granularity === 'year') {
+                return { days: 0, months: (toYear - fromYear + 1) * 12 };
+            }
+            return { days: 0, months: (toYear - fromYear) * 12 + Number(to.slice(5, 7)) - Number(from.slice(5, 7)) + 1 };
+        }
+    }
+}
+
+/**
+ * Move a YYYY-MM-DD date by a shift; `direction` -1 moves it back into the comparison range.
+ */
+export function shiftLocalDate(date: string, shift: ComparisonShift, direction: 1 | -1): string {
+    return format(addDays(addMonths(parseISO(date), shift.months * direction), shift.days * direction), 'yyyy-MM-dd');
+}
+
+/**
+ * Move a comparison bucket label forward onto the bucket it is compared with. Hour buckets move by
+ * whole UTC days, so across a DST change they land one local hour off.
+ */
+export function shiftBucketForward(bucket: string, granularity: Granularity, shift: ComparisonShift): string {
+    switch (granularity) {
+        case 'hour': {
+            const date = new Date(bucket);
+            date.setUTCMonth(date.getUTCMonth() + shift.months);
+            date.setUTCDate(date.getUTCDate() + shift.days);
+            return date.toISOString().replace('.000Z', 'Z');
+        }
+        case 'day':
+        case 'month':
+            return shiftLocalDate(bucket, shift, 1);
+        case 'year':
+            return String(Number(bucket) + shift.months / 12);
+    }
+}
+
+/**
+ * Percent change per metric from the comparison values, or null when the comparison value is 0.
+ */
+export function calculateChange(current: PerformanceTotals & DerivedMetrics, previous: PerformanceTotals & DerivedMetrics): PerformanceChange {
+    const change = (key: keyof PerformanceChange) => (previous[key] === 0 ? null : ((current[key] - previous[key]) / previous[key]) * 100);
+    return {
+        impressions: change('impressions'),
+        clicks: change('clicks'),
+        spend: change('spend'),
+        sales: change('sales'),
+        orders: change('orders'),
+        acos: change('acos'),
+        roas: change('roas'),
+        ctr: change('ctr'),
+        cpc: change('cpc'),
+        cvr: change('cvr'),
+    };
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { deriveMetrics } from '@/lib/performance-query/derived-metrics';
+
+describe('deriveMetrics', () => {
+    it('computes ratios from summed totals', () => {
+        const metrics = deriveMetrics({ impressions: 2000, clicks: 40, spend: 30, sales: 120, orders: 4 });
+
+        expect(metrics.acos).toBeCloseTo(25);
+        expect(metrics.roas).toBeCloseTo(4);
+        expect(metrics.ctr).toBeCloseTo(2);
+        expect(metrics.cpc).toBeCloseTo(0.75);
+        expect(metrics.cvr).toBeCloseTo(10);
+    });
+
+    it('returns 0 for ratios with a zero denominator', () => {
+        expect(deriveMetrics({ impressions: 0, clicks: 0, spend: 0, sales: 0, orders: 0 })).toEqual({ acos: 0, roas: 0, ctr: 0, cpc: 0, cvr: 0 });
+    });
+});
@@ -0,0 +1,33 @@
+export type PerformanceTotals = {
+    impressions: number;
+    clicks: number;
+    spend: number;
+    sales: number;
+    orders: number;
+};
+
+export type DerivedMetrics = {
+    /** Spend as a percentage of sales */
+    acos: number;
+    /** Sales per unit of spend */
+    roas: number;
+    /** Clicks as a percentage of impressions */
+    ctr: number;
+    /** Spend per click */
+    cpc: number;
+    /** Orders as a percentage of clicks */
+    cvr: number;
+};
+
+/**
+ * Ratios for a set of totals. A ratio with a zero denominator is 0, matching the dashboard's existing cards.
+ */
+export function deriveMetrics(totals: PerformanceTotals): DerivedMetrics {
+    return {
+        acos: totals.sales > 0 ? (totals.spend / totals.sales) * 100 : 0,
+        roas: totals.spend > 0 ? totals.sales / totals.spend : 0,
+        ctr: totals.impressions > 0 ? (totals.clicks / totals.impressions) * 100 : 0,
+        cpc: totals.clicks > 0 ? totals.spend / totals.clicks : 0,
+        cvr: totals.clicks > 0 ? (totals.orders / totals.clicks) * 100 : 0,
+    };
+}
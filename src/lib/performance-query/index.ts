@@ -0,0 +1,331 @@
+import { and, asc, desc, eq, gte, inArray, lt, lte, type SQL, sql } from 'drizzle-orm';
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { db } from '@/db/index';
+import { performanceAnnual, performanceDaily, performanceHourly, performanceMonthly } from '@/db/schema';
+import type { AdProduct, PerformanceSource } from '@/types/reports';
+import { utcNow } from '@/utils/date';
+import { ANOMALY_BASELINE_DAYS, detectAnomalies, HourlyBaseline, type PerformanceAnomaly } from './anomalies';
+import { type ComparisonPeriod, calculateChange, getComparisonShift, type PerformanceChange, shiftBucketForward, shiftLocalDate } from './comparison';
+import { type DerivedMetrics, deriveMetrics, type PerformanceTotals } from './derived-metrics';
+
+export { ANOMALY_BASELINE_DAYS, ANOMALY_Z_THRESHOLD, detectAnomalies, HourlyBaseline, type PerformanceAnomaly } from './anomalies';
+export { COMPARISON_PERIODS, type ComparisonPeriod, calculateChange, type PerformanceChange } from './comparison';
+export { type DerivedMetrics, deriveMetrics, type PerformanceTotals } from './derived-metrics';
+
+export const PERFORMANCE_GRANULARITIES = ['hour', 'day', 'month', 'year'] as const;
+export type PerformanceGranularity = (typeof PERFORMANCE_GRANULARITIES)[number];
+
+/** Columns a query can group by. 'time' groups by the granularity's bucket. */
+export const PERFORMANCE_DIMENSIONS = ['time', 'adProduct', 'campaign', 'adGroup', 'ad', 'target', 'asin', 'matchType'] as const;
+export type PerformanceDimension = (typeof PERFORMANCE_DIMENSIONS)[number];
+
+export const PERFORMANCE_METRICS = ['impressions', 'clicks', 'spend', 'sales', 'orders', 'acos', 'roas', 'ctr', 'cpc', 'cvr'] as const;
+export type PerformanceMetric = (typeof PERFORMANCE_METRICS)[number];
+
+export type PerformanceQuery = {
+    accountId: string;
+    granularity: PerformanceGranularity;
+    groupBy: PerformanceDimension[];
+    /** Account-local dates (YYYY-MM-DD), inclusive. Month and year granularities include every bucket the range touches. */
+    from: string;
+    to: string;
+    filters?: {
+        adProducts?: AdProduct[];
+        campaignIds?: string[];
+        adGroupIds?: string[];
+        adIds?: string[];
+        targetIds?: string[];
+        asins?: string[];
+        matchTypes?: string[];
+        /** Only the hour and day tables record a source */
+        source?: PerformanceSource;
+    };
+    sort?: {
+        by: PerformanceMetric | PerformanceDimension;
+        direction: 'asc' | 'desc';
+    };
+    /** Adds each row's values over this earlier period, and the percent change from them */
+    compare?: ComparisonPeriod;
+    /** Flags finished hour rows that stand out from the same hour over the trailing baseline days. Requires hour granularity grouped by time. */
+    detectAnomalies?: boolean;
+    limit: number;
+    offset: number;
+};
+
+type MetricValues = PerformanceTotals & DerivedMetrics;
+
+export type PerformanceQueryRow = Partial<Record<PerformanceDimension, string | null>> &
+    MetricValues & {
+        comparison?: MetricValues;
+        change?: PerformanceChange;
+        anomalies?: PerformanceAnomaly[];
+    };
+
+export type PerformanceQueryResult = {
+    rows: PerformanceQueryRow[];
+    /** Totals across every row matching the filters, not just the returned page */
+    totals: MetricValues;
+    comparison?: {
+        from: string;
+        to: string;
+        totals: MetricValues;
+        change: PerformanceChange;
+    };
+    hasMore: boolean;
+};
+
+type PerformanceColumns = {
+    accountId: PgColumn;
+    campaignId: PgColumn;
+    adGroupId: PgColumn;
+    adId: PgColumn;
+    adProduct: PgColumn;
+    entityType: PgColumn;
+    entityId: PgColumn;
+    targetMatchType: PgColumn;
+    impressions: PgColumn;
+    clicks: PgColumn;
+    spend: PgColumn;
+    sales: PgColumn;
+    orders: PgColumn;
+};
+
+type GranularitySource = {
+    table: PgTable & PerformanceColumns;
+    /** Bucket label: an ISO timestamp for hours, YYYY-MM-DD for days and months, YYYY for years */
+    bucket: SQL<string>;
+    inRange: (from: string, to: string) => SQL | undefined;
+    source: PgColumn | null;
+};
+
+function getGranularitySource(granularity: PerformanceGranularity): GranularitySource {
+    switch (granularity) {
+        case 'hour':
+            return {
+                table: performanceHourly,
+                bucket: sql<string>`to_char(${performanceHourly.bucketStart} at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"')`,
+                inRange: (from, to) => and(gte(performanceHourly.bucketDate, from), lte(performanceHourly.bucketDate, to)),
+                source: performanceHourly.source,
+            };
+        case 'day':
+            return {
+                table: performanceDaily,
+                bucket: sql<string>`${performanceDaily.bucketDate}::text`,
+                inRange: (from, to) => and(gte(performanceDaily.bucketDate, from), lte(performanceDaily.bucketDate, to)),
+                source: performanceDaily.source,
+            };
+        case 'month':
+            return {
+                table: performanceMonthly,
+                bucket: sql<string>`${performanceMonthly.bucketMonth}::text`,
+                inRange: (from, to) => and(gte(performanceMonthly.bucketMonth, `${from.slice(0, 7)}-01`), lte(performanceMonthly.bucketMonth, to)),
+                source: null,
+            };
+        case 'year':
+            return {
+                table: performanceAnnual,
+                bucket: sql<string>`${performanceAnnual.bucketYear}::text`,
+                inRange: (from, to) => and(gte(performanceAnnual.bucketYear, Number(from.slice(0, 4))), lte(performanceAnnual.bucketYear, Number(to.slice(0, 4)))),
+                source: null,
+            };
+    }
+}
+
+/**
+ * Query performance rows at a granularity, grouped by any combination of dimensions, with ratios
+ * computed from the summed totals of each group.
+ *
+ * Target and ASIN rows describe the same spend from two angles, so a query reads one or the other:
+ * ASIN rows when grouping or filtering by ASIN, target rows otherwise. Search term rows are never
+ * included.
+ */
+export async function queryPerformance(query: PerformanceQuery): Promise<PerformanceQueryResult> {
+    const filters = query.filters ?? {};
+    const usesAsins = query.groupBy.includes('asin') || (filters.asins?.length ?? 0) > 0;
+    if (usesAsins && (query.groupBy.includes('target') || query.groupBy.includes('matchType') || filters.targetIds?.length || filters.matchTypes?.length)) {
+        throw new Error('ASIN rows cannot be grouped or filtered by target or match type');
+    }
+
+    const source = getGranularitySource(query.granularity);
+    if (filters.source && !source.source) {
+        throw new Error(`Source filter is not available for ${query.granularity} granularity`);
+    }
+
+    if (query.detectAnomalies && (query.granularity !== 'hour' || !query.groupBy.includes('time'))) {
+        throw new Error('Anomaly detection requires hour granularity grouped by time');
+    }
+
+    const { table } = source;
+    const conditions: (SQL | undefined)[] = [eq(table.accountId, query.accountId), eq(table.entityType, usesAsins ? 'asin' : 'target')];
+    if (filters.adProducts?.length) {
+        conditions.push(inArray(table.adProduct, filters.adProducts));
+    }
+    if (filters.campaignIds?.length) {
+        conditions.push(inArray(table.campaignId, filters.campaignIds));
+    }
+    if (filters.adGroupIds?.length) {
+        conditions.push(inArray(table.adGroupId, filters.adGroupIds));
+    }
+    if (filters.adIds?.length) {
+        conditions.push(inArray(table.adId, filters.adIds));
+    }
+    if (filters.targetIds?.length) {
+        conditions.push(inArray(table.entityId, filters.targetIds));
+    }
+    if (filters.asins?.length) {
+        conditions.push(inArray(table.entityId, filters.asins));
+    }
+    if (filters.matchTypes?.length) {
+        conditions.push(inArray(table.targetMatchType, filters.matchTypes));
+    }
+    if (filters.source && source.source) {
+        conditions.push(eq(source.source, filters.source));
+    }
+    const where = and(...conditions, source.inRange(query.from, query.to));
+
+    const dimensionColumns: Record<PerformanceDimension, SQL | PgColumn> = {
+        time: source.bucket,
+        adProduct: table.adProduct,
+        campaign: table.campaignId,
+        adGroup: table.adGroupId,
+        ad: table.adId,
+        target: table.entityId,
+        asin: table.entityId,
+        matchType: table.targetMatchType,
+    };
+    const groupBy = [...new Set(query.groupBy)];
+
+    const impressions = sql`COALESCE(SUM(${table.impressions}), 0)`;
+    const clicks = sql`COALESCE(SUM(${table.clicks}), 0)`;
+    const spend = sql`COALESCE(SUM(${table.spend}), 0)`;
+    const sales = sql`COALESCE(SUM(${table.sales}), 0)`;
+    const orders = sql`COALESCE(SUM(${table.orders}), 0)`;
+    const totalsFields = {
+        impressions: sql<string>`${impressions}::bigint`,
+        clicks: sql<string>`${clicks}::bigint`,
+        spend: sql<string>`${spend}`,
+        sales: sql<string>`${sales}`,
+        orders: sql<string>`${orders}::bigint`,
+    };
+
+    // Sort expressions mirror deriveMetrics so ordering and paging agree with the returned values
+    const metricOrder: Record<PerformanceMetric, SQL> = {
+        impressions,
+        clicks,
+        spend,
+        sales,
+        orders,
+        acos: sql`COALESCE(${spend}::numeric / NULLIF(${sales}, 0), 0)`,
+        roas: sql`COALESCE(${sales}::numeric / NULLIF(${spend}, 0), 0)`,
+        ctr: sql`COALESCE(${clicks}::numeric / NULLIF(${impressions}, 0), 0)`,
+        cpc: sql`COALESCE(${spend}::numeric / NULLIF(${clicks}, 0), 0)`,
+        cvr: sql`COALESCE(${orders}::numeric / NULLIF(${clicks}, 0), 0)`,
+    };
+
+    const sort = query.sort ?? (groupBy.includes('time') ? { by: 'time', direction: 'asc' } : { by: 'spend', direction: 'desc' });
+    if ((PERFORMANCE_DIMENSIONS as readonly string[]).includes(sort.by) && !groupBy.includes(sort.by as PerformanceDimension)) {
+        throw new Error(`Cannot sort by ${sort.by} without grouping by it`);
+    }
+    const sortExpression = sort.by in metricOrder ? metricOrder[sort.by as PerformanceMetric] : dimensionColumns[sort.by as PerformanceDimension];
+    const direction = sort.direction === 'asc' ? asc : desc;
+    // Remaining dimensions break ties so pages are stable
+    const orderBy = [direction(sortExpression), ...groupBy.map(dimension => asc(dimensionColumns[dimension]))];
+
+    const selectedDimensions = Object.fromEntries(groupBy.map(dimension => [dimension, sql<string | null>`${dimensionColumns[dimension]}`]));
+    const groupByColumns = groupBy.map(dimension => dimensionColumns[dimension]);
+
+    // The hour's local date and hour locate its baseline; both follow from bucket_start, so grouping by them changes nothing
+    const localDate = sql<string>`${performanceHourly.bucketDate}::text`;
+    const localHour = sql<number>`${performanceHourly.bucketHour}`;
+    const anomalyFields: Record<string, SQL> = query.detectAnomalies ? { localDate, localHour } : {};
+    const anomalyGroupBy = query.detectAnomalies ? [localDate, localHour] : [];
+
+    const [rows, totalsRows] = await Promise.all([
+        db
+            .select({ ...selectedDimensions, ...anomalyFields, ...totalsFields })
+            .from(table)
+            .where(where)
+            .groupBy(...groupByColumns, ...anomalyGroupBy)
+            .orderBy(...orderBy)
+            .limit(query.limit + 1)
+            .offset(query.offset),
+        db.select(totalsFields).from(table).where(where),
+    ]);
+    const pageRows = rows.slice(0, query.limit) as (Record<string, string | number | null> & Record<keyof typeof totalsFields, string>)[];
+
+    const toValues = (row: Record<keyof typeof totalsFields, string>): MetricValues => {
+        const totals = {
+            impressions: Number(row.impressions),
+            clicks: Number(row.clicks),
+            spend: Number(row.spend),
+            sales: Number(row.sales),
+            orders: Number(row.orders),
+        };
+        return { ...totals, ...deriveMetrics(totals) };
+    };
+    const dimensionValues = (row: Record<string, string | number | null>) => groupBy.map(dimension => (row[dimension] ?? null) as string | null);
+
+    const overall = toValues(totalsRows[0] ?? { impressions: '0', clicks: '0', spend: '0', sales: '0', orders: '0' });
+    const result: PerformanceQueryResult = {
+        rows: pageRows.map(row => ({ ...Object.fromEntries(groupBy.map((dimension, index) => [dimension, dimensionValues(row)[index]])), ...toValues(row) })),
+        totals: overall,
+        hasMore: rows.length > query.limit,
+    };
+
+    if (query.compare) {
+        const shift = getComparisonShift(query.granularity, query.from, query.to, query.compare);
+        const comparisonFrom = shiftLocalDate(query.from, shift, -1);
+        const comparisonTo = shiftLocalDate(query.to, shift, -1);
+        const comparisonWhere = and(...conditions, source.inRange(comparisonFrom, comparisonTo));
+
+        const [comparisonRows, comparisonTotalsRows] = await Promise.all([
+            db
+                .select({ ...selectedDimensions, ...totalsFields })
+                .from(table)
+                .where(comparisonWhere)
+                .groupBy(...groupByColumns),
+            db.select(totalsFields).from(table).where(comparisonWhere),
+        ]);
+
+        // Comparison rows are keyed by the bucket they are compared with, so time-grouped rows line up
+        const rowKey = (row: Record<string, string | number | null>, shiftTime: boolean) =>
+            groupBy.map((dimension, index) => (dimension === 'time' && shiftTime ? shiftBucketForward(String(row.time), query.granularity, shift) : dimensionValues(row)[index])).join('|');
+        const comparisonByKey = new Map(comparisonRows.map(row => [rowKey(row as Record<string, string | null>, true), toValues(row)]));
+
+        result.rows = result.rows.map((row, index) => {
+            const comparison = comparisonByKey.get(rowKey(pageRows[index] ?? {}, false)) ?? toValues({ impressions: '0', clicks: '0', spend: '0', sales: '0', orders: '0' });
+            return { ...row, comparison, change: calculateChange(row as MetricValues, comparison) };
+        });
+
+        const comparisonTotals = toValues(comparisonTotalsRows[0] ?? { impressions: '0', clicks: '0', spend: '0', sales: '0', orders: '0' });
+        result.comparison = { from: comparisonFrom, to: comparisonTo, totals: comparisonTotals, change: calculateChange(overall, comparisonTotals) };
+    }
+
+    if (query.detectAnomalies && pageRows.length > 0) {
+        const dates = pageRows.map(row => String(row.localDate)).sort();
+        const baselineKeys = groupBy.filter(dimension => dimension !== 'time');
+        const baseline = await HourlyBaseline.load({
+            where: and(
+                ...conditions,
+                gte(performanceHourly.bucketDate, shiftLocalDate(dates[0] ?? query.from, { days: ANOMALY_BASELINE_DAYS, months: 0 }, -1)),
+                lt(performanceHourly.bucketDate, dates[dates.length - 1] ?? query.to)
+            ),
+            localDate,
+            localHour,
+            keys: baselineKeys.map(dimension => dimensionColumns[dimension]),
+        });
+
+        // The current hour is still filling up, so only hours that have ended are scored
+        const now = utcNow().getTime();
+        result.rows = result.rows.map((row, index) => {
+            const pageRow = pageRows[index] ?? {};
+            if (new Date(String(pageRow.time)).getTime() + 60 * 60 * 1000 > now) {
+                return { ...row, anomalies: [] };
+            }
+            const keyParts = baselineKeys.map(dimension => (pageRow[dimension] ?? null) as string | null);
+            return { ...row, anomalies: detectAnomalies(row as MetricValues, baseline.samples(String(pageRow.localDate), Number(pageRow.localHour), keyParts)) };
+        });
+    }
+
+    return result;
+}
@@ -0,0 +1,17 @@
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { describe, expect, it } from 'vitest';
+import { performanceDaily } from '@/db/schema';
+import { REPORT_ATTRIBUTION, reportWritePrecedence } from './index';
+
+const dialect = new PgDialect();
+
+describe('reportWritePrecedence', () => {
+    it('lets a 14d report replace a 7d stream row with the same key', () => {
+        const condition = dialect.sqlToQuery(reportWritePrecedence(performanceDaily)).sql;
+
+        expect(REPORT_ATTRIBUTION).toEqual({ attributionWindow: '14d', attributionSameSku: false });
+        // Any stream row is replaced outright, whatever window it was counted in
+        expect(condition).toMatch(/^"performance_daily"\."source" in \('stream', 'legacy'\) or /);
+        expect(condition).not.toContain('attribution');
+    });
+});
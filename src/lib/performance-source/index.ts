@@ -0,0 +1,53 @@
+import { type SQL, sql } from 'drizzle-orm';
+import type { performanceDaily, performanceHourly, performancePlacementDaily, performancePlacementHourly } from '@/db/schema';
+import { getEligibleOffsets } from '@/lib/report-status-state-machine/eligibility';
+import type { AggregationType, AttributionWindow } from '@/types/reports';
+
+type PerformanceTable = typeof performanceDaily | typeof performanceHourly | typeof performancePlacementDaily | typeof performancePlacementHourly;
+
+/**
+ * Age (hours after bucketStart) at which a report is final: the last refresh of the default
+ * schedule, i.e. the 60-day report for daily buckets.
+ */
+export function getFinalizedReportAgeHours(aggregation: AggregationType): number {
+    return Math.max(...getEligibleOffsets(aggregation));
+}
+
+/**
+ * Attribution of report rows. Reports request `metric.sales` and `metric.purchases`, which Amazon counts
+ * over 14 days for any SKU.
+ */
+export const REPORT_ATTRIBUTION: { attributionWindow: AttributionWindow; attributionSameSku: boolean } = {
+    attributionWindow: '14d',
+    attributionSameSku: false,
+};
+
+/**
+ * Provenance and attribution columns to take from the incoming row when an upsert replaces an existing one.
+ */
+export const PROVENANCE_FROM_EXCLUDED = {
+    source: sql`excluded.source`,
+    reportId: sql`excluded.report_id`,
+    sourceAsOf: sql`excluded.source_as_of`,
+    attributionWindow: sql`excluded.attribution_window`,
+    attributionSameSku: sql`excluded.attribution_same_sku`,
+};
+
+/**
+ * `setWhere` for report upserts: a report replaces stream rows, legacy rows and rows of unknown age, and
+ * reports captured no later than itself. An older report arriving late never overwrites a newer one.
+ * Stream rows are replaced whatever window they were counted in, since the key has no attribution and
+ * the finalized report must win; the row then carries the report's attribution.
+ */
+export function reportWritePrecedence(table: PerformanceTable): SQL {
+    return sql`${table.source} in ('stream', 'legacy') or ${table.sourceAsOf} is null or ${table.sourceAsOf} <= excluded.source_as_of`;
+}
+
+/**
+ * `setWhere` for stream upserts: a stream summary replaces stream rows, legacy rows and rows of unknown
+ * age. It only replaces a report captured before the summary, and never a finalized report.
+ */
+export function streamWritePrecedence(table: PerformanceTable, aggregation: AggregationType): SQL {
+    const finalizedAgeHours = getFinalizedReportAgeHours(aggregation);
+    return sql`${table.source} in ('stream', 'legacy') or ${table.sourceAsOf} is null or (${table.sourceAsOf} < excluded.source_as_of and ${table.sourceAsOf} < ${table.bucketStart} + make_interval(hours => ${finalizedAgeHours}))`;
+}
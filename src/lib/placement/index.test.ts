@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { normalizePlacement } from '@/lib/placement';
+
+describe('placement normalization', () => {
+    it('maps stream and report labels onto the same placement', () => {
+        expect(normalizePlacement('Top of Search on-Amazon')).toBe('top_of_search');
+        expect(normalizePlacement('TOP_OF_SEARCH')).toBe('top_of_search');
+        expect(normalizePlacement('Detail Page on-Amazon')).toBe('product_pages');
+        expect(normalizePlacement('Product Pages')).toBe('product_pages');
+        expect(normalizePlacement('Other on-Amazon')).toBe('rest_of_search');
+        expect(normalizePlacement('Rest of Search')).toBe('rest_of_search');
+    });
+
+    it('stores placements without a bid adjustment as other', () => {
+        expect(normalizePlacement('Off-Amazon')).toBe('other');
+    });
+});
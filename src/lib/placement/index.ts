@@ -0,0 +1,26 @@
+import type { Placement } from '@/types/reports';
+
+/**
+ * Map a placement label from the AMS stream or a placement report onto a stored placement.
+ *
+ * The stream labels placements "Top of Search on-Amazon", "Detail Page on-Amazon" and "Other on-Amazon",
+ * while reports use "Top of Search", "Product Pages" and "Rest of Search". Placements bid adjustments
+ * can't target (e.g. off-Amazon) are stored as 'other'.
+ */
+export function normalizePlacement(value: string): Placement {
+    const label = value
+        .toLowerCase()
+        .replace(/[^a-z]+/g, ' ')
+        .trim();
+
+    if (label.startsWith('top of search')) {
+        return 'top_of_search';
+    }
+    if (label.startsWith('rest of search') || label === 'other on amazon') {
+        return 'rest_of_search';
+    }
+    if (label.startsWith('detail page') || label.startsWith('product page')) {
+        return 'product_pages';
+    }
+    return 'other';
+}
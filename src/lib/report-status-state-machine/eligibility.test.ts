@@ -1,6 +1,6 @@
 import { fromZonedTime } from 'date-fns-tz';
 import { afterEach, describe, expect, it, vi } from 'vitest';
-import { getNextRefreshTime, isEligibleForReport } from '@/lib/report-status-state-machine/eligibility';
+import { getNextRefreshTime, getRefreshPlan, isEligibleForReport } from '@/lib/report-status-state-machine/eligibility';
 
 describe('report eligibility timezone handling', () => {
     // Sample timestamps mirror production report_dataset_metadata rows for hourly US targets.
@@ -43,3 +43,23 @@ describe('report eligibility timezone handling', () => {
         expect(eligible).toBe(false);
     });
 });
+
+describe('custom refresh schedules', () => {
+    it('uses the provided offsets instead of the defaults', () => {
+        const periodStart = new Date(Date.UTC(2025, 11, 1, 0, 0, 0));
+        const now = new Date(Date.UTC(2025, 11, 1, 13, 0, 0));
+
+        // 13h old: not eligible under the default 24h first offset, eligible under a 12h schedule
+        expect(isEligibleForReport(periodStart, 'hourly', null, 'US', now)).toBe(false);
+        expect(isEligibleForReport(periodStart, 'hourly', null, 'US', now, [12, 48])).toBe(true);
+    });
+
+    it('lists one sorted refresh per distinct offset', () => {
+        const periodStart = new Date(Date.UTC(2025, 11, 1, 0, 0, 0));
+
+        const plan = getRefreshPlan(periodStart, [48, 12, 48]);
+
+        expect(plan.map(p => p.offsetHours)).toEqual([12, 48]);
+        expect(plan.map(p => p.refreshAt.toISOString())).toEqual(['2025-12-01T12:00:00.000Z', '2025-12-03T00:00:00.000Z']);
+    });
+});
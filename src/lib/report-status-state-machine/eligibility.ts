@@ -3,16 +3,21 @@ import { AGGREGATION_TYPES, type AggregationType } from '@/types/reports';
 import { getTimezoneForCountry } from '@/utils/timezones';
 
 /**
- * Eligible time offsets for report refresh (in hours).
+ * Default eligible time offsets for report refresh (in hours).
  * Daily reports use day offsets, hourly reports use hour offsets.
+ * Monthly and annual buckets are refreshed while still in progress, then on the daily
+ * schedule counted from the end of the month (≤ 31 days) or year (≤ 366 days).
+ * Accounts can override these per aggregation and entity type (see schedules.ts).
  */
 export const ELIGIBLE_OFFSETS = {
     daily: [1, 3, 5, 7, 14, 30, 60].map(days => days * 24), // Convert days to hours
     hourly: [24, 72, 312],
+    monthly: [7, 14, 21, 28, 32, 34, 38, 45, 61, 91].map(days => days * 24),
+    annual: [30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330, 367, 373, 396, 426].map(days => days * 24),
 } as const;
 
 /**
- * Get eligible offsets for a given aggregation type.
+ * Get the default eligible offsets for a given aggregation type.
  */
 export function getEligibleOffsets(aggregation: AggregationType): readonly number[] {
     return ELIGIBLE_OFFSETS[aggregation];
@@ -26,9 +31,17 @@ export function getEligibleOffsets(aggregation: AggregationType): readonly numbe
  * 2. No report was already created at this offset (lastReportCreatedAt was set before reaching this offset, or is null)
  *
  * The eligible offsets represent thresholds where the ads server likely has updated report data.
- * If we already fetched data at a threshold, we don't fetch it again.
+ * If we already fetched data at a threshold, we don't fetch it again. Pass the account's schedule
+ * as `offsets` (hours); the defaults for the aggregation are used when omitted.
  */
-export function isEligibleForReport(timestamp: Date, aggregation: AggregationType, lastReportCreatedAt: Date | null, countryCode: string, now: Date = new Date()): boolean {
+export function isEligibleForReport(
+    timestamp: Date,
+    aggregation: AggregationType,
+    lastReportCreatedAt: Date | null,
+    countryCode: string,
+    now: Date = new Date(),
+    offsets?: readonly number[]
+): boolean {
     // Calculate age in hours using UTC timestamps
     const ageMs = now.getTime() - timestamp.getTime();
     const ageHours = Math.floor(ageMs / (1000 * 60 * 60));
@@ -38,7 +51,7 @@ export function isEligibleForReport(timestamp: Date, aggregation: AggregationTyp
     if (!aggregationType) {
         return false;
     }
-    const eligibleOffsets = getEligibleOffsets(aggregationType);
+    const eligibleOffsets = offsets ?? getEligibleOffsets(aggregationType);
 
     // Find the highest eligible offset that the report age has reached or exceeded
     const sortedOffsets = [...eligibleOffsets].sort((a, b) => a - b);
@@ -85,14 +98,18 @@ export function isEligibleForReport(timestamp: Date, aggregation: AggregationTyp
  * If a report is in-flight (reportId is non-null), returns a short poll interval (5 minutes).
  *
  * Can be called with a full row object or an object containing just the required fields.
+ * Pass the account's schedule as `offsets` (hours); the defaults for the aggregation are used when omitted.
  */
-export function getNextRefreshTime(row: {
-    reportId: string | null;
-    periodStart: Date;
-    aggregation: AggregationType | string;
-    lastReportCreatedAt: Date | null;
-    countryCode: string;
-}): Date | null {
+export function getNextRefreshTime(
+    row: {
+        reportId: string | null;
+        periodStart: Date;
+        aggregation: AggregationType | string;
+        lastReportCreatedAt: Date | null;
+        countryCode: string;
+    },
+    offsets?: readonly number[]
+): Date | null {
     const { reportId, periodStart, aggregation, lastReportCreatedAt, countryCode } = row;
     const now = new Date();
 
@@ -106,7 +123,7 @@ export function getNextRefreshTime(row: {
     if (!aggregationType) {
         return null;
     }
-    const eligibleOffsets = getEligibleOffsets(aggregationType);
+    const eligibleOffsets = offsets ?? getEligibleOffsets(aggregationType);
     const sortedOffsets = [...eligibleOffsets].sort((a, b) => a - b);
 
     // Calculate current age in hours
@@ -138,6 +155,18 @@ export function getNextRefreshTime(row: {
     return null;
 }
 
+/**
+ * List every refresh a schedule produces for a period: one per offset, at periodStart + offset.
+ */
+export function getRefreshPlan(periodStart: Date, offsets: readonly number[]): Array<{ offsetHours: number; refreshAt: Date }> {
+    return [...new Set(offsets)]
+        .sort((a, b) => a - b)
+        .map(offsetHours => ({
+            offsetHours,
+            refreshAt: new Date(periodStart.getTime() + offsetHours * 60 * 60 * 1000),
+        }));
+}
+
 const toUtcFromLocal = (timestamp: Date | null, countryCode: string): Date | null => {
     if (!timestamp) {
         return null;
@@ -0,0 +1,26 @@
+/**
+ * Amazon report statuses that will never reach COMPLETED; the report has to be recreated.
+ */
+export const TERMINAL_REPORT_STATUSES = ['FAILED', 'CANCELLED'] as const;
+
+/**
+ * Failed report attempts before a dataset is marked dead and stops retrying on its own.
+ */
+export const MAX_REPORT_ATTEMPTS = 5;
+
+// Retry delays double per failed attempt: 5min, 10min, 20min, ... capped at 6 hours
+const BASE_RETRY_DELAY_MS = 5 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export function isTerminalReportStatus(status: string): boolean {
+    return (TERMINAL_REPORT_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * Get when a failed report should be recreated, using bounded exponential backoff.
+ * @param failedAttempts - Number of failed attempts so far (1 after the first failure)
+ */
+export function getRetryAt(failedAttempts: number, now: Date = new Date()): Date {
+    const delayMs = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, failedAttempts - 1), MAX_RETRY_DELAY_MS);
+    return new Date(now.getTime() + delayMs);
+}
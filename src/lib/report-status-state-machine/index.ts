@@ -1,3 +1,6 @@
 export * from './eligibility';
+export * from './failures';
+export * from './schedules';
 export * from './state-machine';
+export * from './transitions';
 export * from './types';
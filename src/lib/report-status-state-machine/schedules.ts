@@ -0,0 +1,121 @@
+import { and, eq, isNull } from 'drizzle-orm';
+import { db } from '@/db/index';
+import { reportDatasetMetadata, reportRefreshSchedule } from '@/db/schema';
+import type { AggregationType, EntityType } from '@/types/reports';
+import { getEligibleOffsets, getNextRefreshTime } from './eligibility';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Limits for custom refresh schedules, in hours after periodStart.
+ * Upper bounds match the Amazon Ads API retention for each aggregation.
+ */
+export const MAX_SCHEDULE_OFFSETS = 20;
+export const MAX_OFFSET_HOURS: Record<AggregationType, number> = {
+    hourly: 14 * 24,
+    daily: 455 * 24,
+    monthly: 455 * 24,
+    annual: 455 * 24,
+};
+
+/**
+ * Get the refresh offsets (in hours) for an account's report datasets.
+ * Returns the account's custom schedule if one exists, otherwise the defaults for the aggregation.
+ */
+export async function getRefreshOffsets(accountId: string, aggregation: AggregationType, entityType: EntityType): Promise<readonly number[]> {
+    const schedule = await db.query.reportRefreshSchedule.findFirst({
+        where: and(eq(reportRefreshSchedule.accountId, accountId), eq(reportRefreshSchedule.aggregation, aggregation), eq(reportRefreshSchedule.entityType, entityType)),
+        columns: {
+            offsetHours: true,
+        },
+    });
+
+    return schedule?.offsetHours ?? getEligibleOffsets(aggregation);
+}
+
+/**
+ * Validate a proposed schedule and normalize it to sorted, de-duplicated offsets.
+ * Throws if the schedule is empty, too long, or has offsets outside the aggregation's range.
+ */
+export function normalizeScheduleOffsets(aggregation: AggregationType, offsets: readonly number[]): number[] {
+    const normalized = [...new Set(offsets)].sort((a, b) => a - b);
+
+    if (normalized.length === 0) {
+        throw new Error('Refresh schedule must contain at least one offset');
+    }
+    if (normalized.length > MAX_SCHEDULE_OFFSETS) {
+        throw new Error(`Refresh schedule can contain at most ${MAX_SCHEDULE_OFFSETS} offsets`);
+    }
+
+    const maxOffset = MAX_OFFSET_HOURS[aggregation];
+    for (const offset of normalized) {
+        if (!Number.isInteger(offset) || offset < 1 || offset > maxOffset) {
+            throw new Error(`Invalid ${aggregation} refresh offset ${offset}: must be a whole number of hours between 1 and ${maxOffset}`);
+        }
+    }
+
+    return normalized;
+}
+
+/**
+ * Save a custom refresh schedule for an account's report datasets, replacing any existing one, and
+ * reschedule the datasets it applies to.
+ */
+export async function saveRefreshSchedule(accountId: string, aggregation: AggregationType, entityType: EntityType, offsets: readonly number[]): Promise<number[]> {
+    const offsetHours = normalizeScheduleOffsets(aggregation, offsets);
+
+    await db.transaction(async tx => {
+        await tx
+            .insert(reportRefreshSchedule)
+            .values({ accountId, aggregation, entityType, offsetHours })
+            .onConflictDoUpdate({
+                target: [reportRefreshSchedule.accountId, reportRefreshSchedule.aggregation, reportRefreshSchedule.entityType],
+                set: {
+                    offsetHours,
+                    updatedAt: new Date(),
+                },
+            });
+        await rescheduleDatasets(tx, accountId, aggregation, entityType, offsetHours);
+    });
+
+    return offsetHours;
+}
+
+/**
+ * Remove an account's custom refresh schedule so the defaults apply again, and reschedule the
+ * datasets it applied to.
+ */
+export async function deleteRefreshSchedule(accountId: string, aggregation: AggregationType, entityType: EntityType): Promise<void> {
+    await db.transaction(async tx => {
+        await tx
+            .delete(reportRefreshSchedule)
+            .where(and(eq(reportRefreshSchedule.accountId, accountId), eq(reportRefreshSchedule.aggregation, aggregation), eq(reportRefreshSchedule.entityType, entityType)));
+        await rescheduleDatasets(tx, accountId, aggregation, entityType, getEligibleOffsets(aggregation));
+    });
+}
+
+/**
+ * Recompute nextRefreshAt from new offsets for datasets waiting on their schedule. Rows with a report
+ * in flight keep polling, and rows backing off after a failed report keep their retry time.
+ */
+async function rescheduleDatasets(tx: Transaction, accountId: string, aggregation: AggregationType, entityType: EntityType, offsets: readonly number[]): Promise<void> {
+    const rows = await tx
+        .select()
+        .from(reportDatasetMetadata)
+        .where(
+            and(
+                eq(reportDatasetMetadata.accountId, accountId),
+                eq(reportDatasetMetadata.aggregation, aggregation),
+                eq(reportDatasetMetadata.entityType, entityType),
+                isNull(reportDatasetMetadata.reportId),
+                eq(reportDatasetMetadata.failedAttempts, 0)
+            )
+        );
+
+    for (const row of rows) {
+        const nextRefreshAt = getNextRefreshTime(row, offsets);
+        if (nextRefreshAt?.getTime() !== row.nextRefreshAt?.getTime()) {
+            await tx.update(reportDatasetMetadata).set({ nextRefreshAt }).where(eq(reportDatasetMetadata.uid, row.uid));
+        }
+    }
+}
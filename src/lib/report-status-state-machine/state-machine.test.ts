@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { type FakeAdsApi, startFakeAdsApi } from '@/amazon-ads/testing/fake-ads-api';
+import { getRetryAt, MAX_REPORT_ATTEMPTS } from '@/lib/report-status-state-machine/failures';
+import { getNextAction } from '@/lib/report-status-state-machine/state-machine';
+
+vi.mock('@/amazon-ads/reauth', () => ({
+    refreshAccessToken: vi.fn(async () => 'fake-access-token'),
+}));
+
+vi.mock('@/utils/api-tracker', () => ({
+    withTracking: <T>(_options: unknown, fn: () => Promise<T>) => fn(),
+}));
+
+// Report status and failure details returned by the fake retrieve endpoint, keyed by reportId
+const REPORTS: Record<string, { status: string; failureCode?: string; failureReason?: string }> = {
+    'failed-report': { status: 'FAILED', failureCode: 'INTERNAL_ERROR', failureReason: 'Report generation timed out' },
+    'cancelled-report': { status: 'CANCELLED' },
+    'pending-report': { status: 'PROCESSING' },
+};
+
+describe('report failure handling', () => {
+    let fakeApi: FakeAdsApi;
+    const timestamp = new Date('2026-01-04T08:00:00Z');
+
+    beforeAll(async () => {
+        process.env.ADS_API_CLIENT_ID = 'fake-client-id';
+        fakeApi = await startFakeAdsApi();
+        fakeApi.on('POST /adsApi/v1/retrieve/reports', request => {
+            const [reportId = ''] = (request.body as { reportIds: string[] }).reportIds;
+            return {
+                body: {
+                    error: null,
+                    success: [
+                        {
+                            index: 0,
+                            report: {
+                                reportId,
+                                creationDateTime: '2026-01-05T10:00:00Z',
+                                lastUpdatedDateTime: '2026-01-05T10:05:00Z',
+                                format: 'GZIP_JSON',
+                                periods: [{ datePeriod: { startDate: '2026-01-04', endDate: '2026-01-04' } }],
+                                query: { fields: ['campaign.id'] },
+                                linkedAccounts: [{ advertiserAccountId: 'amzn1.ads-account.g.test' }],
+                                ...REPORTS[reportId],
+                            },
+                        },
+                    ],
+                },
+            };
+        });
+    });
+
+    afterAll(async () => {
+        await fakeApi.close();
+    });
+
+    it("fails a FAILED report with Amazon's failure reason", async () => {
+        const next = await getNextAction(timestamp, 'daily', 'target', null, 'failed-report', 'US', 'na');
+
+        expect(next).toEqual({ action: 'fail', failureReason: 'Report generation timed out' });
+    });
+
+    it('fails a CANCELLED report even without a failure reason', async () => {
+        const next = await getNextAction(timestamp, 'daily', 'target', null, 'cancelled-report', 'US', 'na');
+
+        expect(next).toEqual({ action: 'fail', failureReason: 'Report cancelled' });
+    });
+
+    it('keeps polling a report that is still processing', async () => {
+        const next = await getNextAction(timestamp, 'daily', 'target', null, 'pending-report', 'US', 'na');
+
+        expect(next).toEqual({ action: 'none' });
+    });
+
+    it('recreates a failed report without waiting for the next eligibility offset', async () => {
+        const now = new Date('2026-01-05T12:00:00Z');
+        const lastReportCreatedAt = new Date(2026, 0, 5, 3, 0, 0);
+
+        expect(await getNextAction(timestamp, 'daily', 'target', lastReportCreatedAt, null, 'US', 'na', undefined, 0, now)).toEqual({ action: 'none' });
+        expect(await getNextAction(timestamp, 'daily', 'target', lastReportCreatedAt, null, 'US', 'na', undefined, 1, now)).toEqual({ action: 'create' });
+    });
+
+    it('backs off exponentially up to a cap', () => {
+        const now = new Date('2026-01-05T12:00:00Z');
+        const delayMinutes = Array.from({ length: MAX_REPORT_ATTEMPTS + 4 }, (_, i) => (getRetryAt(i + 1, now).getTime() - now.getTime()) / 60_000);
+
+        expect(delayMinutes.slice(0, 4)).toEqual([5, 10, 20, 40]);
+        expect(Math.max(...delayMinutes)).toBe(6 * 60);
+    });
+});
@@ -1,23 +1,30 @@
+import type { ApiRegion } from '@/amazon-ads/config.js';
 import { retrieveReport } from '@/amazon-ads/retrieve-report.js';
 import type { AggregationType, EntityType } from '@/types/reports';
 import { isEligibleForReport } from './eligibility';
-import type { NextAction } from './types';
+import { isTerminalReportStatus } from './failures';
+import type { NextActionResult } from './types';
 
 /**
  * Determine the next action to take for a report datum based on its state.
  *
  * State machine logic:
  * 1. If report exists AND status is COMPLETED → 'process'
- * 2. If report exists AND status is NOT COMPLETED → 'none'
- * 3. If no report AND eligible AND (target + daily) → 'create'
- * 4. If no report AND not eligible OR not (target + daily) → 'none'
+ * 2. If report exists AND status is FAILED/CANCELLED → 'fail' (with Amazon's failure reason)
+ * 3. If report exists AND still pending → 'none'
+ * 4. If no report AND a failed report awaits retry → 'create'
+ * 5. If no report AND eligible → 'create'
+ * 6. If no report AND not eligible → 'none'
  *
  * @param timestamp - Report timestamp
  * @param aggregation - Report aggregation type
- * @param entityType - Entity type (target or product)
+ * @param entityType - Entity type (target, product, or searchTerm)
  * @param lastReportCreatedAt - Last time a report was created for this datum
  * @param reportId - Report ID if a report exists, null otherwise
  * @param countryCode - Country code for timezone calculations
+ * @param region - Amazon Ads API region serving the account
+ * @param offsets - Refresh offsets (hours) from the account's schedule (defaults to the aggregation's defaults)
+ * @param failedAttempts - Consecutive failed reports for this datum; retries ignore eligibility offsets
  * @param now - Current time (defaults to new Date())
  * @returns The next action to take
  * @throws Error if reportId exists but report cannot be fetched
@@ -29,8 +36,11 @@ export async function getNextAction(
     lastReportCreatedAt: Date | null,
     reportId: string | null,
     countryCode: string,
+    region: ApiRegion,
+    offsets?: readonly number[],
+    failedAttempts = 0,
     now: Date = new Date()
-): Promise<NextAction> {
+): Promise<NextActionResult> {
     // If reportId exists, fetch its status
     if (reportId) {
         try {
@@ -38,7 +48,7 @@ export async function getNextAction(
                 {
                     reportIds: [reportId],
                 },
-                'na'
+                region
             );
 
             const report = retrieveResponse.success?.[0]?.report;
@@ -48,10 +58,14 @@ export async function getNextAction(
 
             // Report exists - check its status
             if (report.status === 'COMPLETED') {
-                return 'process';
+                return { action: 'process' };
+            }
+            // Terminal failure - the report will never complete and has to be recreated
+            if (isTerminalReportStatus(report.status)) {
+                return { action: 'fail', failureReason: report.failureReason ?? report.failureCode ?? `Report ${report.status.toLowerCase()}` };
             }
             // Report exists but not ready
-            return 'none';
+            return { action: 'none' };
         } catch (error) {
             // Wrap error with context about what we were trying to do
             if (error instanceof Error) {
@@ -61,12 +75,16 @@ export async function getNextAction(
         }
     }
 
+    // No report after a failed one - nextRefreshAt already waited out the backoff, so recreate it
+    if (failedAttempts > 0) {
+        return { action: 'create' };
+    }
+
     // No report - check eligibility
-    // Only allow creation for TARGETS (product reports aren't ready yet)
-    if (isEligibleForReport(timestamp, aggregation, lastReportCreatedAt, countryCode, now) && entityType === 'target') {
-        return 'create';
+    if (isEligibleForReport(timestamp, aggregation, lastReportCreatedAt, countryCode, now, offsets)) {
+        return { action: 'create' };
     }
 
-    // Not eligible or not supported report type
-    return 'none';
+    // Not eligible
+    return { action: 'none' };
 }
@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/db/index', () => ({ db: {} }));
+
+const { assertValidTransition } = await import('@/lib/report-status-state-machine/transitions');
+
+describe('report dataset transitions', () => {
+    it('allows the normal refresh cycle', () => {
+        expect(() => assertValidTransition('missing', 'fetching', 'report-1')).not.toThrow();
+        expect(() => assertValidTransition('fetching', 'parsing', 'report-1')).not.toThrow();
+        expect(() => assertValidTransition('parsing', 'completed', null)).not.toThrow();
+        expect(() => assertValidTransition('completed', 'fetching', 'report-2')).not.toThrow();
+    });
+
+    it('rejects parsing a completed dataset without a report', () => {
+        expect(() => assertValidTransition('completed', 'parsing', null)).toThrow('no report is in flight');
+    });
+
+    it('rejects transitions missing from the table', () => {
+        expect(() => assertValidTransition('missing', 'completed', null)).toThrow('Illegal report dataset transition missing → completed');
+        expect(() => assertValidTransition('fetching', 'completed', 'report-1')).toThrow();
+    });
+
+    it('only allows unrecognised statuses to move to error', () => {
+        expect(() => assertValidTransition('failed', 'error', null)).not.toThrow();
+        expect(() => assertValidTransition('failed', 'fetching', 'report-1')).toThrow();
+    });
+});
@@ -0,0 +1,101 @@
+import { eq, type InferSelectModel } from 'drizzle-orm';
+import { db } from '@/db/index';
+import { reportDatasetMetadata, reportDatasetStatusHistory } from '@/db/schema';
+import { REPORT_DATASET_STATUSES, type ReportDatasetStatus } from '@/types/reports';
+import { emitEvent } from '@/utils/events';
+
+type ReportDatasetRow = InferSelectModel<typeof reportDatasetMetadata>;
+
+/**
+ * Allowed status transitions for a report dataset.
+ *
+ * missing → fetching → parsing → completed → fetching → ... with 'error' reachable from anywhere.
+ * parsing → fetching is the startup recovery path for parses interrupted by a restart.
+ * Reports Amazon fails are retried from 'error' until the dataset is 'dead'; dead datasets are only retried manually.
+ */
+export const REPORT_DATASET_TRANSITIONS: Record<ReportDatasetStatus, readonly ReportDatasetStatus[]> = {
+    missing: ['fetching', 'error'],
+    fetching: ['parsing', 'error', 'dead'],
+    parsing: ['completed', 'fetching', 'error'],
+    completed: ['fetching', 'parsing', 'error'],
+    error: ['fetching', 'parsing', 'error', 'dead'],
+    dead: ['fetching', 'error'],
+};
+
+/**
+ * Statuses that only make sense while a report is in flight.
+ */
+const STATUSES_REQUIRING_REPORT: readonly ReportDatasetStatus[] = ['fetching', 'parsing'];
+
+export function isReportDatasetStatus(value: string): value is ReportDatasetStatus {
+    return (REPORT_DATASET_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Throws if moving from `from` to `to` is not allowed.
+ * `reportId` is the report the dataset will point at after the transition.
+ */
+export function assertValidTransition(from: string, to: ReportDatasetStatus, reportId: string | null): void {
+    // Rows with an unrecognised status can only be moved to 'error'
+    const allowed = isReportDatasetStatus(from) ? REPORT_DATASET_TRANSITIONS[from] : ['error'];
+    if (!allowed.includes(to)) {
+        throw new Error(`Illegal report dataset transition ${from} → ${to}`);
+    }
+    if (STATUSES_REQUIRING_REPORT.includes(to) && !reportId) {
+        throw new Error(`Illegal report dataset transition ${from} → ${to}: no report is in flight`);
+    }
+}
+
+/**
+ * Moves a report dataset to a new status, recording the transition in the status history.
+ *
+ * The row is locked while the transition is validated against its current status, so concurrent
+ * writers can't interleave. `set` applies extra column updates in the same write (e.g. the new reportId).
+ * Returns the updated row and emits a refresh event.
+ */
+export async function transitionReportDataset(
+    uid: string,
+    to: ReportDatasetStatus,
+    options: {
+        reason: string;
+        set?: Partial<Omit<ReportDatasetRow, 'uid' | 'status'>>;
+    }
+): Promise<ReportDatasetRow> {
+    const updatedRow = await db.transaction(async tx => {
+        const [current] = await tx.select().from(reportDatasetMetadata).where(eq(reportDatasetMetadata.uid, uid)).for('update');
+        if (!current) {
+            throw new Error(`Report dataset ${uid} not found`);
+        }
+
+        const nextReportId = options.set?.reportId !== undefined ? options.set.reportId : current.reportId;
+        assertValidTransition(current.status, to, nextReportId);
+
+        const [row] = await tx
+            .update(reportDatasetMetadata)
+            .set({ ...options.set, status: to })
+            .where(eq(reportDatasetMetadata.uid, uid))
+            .returning();
+
+        await tx.insert(reportDatasetStatusHistory).values({
+            reportDatasetMetadataId: uid,
+            fromStatus: current.status,
+            toStatus: to,
+            reason: options.reason,
+            // A newly created report, otherwise the one being fetched/parsed/processed
+            reportId: nextReportId ?? current.reportId,
+        });
+
+        return row;
+    });
+
+    if (!updatedRow) {
+        throw new Error(`Failed to transition report dataset ${uid} to ${to}`);
+    }
+
+    emitEvent({
+        type: 'report:refreshed',
+        row: updatedRow,
+    });
+
+    return updatedRow;
+}
@@ -1,4 +1,4 @@
-import type { AggregationType, EntityType } from '@/types/reports';
+import type { AggregationType, EntityType, ReportDatasetStatus } from '@/types/reports';
 
 /**
  * Report datum from the database.
@@ -10,11 +10,13 @@ export interface ReportDatum {
     timestamp: Date; // timezone-less, represents local time in country's timezone
     aggregation: AggregationType;
     entityType: EntityType;
-    status: string; // missing, fetching, parsing, completed, failed
+    status: ReportDatasetStatus;
     nextRefreshAt: Date | null;
     lastReportCreatedAt: Date | null; // timezone-less, represents local time in country's timezone
     reportId: string | null;
     error: string | null;
+    failureReason: string | null;
+    failedAttempts: number;
 }
 
 /**
@@ -27,4 +29,9 @@ export interface ReportStatus {
 /**
  * Next action to take for a report datum.
  */
-export type NextAction = 'process' | 'create' | 'none';
+export type NextAction = 'process' | 'create' | 'fail' | 'none';
+
+/**
+ * Result of the state machine. 'fail' carries Amazon's reason for a terminally failed report.
+ */
+export type NextActionResult = { action: Exclude<NextAction, 'fail'> } | { action: 'fail'; failureReason: string };
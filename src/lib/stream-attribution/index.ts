@@ -0,0 +1,78 @@
+import { eq } from 'drizzle-orm';
+import { db } from '@/db/index';
+import { amsSpConversion, streamAttributionSetting } from '@/db/schema';
+import type { AttributionWindow } from '@/types/reports';
+
+export type StreamAttribution = {
+    window: AttributionWindow;
+    sameSku: boolean;
+};
+
+/**
+ * Attribution used when an account has no setting. Matches Amazon's report default, so stream and
+ * report rows are comparable out of the box.
+ */
+export const DEFAULT_STREAM_ATTRIBUTION: StreamAttribution = { window: '14d', sameSku: false };
+
+const ATTRIBUTED_COLUMNS = {
+    '1d': {
+        all: { sales: amsSpConversion.attributedSales1d, orders: amsSpConversion.attributedConversions1d },
+        sameSku: { sales: amsSpConversion.attributedSales1dSameSku, orders: amsSpConversion.attributedConversions1dSameSku },
+    },
+    '7d': {
+        all: { sales: amsSpConversion.attributedSales7d, orders: amsSpConversion.attributedConversions7d },
+        sameSku: { sales: amsSpConversion.attributedSales7dSameSku, orders: amsSpConversion.attributedConversions7dSameSku },
+    },
+    '14d': {
+        all: { sales: amsSpConversion.attributedSales14d, orders: amsSpConversion.attributedConversions14d },
+        sameSku: { sales: amsSpConversion.attributedSales14dSameSku, orders: amsSpConversion.attributedConversions14dSameSku },
+    },
+    '30d': {
+        all: { sales: amsSpConversion.attributedSales30d, orders: amsSpConversion.attributedConversions30d },
+        sameSku: { sales: amsSpConversion.attributedSales30dSameSku, orders: amsSpConversion.attributedConversions30dSameSku },
+    },
+} as const;
+
+/**
+ * The amsSpConversion columns holding sales and orders for an attribution setting.
+ */
+export function getAttributedColumns(attribution: StreamAttribution) {
+    const columns = ATTRIBUTED_COLUMNS[attribution.window];
+    return attribution.sameSku ? columns.sameSku : columns.all;
+}
+
+/**
+ * Get the attribution an account's stream summaries use, falling back to the default.
+ */
+export async function getStreamAttribution(accountId: string): Promise<StreamAttribution> {
+    const setting = await db.query.streamAttributionSetting.findFirst({
+        where: eq(streamAttributionSetting.accountId, accountId),
+        columns: {
+            attributionWindow: true,
+            sameSku: true,
+        },
+    });
+
+    if (!setting) {
+        return DEFAULT_STREAM_ATTRIBUTION;
+    }
+    return { window: setting.attributionWindow as AttributionWindow, sameSku: setting.sameSku };
+}
+
+/**
+ * Save an account's stream attribution, replacing any existing setting.
+ * Rows already summarized keep their attribution until the summarizers rewrite them.
+ */
+export async function saveStreamAttribution(accountId: string, attribution: StreamAttribution): Promise<void> {
+    await db
+        .insert(streamAttributionSetting)
+        .values({ accountId, attributionWindow: attribution.window, sameSku: attribution.sameSku })
+        .onConflictDoUpdate({
+            target: streamAttributionSetting.accountId,
+            set: {
+                attributionWindow: attribution.window,
+                sameSku: attribution.sameSku,
+                updatedAt: new Date(),
+            },
+        });
+}
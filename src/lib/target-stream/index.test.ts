@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/db/index', () => ({ db: {} }));
+
+const { getTargetStreamSources, mergeTargetStreamAggregates } = await import('./index');
+
+const hour = new Date('2026-03-01T10:00:00Z');
+const keys = { campaignId: 'c1', adGroupId: 'ag1', adId: 'ad1', targetId: 't1' };
+
+describe('mergeTargetStreamAggregates', () => {
+    const source = { adProduct: 'SPONSORED_DISPLAY' as const, attribution: { window: '14d' as const, sameSku: false } };
+
+    it('joins conversions onto traffic with the same keys and bucket', () => {
+        const rows = mergeTargetStreamAggregates(source, [{ ...keys, bucketStart: hour, impressions: 100, clicks: 4, spend: 2.5 }], [{ ...keys, bucketStart: new Date(hour), sales: 30, orders: 1 }]);
+
+        expect(rows).toEqual([{ ...keys, ...source, bucketStart: hour, impressions: 100, clicks: 4, spend: 2.5, sales: 30, orders: 1 }]);
+    });
+
+    it('keeps conversions without traffic and traffic without conversions', () => {
+        const rows = mergeTargetStreamAggregates(
+            source,
+            [{ ...keys, bucketStart: hour, impressions: 100, clicks: 4, spend: 2.5 }],
+            [{ ...keys, bucketStart: new Date('2026-03-01T11:00:00Z'), sales: 30, orders: 1 }]
+        );
+
+        expect(rows.map(row => [row.impressions, row.sales])).toEqual([
+            [100, 0],
+            [0, 30],
+        ]);
+    });
+});
+
+describe('getTargetStreamSources', () => {
+    it('uses the account attribution for Sponsored Products only', () => {
+        const sources = getTargetStreamSources({ window: '7d', sameSku: true });
+
+        expect(sources.map(source => [source.adProduct, source.attribution.window])).toEqual([
+            ['SPONSORED_PRODUCTS', '7d'],
+            ['SPONSORED_BRANDS', '14d'],
+            ['SPONSORED_DISPLAY', '14d'],
+        ]);
+    });
+});
@@ -0,0 +1,165 @@
+import { and, eq, gte, lte, type SQL, sql } from 'drizzle-orm';
+import type { AnyPgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { db } from '@/db/index';
+import { amsSbConversion, amsSbTraffic, amsSdConversion, amsSdTraffic, amsSpConversion, amsSpTraffic } from '@/db/schema';
+import { DEFAULT_STREAM_ATTRIBUTION, getAttributedColumns, type StreamAttribution } from '@/lib/stream-attribution';
+import type { AdProduct } from '@/types/reports';
+
+type StreamKeyColumns = {
+    advertiserId: AnyPgColumn;
+    campaignId: AnyPgColumn;
+    adGroupId: AnyPgColumn;
+    adId: AnyPgColumn;
+    targetId: AnyPgColumn; // keyword ID for SP and SB, target ID for SD
+    timeWindowStart: AnyPgColumn;
+};
+
+/**
+ * The AMS traffic and conversion tables one ad product's target performance is summarized from.
+ */
+export type TargetStreamSource = {
+    adProduct: AdProduct;
+    attribution: StreamAttribution;
+    traffic: { table: PgTable; columns: StreamKeyColumns & { impressions: AnyPgColumn; clicks: AnyPgColumn; cost: AnyPgColumn } };
+    conversion: { table: PgTable; columns: StreamKeyColumns & { sales: AnyPgColumn; orders: AnyPgColumn } };
+};
+
+export type TargetStreamRow = {
+    adProduct: AdProduct;
+    attribution: StreamAttribution;
+    campaignId: string;
+    adGroupId: string;
+    adId: string;
+    targetId: string;
+    bucketStart: Date; // start of the hour when aggregated by hour, otherwise the window start
+    impressions: number;
+    clicks: number;
+    spend: number;
+    sales: number;
+    orders: number;
+};
+
+type TrafficAggregate = Pick<TargetStreamRow, 'campaignId' | 'adGroupId' | 'adId' | 'targetId' | 'bucketStart' | 'impressions' | 'clicks' | 'spend'>;
+type ConversionAggregate = Pick<TargetStreamRow, 'campaignId' | 'adGroupId' | 'adId' | 'targetId' | 'bucketStart' | 'sales' | 'orders'>;
+
+/**
+ * Stream sources for an account. Sponsored Products sales and orders follow the account's attribution
+ * setting; Sponsored Brands and Display streams only carry 14-day click attribution.
+ */
+export function getTargetStreamSources(spAttribution: StreamAttribution): TargetStreamSource[] {
+    const spAttributed = getAttributedColumns(spAttribution);
+    return [
+        {
+            adProduct: 'SPONSORED_PRODUCTS',
+            attribution: spAttribution,
+            traffic: { table: amsSpTraffic, columns: { ...amsSpTraffic, targetId: amsSpTraffic.keywordId } },
+            conversion: { table: amsSpConversion, columns: { ...amsSpConversion, targetId: amsSpConversion.keywordId, ...spAttributed } },
+        },
+        {
+            adProduct: 'SPONSORED_BRANDS',
+            attribution: DEFAULT_STREAM_ATTRIBUTION,
+            traffic: { table: amsSbTraffic, columns: { ...amsSbTraffic, targetId: amsSbTraffic.keywordId } },
+            conversion: {
+                table: amsSbConversion,
+                columns: { ...amsSbConversion, targetId: amsSbConversion.keywordId, sales: amsSbConversion.attributedSales14d, orders: amsSbConversion.attributedConversions14d },
+            },
+        },
+        {
+            adProduct: 'SPONSORED_DISPLAY',
+            attribution: DEFAULT_STREAM_ATTRIBUTION,
+            traffic: { table: amsSdTraffic, columns: amsSdTraffic },
+            conversion: { table: amsSdConversion, columns: { ...amsSdConversion, sales: amsSdConversion.attributedSales14d, orders: amsSdConversion.attributedConversions14d } },
+        },
+    ];
+}
+
+/**
+ * Aggregate a source's traffic and conversions for an advertiser between `from` and `to` (inclusive)
+ * per campaign, ad group, ad and target, and per hour when `byHour` is set.
+ */
+export async function aggregateTargetStream(
+    source: TargetStreamSource,
+    args: { advertiserId: string; from: Date; to: Date; byHour: boolean }
+): Promise<{ rows: TargetStreamRow[]; trafficAggregates: number; conversionAggregates: number }> {
+    const hourStart = (columns: StreamKeyColumns): SQL<Date> => sql<Date>`date_trunc('hour', ${columns.timeWindowStart})`;
+    const keyColumns = (columns: StreamKeyColumns) => ({
+        campaignId: sql<string>`${columns.campaignId}`,
+        adGroupId: sql<string>`${columns.adGroupId}`,
+        adId: sql<string>`${columns.adId}`,
+        targetId: sql<string>`${columns.targetId}`,
+        ...(args.byHour ? { hourStart: hourStart(columns) } : {}),
+    });
+    const withBucketStart = <T extends { hourStart?: Date }>({ hourStart, ...row }: T) => ({ ...row, bucketStart: hourStart ? new Date(hourStart) : args.from });
+    const inWindow = (columns: StreamKeyColumns) => and(eq(columns.advertiserId, args.advertiserId), gte(columns.timeWindowStart, args.from), lte(columns.timeWindowStart, args.to));
+    const groupBy = (columns: StreamKeyColumns) => [columns.campaignId, columns.adGroupId, columns.adId, columns.targetId, ...(args.byHour ? [hourStart(columns)] : [])];
+
+    const traffic = source.traffic.columns;
+    const trafficAggregates = await db
+        .select({
+            ...keyColumns(traffic),
+            impressions: sql<number>`COALESCE(SUM(${traffic.impressions}), 0)::int`,
+            clicks: sql<number>`COALESCE(SUM(${traffic.clicks}), 0)::int`,
+            spend: sql<number>`COALESCE(SUM(${traffic.cost}), 0)`,
+        })
+        .from(source.traffic.table)
+        .where(inWindow(traffic))
+        .groupBy(...groupBy(traffic));
+
+    const conversion = source.conversion.columns;
+    const conversionAggregates = await db
+        .select({
+            ...keyColumns(conversion),
+            sales: sql<number>`COALESCE(SUM(${conversion.sales}), 0)`,
+            orders: sql<number>`COALESCE(SUM(${conversion.orders}), 0)::int`,
+        })
+        .from(source.conversion.table)
+        .where(inWindow(conversion))
+        .groupBy(...groupBy(conversion));
+
+    return {
+        rows: mergeTargetStreamAggregates(source, trafficAggregates.map(withBucketStart), conversionAggregates.map(withBucketStart)),
+        trafficAggregates: trafficAggregates.length,
+        conversionAggregates: conversionAggregates.length,
+    };
+}
+
+/**
+ * Join traffic and conversion aggregates on their keys. Conversions without traffic in the window
+ * still produce a row, with zero impressions, clicks and spend.
+ */
+export function mergeTargetStreamAggregates(
+    source: Pick<TargetStreamSource, 'adProduct' | 'attribution'>,
+    trafficAggregates: TrafficAggregate[],
+    conversionAggregates: ConversionAggregate[]
+): TargetStreamRow[] {
+    const keyOf = (row: TrafficAggregate | ConversionAggregate) => `${row.campaignId}|${row.adGroupId}|${row.adId}|${row.targetId}|${row.bucketStart.toISOString()}`;
+
+    const rows = new Map<string, TargetStreamRow>();
+    for (const traffic of trafficAggregates) {
+        rows.set(keyOf(traffic), {
+            ...traffic,
+            adProduct: source.adProduct,
+            attribution: source.attribution,
+            sales: 0,
+            orders: 0,
+        });
+    }
+    for (const conv of conversionAggregates) {
+        const key = keyOf(conv);
+        const row = rows.get(key);
+        if (row) {
+            row.sales = conv.sales;
+            row.orders = conv.orders;
+        } else {
+            rows.set(key, {
+                ...conv,
+                adProduct: source.adProduct,
+                attribution: source.attribution,
+                impressions: 0,
+                clicks: 0,
+                spend: 0,
+            });
+        }
+    }
+    return [...rows.values()];
+}
@@ -4,12 +4,31 @@ import type { z } from 'zod';
 // Report Configuration Types
 // ============================================================================
 
-export const AGGREGATION_TYPES = ['hourly', 'daily'] as const;
+export const AGGREGATION_TYPES = ['hourly', 'daily', 'monthly', 'annual'] as const;
 export type AggregationType = (typeof AGGREGATION_TYPES)[number];
 
-export const ENTITY_TYPES = ['target', 'product'] as const;
+export const ENTITY_TYPES = ['target', 'product', 'searchTerm', 'placement'] as const;
 export type EntityType = (typeof ENTITY_TYPES)[number];
 
+export const REPORT_DATASET_STATUSES = ['missing', 'fetching', 'parsing', 'completed', 'error', 'dead'] as const;
+export type ReportDatasetStatus = (typeof REPORT_DATASET_STATUSES)[number];
+
+/** Where a performance row's metrics came from. 'legacy' rows predate provenance tracking and may be either. */
+export const PERFORMANCE_SOURCES = ['report', 'stream', 'legacy'] as const;
+export type PerformanceSource = (typeof PERFORMANCE_SOURCES)[number];
+
+/** Conversion windows available in the AMS sp-conversion stream */
+export const ATTRIBUTION_WINDOWS = ['1d', '7d', '14d', '30d'] as const;
+export type AttributionWindow = (typeof ATTRIBUTION_WINDOWS)[number];
+
+/** Ad products performance rows are recorded for, in the Ads API's naming */
+export const AD_PRODUCTS = ['SPONSORED_PRODUCTS', 'SPONSORED_BRANDS', 'SPONSORED_DISPLAY'] as const;
+export type AdProduct = (typeof AD_PRODUCTS)[number];
+
+/** Ad placements stored in the placement performance tables */
+export const PLACEMENTS = ['top_of_search', 'rest_of_search', 'product_pages', 'other'] as const;
+export type Placement = (typeof PLACEMENTS)[number];
+
 /**
  * Configuration for a report type.
  */
@@ -32,5 +51,6 @@ export interface ReportConfig {
 
 /**
  * Map of aggregation -> entityType -> report configuration.
+ * Placement reports only exist for hourly and daily aggregations.
  */
-export type ReportConfigMap = Record<AggregationType, Record<EntityType, ReportConfig>>;
+export type ReportConfigMap = Record<AggregationType, Partial<Record<EntityType, ReportConfig>>>;
@@ -3,9 +3,9 @@ import { amsMetrics } from '@/db/schema.js';
 
 /**
  * Track AMS event processing metrics
- * Wraps handler execution and records success/failure with timing
+ * Wraps handler execution and records success/failure with timing and the payload's schema version
  */
-export async function trackAmsEvent<T>(entityType: string, handler: () => Promise<T>): Promise<T> {
+export async function trackAmsEvent<T>(entityType: string, schemaVersion: number, handler: () => Promise<T>): Promise<T> {
     const startTime = performance.now();
     try {
         const result = await handler();
@@ -15,6 +15,7 @@ export async function trackAmsEvent<T>(entityType: string, handler: () => Promis
             .values({
                 timestamp: new Date(),
                 entityType,
+                schemaVersion,
                 success: true,
                 durationMs,
             })
@@ -27,6 +28,7 @@ export async function trackAmsEvent<T>(entityType: string, handler: () => Promis
             .values({
                 timestamp: new Date(),
                 entityType,
+                schemaVersion,
                 success: false,
                 durationMs,
                 error: error instanceof Error ? error.message : String(error),
@@ -35,4 +37,3 @@ export async function trackAmsEvent<T>(entityType: string, handler: () => Promis
         throw error; // Re-throw to let SQS handle retries
     }
 }
-
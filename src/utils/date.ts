@@ -3,8 +3,8 @@
  * All functions work with UTC timezone by default.
  */
 
-import { addDays, addHours, startOfDay, startOfHour, subDays, subHours, subMonths } from 'date-fns';
-import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+import { addDays, addHours, addMonths, startOfDay, startOfHour, startOfMonth, startOfYear, subDays, subHours, subMonths } from 'date-fns';
+import { formatInTimeZone, fromZonedTime, toZonedTime } from 'date-fns-tz';
 
 /**
  * Get the start of the hour in UTC for a given date.
@@ -135,6 +135,22 @@ export function zonedStartOfDay(date: Date, timezone: string): Date {
     return fromZonedTime(startOfDayZoned, timezone);
 }
 
+/**
+ * Get the start of the month in the specified timezone for a given date.
+ */
+export function zonedStartOfMonth(date: Date, timezone: string): Date {
+    const zonedDate = toZonedTime(date, timezone);
+    return fromZonedTime(startOfMonth(zonedDate), timezone);
+}
+
+/**
+ * Get the start of the year in the specified timezone for a given date.
+ */
+export function zonedStartOfYear(date: Date, timezone: string): Date {
+    const zonedDate = toZonedTime(date, timezone);
+    return fromZonedTime(startOfYear(zonedDate), timezone);
+}
+
 /**
  * Get the current date/time (always returns UTC Date object).
  * The timezone parameter is kept for API consistency but not used.
@@ -143,6 +159,22 @@ export function zonedNow(_timezone: string): Date {
     return new Date();
 }
 
+/**
+ * Get the current wall-clock time in the specified timezone as a timezone-less Date
+ * (the convention used for lastReportCreatedAt).
+ */
+export function zonedLocalNow(timezone: string): Date {
+    const zonedTime = toZonedTime(new Date(), timezone);
+    return new Date(zonedTime.getFullYear(), zonedTime.getMonth(), zonedTime.getDate(), zonedTime.getHours(), zonedTime.getMinutes(), zonedTime.getSeconds());
+}
+
+/**
+ * Format a date as YYYY-MM-DD in the specified timezone.
+ */
+export function formatZonedDate(date: Date, timezone: string): string {
+    return formatInTimeZone(date, timezone, 'yyyy-MM-dd');
+}
+
 /**
  * Add hours to a date in the specified timezone.
  */
@@ -179,6 +211,15 @@ export function zonedSubtractDays(date: Date, days: number, timezone: string): D
     return fromZonedTime(subtracted, timezone);
 }
 
+/**
+ * Add months to a date in the specified timezone.
+ */
+export function zonedAddMonths(date: Date, months: number, timezone: string): Date {
+    const zonedDate = toZonedTime(date, timezone);
+    const added = addMonths(zonedDate, months);
+    return fromZonedTime(added, timezone);
+}
+
 /**
  * Subtract months from a date in the specified timezone.
  */
@@ -87,8 +87,8 @@ export interface ReportDatasetMetadataErrorEvent extends BaseEvent {
         accountId: string;
         countryCode: string;
         periodStart: string;
-        aggregation: 'hourly' | 'daily';
-        entityType: 'target' | 'product';
+        aggregation: 'hourly' | 'daily' | 'monthly' | 'annual';
+        entityType: 'target' | 'product' | 'searchTerm' | 'placement';
         error: string;
     };
 }
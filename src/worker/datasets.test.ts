@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { type AmsDatasetDefinition, detectAmsSchemaVersion, findAmsDataset, upgradeAmsPayload } from './datasets';
+
+const handle = async () => {};
+
+describe('findAmsDataset', () => {
+    it('matches registered prefixes', () => {
+        expect(findAmsDataset('sp-traffic-v1')?.entityType).toBe('spTraffic');
+        expect(findAmsDataset('ads-campaign-management-adgroups-v1')?.entityType).toBe('adGroup');
+        expect(findAmsDataset('ads-campaign-management-ads-v1')?.entityType).toBe('ad');
+        expect(findAmsDataset('sb-traffic')?.entityType).toBe('sbTraffic');
+        expect(findAmsDataset('sd-conversion-v1')?.entityType).toBe('sdConversion');
+        expect(findAmsDataset('sp-budget-recommendations')?.entityType).toBe('spBudgetRecommendation');
+        expect(findAmsDataset('dsp-traffic')).toBeUndefined();
+    });
+
+    it('prefers the longest matching prefix', () => {
+        const datasets: AmsDatasetDefinition[] = [
+            { prefix: 'sp', entityType: 'sp', table: 'a', version: 1, handle },
+            { prefix: 'sp-traffic', entityType: 'spTraffic', table: 'b', version: 1, handle },
+        ];
+
+        expect(findAmsDataset('sp-traffic', datasets)?.entityType).toBe('spTraffic');
+        expect(findAmsDataset('sp-other', datasets)?.entityType).toBe('sp');
+    });
+});
+
+describe('upgradeAmsPayload', () => {
+    const campaigns = findAmsDataset('ads-campaign-management-campaigns');
+    if (!campaigns) {
+        throw new Error('Campaigns dataset is not registered');
+    }
+
+    it('upgrades tags sent as an object to the array of key and value pairs', () => {
+        const payload = { dataset_id: 'ads-campaign-management-campaigns', tags: { team: 'brand', priority: 1 } };
+        const version = detectAmsSchemaVersion(campaigns, payload);
+
+        expect(version).toBe(1);
+        expect(upgradeAmsPayload(campaigns, payload, version).tags).toEqual([
+            { key: 'team', value: 'brand' },
+            { key: 'priority', value: '1' },
+        ]);
+    });
+
+    it('passes current payloads through unchanged', () => {
+        const payload = { dataset_id: 'ads-campaign-management-campaigns', tags: [{ key: 'team', value: 'brand' }] };
+
+        expect(detectAmsSchemaVersion(campaigns, payload)).toBe(2);
+        expect(upgradeAmsPayload(campaigns, payload, 2)).toBe(payload);
+    });
+
+    it('rejects versions it cannot upgrade from', () => {
+        const dataset: AmsDatasetDefinition = { prefix: 'x', entityType: 'x', table: 'x', version: 3, upgrades: { 2: payload => payload }, handle };
+
+        expect(() => upgradeAmsPayload(dataset, {}, 4)).toThrow('Unsupported x schema version 4');
+        expect(() => upgradeAmsPayload(dataset, {}, 1)).toThrow('No upgrade for x schema version 1');
+    });
+});
@@ -0,0 +1,142 @@
+import {
+    handleAdGroups,
+    handleAds,
+    handleBudgetUsage,
+    handleCampaigns,
+    handleSbConversion,
+    handleSbTraffic,
+    handleSdConversion,
+    handleSdTraffic,
+    handleSpBudgetRecommendations,
+    handleSpConversion,
+    handleSpTraffic,
+    handleTargets,
+} from './handlers/index.js';
+
+type AmsPayload = Record<string, unknown>;
+
+/**
+ * An AMS dataset the worker knows how to store. Payloads are matched to a dataset by `dataset_id` prefix,
+ * brought up to `version` by the upgrade transforms, and then passed to `handle`.
+ */
+export type AmsDatasetDefinition = {
+    /** `dataset_id` prefix; when several match, the longest wins */
+    prefix: string;
+    /** Recorded as ams_metrics.entity_type */
+    entityType: string;
+    /** Table `handle` writes to */
+    table: string;
+    /** Schema version `handle` expects */
+    version: number;
+    /**
+     * The schema version of a payload. AMS does not reliably send a `version` field, so versions are
+     * detected from the payload's shape. Defaults to `version`.
+     */
+    detectVersion?: (payload: AmsPayload) => number;
+    /** Transforms keyed by the version they upgrade from, each producing the next version */
+    upgrades?: Record<number, (payload: AmsPayload) => AmsPayload>;
+    handle: (payload: unknown) => Promise<void>;
+};
+
+// ============================================================================
+// Campaign management datasets
+// ============================================================================
+
+// Version 1 sends tags as an object of key → value; version 2 sends the documented array of { key, value }
+const detectTagsVersion = (payload: AmsPayload) => (isTagsObject(payload.tags) ? 1 : 2);
+
+const tagsUpgrades = {
+    1: (payload: AmsPayload) => ({
+        ...payload,
+        tags: isTagsObject(payload.tags) ? Object.entries(payload.tags).map(([key, value]) => ({ key, value: String(value) })) : payload.tags,
+    }),
+};
+
+const isTagsObject = (tags: unknown): tags is Record<string, unknown> => typeof tags === 'object' && tags !== null && !Array.isArray(tags);
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/** Datasets by prefix. Add a definition here to route a new dataset. */
+export const AMS_DATASETS: AmsDatasetDefinition[] = [
+    { prefix: 'sp-traffic', entityType: 'spTraffic', table: 'ams_sp_traffic', version: 1, handle: handleSpTraffic },
+    { prefix: 'sp-conversion', entityType: 'spConversion', table: 'ams_sp_conversion', version: 1, handle: handleSpConversion },
+    { prefix: 'sb-traffic', entityType: 'sbTraffic', table: 'ams_sb_traffic', version: 1, handle: handleSbTraffic },
+    { prefix: 'sb-conversion', entityType: 'sbConversion', table: 'ams_sb_conversion', version: 1, handle: handleSbConversion },
+    { prefix: 'sd-traffic', entityType: 'sdTraffic', table: 'ams_sd_traffic', version: 1, handle: handleSdTraffic },
+    { prefix: 'sd-conversion', entityType: 'sdConversion', table: 'ams_sd_conversion', version: 1, handle: handleSdConversion },
+    { prefix: 'budget-usage', entityType: 'budgetUsage', table: 'ams_budget_usage', version: 1, handle: handleBudgetUsage },
+    {
+        prefix: 'sp-budget-recommendations',
+        entityType: 'spBudgetRecommendation',
+        table: 'ams_sp_budget_recommendations',
+        version: 1,
+        handle: handleSpBudgetRecommendations,
+    },
+    {
+        prefix: 'ads-campaign-management-campaigns',
+        entityType: 'campaign',
+        table: 'ams_cm_campaigns',
+        version: 2,
+        detectVersion: detectTagsVersion,
+        upgrades: tagsUpgrades,
+        handle: handleCampaigns,
+    },
+    {
+        prefix: 'ads-campaign-management-adgroups',
+        entityType: 'adGroup',
+        table: 'ams_cm_adgroups',
+        version: 2,
+        detectVersion: detectTagsVersion,
+        upgrades: tagsUpgrades,
+        handle: handleAdGroups,
+    },
+    { prefix: 'ads-campaign-management-ads', entityType: 'ad', table: 'ams_cm_ads', version: 2, detectVersion: detectTagsVersion, upgrades: tagsUpgrades, handle: handleAds },
+    {
+        prefix: 'ads-campaign-management-targets',
+        entityType: 'target',
+        table: 'ams_cm_targets',
+        version: 2,
+        detectVersion: detectTagsVersion,
+        upgrades: tagsUpgrades,
+        handle: handleTargets,
+    },
+];
+
+/** Every dataset's entity type, in registry order */
+export const AMS_ENTITY_TYPES = AMS_DATASETS.map(dataset => dataset.entityType);
+
+/**
+ * The dataset a `dataset_id` belongs to, or undefined if no registered prefix matches.
+ */
+export function findAmsDataset(datasetId: string, datasets: AmsDatasetDefinition[] = AMS_DATASETS): AmsDatasetDefinition | undefined {
+    return datasets.filter(dataset => datasetId.startsWith(dataset.prefix)).sort((a, b) => b.prefix.length - a.prefix.length)[0];
+}
+
+/**
+ * A payload's schema version as received.
+ */
+export function detectAmsSchemaVersion(dataset: AmsDatasetDefinition, payload: AmsPayload): number {
+    return dataset.detectVersion?.(payload) ?? dataset.version;
+}
+
+/**
+ * Upgrade a payload from its schema version to the version its handler expects. Throws for versions the
+ * dataset does not know or cannot upgrade from.
+ */
+export function upgradeAmsPayload(dataset: AmsDatasetDefinition, payload: AmsPayload, schemaVersion: number): AmsPayload {
+    if (!Number.isInteger(schemaVersion) || schemaVersion < 1 || schemaVersion > dataset.version) {
+        throw new Error(`Unsupported ${dataset.entityType} schema version ${schemaVersion}`);
+    }
+
+    let upgraded = payload;
+    for (let version = schemaVersion; version < dataset.version; version++) {
+        const upgrade = dataset.upgrades?.[version];
+        if (!upgrade) {
+            throw new Error(`No upgrade for ${dataset.entityType} schema version ${version}`);
+        }
+        upgraded = upgrade(upgraded);
+    }
+    return upgraded;
+}
@@ -1,14 +1,14 @@
+import { and, eq } from 'drizzle-orm';
 import { db } from '@/db/index.js';
 import { amsCmAdgroups } from '@/db/schema.js';
+import { getAmsAdGroupDefaultBid, recordAmsChange } from '@/lib/change-log';
 import { createContextLogger } from '@/utils/logger';
-import { trackAmsEvent } from '@/utils/ams-metrics.js';
 import { adGroupSchema } from '../schemas.js';
 
 /**
  * Handle Campaign Management AdGroup events
  */
 export async function handleAdGroups(payload: unknown): Promise<void> {
-    return trackAmsEvent('adGroup', async () => {
     // Validate payload with Zod (AMS uses snake_case)
     const validationResult = adGroupSchema.safeParse(payload);
     if (!validationResult.success) {
@@ -50,13 +50,43 @@ export async function handleAdGroups(payload: unknown): Promise<void> {
         fees: data.fees ?? null,
     };
 
-    // Upsert with idempotency using adGroupId + campaignId
-    await db
-        .insert(amsCmAdgroups)
-        .values(record)
-        .onConflictDoUpdate({
-            target: [amsCmAdgroups.adGroupId, amsCmAdgroups.campaignId],
-            set: record,
-        });
+    await db.transaction(async tx => {
+        // The previous message for this ad group, locked so concurrent messages compare against each other in order
+        const [previous] = await tx
+            .select({ bid: amsCmAdgroups.bid, lastUpdatedDateTime: amsCmAdgroups.lastUpdatedDateTime })
+            .from(amsCmAdgroups)
+            .where(and(eq(amsCmAdgroups.adGroupId, record.adGroupId), eq(amsCmAdgroups.campaignId, record.campaignId)))
+            .for('update');
+
+        // AMS can deliver out of order; a message older than the stored one would record a spurious reversal
+        if (previous?.lastUpdatedDateTime && record.lastUpdatedDateTime && record.lastUpdatedDateTime < previous.lastUpdatedDateTime) {
+            return;
+        }
+
+        // Upsert with idempotency using adGroupId + campaignId
+        await tx
+            .insert(amsCmAdgroups)
+            .values(record)
+            .onConflictDoUpdate({
+                target: [amsCmAdgroups.adGroupId, amsCmAdgroups.campaignId],
+                set: record,
+            });
+
+        // Bid changes made in Amazon show up as a difference from the previous message
+        if (previous) {
+            await recordAmsChange(
+                {
+                    entityType: 'adGroup',
+                    entityId: record.adGroupId,
+                    campaignId: record.campaignId,
+                    adGroupId: record.adGroupId,
+                    field: 'defaultBid',
+                    oldValue: getAmsAdGroupDefaultBid(previous.bid),
+                    newValue: getAmsAdGroupDefaultBid(record.bid),
+                    changedAt: record.lastUpdatedDateTime ?? new Date(),
+                },
+                tx
+            );
+        }
     });
 }
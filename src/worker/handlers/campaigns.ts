@@ -1,14 +1,14 @@
+import { eq } from 'drizzle-orm';
 import { db } from '@/db/index.js';
 import { amsCmCampaigns } from '@/db/schema.js';
+import { getAmsCampaignBudget, recordAmsChange } from '@/lib/change-log';
 import { createContextLogger } from '@/utils/logger';
-import { trackAmsEvent } from '@/utils/ams-metrics.js';
 import { campaignSchema } from '../schemas.js';
 
 /**
  * Handle Campaign Management Campaign events
  */
 export async function handleCampaigns(payload: unknown): Promise<void> {
-    return trackAmsEvent('campaign', async () => {
     // Validate payload with Zod (AMS uses snake_case)
     const validationResult = campaignSchema.safeParse(payload);
     if (!validationResult.success) {
@@ -52,13 +52,42 @@ export async function handleCampaigns(payload: unknown): Promise<void> {
         flights: data.flights ?? null,
     };
 
-    // Upsert with idempotency using campaignId (unique identifier)
-    await db
-        .insert(amsCmCampaigns)
-        .values(record)
-        .onConflictDoUpdate({
-            target: [amsCmCampaigns.campaignId],
-            set: record,
-        });
+    await db.transaction(async tx => {
+        // The previous message for this campaign, locked so concurrent messages compare against each other in order
+        const [previous] = await tx
+            .select({ budgets: amsCmCampaigns.budgets, lastUpdatedDateTime: amsCmCampaigns.lastUpdatedDateTime })
+            .from(amsCmCampaigns)
+            .where(eq(amsCmCampaigns.campaignId, record.campaignId))
+            .for('update');
+
+        // AMS can deliver out of order; a message older than the stored one would record a spurious reversal
+        if (previous?.lastUpdatedDateTime && record.lastUpdatedDateTime && record.lastUpdatedDateTime < previous.lastUpdatedDateTime) {
+            return;
+        }
+
+        // Upsert with idempotency using campaignId (unique identifier)
+        await tx
+            .insert(amsCmCampaigns)
+            .values(record)
+            .onConflictDoUpdate({
+                target: [amsCmCampaigns.campaignId],
+                set: record,
+            });
+
+        // Budget changes made in Amazon show up as a difference from the previous message
+        if (previous) {
+            await recordAmsChange(
+                {
+                    entityType: 'campaign',
+                    entityId: record.campaignId,
+                    campaignId: record.campaignId,
+                    field: 'budget',
+                    oldValue: getAmsCampaignBudget(previous.budgets),
+                    newValue: getAmsCampaignBudget(record.budgets),
+                    changedAt: record.lastUpdatedDateTime ?? new Date(),
+                },
+                tx
+            );
+        }
     });
 }
@@ -1,6 +1,11 @@
 export { handleSpTraffic } from './spTraffic.js';
 export { handleSpConversion } from './spConversion.js';
 export { handleBudgetUsage } from './budgetUsage.js';
+export { handleSbTraffic } from './sbTraffic.js';
+export { handleSbConversion } from './sbConversion.js';
+export { handleSdTraffic } from './sdTraffic.js';
+export { handleSdConversion } from './sdConversion.js';
+export { handleSpBudgetRecommendations } from './spBudgetRecommendations.js';
 export { handleCampaigns } from './campaigns.js';
 export { handleAdGroups } from './adGroups.js';
 export { handleAds } from './ads.js';
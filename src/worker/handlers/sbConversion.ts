@@ -0,0 +1,45 @@
+import { db } from '@/db/index.js';
+import { amsSbConversion } from '@/db/schema.js';
+import { createContextLogger } from '@/utils/logger';
+import { sbConversionSchema } from '../schemas.js';
+
+/**
+ * Handle Sponsored Brands Conversion events
+ */
+export async function handleSbConversion(payload: unknown): Promise<void> {
+    // Validate payload with Zod (AMS uses snake_case)
+    const validationResult = sbConversionSchema.safeParse(payload);
+    if (!validationResult.success) {
+        const datasetId = typeof payload === 'object' && payload !== null && 'dataset_id' in payload ? String(payload.dataset_id) : 'unknown';
+        const logger = createContextLogger({ component: 'handler', handler: 'sbConversion', datasetId });
+        logger.error({ err: validationResult.error, validationErrors: validationResult.error.format() }, 'Validation failed');
+        throw new Error(`Invalid sb-conversion payload: ${validationResult.error.message}`);
+    }
+
+    const data = validationResult.data;
+
+    // Map from snake_case (AMS) to camelCase (Drizzle schema)
+    const record = {
+        idempotencyId: data.idempotency_id,
+        datasetId: data.dataset_id,
+        marketplaceId: data.marketplace_id,
+        currency: data.currency,
+        advertiserId: data.advertiser_id,
+        campaignId: data.campaign_id,
+        adGroupId: data.ad_group_id,
+        adId: data.ad_id,
+        keywordId: data.keyword_id,
+        timeWindowStart: new Date(data.time_window_start),
+        attributedConversions14d: data.attributed_conversions_14d ?? null,
+        attributedSales14d: data.attributed_sales_14d ?? null,
+        attributedUnitsOrdered14d: data.attributed_units_ordered_14d ?? null,
+        attributedNewToBrandPurchases14d: data.attributed_new_to_brand_purchases_14d ?? null,
+        attributedNewToBrandSales14d: data.attributed_new_to_brand_sales_14d ?? null,
+    };
+
+    // Upsert with idempotency
+    await db.insert(amsSbConversion).values(record).onConflictDoUpdate({
+        target: amsSbConversion.idempotencyId,
+        set: record,
+    });
+}
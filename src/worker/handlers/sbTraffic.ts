@@ -0,0 +1,46 @@
+import { db } from '@/db/index.js';
+import { amsSbTraffic } from '@/db/schema.js';
+import { createContextLogger } from '@/utils/logger';
+import { sbTrafficSchema } from '../schemas.js';
+
+/**
+ * Handle Sponsored Brands Traffic events
+ */
+export async function handleSbTraffic(payload: unknown): Promise<void> {
+    // Validate payload with Zod (AMS uses snake_case)
+    const validationResult = sbTrafficSchema.safeParse(payload);
+    if (!validationResult.success) {
+        const datasetId = typeof payload === 'object' && payload !== null && 'dataset_id' in payload ? String(payload.dataset_id) : 'unknown';
+        const logger = createContextLogger({ component: 'handler', handler: 'sbTraffic', datasetId });
+        logger.error({ err: validationResult.error, validationErrors: validationResult.error.format() }, 'Validation failed');
+        throw new Error(`Invalid sb-traffic payload: ${validationResult.error.message}`);
+    }
+
+    const data = validationResult.data;
+
+    // Map from snake_case (AMS) to camelCase (Drizzle schema)
+    const record = {
+        idempotencyId: data.idempotency_id,
+        datasetId: data.dataset_id,
+        marketplaceId: data.marketplace_id,
+        currency: data.currency,
+        advertiserId: data.advertiser_id,
+        campaignId: data.campaign_id,
+        adGroupId: data.ad_group_id,
+        adId: data.ad_id,
+        keywordId: data.keyword_id,
+        keywordText: data.keyword_text ?? null,
+        matchType: data.match_type ?? null,
+        timeWindowStart: new Date(data.time_window_start),
+        clicks: data.clicks,
+        impressions: data.impressions,
+        viewableImpressions: data.viewable_impressions ?? null,
+        cost: data.cost,
+    };
+
+    // Upsert with idempotency
+    await db.insert(amsSbTraffic).values(record).onConflictDoUpdate({
+        target: amsSbTraffic.idempotencyId,
+        set: record,
+    });
+}
@@ -0,0 +1,45 @@
+import { db } from '@/db/index.js';
+import { amsSdConversion } from '@/db/schema.js';
+import { createContextLogger } from '@/utils/logger';
+import { sdConversionSchema } from '../schemas.js';
+
+/**
+ * Handle Sponsored Display Conversion events
+ */
+export async function handleSdConversion(payload: unknown): Promise<void> {
+    // Validate payload with Zod (AMS uses snake_case)
+    const validationResult = sdConversionSchema.safeParse(payload);
+    if (!validationResult.success) {
+        const datasetId = typeof payload === 'object' && payload !== null && 'dataset_id' in payload ? String(payload.dataset_id) : 'unknown';
+        const logger = createContextLogger({ component: 'handler', handler: 'sdConversion', datasetId });
+        logger.error({ err: validationResult.error, validationErrors: validationResult.error.format() }, 'Validation failed');
+        throw new Error(`Invalid sd-conversion payload: ${validationResult.error.message}`);
+    }
+
+    const data = validationResult.data;
+
+    // Map from snake_case (AMS) to camelCase (Drizzle schema)
+    const record = {
+        idempotencyId: data.idempotency_id,
+        datasetId: data.dataset_id,
+        marketplaceId: data.marketplace_id,
+        currency: data.currency,
+        advertiserId: data.advertiser_id,
+        campaignId: data.campaign_id,
+        adGroupId: data.ad_group_id,
+        adId: data.ad_id,
+        targetId: data.target_id,
+        timeWindowStart: new Date(data.time_window_start),
+        attributedConversions14d: data.attributed_conversions_14d ?? null,
+        attributedSales14d: data.attributed_sales_14d ?? null,
+        attributedUnitsOrdered14d: data.attributed_units_ordered_14d ?? null,
+        viewAttributedConversions14d: data.view_attributed_conversions_14d ?? null,
+        viewAttributedSales14d: data.view_attributed_sales_14d ?? null,
+    };
+
+    // Upsert with idempotency
+    await db.insert(amsSdConversion).values(record).onConflictDoUpdate({
+        target: amsSdConversion.idempotencyId,
+        set: record,
+    });
+}
@@ -0,0 +1,45 @@
+import { db } from '@/db/index.js';
+import { amsSdTraffic } from '@/db/schema.js';
+import { createContextLogger } from '@/utils/logger';
+import { sdTrafficSchema } from '../schemas.js';
+
+/**
+ * Handle Sponsored Display Traffic events
+ */
+export async function handleSdTraffic(payload: unknown): Promise<void> {
+    // Validate payload with Zod (AMS uses snake_case)
+    const validationResult = sdTrafficSchema.safeParse(payload);
+    if (!validationResult.success) {
+        const datasetId = typeof payload === 'object' && payload !== null && 'dataset_id' in payload ? String(payload.dataset_id) : 'unknown';
+        const logger = createContextLogger({ component: 'handler', handler: 'sdTraffic', datasetId });
+        logger.error({ err: validationResult.error, validationErrors: validationResult.error.format() }, 'Validation failed');
+        throw new Error(`Invalid sd-traffic payload: ${validationResult.error.message}`);
+    }
+
+    const data = validationResult.data;
+
+    // Map from snake_case (AMS) to camelCase (Drizzle schema)
+    const record = {
+        idempotencyId: data.idempotency_id,
+        datasetId: data.dataset_id,
+        marketplaceId: data.marketplace_id,
+        currency: data.currency,
+        advertiserId: data.advertiser_id,
+        campaignId: data.campaign_id,
+        adGroupId: data.ad_group_id,
+        adId: data.ad_id,
+        targetId: data.target_id,
+        costType: data.cost_type ?? null,
+        timeWindowStart: new Date(data.time_window_start),
+        clicks: data.clicks,
+        impressions: data.impressions,
+        viewImpressions: data.view_impressions ?? null,
+        cost: data.cost,
+    };
+
+    // Upsert with idempotency
+    await db.insert(amsSdTraffic).values(record).onConflictDoUpdate({
+        target: amsSdTraffic.idempotencyId,
+        set: record,
+    });
+}
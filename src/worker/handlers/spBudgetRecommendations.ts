@@ -0,0 +1,49 @@
+import { lte } from 'drizzle-orm';
+import { db } from '@/db/index.js';
+import { amsSpBudgetRecommendations } from '@/db/schema.js';
+import { createContextLogger } from '@/utils/logger';
+import { spBudgetRecommendationSchema } from '../schemas.js';
+
+/**
+ * Handle Sponsored Products Budget Recommendation events
+ */
+export async function handleSpBudgetRecommendations(payload: unknown): Promise<void> {
+    // Validate payload with Zod (AMS uses snake_case)
+    const validationResult = spBudgetRecommendationSchema.safeParse(payload);
+    if (!validationResult.success) {
+        const datasetId = typeof payload === 'object' && payload !== null && 'dataset_id' in payload ? String(payload.dataset_id) : 'unknown';
+        const logger = createContextLogger({ component: 'handler', handler: 'spBudgetRecommendations', datasetId });
+        logger.error({ err: validationResult.error, validationErrors: validationResult.error.format() }, 'Validation failed');
+        throw new Error(`Invalid sp-budget-recommendations payload: ${validationResult.error.message}`);
+    }
+
+    const data = validationResult.data;
+
+    // Map from snake_case (AMS) to camelCase (Drizzle schema)
+    const record = {
+        advertiserId: data.advertiser_id,
+        marketplaceId: data.marketplace_id,
+        campaignId: data.campaign_id,
+        datasetId: data.dataset_id,
+        currentBudget: data.current_budget ?? null,
+        suggestedBudget: data.suggested_budget,
+        missedOpportunities: data.missed_opportunities ?? null,
+        recommendedAt: new Date(data.recommendation_updated_timestamp),
+    };
+
+    // Keep only the latest recommendation per campaign; older deliveries arriving late are ignored
+    await db
+        .insert(amsSpBudgetRecommendations)
+        .values(record)
+        .onConflictDoUpdate({
+            target: [amsSpBudgetRecommendations.advertiserId, amsSpBudgetRecommendations.marketplaceId, amsSpBudgetRecommendations.campaignId],
+            set: {
+                datasetId: record.datasetId,
+                currentBudget: record.currentBudget,
+                suggestedBudget: record.suggestedBudget,
+                missedOpportunities: record.missedOpportunities,
+                recommendedAt: record.recommendedAt,
+            },
+            setWhere: lte(amsSpBudgetRecommendations.recommendedAt, record.recommendedAt),
+        });
+}
@@ -1,14 +1,14 @@
+import { eq } from 'drizzle-orm';
 import { db } from '@/db/index.js';
 import { amsCmTargets } from '@/db/schema.js';
+import { getAmsTargetBid, recordAmsChange } from '@/lib/change-log';
 import { createContextLogger } from '@/utils/logger';
-import { trackAmsEvent } from '@/utils/ams-metrics.js';
 import { targetSchema } from '../schemas.js';
 
 /**
  * Handle Campaign Management Target events
  */
 export async function handleTargets(payload: unknown): Promise<void> {
-    return trackAmsEvent('target', async () => {
     // Validate payload with Zod (AMS uses snake_case)
     const validationResult = targetSchema.safeParse(payload);
     if (!validationResult.success) {
@@ -42,13 +42,43 @@ export async function handleTargets(payload: unknown): Promise<void> {
         tags: data.tags ?? null, // Array of { key, value } objects
     };
 
-    // Upsert with idempotency using targetId
-    await db
-        .insert(amsCmTargets)
-        .values(record)
-        .onConflictDoUpdate({
-            target: [amsCmTargets.targetId],
-            set: record,
-        });
+    await db.transaction(async tx => {
+        // The previous message for this target, locked so concurrent messages compare against each other in order
+        const [previous] = await tx
+            .select({ bid: amsCmTargets.bid, lastUpdatedDateTime: amsCmTargets.lastUpdatedDateTime })
+            .from(amsCmTargets)
+            .where(eq(amsCmTargets.targetId, record.targetId))
+            .for('update');
+
+        // AMS can deliver out of order; a message older than the stored one would record a spurious reversal
+        if (previous?.lastUpdatedDateTime && record.lastUpdatedDateTime && record.lastUpdatedDateTime < previous.lastUpdatedDateTime) {
+            return;
+        }
+
+        // Upsert with idempotency using targetId
+        await tx
+            .insert(amsCmTargets)
+            .values(record)
+            .onConflictDoUpdate({
+                target: [amsCmTargets.targetId],
+                set: record,
+            });
+
+        // Bid changes made in Amazon show up as a difference from the previous message
+        if (previous) {
+            await recordAmsChange(
+                {
+                    entityType: 'target',
+                    entityId: record.targetId,
+                    campaignId: record.campaignId,
+                    adGroupId: record.adGroupId,
+                    field: 'bid',
+                    oldValue: getAmsTargetBid(previous.bid),
+                    newValue: getAmsTargetBid(record.bid),
+                    changedAt: record.lastUpdatedDateTime ?? new Date(),
+                },
+                tx
+            );
+        }
     });
 }
@@ -1,8 +1,11 @@
+import { db } from '@/db/index.js';
+import { amsUnrouted } from '@/db/schema.js';
+import { trackAmsEvent } from '@/utils/ams-metrics.js';
 import { createContextLogger } from '@/utils/logger';
-import { handleAdGroups, handleAds, handleBudgetUsage, handleCampaigns, handleSpConversion, handleSpTraffic, handleTargets } from './handlers/index.js';
+import { detectAmsSchemaVersion, findAmsDataset, upgradeAmsPayload } from './datasets.js';
 
 /**
- * Route AMS payload to the appropriate handler based on datasetId
+ * Route AMS payload to the registered dataset handler based on datasetId
  * @param payload - Parsed AMS payload (can be single object or array)
  */
 export async function routePayload(payload: unknown): Promise<void> {
@@ -35,25 +38,14 @@ async function routeSinglePayload(payload: unknown): Promise<void> {
 
     const routerLogger = createContextLogger({ component: 'router', datasetId });
 
-    // Route based on datasetId prefix
-    if (datasetId.startsWith('sp-traffic')) {
-        await handleSpTraffic(payload);
-    } else if (datasetId.startsWith('sp-conversion')) {
-        await handleSpConversion(payload);
-    } else if (datasetId.startsWith('budget-usage')) {
-        await handleBudgetUsage(payload);
-    } else if (datasetId.startsWith('ads-campaign-management-campaigns')) {
-        await handleCampaigns(payload);
-    } else if (datasetId.startsWith('ads-campaign-management-adgroups')) {
-        await handleAdGroups(payload);
-    } else if (datasetId.startsWith('ads-campaign-management-ads')) {
-        await handleAds(payload);
-    } else if (datasetId.startsWith('ads-campaign-management-targets')) {
-        await handleTargets(payload);
-    } else {
-        // Log unknown dataset before throwing error
-        routerLogger.error({ datasetId }, 'Unknown datasetId - message will be retried and eventually routed to DLQ');
-        // Throw error so unknown datasets go through SQS retry → DLQ for triage
-        throw new Error(`Unknown datasetId: ${datasetId}. Message will be retried and eventually routed to DLQ.`);
+    const dataset = findAmsDataset(datasetId);
+    if (!dataset) {
+        // Park unknown datasets for triage rather than retrying them into the DLQ
+        routerLogger.warn({ datasetId }, 'Unknown datasetId - payload parked in ams_unrouted');
+        await db.insert(amsUnrouted).values({ datasetId, payload: payloadObj });
+        return;
     }
+
+    const schemaVersion = detectAmsSchemaVersion(dataset, payloadObj);
+    await trackAmsEvent(dataset.entityType, schemaVersion, () => dataset.handle(upgradeAmsPayload(dataset, payloadObj, schemaVersion)));
 }
@@ -90,6 +90,112 @@ export const budgetUsageSchema = baseAmsPayloadSchema
     })
     .passthrough();
 
+// Sponsored Brands Traffic schema - AMS uses snake_case
+// Based on official AMS Sponsored Brands Traffic dataset schema
+export const sbTrafficSchema = baseAmsPayloadSchema
+    .extend({
+        idempotency_id: z.string(), // An identifier than can be used to de-duplicate records
+        dataset_id: z.string(), // An identifier used to identify the dataset (in this case, sb-traffic)
+        marketplace_id: z.string(), // The marketplace identifier associated with the account
+        currency: z.string(), // The currency used for all monetary values for entities under the profile
+        advertiser_id: z.string(), // ID associated with the advertiser (not unique, may be same across marketplaces; for non-seller accounts, set to entity ID)
+        campaign_id: z.string(), // Unique numerical ID for a campaign
+        ad_group_id: z.string(), // Unique numerical ID for an ad group
+        ad_id: z.string(), // Unique numerical ID for the ad
+        keyword_id: z.string(), // ID of the keyword or product target used for a bid
+        keyword_text: z.string().optional(), // Text of the keyword or phrase used for a bid (absent for product targets)
+        match_type: z.string().optional(), // Type of matching for the keyword or phrase used in a bid
+        time_window_start: z.string(), // The start of the hour to which the performance data is attributed (ISO 8601 date time)
+        clicks: z.number().int(), // Total ad clicks (Long)
+        impressions: z.number().int(), // Total ad impressions (Long) - Can be negative for corrections
+        viewable_impressions: z.number().int().optional(), // Impressions that met the viewability standard (Long)
+        cost: z.number(), // Total cost of all clicks, expressed in local currency (Double)
+    })
+    .passthrough();
+
+// Sponsored Brands Conversion schema - AMS uses snake_case
+// Based on official AMS Sponsored Brands Conversion dataset schema
+export const sbConversionSchema = baseAmsPayloadSchema
+    .extend({
+        idempotency_id: z.string(), // An identifier than can be used to de-duplicate records
+        dataset_id: z.string(), // An identifier used to identify the dataset (in this case, sb-conversion)
+        marketplace_id: z.string(), // The marketplace identifier associated with the account
+        currency: z.string(), // The currency used for all monetary values for entities under the profile
+        advertiser_id: z.string(), // ID associated with the advertiser (not unique, may be same across marketplaces; for non-seller accounts, set to entity ID)
+        campaign_id: z.string(), // Unique numerical ID for a campaign
+        ad_group_id: z.string(), // Unique numerical ID for an ad group
+        ad_id: z.string(), // Unique numerical ID for the ad
+        keyword_id: z.string(), // ID of the keyword or product target used for a bid
+        time_window_start: z.string(), // The start of the hour to which the performance data is attributed (ISO 8601 date time)
+        // Sponsored Brands only attributes over 14 days; fields may not be present if no conversions occurred
+        attributed_conversions_14d: z.number().int().optional(), // Number of attributed conversion events occurring within 14 days of an ad click
+        attributed_sales_14d: z.number().optional(), // Total value of sales occurring within 14 days of an ad click
+        attributed_units_ordered_14d: z.number().int().optional(), // Total number of units ordered within 14 days of an ad click
+        attributed_new_to_brand_purchases_14d: z.number().int().optional(), // Purchases within 14 days by customers new to the brand in the last 12 months
+        attributed_new_to_brand_sales_14d: z.number().optional(), // Sales within 14 days to customers new to the brand in the last 12 months
+    })
+    .passthrough();
+
+// Sponsored Display Traffic schema - AMS uses snake_case
+// Based on official AMS Sponsored Display Traffic dataset schema
+export const sdTrafficSchema = baseAmsPayloadSchema
+    .extend({
+        idempotency_id: z.string(), // An identifier than can be used to de-duplicate records
+        dataset_id: z.string(), // An identifier used to identify the dataset (in this case, sd-traffic)
+        marketplace_id: z.string(), // The marketplace identifier associated with the account
+        currency: z.string(), // The currency used for all monetary values for entities under the profile
+        advertiser_id: z.string(), // ID associated with the advertiser (not unique, may be same across marketplaces; for non-seller accounts, set to entity ID)
+        campaign_id: z.string(), // Unique numerical ID for a campaign
+        ad_group_id: z.string(), // Unique numerical ID for an ad group
+        ad_id: z.string(), // Unique numerical ID for the ad
+        target_id: z.string(), // ID of the product or audience target used for a bid
+        cost_type: z.string().optional(), // enum: CPC / VCPM
+        time_window_start: z.string(), // The start of the hour to which the performance data is attributed (ISO 8601 date time)
+        clicks: z.number().int(), // Total ad clicks (Long)
+        impressions: z.number().int(), // Total ad impressions (Long) - Can be negative for corrections
+        view_impressions: z.number().int().optional(), // Viewable impressions, billed for VCPM campaigns (Long)
+        cost: z.number(), // Total cost of clicks or viewable impressions, expressed in local currency (Double)
+    })
+    .passthrough();
+
+// Sponsored Display Conversion schema - AMS uses snake_case
+// Based on official AMS Sponsored Display Conversion dataset schema
+export const sdConversionSchema = baseAmsPayloadSchema
+    .extend({
+        idempotency_id: z.string(), // An identifier than can be used to de-duplicate records
+        dataset_id: z.string(), // An identifier used to identify the dataset (in this case, sd-conversion)
+        marketplace_id: z.string(), // The marketplace identifier associated with the account
+        currency: z.string(), // The currency used for all monetary values for entities under the profile
+        advertiser_id: z.string(), // ID associated with the advertiser (not unique, may be same across marketplaces; for non-seller accounts, set to entity ID)
+        campaign_id: z.string(), // Unique numerical ID for a campaign
+        ad_group_id: z.string(), // Unique numerical ID for an ad group
+        ad_id: z.string(), // Unique numerical ID for the ad
+        target_id: z.string(), // ID of the product or audience target used for a bid
+        time_window_start: z.string(), // The start of the hour to which the performance data is attributed (ISO 8601 date time)
+        // Sponsored Display only attributes over 14 days; fields may not be present if no conversions occurred
+        attributed_conversions_14d: z.number().int().optional(), // Number of attributed conversion events occurring within 14 days of an ad click
+        attributed_sales_14d: z.number().optional(), // Total value of sales occurring within 14 days of an ad click
+        attributed_units_ordered_14d: z.number().int().optional(), // Total number of units ordered within 14 days of an ad click
+        view_attributed_conversions_14d: z.number().int().optional(), // Conversions within 14 days of a viewable impression without a click
+        view_attributed_sales_14d: z.number().optional(), // Sales within 14 days of a viewable impression without a click
+    })
+    .passthrough();
+
+// Sponsored Products Budget Recommendations schema - AMS uses snake_case
+// Based on official AMS Sponsored Products Budget Recommendations dataset schema
+export const spBudgetRecommendationSchema = baseAmsPayloadSchema
+    .extend({
+        dataset_id: z.string(), // An identifier used to identify the dataset (in this case, sp-budget-recommendations)
+        advertiser_id: z.string(), // ID associated with the advertiser (not unique, may be same across marketplaces)
+        marketplace_id: z.string(), // The identifier of the marketplace to which the account is associated
+        campaign_id: z.string(), // Unique numerical ID for the campaign the recommendation applies to
+        current_budget: z.number().optional(), // The campaign's daily budget when the recommendation was made
+        suggested_budget: z.number(), // Recommended daily budget, expressed in local currency
+        missed_opportunities: z.record(z.unknown()).optional(), // Estimated missed impressions, clicks and sales while out of budget
+        recommendation_updated_timestamp: z.string(), // When the recommendation was last evaluated (ISO 8601 datetime)
+    })
+    .passthrough();
+
 // Campaign Management Campaign schema - AMS uses snake_case
 // Based on official AMS Campaign Management Campaign dataset schema
 export const campaignSchema = baseAmsPayloadSchema